@@ -3,20 +3,46 @@ export * from "./src/core";
 
 // 导出全屏功能
 export { default as fullscreen } from "./src/fullscreen";
-export { FullscreenManager } from "./src/fullscreen";
+export { FullscreenManager, getFullscreenManager, resetFullscreenManager } from "./src/fullscreen";
 export type {
   FullscreenOptions,
   FullscreenEventType,
+  FullscreenEvents,
 } from "./src/fullscreen";
 
 // 导出剪贴板功能
 export { default as clipboard } from "./src/clipboard";
-export { ClipboardManager } from "./src/clipboard";
+export { ClipboardManager, getClipboardManager, HtmlSanitizer, sanitizeHtml, HTML_SANITIZER_PROFILES, ClipboardHistory, DEFAULT_HISTORY_REDACTION_RULES, COPY_SUCCESS_EVENT, COPY_ERROR_EVENT } from "./src/clipboard";
 export type {
   ClipboardDataType,
   ClipboardData,
   CopyOptions,
   PasteOptions,
+  ClipboardImageSource,
+  CopyImageOptions,
+  ReadImageOptions,
+  ClipboardWriteData,
+  WriteOptions,
+  ClipboardManagerEvents,
+  HtmlSanitizerOptions,
+  HtmlSanitizerProfile,
+  HtmlSanitizerProfileName,
+  ClipboardHistoryEntry,
+  ClipboardHistoryOptions,
+  ClipboardHistorySource,
+  PasteItem,
+  PasteItemKind,
+  RejectedPasteItem,
+  PasteTargetEvent,
+  PasteTargetHandlers,
+  PasteTargetOptions,
+  DataConverter,
+  ConversionFormat,
+  ConversionRoute,
+  ConversionResult,
+  CopyBindingOptions,
+  CopyBindingSource,
+  CopyBindingEventDetail,
 } from "./src/clipboard";
 
 // 导出工具方法
@@ -40,7 +66,7 @@ export { getBrowserAdapter } from "./src/utils";
 // font 字体功能相关导出
 export { default as font } from "./src/font";
 export { FontManager } from "./src/font";
-export type { FontCheckResult, FontLoadResult, FontOptions } from "./src/font";
+export type { FontCheckResult, FontLoadResult, FontOptions, AddFontsOptions, FontManagerEvents } from "./src/font";
 export * from "./src/font/utils";
 
 // url URL功能相关导出
@@ -50,6 +76,7 @@ export {
   UrlManager,
   createUrlManager
 } from "./src/url";
+export type { UrlManagerEvents } from "./src/url";
 
 // device 设备检测功能相关导出
 export { default as device } from "./src/device";
@@ -65,6 +92,7 @@ export {
   getDevicePerformanceInfo,
   getPerformanceOptimizationSuggestions
 } from "./src/device";
+export type { DeviceDetectorEvents } from "./src/device";
 
 // ua User Agent功能相关导出
 export { default as ua } from "./src/ua";
@@ -73,8 +101,10 @@ export {
   parseUA,
   generateUA,
   compareVersions,
-  UAManager
+  UAManager,
+  parseUserAgentFromHeaders
 } from "./src/ua";
+export type { UAManagerEvents, UARequestHeaders } from "./src/ua";
 
 // 默认导出
 import * as core from "./src/core";
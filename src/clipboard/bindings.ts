@@ -0,0 +1,226 @@
+/**
+ * 复制按钮绑定
+ *
+ * @description 声明式的复制按钮：通过事件委托处理容器内的触发器（默认 [data-copy]），
+ * 复制属性值、data-copy-target 引用的元素内容或函数返回的内容，触发成功/失败自定义事件，
+ * 在触发器上设置 data-copy-state 状态属性，并通过 aria-live 区域向读屏软件播报结果
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { createCustomEvent, delegate } from '../utils/dom';
+import type { ClipboardManager, CopyOptions } from './index';
+
+/**
+ * 复制内容来源：
+ * - 'attribute'：触发器的属性值（默认 data-copy）
+ * - 'target'：data-copy-target 选择器引用的元素，输入框复制值，其他元素按格式复制文本或 HTML
+ * - 'auto'：有 data-copy-target 时使用 target，否则使用 attribute（默认）
+ * - 函数：返回要复制的字符串或元素
+ */
+export type CopyBindingSource =
+  | 'auto'
+  | 'attribute'
+  | 'target'
+  | ((trigger: Element, event: Event) => string | Element | null | Promise<string | Element | null>);
+
+/**
+ * 复制绑定选项
+ */
+export interface CopyBindingOptions {
+  /** 触发器选择器，默认 '[data-copy]' */
+  selector?: string;
+  /** 复制内容来源，默认 'auto' */
+  source?: CopyBindingSource;
+  /** 复制内容所在的属性，默认 'data-copy' */
+  attribute?: string;
+  /** 引用目标元素的属性，默认 'data-copy-target' */
+  targetAttribute?: string;
+  /** 复制格式，触发器的 data-copy-format 属性优先，默认 'text' */
+  format?: 'text' | 'html';
+  /** 触发事件，默认 'click' */
+  event?: string;
+  /** 传给 copyText / copyHTML 的选项 */
+  copyOptions?: CopyOptions;
+  /** data-copy-state 属性保留的时间（毫秒），0 表示不自动移除，默认 2000 */
+  feedbackDuration?: number;
+  /** 是否通过 aria-live 区域播报结果，默认 true */
+  announce?: boolean;
+  /** 成功播报文本，触发器的 data-copy-success 属性优先，默认 'Copied to clipboard' */
+  successMessage?: string;
+  /** 失败播报文本，触发器的 data-copy-error 属性优先，默认 'Copy failed' */
+  errorMessage?: string;
+}
+
+/**
+ * 复制成功/失败事件的 detail
+ */
+export interface CopyBindingEventDetail {
+  /** 触发器 */
+  trigger: Element;
+  /** 复制格式 */
+  format: 'text' | 'html';
+  /** 复制的内容，失败时可能为空 */
+  data?: string;
+  /** 失败原因 */
+  error?: unknown;
+}
+
+/** 复制成功时在触发器上触发的事件（冒泡） */
+export const COPY_SUCCESS_EVENT = 'copy-success';
+/** 复制失败时在触发器上触发的事件（冒泡） */
+export const COPY_ERROR_EVENT = 'copy-error';
+
+/** 视觉隐藏但读屏软件可读的样式 */
+const VISUALLY_HIDDEN_STYLE = 'position:absolute;width:1px;height:1px;margin:-1px;padding:0;'
+  + 'overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0';
+
+/**
+ * 复制按钮绑定，由 ClipboardManager.bindCopy 创建
+ */
+export class CopyBinding {
+  private options: Required<Omit<CopyBindingOptions, 'copyOptions'>> & Pick<CopyBindingOptions, 'copyOptions'>;
+  private removeListener: () => void;
+  private liveRegion: HTMLElement | null = null;
+  private feedbackTimers: Map<Element, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(
+    private manager: ClipboardManager,
+    private container: Element,
+    options: CopyBindingOptions = {}
+  ) {
+    this.options = {
+      selector: '[data-copy]',
+      source: 'auto',
+      attribute: 'data-copy',
+      targetAttribute: 'data-copy-target',
+      format: 'text',
+      event: 'click',
+      feedbackDuration: 2000,
+      announce: true,
+      successMessage: 'Copied to clipboard',
+      errorMessage: 'Copy failed',
+      ...options
+    };
+
+    this.removeListener = delegate(container, this.options.selector, this.options.event, (event, trigger) => {
+      // 触发器可能是链接或表单按钮
+      event.preventDefault();
+      void this.copy(trigger, event);
+    });
+  }
+
+  /**
+   * 移除监听器、状态属性和播报区域
+   */
+  destroy(): void {
+    this.removeListener();
+    this.feedbackTimers.forEach((timer, trigger) => {
+      clearTimeout(timer);
+      trigger.removeAttribute('data-copy-state');
+    });
+    this.feedbackTimers.clear();
+    this.liveRegion?.remove();
+    this.liveRegion = null;
+  }
+
+  /**
+   * 复制触发器对应的内容并反馈结果
+   */
+  private async copy(trigger: Element, event: Event): Promise<void> {
+    const format = (trigger.getAttribute('data-copy-format') as 'text' | 'html' | null) || this.options.format;
+    let data: string | undefined;
+
+    try {
+      data = await this.resolveData(trigger, event, format);
+      if (data === undefined) {
+        throw new Error('Nothing to copy for trigger');
+      }
+
+      const copied = format === 'html'
+        ? await this.manager.copyHTML(data, this.options.copyOptions)
+        : await this.manager.copyText(data, this.options.copyOptions);
+      if (!copied) {
+        throw new Error('Clipboard copy was not completed');
+      }
+
+      this.feedback(trigger, 'copied', trigger.getAttribute('data-copy-success') || this.options.successMessage);
+      trigger.dispatchEvent(createCustomEvent(COPY_SUCCESS_EVENT, { trigger, format, data } as CopyBindingEventDetail));
+    } catch (error) {
+      this.feedback(trigger, 'error', trigger.getAttribute('data-copy-error') || this.options.errorMessage);
+      trigger.dispatchEvent(createCustomEvent(COPY_ERROR_EVENT, { trigger, format, data, error } as CopyBindingEventDetail));
+    }
+  }
+
+  /**
+   * 按来源解析要复制的内容
+   * @returns 要复制的字符串，没有内容时返回 undefined
+   */
+  private async resolveData(trigger: Element, event: Event, format: 'text' | 'html'): Promise<string | undefined> {
+    const { source, attribute, targetAttribute } = this.options;
+
+    let resolved: string | Element | null;
+    if (typeof source === 'function') {
+      resolved = await source(trigger, event);
+    } else if (source === 'target' || (source === 'auto' && trigger.hasAttribute(targetAttribute))) {
+      const selector = trigger.getAttribute(targetAttribute);
+      resolved = selector ? trigger.ownerDocument.querySelector(selector) : null;
+    } else {
+      resolved = trigger.getAttribute(attribute);
+    }
+
+    if (resolved === null || resolved === '') {
+      return undefined;
+    }
+    if (typeof resolved === 'string') {
+      return resolved;
+    }
+    if (resolved instanceof HTMLInputElement || resolved instanceof HTMLTextAreaElement) {
+      return resolved.value;
+    }
+    return format === 'html' ? resolved.innerHTML : resolved.textContent || '';
+  }
+
+  /**
+   * 设置触发器状态属性并播报
+   */
+  private feedback(trigger: Element, state: 'copied' | 'error', message: string): void {
+    trigger.setAttribute('data-copy-state', state);
+
+    const timer = this.feedbackTimers.get(trigger);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.feedbackTimers.delete(trigger);
+    }
+    if (this.options.feedbackDuration > 0) {
+      this.feedbackTimers.set(trigger, setTimeout(() => {
+        trigger.removeAttribute('data-copy-state');
+        this.feedbackTimers.delete(trigger);
+      }, this.options.feedbackDuration));
+    }
+
+    if (this.options.announce) {
+      const region = this.getLiveRegion();
+      // 先清空再写入，连续相同的消息也会产生内容变更
+      region.textContent = '';
+      region.textContent = message;
+    }
+  }
+
+  /**
+   * 惰性创建 aria-live 播报区域
+   */
+  private getLiveRegion(): HTMLElement {
+    if (!this.liveRegion) {
+      const doc = this.container.ownerDocument;
+      const region = doc.createElement('div');
+      region.setAttribute('role', 'status');
+      region.setAttribute('aria-live', 'polite');
+      region.setAttribute('aria-atomic', 'true');
+      region.setAttribute('style', VISUALLY_HIDDEN_STYLE);
+      doc.body.appendChild(region);
+      this.liveRegion = region;
+    }
+    return this.liveRegion;
+  }
+}
@@ -0,0 +1,1361 @@
+/**
+ * 剪贴板数据转换器
+ *
+ * @description 数据转换器基类、转换器图（多步路径查找），以及 Markdown、RTF 和 Office 文档相关的内置转换器：
+ * HTML 与 Markdown 互转（标题、列表、表格、链接、代码块），RTF 转 HTML（保留粗体、斜体、颜色和表格），
+ * 清理从 Word / Google Docs 粘贴的 HTML。HTML 使用清理器的解析器解析，非浏览器环境同样可用
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import {
+  DROP_CONTENT_TAGS,
+  escapeAttribute,
+  escapeText,
+  isSafeCssValue,
+  parseHtmlFragment,
+  URL_ATTRIBUTES,
+  VOID_TAGS
+} from './sanitizer';
+import type { SanitizerElement, SanitizerNode } from './sanitizer';
+import type { ClipboardDataType, ConversionFormat, ConversionRoute, DataConverter } from './index';
+
+/**
+ * 抽象数据转换器基类
+ */
+export abstract class BaseDataConverter implements DataConverter {
+  abstract readonly fromType: ConversionFormat;
+  abstract readonly toType: ConversionFormat;
+  abstract readonly name: string;
+  readonly supportsBigData: boolean = false;
+
+  canConvert(from: ConversionFormat, to: ConversionFormat): boolean {
+    return from === this.fromType && to === this.toType;
+  }
+
+  abstract convert(data: any, from: ConversionFormat, to: ConversionFormat): Promise<any>;
+
+  validateInput(data: any): boolean {
+    return data !== null && data !== undefined;
+  }
+
+  getOptions(): Record<string, any> {
+    return {};
+  }
+
+  /**
+   * 处理大数据的分块转换
+   */
+  protected async processInChunks<T>(
+    data: string,
+    processor: (chunk: string) => T,
+    chunkSize: number = 64 * 1024
+  ): Promise<T[]> {
+    const chunks: T[] = [];
+    for (let i = 0; i < data.length; i += chunkSize) {
+      const chunk = data.slice(i, i + chunkSize);
+      chunks.push(processor(chunk));
+    }
+    return chunks;
+  }
+}
+
+/**
+ * 路径查找中的候选路径
+ */
+interface RouteCandidate extends ConversionRoute {
+  hops: number;
+  priority: number;
+}
+
+/**
+ * 转换器图：格式为节点，转换器为有向边。按总代价最小查找多步转换路径，
+ * 代价相同时选择步数少的路径，再选择优先级高的路径，仍相同时使用后注册的转换器。
+ * 查找结果会被缓存，注册或移除转换器时清空
+ */
+export class DataConverterGraph {
+  private edges: Map<ConversionFormat, DataConverter[]> = new Map();
+  private routes: Map<string, ConversionRoute | null> = new Map();
+
+  /**
+   * 已注册的转换器数量
+   */
+  get size(): number {
+    let size = 0;
+    this.edges.forEach(converters => {
+      size += converters.length;
+    });
+    return size;
+  }
+
+  /**
+   * 注册转换器，同一对格式上的同名转换器会被替换
+   */
+  register(converter: DataConverter): void {
+    const converters = (this.edges.get(converter.fromType) || [])
+      .filter(item => !(item.name === converter.name && item.toType === converter.toType));
+    converters.push(converter);
+    this.edges.set(converter.fromType, converters);
+    this.routes.clear();
+  }
+
+  /**
+   * 按名称移除转换器
+   * @returns 是否移除了转换器
+   */
+  unregister(name: string): boolean {
+    let removed = false;
+    this.edges.forEach((converters, format) => {
+      const remaining = converters.filter(converter => converter.name !== name);
+      if (remaining.length !== converters.length) {
+        removed = true;
+        this.edges.set(format, remaining);
+      }
+    });
+    if (removed) {
+      this.routes.clear();
+    }
+    return removed;
+  }
+
+  /**
+   * 是否存在直接转换器
+   */
+  has(from: ConversionFormat, to: ConversionFormat): boolean {
+    return (this.edges.get(from) || []).some(converter => converter.toType === to && converter.canConvert(from, to));
+  }
+
+  /**
+   * 查找转换路径
+   * @returns 转换路径，源格式和目标格式相同且没有对应转换器时返回空路径，不可达时返回 null
+   */
+  findRoute(from: ConversionFormat, to: ConversionFormat): ConversionRoute | null {
+    const key = `${from}\u0000${to}`;
+    if (!this.routes.has(key)) {
+      this.routes.set(key, this.search(from, to));
+    }
+    return this.routes.get(key)!;
+  }
+
+  /**
+   * 移除所有转换器
+   */
+  clear(): void {
+    this.edges.clear();
+    this.routes.clear();
+  }
+
+  /**
+   * Dijkstra 最短路径查找（格式数量很少，每轮线性选择未访问的最优节点）
+   */
+  private search(from: ConversionFormat, to: ConversionFormat): ConversionRoute | null {
+    const best = new Map<ConversionFormat, RouteCandidate>();
+    const visited = new Set<ConversionFormat>();
+    best.set(from, { converters: [], path: [from], cost: 0, hops: 0, priority: 0 });
+
+    // 同格式转换（如 html → html 的清理）只使用直接转换器
+    if (from === to) {
+      const route = this.relax(from, best.get(from)!).find(candidate => candidate.path[1] === to);
+      return route ? toRoute(route) : toRoute(best.get(from)!);
+    }
+
+    for (;;) {
+      let current: ConversionFormat | undefined;
+      best.forEach((candidate, format) => {
+        if (!visited.has(format) && (current === undefined || isBetterRoute(candidate, best.get(current)!))) {
+          current = format;
+        }
+      });
+      if (current === undefined) {
+        return null;
+      }
+
+      const candidate = best.get(current)!;
+      if (current === to) {
+        return toRoute(candidate);
+      }
+      visited.add(current);
+
+      for (const next of this.relax(current, candidate)) {
+        const format = next.path[next.path.length - 1];
+        const existing = best.get(format);
+        if (format !== current && !visited.has(format) && (!existing || isBetterRoute(next, existing))) {
+          best.set(format, next);
+        }
+      }
+    }
+  }
+
+  /**
+   * 沿当前格式的每条边扩展路径，同一目标格式只保留最优的一条
+   */
+  private relax(format: ConversionFormat, candidate: RouteCandidate): RouteCandidate[] {
+    const next = new Map<ConversionFormat, RouteCandidate>();
+    // 倒序遍历，条件相同时保留后注册的转换器
+    for (const converter of [...(this.edges.get(format) || [])].reverse()) {
+      if (!converter.canConvert(format, converter.toType)) {
+        continue;
+      }
+      const extended: RouteCandidate = {
+        converters: [...candidate.converters, converter],
+        path: [...candidate.path, converter.toType],
+        cost: candidate.cost + (converter.cost ?? 1),
+        hops: candidate.hops + 1,
+        priority: candidate.priority + (converter.priority ?? 0)
+      };
+      const existing = next.get(converter.toType);
+      if (!existing || isBetterRoute(extended, existing)) {
+        next.set(converter.toType, extended);
+      }
+    }
+    return Array.from(next.values());
+  }
+}
+
+function isBetterRoute(a: RouteCandidate, b: RouteCandidate): boolean {
+  if (a.cost !== b.cost) {
+    return a.cost < b.cost;
+  }
+  if (a.hops !== b.hops) {
+    return a.hops < b.hops;
+  }
+  return a.priority > b.priority;
+}
+
+function toRoute({ converters, path, cost }: RouteCandidate): ConversionRoute {
+  return { converters, path, cost };
+}
+
+/**
+ * Office 文档 HTML 清理转换器（html → html）：移除 mso-* 样式、Mso 类名、Office 命名空间标签、
+ * 空 span 和空段落，将 Word 的列表段落还原为 ul/ol，将 Google Docs 的样式 span 还原为语义标签
+ */
+export class OfficeHtmlCleanupConverter extends BaseDataConverter {
+  readonly fromType: ClipboardDataType = 'html';
+  readonly toType: ClipboardDataType = 'html';
+  readonly name = 'OfficeHtmlCleanupConverter';
+
+  async convert(data: string): Promise<string> {
+    if (!this.validateInput(data)) {
+      throw new Error('Invalid HTML data for Office cleanup');
+    }
+    return serializeHtml(cleanupOfficeNodes(parseHtmlFragment(data)));
+  }
+
+  validateInput(data: any): boolean {
+    return typeof data === 'string';
+  }
+}
+
+/**
+ * HTML 到 Markdown 转换器，转换前先进行 Office 清理
+ */
+export class HtmlToMarkdownConverter extends BaseDataConverter {
+  readonly fromType: ClipboardDataType = 'html';
+  readonly toType: ClipboardDataType = 'markdown';
+  readonly name = 'HtmlToMarkdownConverter';
+
+  async convert(data: string): Promise<string> {
+    if (!this.validateInput(data)) {
+      throw new Error('Invalid HTML data for Markdown conversion');
+    }
+    return joinMarkdownBlocks(collectMarkdownBlocks(cleanupOfficeNodes(parseHtmlFragment(data))));
+  }
+
+  validateInput(data: any): boolean {
+    return typeof data === 'string';
+  }
+}
+
+/**
+ * Markdown 到 HTML 转换器（CommonMark 常用语法和 GFM 表格、删除线），Markdown 中的原始 HTML 会被转义
+ */
+export class MarkdownToHtmlConverter extends BaseDataConverter {
+  readonly fromType: ClipboardDataType = 'markdown';
+  readonly toType: ClipboardDataType = 'html';
+  readonly name = 'MarkdownToHtmlConverter';
+
+  async convert(data: string): Promise<string> {
+    if (!this.validateInput(data)) {
+      throw new Error('Invalid Markdown data for HTML conversion');
+    }
+    const lines = data.replace(/\u0000/g, '').replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+    return markdownBlocksToHtml(lines, false);
+  }
+
+  validateInput(data: any): boolean {
+    return typeof data === 'string';
+  }
+}
+
+/**
+ * RTF 到 HTML 转换器：保留段落、换行、粗体、斜体、下划线、删除线、文字颜色、背景色和表格
+ */
+export class RtfToHtmlConverter extends BaseDataConverter {
+  readonly fromType: ClipboardDataType = 'rtf';
+  readonly toType: ClipboardDataType = 'html';
+  readonly name = 'RtfToHtmlConverter';
+
+  async convert(data: string): Promise<string> {
+    if (!this.validateInput(data)) {
+      throw new Error('Invalid RTF data for HTML conversion');
+    }
+    return rtfToHtml(data);
+  }
+
+  validateInput(data: any): boolean {
+    return typeof data === 'string' && data.startsWith('{\\rtf');
+  }
+}
+
+// ============================================================================
+// HTML 节点工具
+// ============================================================================
+
+function getAttribute(element: SanitizerElement, name: string): string | undefined {
+  const attribute = element.attributes.find(([key]) => key.toLowerCase() === name);
+  return attribute ? attribute[1] : undefined;
+}
+
+function textContent(node: SanitizerNode): string {
+  return node.type === 'text' ? node.value : node.children.map(textContent).join('');
+}
+
+function createElement(tag: string, children: SanitizerNode[] = []): SanitizerElement {
+  return { type: 'element', tag, attributes: [], children };
+}
+
+function serializeHtml(nodes: SanitizerNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return escapeText(node.value);
+    }
+    const attributes = node.attributes.map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('');
+    return VOID_TAGS.has(node.tag)
+      ? `<${node.tag}${attributes}>`
+      : `<${node.tag}${attributes}>${serializeHtml(node.children)}</${node.tag}>`;
+  }).join('');
+}
+
+/**
+ * 链接地址是否安全（禁止 javascript:、vbscript: 和 data:，图像允许 data:image/*）
+ */
+function isSafeUrl(url: string, image = false): boolean {
+  const normalized = url.replace(/[\u0000-\u0020\u007f-\u009f]/g, '').toLowerCase();
+  if (image && /^data:image\/(png|gif|jpe?g|webp|bmp|avif)[;,]/.test(normalized)) {
+    return true;
+  }
+  return !/^(javascript|vbscript|data):/.test(normalized);
+}
+
+// ============================================================================
+// Office 清理
+// ============================================================================
+
+/** Office 文档中连同内容一起移除的标签：粘贴的内容不可信，与清理器一样移除脚本和嵌入内容 */
+const OFFICE_DROP_TAGS = new Set([...DROP_CONTENT_TAGS, 'xml']);
+
+/** Google Docs 为每个 span 写入的默认样式，清理时移除 */
+const OFFICE_DEFAULT_STYLES = /^(font-weight:\s*(normal|400)|font-style:\s*normal|font-variant:\s*normal|text-decoration:\s*none|vertical-align:\s*baseline|background-color:\s*transparent|white-space:.*)$/i;
+
+interface OfficeListItem {
+  element: SanitizerElement;
+  level: number;
+  ordered: boolean;
+}
+
+/**
+ * 清理节点列表，连续的 Word 列表段落合并为列表
+ */
+function cleanupOfficeNodes(nodes: SanitizerNode[]): SanitizerNode[] {
+  const result: SanitizerNode[] = [];
+  let index = 0;
+
+  while (index < nodes.length) {
+    const item = getOfficeListItem(nodes[index]);
+    if (!item) {
+      const node = nodes[index++];
+      result.push(...(node.type === 'text' ? [node] : cleanupOfficeElement(node)));
+      continue;
+    }
+
+    const items: OfficeListItem[] = [item];
+    index++;
+    // 段落之间的空白文本不会打断列表
+    let next = index;
+    while (next < nodes.length) {
+      const node = nodes[next];
+      if (node.type === 'text' && !node.value.trim()) {
+        next++;
+        continue;
+      }
+      const nextItem = getOfficeListItem(node);
+      if (!nextItem) {
+        break;
+      }
+      items.push(nextItem);
+      index = ++next;
+    }
+    result.push(buildOfficeList(items));
+  }
+
+  return result;
+}
+
+/**
+ * 清理单个元素
+ * @returns 清理后的节点，元素被移除或拆开时可能为空或多个节点
+ */
+function cleanupOfficeElement(element: SanitizerElement): SanitizerNode[] {
+  const { tag } = element;
+  const style = getAttribute(element, 'style') || '';
+
+  // Word 列表的编号和项目符号，列表由 buildOfficeList 重新生成
+  if (OFFICE_DROP_TAGS.has(tag) || /mso-list:\s*ignore/i.test(style)) {
+    return [];
+  }
+
+  let children = cleanupOfficeNodes(element.children);
+
+  // o:p、w:sdt、v:shape 等命名空间标签只保留内容
+  if (tag.includes(':')) {
+    return children;
+  }
+
+  // Google Docs 用 <b style="font-weight:normal"> 包裹整个片段
+  if ((tag === 'b' || tag === 'strong') && /font-weight:\s*(normal|400)/i.test(style)) {
+    return children;
+  }
+
+  if (tag === 'span') {
+    if (!children.some(child => child.type === 'element' || child.value)) {
+      return [];
+    }
+    // Google Docs 用样式表示粗体、斜体和删除线
+    if (/text-decoration:[^;]*line-through/i.test(style)) {
+      children = [createElement('s', children)];
+    }
+    if (/text-decoration:[^;]*underline/i.test(style)) {
+      children = [createElement('u', children)];
+    }
+    if (/font-style:\s*italic/i.test(style)) {
+      children = [createElement('em', children)];
+    }
+    if (/font-weight:\s*(bold|[6-9]00)/i.test(style)) {
+      children = [createElement('strong', children)];
+    }
+  }
+
+  const attributes = cleanupOfficeAttributes(tag, element.attributes);
+
+  // 清理后没有属性的 span 只保留内容
+  if (tag === 'span' && attributes.length === 0) {
+    return children;
+  }
+
+  // Word 用只包含空白的段落（<o:p>&nbsp;</o:p>）表示空行
+  if (tag === 'p' && !children.some(child => child.type === 'element' || child.value.trim())) {
+    return [];
+  }
+
+  return [{ type: 'element', tag, attributes, children }];
+}
+
+/**
+ * 清理属性：移除 Mso 类名、mso-* 样式、Office 命名空间属性、lang 和 Google Docs 的内部 id，
+ * 以及事件处理属性、不安全的地址和样式值
+ */
+function cleanupOfficeAttributes(tag: string, attributes: Array<[string, string]>): Array<[string, string]> {
+  const result: Array<[string, string]> = [];
+
+  for (const [rawName, value] of attributes) {
+    const name = rawName.toLowerCase();
+    if (name === 'lang' || name.includes(':') || name.startsWith('xmlns') || (name === 'id' && value.startsWith('docs-internal-guid'))) {
+      continue;
+    }
+    if (name.startsWith('on') || name === 'srcdoc' || (URL_ATTRIBUTES.has(name) && !isSafeUrl(value, tag === 'img' && name === 'src'))) {
+      continue;
+    }
+
+    if (name === 'class') {
+      const classes = value.split(/\s+/).filter(className => className && !/^mso/i.test(className));
+      if (classes.length > 0) {
+        result.push([name, classes.join(' ')]);
+      }
+    } else if (name === 'style') {
+      const declarations = value.split(';').map(declaration => declaration.trim()).filter(declaration =>
+        declaration && !/^mso-/i.test(declaration) && isSafeCssValue(declaration.slice(declaration.indexOf(':') + 1))
+          // span 的粗体、斜体等样式已转换为语义标签
+          && !(tag === 'span' && (OFFICE_DEFAULT_STYLES.test(declaration) || /^(font-weight|font-style|text-decoration):/i.test(declaration)))
+      );
+      if (declarations.length > 0) {
+        result.push([name, declarations.join('; ')]);
+      }
+    } else {
+      result.push([name, value]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 识别 Word 列表段落（style 中带有 mso-list: lN levelN）
+ */
+function getOfficeListItem(node: SanitizerNode): OfficeListItem | undefined {
+  if (node.type !== 'element' || node.tag !== 'p') {
+    return undefined;
+  }
+  const match = /mso-list:\s*l\d+\s+level(\d+)/i.exec(getAttribute(node, 'style') || '');
+  if (!match) {
+    return undefined;
+  }
+  const marker = findOfficeListMarker(node.children) || '';
+  return {
+    element: node,
+    level: Number(match[1]),
+    ordered: /^\s*\(?([0-9]+|[a-z]|[ivxlcdm]+)[.)]/i.test(marker)
+  };
+}
+
+/**
+ * 查找 Word 列表段落中的编号文本（mso-list: Ignore 的 span）
+ */
+function findOfficeListMarker(nodes: SanitizerNode[]): string | undefined {
+  for (const node of nodes) {
+    if (node.type !== 'element') {
+      continue;
+    }
+    if (/mso-list:\s*ignore/i.test(getAttribute(node, 'style') || '')) {
+      return textContent(node);
+    }
+    const marker = findOfficeListMarker(node.children);
+    if (marker !== undefined) {
+      return marker;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 根据列表段落的层级生成嵌套列表
+ */
+function buildOfficeList(items: OfficeListItem[]): SanitizerElement {
+  const root = createElement(items[0].ordered ? 'ol' : 'ul');
+  const stack: Array<{ list: SanitizerElement; level: number }> = [{ list: root, level: items[0].level }];
+
+  for (const item of items) {
+    while (stack.length > 1 && item.level < stack[stack.length - 1].level) {
+      stack.pop();
+    }
+    let top = stack[stack.length - 1];
+
+    if (item.level > top.level) {
+      let parent = top.list.children[top.list.children.length - 1] as SanitizerElement | undefined;
+      if (!parent) {
+        parent = createElement('li');
+        top.list.children.push(parent);
+      }
+      const list = createElement(item.ordered ? 'ol' : 'ul');
+      parent.children.push(list);
+      top = { list, level: item.level };
+      stack.push(top);
+    }
+
+    const children = cleanupOfficeNodes(item.element.children);
+    if (children[0]?.type === 'text') {
+      children[0] = { type: 'text', value: children[0].value.replace(/^\s+/, '') };
+    }
+    top.list.children.push(createElement('li', children));
+  }
+
+  return root;
+}
+
+// ============================================================================
+// HTML → Markdown
+// ============================================================================
+
+/** 按块级内容处理的标签 */
+const MARKDOWN_BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'pre', 'blockquote', 'table', 'hr',
+  'section', 'article', 'header', 'footer', 'main', 'nav', 'aside', 'address', 'figure', 'figcaption',
+  'dl', 'dt', 'dd', 'body', 'html'
+]);
+
+interface MarkdownBlock {
+  text: string;
+  /** 是否为列表（列表项中的子列表不需要空行分隔） */
+  list: boolean;
+}
+
+function joinMarkdownBlocks(blocks: MarkdownBlock[], tight = false): string {
+  return blocks.reduce((output, block, index) =>
+    index === 0 ? block.text : `${output}${tight && block.list ? '\n' : '\n\n'}${block.text}`, '');
+}
+
+/**
+ * 将节点列表转换为 Markdown 块，相邻的行内内容合并为段落
+ */
+function collectMarkdownBlocks(nodes: SanitizerNode[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = escapeMarkdownLineStarts(inline.replace(/^\s+|\s+$/g, '').replace(/\n /g, '\n'));
+    if (text) {
+      blocks.push({ text, list: false });
+    }
+    inline = '';
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'element' && MARKDOWN_BLOCK_TAGS.has(node.tag)) {
+      flush();
+      const text = renderMarkdownBlock(node);
+      if (text) {
+        blocks.push({ text, list: node.tag === 'ul' || node.tag === 'ol' });
+      }
+    } else {
+      inline += renderMarkdownInline(node);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function renderMarkdownBlock(element: SanitizerElement): string {
+  const { tag } = element;
+
+  if (/^h[1-6]$/.test(tag)) {
+    const content = renderMarkdownInlineNodes(element.children).replace(/\s+/g, ' ').trim();
+    return content ? `${'#'.repeat(Number(tag[1]))} ${content}` : '';
+  }
+
+  switch (tag) {
+    case 'hr':
+      return '---';
+    case 'pre':
+      return renderMarkdownCodeBlock(element);
+    case 'blockquote': {
+      const content = joinMarkdownBlocks(collectMarkdownBlocks(element.children));
+      return content ? content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n') : '';
+    }
+    case 'ul':
+    case 'ol':
+      return renderMarkdownList(element);
+    case 'table':
+      return renderMarkdownTable(element);
+    default:
+      return joinMarkdownBlocks(collectMarkdownBlocks(element.children));
+  }
+}
+
+function renderMarkdownCodeBlock(element: SanitizerElement): string {
+  const code = element.children.find((child): child is SanitizerElement => child.type === 'element' && child.tag === 'code');
+  const language = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/.exec((code && getAttribute(code, 'class')) || getAttribute(element, 'class') || '');
+  const content = textContent(element).replace(/\n$/, '');
+  const longestFence = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestFence + 1);
+  return `${fence}${language ? language[1] : ''}\n${content}\n${fence}`;
+}
+
+function renderMarkdownList(list: SanitizerElement): string {
+  const ordered = list.tag === 'ol';
+  let number = Number(getAttribute(list, 'start')) || 1;
+
+  return list.children
+    .filter((child): child is SanitizerElement => child.type === 'element')
+    .map(child => {
+      const blocks = child.tag === 'li' ? collectMarkdownBlocks(child.children) : [{ text: renderMarkdownBlock(child), list: true }];
+      const content = joinMarkdownBlocks(blocks, true);
+      if (child.tag !== 'li') {
+        // 直接嵌套在列表中的子列表（不规范但常见）
+        return content;
+      }
+      const marker = ordered ? `${number++}.` : '-';
+      const indent = ' '.repeat(marker.length + 1);
+      return `${marker} ${content.split('\n').map((line, index) => (index === 0 || !line ? line : indent + line)).join('\n')}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function renderMarkdownTable(table: SanitizerElement): string {
+  const rows: SanitizerElement[] = [];
+  const collectRows = (nodes: SanitizerNode[]) => nodes.forEach(node => {
+    if (node.type !== 'element') {
+      return;
+    }
+    if (node.tag === 'tr') {
+      rows.push(node);
+    } else if (node.tag === 'thead' || node.tag === 'tbody' || node.tag === 'tfoot') {
+      collectRows(node.children);
+    }
+  });
+  collectRows(table.children);
+
+  const cells = rows.map(row => row.children.filter((cell): cell is SanitizerElement =>
+    cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th')));
+  const columns = Math.max(0, ...cells.map(row => row.length));
+  if (columns === 0) {
+    return '';
+  }
+
+  const renderRow = (row: string[]) => `| ${row.join(' | ')} |`;
+  const texts = cells.map(row => {
+    const values = row.map(cell => renderMarkdownInlineNodes(cell.children).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'));
+    while (values.length < columns) {
+      values.push('');
+    }
+    return values;
+  });
+  const alignments = Array.from({ length: columns }, (_, index) => {
+    const cell = cells[0][index];
+    const align = cell && (getAttribute(cell, 'align') || /text-align:\s*(left|center|right)/i.exec(getAttribute(cell, 'style') || '')?.[1]);
+    switch ((align || '').toLowerCase()) {
+      case 'left':
+        return ':---';
+      case 'center':
+        return ':---:';
+      case 'right':
+        return '---:';
+      default:
+        return '---';
+    }
+  });
+
+  return [renderRow(texts[0]), renderRow(alignments), ...texts.slice(1).map(renderRow)].join('\n');
+}
+
+function renderMarkdownInlineNodes(nodes: SanitizerNode[]): string {
+  return nodes.map(renderMarkdownInline).join('');
+}
+
+function renderMarkdownInline(node: SanitizerNode): string {
+  if (node.type === 'text') {
+    return escapeMarkdown(node.value.replace(/\s+/g, ' '));
+  }
+
+  const content = () => renderMarkdownInlineNodes(node.children);
+  switch (node.tag) {
+    case 'br':
+      return '  \n';
+    case 'strong':
+    case 'b':
+      return wrapMarkdown('**', content());
+    case 'em':
+    case 'i':
+      return wrapMarkdown('*', content());
+    case 's':
+    case 'del':
+    case 'strike':
+      return wrapMarkdown('~~', content());
+    case 'code': {
+      const code = textContent(node);
+      const longest = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(longest + 1);
+      const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+      return code ? `${fence}${padding}${code}${padding}${fence}` : '';
+    }
+    case 'a': {
+      const text = content();
+      const href = (getAttribute(node, 'href') || '').trim();
+      if (!href || !isSafeUrl(href)) {
+        return text;
+      }
+      const title = getAttribute(node, 'title');
+      return `[${text.trim() || escapeMarkdown(href)}](${formatMarkdownUrl(href)}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+    }
+    case 'img': {
+      const src = (getAttribute(node, 'src') || '').trim();
+      if (!src || !isSafeUrl(src, true)) {
+        return '';
+      }
+      return `![${escapeMarkdown(getAttribute(node, 'alt') || '')}](${formatMarkdownUrl(src)})`;
+    }
+    default:
+      // 行内上下文中的块级标签用空格分隔
+      return MARKDOWN_BLOCK_TAGS.has(node.tag) ? ` ${content()} ` : content();
+  }
+}
+
+/**
+ * 用标记包裹内容，首尾空白放在标记外面（Markdown 不允许标记内侧紧邻空白）
+ */
+function wrapMarkdown(marker: string, content: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+}
+
+function formatMarkdownUrl(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>~]/g, '\\$&');
+}
+
+/**
+ * 转义行首会被解析为标题、引用、列表或分隔线的字符
+ */
+function escapeMarkdownLineStarts(text: string): string {
+  return text.replace(/^([#>+=-])/gm, '\\$1').replace(/^(\d+)([.)])/gm, '$1\\$2');
+}
+
+// ============================================================================
+// Markdown → HTML
+// ============================================================================
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+/** 图像和链接，地址中允许一层成对的括号 */
+const MARKDOWN_IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*((?:[^\s()]|\([^\s()]*\))*)(?:\s+"([^"]*)")?\s*\)/g;
+const MARKDOWN_LINK_PATTERN = /\[([^\]]+)\]\(\s*((?:[^\s()]|\([^\s()]*\))*)(?:\s+"([^"]*)")?\s*\)/g;
+const TABLE_DELIMITER_PATTERN = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+
+function startsMarkdownBlock(line: string): boolean {
+  return FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || THEMATIC_BREAK_PATTERN.test(line)
+    || BLOCKQUOTE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line);
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  const delimiter = lines[index + 1];
+  return lines[index].includes('|') && delimiter !== undefined
+    && delimiter.includes('|') && TABLE_DELIMITER_PATTERN.test(delimiter);
+}
+
+/**
+ * 渲染块级内容
+ * @param lines 行
+ * @param tight 是否为紧凑列表项（段落不包裹 p 标签）
+ */
+function markdownBlocksToHtml(lines: string[], tight: boolean): string {
+  const html: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !closing.test(lines[index])) {
+        code.push(lines[index++]);
+      }
+      index++;
+      const language = fence[2] ? ` class="language-${escapeAttribute(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeText(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${markdownInlineToHtml(heading[2] || '')}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK_PATTERN.test(line)) {
+      html.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quote: string[] = [];
+      while (index < lines.length && BLOCKQUOTE_PATTERN.test(lines[index])) {
+        quote.push(lines[index++].replace(/^ {0,3}> ?/, ''));
+      }
+      html.push(`<blockquote>${markdownBlocksToHtml(quote, false)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const end = findMarkdownListEnd(lines, index);
+      html.push(markdownListToHtml(lines.slice(index, end)));
+      index = end;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const rows: string[] = [line];
+      const delimiter = lines[index + 1];
+      index += 2;
+      while (index < lines.length && lines[index].trim() && lines[index].includes('|')) {
+        rows.push(lines[index++]);
+      }
+      html.push(markdownTableToHtml(rows, delimiter));
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    index++;
+    let level = 0;
+    while (index < lines.length && lines[index].trim()) {
+      const setext = SETEXT_PATTERN.exec(lines[index]);
+      if (setext) {
+        level = setext[1][0] === '=' ? 1 : 2;
+        index++;
+        break;
+      }
+      if (startsMarkdownBlock(lines[index]) || isTableStart(lines, index)) {
+        break;
+      }
+      paragraph.push(lines[index++]);
+    }
+
+    const content = markdownInlineToHtml(paragraph.map(text => text.replace(/^\s+/, '')).join('\n'));
+    if (level) {
+      html.push(`<h${level}>${content}</h${level}>`);
+    } else {
+      html.push(tight ? content : `<p>${content}</p>`);
+    }
+  }
+
+  return html.join('');
+}
+
+/**
+ * 查找列表结束的行：列表项、缩进的续行、紧跟的非块级续行，以及后面仍是列表内容的空行
+ */
+function findMarkdownListEnd(lines: string[], start: number): number {
+  let index = start + 1;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      const next = lines[index + 1];
+      if (next !== undefined && (LIST_ITEM_PATTERN.test(next) || /^ {2,}\S/.test(next))) {
+        index++;
+        continue;
+      }
+      break;
+    }
+    if (LIST_ITEM_PATTERN.test(line) || /^\s+\S/.test(line) || !(startsMarkdownBlock(line) || isTableStart(lines, index))) {
+      index++;
+      continue;
+    }
+    break;
+  }
+  return index;
+}
+
+function markdownListToHtml(lines: string[]): string {
+  const items: Array<{ ordered: boolean; start: number; indent: number; lines: string[] }> = [];
+
+  for (const line of lines) {
+    const current = items[items.length - 1];
+    const match = LIST_ITEM_PATTERN.exec(line);
+    if (match && (!current || match[1].length < current.indent) && !THEMATIC_BREAK_PATTERN.test(line)) {
+      const ordered = /\d/.test(match[2]);
+      items.push({
+        ordered,
+        start: ordered ? parseInt(match[2], 10) : 1,
+        indent: match[1].length + match[2].length + Math.max(1, Math.min(match[3].length, 4)),
+        lines: [match[4]]
+      });
+    } else if (current) {
+      current.lines.push(line.replace(new RegExp(`^ {0,${current.indent}}`), ''));
+    }
+  }
+
+  // 标记类型（有序/无序）改变时开始新的列表
+  const lists: Array<typeof items> = [];
+  items.forEach((item, index) => {
+    if (index === 0 || item.ordered !== items[index - 1].ordered) {
+      lists.push([]);
+    }
+    lists[lists.length - 1].push(item);
+  });
+
+  return lists.map(list => {
+    // 列表项之间或列表项内部有空行时为松散列表，段落包裹 p 标签
+    const lines = list.flatMap(item => item.lines);
+    const lastContent = lines.map(line => !!line.trim()).lastIndexOf(true);
+    const loose = lines.some((line, index) => !line.trim() && index < lastContent);
+    const { ordered, start } = list[0];
+    const open = ordered ? (start !== 1 ? `<ol start="${start}">` : '<ol>') : '<ul>';
+    return `${open}${list.map(item => `<li>${markdownBlocksToHtml(item.lines, !loose)}</li>`).join('')}</${ordered ? 'ol' : 'ul'}>`;
+  }).join('');
+}
+
+function splitMarkdownTableRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  const content = line.trim().replace(/^\|/, '');
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (char === '\\' && content[index + 1] === '|') {
+      cell += '\\|';
+      index++;
+    } else if (char === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.trim()) {
+    cells.push(cell.trim());
+  }
+  return cells;
+}
+
+function markdownTableToHtml(rows: string[], delimiter: string): string {
+  const alignments = splitMarkdownTableRow(delimiter).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    const align = left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+    return align ? ` style="text-align: ${align}"` : '';
+  });
+  const renderRow = (row: string, tag: 'th' | 'td') => {
+    const cells = splitMarkdownTableRow(row);
+    return `<tr>${alignments.map((align, index) =>
+      `<${tag}${align}>${markdownInlineToHtml(cells[index] || '')}</${tag}>`).join('')}</tr>`;
+  };
+
+  const [header, ...body] = rows;
+  const tbody = body.length > 0 ? `<tbody>${body.map(row => renderRow(row, 'td')).join('')}</tbody>` : '';
+  return `<table><thead>${renderRow(header, 'th')}</thead>${tbody}</table>`;
+}
+
+/**
+ * 渲染行内 Markdown：代码、转义字符、链接和图像先替换为占位符，避免被强调语法改写
+ */
+function markdownInlineToHtml(text: string): string {
+  const stash: string[] = [];
+  const hold = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _fence: string, code: string) =>
+      hold(`<code>${escapeText(/^ [\s\S]* $/.test(code) ? code.slice(1, -1) : code)}</code>`))
+    .replace(/(?: {2,}|\\)\n/g, () => hold('<br>'))
+    .replace(/\\([!-/:-@[-`{-~])/g, (_, char: string) => hold(escapeText(char)))
+    .replace(/[ \t]+$/gm, '');
+
+  html = escapeText(html)
+    .replace(MARKDOWN_IMAGE_PATTERN, (match, alt: string, src: string, title?: string) => {
+      if (!isSafeUrl(src, true)) {
+        return alt;
+      }
+      return hold(`<img src="${src.replace(/"/g, '&quot;')}" alt="${alt.replace(/"/g, '&quot;')}"${title ? ` title="${title}"` : ''}>`);
+    })
+    .replace(MARKDOWN_LINK_PATTERN, (match, label: string, href: string, title?: string) => {
+      if (!href || !isSafeUrl(href)) {
+        return label;
+      }
+      return `${hold(`<a href="${href.replace(/"/g, '&quot;')}"${title ? ` title="${title}"` : ''}>`)}${label}${hold('</a>')}`;
+    })
+    .replace(/&lt;((?:https?|mailto):[^\s&]+)&gt;/gi, (_, url: string) =>
+      hold(`<a href="${url.replace(/"/g, '&quot;')}">${url}</a>`))
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  // 占位符可能嵌套（链接文本中的代码），重复还原直到没有占位符
+  while (/\u0000\d+\u0000/.test(html)) {
+    html = html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)]);
+  }
+  return html;
+}
+
+// ============================================================================
+// RTF → HTML
+// ============================================================================
+
+/** 需要跳过内容的 RTF 目标组 */
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'listtable', 'listoverridetable', 'rsidtbl',
+  'generator', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'filetbl',
+  'revtbl', 'pgdsctbl', 'fldinst', 'bkmkstart', 'bkmkend'
+]);
+
+/** 直接对应字符的 RTF 控制字 */
+const RTF_CHARACTERS: Record<string, string> = {
+  tab: '\t', emdash: '\u2014', endash: '\u2013', bullet: '\u2022', lquote: '\u2018', rquote: '\u2019',
+  ldblquote: '\u201C', rdblquote: '\u201D', emspace: '\u2003', enspace: '\u2002', qmspace: '\u2005'
+};
+
+/** Windows-1252 中 0x80-0x9F 与 Latin-1 不同的字符 */
+const CP1252_CHARACTERS: Record<number, string> = {
+  0x80: '\u20AC', 0x82: '\u201A', 0x83: '\u0192', 0x84: '\u201E', 0x85: '\u2026', 0x86: '\u2020',
+  0x87: '\u2021', 0x88: '\u02C6', 0x89: '\u2030', 0x8a: '\u0160', 0x8b: '\u2039', 0x8c: '\u0152',
+  0x8e: '\u017D', 0x91: '\u2018', 0x92: '\u2019', 0x93: '\u201C', 0x94: '\u201D', 0x95: '\u2022',
+  0x96: '\u2013', 0x97: '\u2014', 0x98: '\u02DC', 0x99: '\u2122', 0x9a: '\u0161', 0x9b: '\u203A',
+  0x9c: '\u0153', 0x9e: '\u017E', 0x9f: '\u0178'
+};
+
+const RTF_CONTROL_WORD = /\\([a-z]{1,32})(-?\d{1,10})? ?/iy;
+
+interface RtfFormat {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  /** 颜色表索引，0 为自动颜色 */
+  color: number;
+  background: number;
+}
+
+interface RtfState extends RtfFormat {
+  /** 当前组的内容不输出 */
+  skip: boolean;
+  /** 当前组为颜色表 */
+  colorTable: boolean;
+  /** \uN 之后需要跳过的替代字符数 */
+  unicodeSkip: number;
+}
+
+const RTF_DEFAULT_FORMAT: RtfFormat = { bold: false, italic: false, underline: false, strike: false, color: 0, background: 0 };
+
+function rtfToHtml(rtf: string): string {
+  const colors: Array<string | undefined> = [];
+  let color: [number, number, number] | undefined;
+  const stack: RtfState[] = [];
+  let state: RtfState = { ...RTF_DEFAULT_FORMAT, skip: false, colorTable: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+
+  const blocks: string[] = [];
+  let runs: Array<{ text: string; format: RtfFormat }> = [];
+  let inTable = false;
+  let rows: string[][] = [];
+  let cells: string[] = [];
+  let cellParagraphs: string[] = [];
+
+  const addText = (text: string) => {
+    if (state.colorTable) {
+      for (const char of text) {
+        if (char === ';') {
+          colors.push(color && `#${color.map(value => value.toString(16).padStart(2, '0')).join('')}`);
+          color = undefined;
+        }
+      }
+      return;
+    }
+    if (pendingSkip > 0) {
+      const skipped = Math.min(pendingSkip, text.length);
+      pendingSkip -= skipped;
+      text = text.slice(skipped);
+    }
+    if (state.skip || !text) {
+      return;
+    }
+    const format: RtfFormat = {
+      bold: state.bold, italic: state.italic, underline: state.underline,
+      strike: state.strike, color: state.color, background: state.background
+    };
+    const last = runs[runs.length - 1];
+    if (last && (Object.keys(format) as Array<keyof RtfFormat>).every(key => last.format[key] === format[key])) {
+      last.text += text;
+    } else {
+      runs.push({ text, format });
+    }
+  };
+
+  const renderRuns = () => {
+    const html = runs.map(({ text, format }) => {
+      let content = escapeText(text).replace(/\n/g, '<br>');
+      const styles: string[] = [];
+      if (colors[format.color]) {
+        styles.push(`color: ${colors[format.color]}`);
+      }
+      if (colors[format.background]) {
+        styles.push(`background-color: ${colors[format.background]}`);
+      }
+      if (styles.length > 0) {
+        content = `<span style="${styles.join('; ')}">${content}</span>`;
+      }
+      if (format.strike) {
+        content = `<s>${content}</s>`;
+      }
+      if (format.underline) {
+        content = `<u>${content}</u>`;
+      }
+      if (format.italic) {
+        content = `<em>${content}</em>`;
+      }
+      if (format.bold) {
+        content = `<strong>${content}</strong>`;
+      }
+      return content;
+    }).join('');
+    runs = [];
+    return html;
+  };
+
+  const closeTable = () => {
+    if (rows.length > 0) {
+      blocks.push(`<table>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</table>`);
+    }
+    rows = [];
+  };
+
+  const endParagraph = () => {
+    const html = renderRuns();
+    if (inTable) {
+      cellParagraphs.push(html);
+      return;
+    }
+    closeTable();
+    if (html.trim()) {
+      blocks.push(`<p>${html}</p>`);
+    }
+  };
+
+  const handleControlWord = (word: string, param: number | undefined) => {
+    const on = param !== 0;
+    if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      return;
+    }
+    if (word in RTF_CHARACTERS) {
+      addText(RTF_CHARACTERS[word]);
+      return;
+    }
+
+    switch (word) {
+      case 'colortbl':
+        state.colorTable = true;
+        break;
+      case 'red':
+      case 'green':
+      case 'blue':
+        if (state.colorTable) {
+          color = color || [0, 0, 0];
+          color[word === 'red' ? 0 : word === 'green' ? 1 : 2] = param || 0;
+        }
+        break;
+      case 'par':
+      case 'sect':
+        endParagraph();
+        break;
+      case 'line':
+        addText('\n');
+        break;
+      case 'pard':
+        inTable = false;
+        break;
+      case 'intbl':
+        inTable = true;
+        break;
+      case 'cell':
+        inTable = true;
+        if (runs.length > 0 || cellParagraphs.length === 0) {
+          cellParagraphs.push(renderRuns());
+        }
+        cells.push(cellParagraphs.join('<br>'));
+        cellParagraphs = [];
+        break;
+      case 'row':
+        rows.push(cells);
+        cells = [];
+        break;
+      case 'plain':
+        Object.assign(state, RTF_DEFAULT_FORMAT);
+        break;
+      case 'b':
+        state.bold = on;
+        break;
+      case 'i':
+        state.italic = on;
+        break;
+      case 'ul':
+        state.underline = on;
+        break;
+      case 'ulnone':
+        state.underline = false;
+        break;
+      case 'strike':
+        state.strike = on;
+        break;
+      case 'cf':
+        state.color = param || 0;
+        break;
+      case 'cb':
+      case 'highlight':
+      case 'chcbpat':
+        state.background = param || 0;
+        break;
+      case 'uc':
+        state.unicodeSkip = param || 0;
+        break;
+      case 'u':
+        if (param !== undefined) {
+          addText(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = state.unicodeSkip;
+        }
+        break;
+    }
+  };
+
+  let index = 0;
+  while (index < rtf.length) {
+    const char = rtf[index];
+
+    if (char === '{') {
+      stack.push({ ...state });
+      index++;
+    } else if (char === '}') {
+      state = stack.pop() || state;
+      index++;
+    } else if (char === '\\') {
+      const next = rtf[index + 1];
+      RTF_CONTROL_WORD.lastIndex = index;
+      const match = RTF_CONTROL_WORD.exec(rtf);
+      if (match) {
+        index += match[0].length;
+        handleControlWord(match[1], match[2] === undefined ? undefined : Number(match[2]));
+        continue;
+      }
+      index += 2;
+      if (next === "'") {
+        const code = parseInt(rtf.slice(index, index + 2), 16);
+        index += 2;
+        if (pendingSkip > 0) {
+          pendingSkip--;
+        } else if (!Number.isNaN(code)) {
+          addText(CP1252_CHARACTERS[code] || String.fromCharCode(code));
+        }
+      } else if (next === '*') {
+        state.skip = true;
+      } else if (next === '~') {
+        addText('\u00A0');
+      } else if (next === '_') {
+        addText('-');
+      } else if (next === '\n' || next === '\r') {
+        endParagraph();
+      } else if (next === '\\' || next === '{' || next === '}') {
+        addText(next);
+      }
+    } else if (char === '\n' || char === '\r') {
+      index++;
+    } else {
+      let end = index;
+      while (end < rtf.length && !'{}\\\r\n'.includes(rtf[end])) {
+        end++;
+      }
+      addText(rtf.slice(index, end));
+      index = end;
+    }
+  }
+
+  inTable = false;
+  endParagraph();
+  closeTable();
+  return blocks.join('');
+}
@@ -0,0 +1,482 @@
+/**
+ * 剪贴板历史
+ *
+ * @description 记录通过管理器复制的内容和系统复制/粘贴事件，提供有界环形存储、去重、固定、
+ * 全文搜索、单条大小限制、敏感内容脱敏和基于存储适配器的持久化
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { EventEmitter } from '../core/EventEmitter';
+import { defaultCacheSerializer } from '../core/CacheStorage';
+import type { CacheStorageAdapter, RedactionRule } from '../core/types';
+import type { ClipboardData, ClipboardDataType } from './index';
+
+/**
+ * 历史条目来源
+ */
+export type ClipboardHistorySource = 'copy' | 'read' | 'systemCopy' | 'systemPaste';
+
+/**
+ * 历史条目
+ */
+export interface ClipboardHistoryEntry extends ClipboardData {
+  /** 条目 ID */
+  id: string;
+  /** 最近一次记录的来源 */
+  source: ClipboardHistorySource;
+  /** 是否固定，固定的条目不会被淘汰 */
+  pinned: boolean;
+  /** 内容是否经过脱敏 */
+  redacted: boolean;
+  /** 首次记录时间 */
+  createdAt: number;
+  /** 最近一次记录时间 */
+  updatedAt: number;
+  /** 记录次数（去重后累计） */
+  count: number;
+}
+
+/**
+ * 剪贴板历史配置
+ */
+export interface ClipboardHistoryOptions {
+  /** 最多保留的未固定条目数，默认 50 */
+  maxEntries?: number;
+  /** 单个条目的最大字节数，超出的内容不记录，默认 1MB（管理器中默认使用 maxDataSize） */
+  maxEntrySize?: number;
+  /** 记录的来源，默认 copy、systemCopy、systemPaste */
+  sources?: ClipboardHistorySource[];
+  /** 相同内容是否只保留最新一条并累计次数，默认 true */
+  deduplicate?: boolean;
+  /** 敏感内容脱敏规则：true 使用默认规则，false 关闭，也可传入自定义规则（只使用 pattern 和 replacement） */
+  redact?: boolean | RedactionRule[];
+  /** 检测到敏感内容时的处理方式：mask 替换敏感片段后记录，skip 不记录，默认 mask */
+  sensitiveAction?: 'mask' | 'skip';
+  /** 持久化存储适配器，如 WebStorageCacheStorage、IndexedDBCacheStorage */
+  storage?: CacheStorageAdapter;
+  /** 存储键，默认 js-use-core:clipboard-history */
+  storageKey?: string;
+  /** 是否持久化图像、文件等二进制条目，默认 false（只持久化文本类条目） */
+  persistBinary?: boolean;
+}
+
+/**
+ * 添加条目的选项
+ */
+export interface ClipboardHistoryAddOptions {
+  /** 内容来自密码框等敏感来源，整条内容都会被脱敏 */
+  sensitive?: boolean;
+}
+
+/**
+ * 搜索选项
+ */
+export interface ClipboardHistorySearchOptions {
+  /** 只搜索指定类型的条目 */
+  type?: ClipboardDataType;
+  /** 最多返回的条目数 */
+  limit?: number;
+}
+
+/**
+ * 剪贴板历史事件映射
+ */
+export interface ClipboardHistoryEvents {
+  /** 条目发生变化（添加、删除、固定、清空、从存储恢复） */
+  change: [entries: ClipboardHistoryEntry[]];
+  /** 持久化失败 */
+  error: [error: Error];
+}
+
+/**
+ * 默认的敏感内容规则：私钥、JWT、认证头、常见服务的访问令牌以及 password=xxx 形式的键值对
+ */
+export const DEFAULT_HISTORY_REDACTION_RULES: RedactionRule[] = [
+  { pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { pattern: /\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/g },
+  { pattern: /\b(Bearer|Basic)\s+[\w\-.~+/]{16,}=*/g, replacement: '$1 [REDACTED]' },
+  { pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|sk-[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35})/g },
+  {
+    pattern: /\b(password|passwd|pwd|secret|token|api[_-]?key|access[_-]?token|client[_-]?secret)(\s*[:=]\s*)("[^"]*"|'[^']*'|[^\s,;&]+)/gi,
+    replacement: '$1$2[REDACTED]'
+  }
+];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * 剪贴板历史
+ *
+ * 条目按最近记录时间倒序排列；超出 maxEntries 时淘汰最旧的未固定条目。
+ * 配置 storage 后每次变化都会在后台写入存储，load() 从存储恢复
+ */
+export class ClipboardHistory extends EventEmitter<ClipboardHistoryEvents> {
+  private entries: ClipboardHistoryEntry[] = [];
+  private options: Required<Omit<ClipboardHistoryOptions, 'storage' | 'redact'>> & Pick<ClipboardHistoryOptions, 'storage'>;
+  private redactionRules: RedactionRule[];
+  private persisting: Promise<void> = Promise.resolve();
+  private nextId = 0;
+
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options: ClipboardHistoryOptions = {}) {
+    super({ module: 'ClipboardHistory' });
+    this.options = {
+      maxEntries: options.maxEntries ?? 50,
+      maxEntrySize: options.maxEntrySize ?? 1024 * 1024,
+      sources: options.sources ?? ['copy', 'systemCopy', 'systemPaste'],
+      deduplicate: options.deduplicate ?? true,
+      sensitiveAction: options.sensitiveAction ?? 'mask',
+      storage: options.storage,
+      storageKey: options.storageKey ?? 'js-use-core:clipboard-history',
+      persistBinary: options.persistBinary ?? false
+    };
+    this.redactionRules = options.redact === false ? []
+      : Array.isArray(options.redact) ? options.redact
+      : DEFAULT_HISTORY_REDACTION_RULES;
+  }
+
+  /**
+   * 条目数量
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 是否记录指定来源
+   * @param source 来源
+   */
+  accepts(source: ClipboardHistorySource): boolean {
+    return this.options.sources.includes(source);
+  }
+
+  /**
+   * 记录剪贴板数据
+   * @param data 剪贴板数据
+   * @param source 来源
+   * @param options 添加选项
+   * @returns 新增或更新的条目，来源未启用、内容为空、超出大小限制或被判定为敏感并跳过时返回 null
+   */
+  add(data: ClipboardData, source: ClipboardHistorySource = 'copy', options: ClipboardHistoryAddOptions = {}): ClipboardHistoryEntry | null {
+    if (!this.accepts(source) || isEmpty(data.data)) {
+      return null;
+    }
+
+    const size = getContentSize(data.data);
+    if (size > this.options.maxEntrySize) {
+      return null;
+    }
+
+    const redaction = this.redact(data, !!options.sensitive);
+    if (redaction.redacted && this.options.sensitiveAction === 'skip') {
+      return null;
+    }
+    const content = redaction.data;
+
+    const now = Date.now();
+    const existing = this.options.deduplicate ? this.entries.find(entry => isSameContent(entry, content)) : undefined;
+
+    let entry: ClipboardHistoryEntry;
+    if (existing) {
+      entry = existing;
+      entry.source = source;
+      entry.updatedAt = now;
+      entry.count++;
+      this.entries.splice(this.entries.indexOf(existing), 1);
+    } else {
+      entry = {
+        ...content,
+        id: `${now.toString(36)}-${(this.nextId++).toString(36)}`,
+        size: getContentSize(content.data),
+        timestamp: data.timestamp ?? now,
+        source,
+        pinned: false,
+        redacted: redaction.redacted,
+        createdAt: now,
+        updatedAt: now,
+        count: 1
+      };
+    }
+
+    this.entries.unshift(entry);
+    this.evict();
+    this.changed();
+    return entry;
+  }
+
+  /**
+   * 获取所有条目（按最近记录时间倒序）
+   */
+  getEntries(): ClipboardHistoryEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * 获取条目
+   * @param id 条目 ID
+   */
+  get(id: string): ClipboardHistoryEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  /**
+   * 全文搜索，忽略大小写，查询中以空白分隔的每个词都需要命中；HTML 按文本内容匹配，文件按文件名匹配
+   * @param query 查询
+   * @param options 搜索选项
+   */
+  search(query: string, options: ClipboardHistorySearchOptions = {}): ClipboardHistoryEntry[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const results = this.entries.filter(entry => {
+      if (options.type && entry.type !== options.type) {
+        return false;
+      }
+      const text = getSearchableText(entry).toLowerCase();
+      return terms.every(term => text.includes(term));
+    });
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * 固定条目，固定的条目不会被淘汰
+   * @param id 条目 ID
+   * @returns 条目是否存在
+   */
+  pin(id: string): boolean {
+    return this.setPinned(id, true);
+  }
+
+  /**
+   * 取消固定条目
+   * @param id 条目 ID
+   * @returns 条目是否存在
+   */
+  unpin(id: string): boolean {
+    const result = this.setPinned(id, false);
+    this.evict();
+    return result;
+  }
+
+  /**
+   * 删除条目
+   * @param id 条目 ID
+   * @returns 条目是否存在
+   */
+  remove(id: string): boolean {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    this.changed();
+    return true;
+  }
+
+  /**
+   * 清空历史
+   * @param keepPinned 是否保留固定的条目，默认 true
+   */
+  clear(keepPinned: boolean = true): void {
+    this.entries = keepPinned ? this.entries.filter(entry => entry.pinned) : [];
+    this.changed();
+  }
+
+  /**
+   * 从存储恢复历史，恢复的条目与当前条目合并（当前条目优先）
+   */
+  async load(): Promise<void> {
+    const { storage, storageKey } = this.options;
+    if (!storage) {
+      return;
+    }
+
+    const stored = await storage.getItem(storageKey);
+    if (!stored || !Array.isArray(stored.value)) {
+      return;
+    }
+
+    const restored: ClipboardHistoryEntry[] = storage.structured
+      ? stored.value as ClipboardHistoryEntry[]
+      : await defaultCacheSerializer.deserialize(stored.value);
+    const current = [...this.entries];
+    restored.forEach(entry => {
+      if (!current.some(existing => isSameContent(existing, entry))) {
+        this.entries.push(entry);
+      }
+    });
+    this.entries.sort((a, b) => b.updatedAt - a.updatedAt);
+    this.evict();
+    this.emit('change', this.getEntries());
+  }
+
+  /**
+   * 等待后台持久化完成
+   */
+  flush(): Promise<void> {
+    return this.persisting;
+  }
+
+  /**
+   * 写入存储（后台执行，按顺序排队）
+   */
+  private persist(): void {
+    const { storage, storageKey, persistBinary } = this.options;
+    if (!storage) {
+      return;
+    }
+
+    const snapshot = this.entries.filter(entry => persistBinary || typeof entry.data === 'string');
+    this.persisting = this.persisting
+      .then(async () => {
+        const value = storage.structured ? snapshot : await defaultCacheSerializer.serialize(snapshot);
+        await storage.setItem(storageKey, { value, expireAt: Number.MAX_SAFE_INTEGER, createdAt: Date.now() });
+      })
+      .catch(error => {
+        this.emit('error', error as Error);
+      });
+  }
+
+  /**
+   * 淘汰超出数量限制的最旧未固定条目
+   */
+  private evict(): void {
+    let unpinned = this.entries.filter(entry => !entry.pinned).length;
+    for (let i = this.entries.length - 1; i >= 0 && unpinned > this.options.maxEntries; i--) {
+      if (!this.entries[i].pinned) {
+        this.entries.splice(i, 1);
+        unpinned--;
+      }
+    }
+  }
+
+  /**
+   * 设置固定状态
+   */
+  private setPinned(id: string, pinned: boolean): boolean {
+    const entry = this.get(id);
+    if (!entry) {
+      return false;
+    }
+    entry.pinned = pinned;
+    this.changed();
+    return true;
+  }
+
+  /**
+   * 通知变化并持久化
+   */
+  private changed(): void {
+    this.persist();
+    this.emit('change', this.getEntries());
+  }
+
+  /**
+   * 对文本类内容执行脱敏
+   * @param data 剪贴板数据
+   * @param sensitive 是否整条脱敏
+   */
+  private redact(data: ClipboardData, sensitive: boolean): { data: ClipboardData; redacted: boolean } {
+    const content: ClipboardData = { type: data.type, data: data.data, mimeType: data.mimeType, encoding: data.encoding };
+    if (typeof data.data !== 'string') {
+      return { data: content, redacted: false };
+    }
+
+    if (sensitive) {
+      return { data: { ...content, data: REDACTED }, redacted: true };
+    }
+
+    const masked = this.redactionRules.reduce((result, rule) => {
+      if (!rule.pattern) {
+        return result;
+      }
+      const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+      return result.replace(new RegExp(rule.pattern.source, flags), rule.replacement ?? REDACTED);
+    }, data.data);
+
+    return { data: { ...content, data: masked }, redacted: masked !== data.data };
+  }
+}
+
+/**
+ * 内容是否为空
+ */
+function isEmpty(data: ClipboardData['data']): boolean {
+  if (typeof data === 'string') {
+    return data.length === 0;
+  }
+  if (Array.isArray(data)) {
+    return data.length === 0;
+  }
+  return !data;
+}
+
+/**
+ * 估算内容字节数
+ */
+function getContentSize(data: ClipboardData['data']): number {
+  if (typeof data === 'string') {
+    return new Blob([data]).size;
+  }
+  if (Array.isArray(data)) {
+    return data.reduce((total, file) => total + file.size, 0);
+  }
+  if (data instanceof ArrayBuffer) {
+    return data.byteLength;
+  }
+  return data.size;
+}
+
+/**
+ * 两条内容是否相同（用于去重）
+ */
+function isSameContent(a: ClipboardData, b: ClipboardData): boolean {
+  if (a.data instanceof Blob || b.data instanceof Blob) {
+    // 同步记录时无法读取 Blob 内容，只有同一个对象才视为相同，避免类型和大小相同的不同图像被合并
+    return a.type === b.type && a.data === b.data;
+  }
+  return getContentKey(a) === getContentKey(b);
+}
+
+/**
+ * 去重使用的内容键（不含 Blob）
+ */
+function getContentKey(entry: ClipboardData): string {
+  const { type, data } = entry;
+  if (typeof data === 'string') {
+    return `${type}:${data}`;
+  }
+  if (Array.isArray(data)) {
+    return `${type}:${data.map(file => `${file.name}/${file.size}/${file.lastModified}`).join('|')}`;
+  }
+  return `${type}:buffer/${(data as ArrayBuffer).byteLength}/${hashBytes(data as ArrayBuffer)}`;
+}
+
+/**
+ * 计算二进制内容的 FNV-1a 哈希
+ */
+function hashBytes(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * 搜索使用的文本
+ */
+function getSearchableText(entry: ClipboardHistoryEntry): string {
+  const { type, data } = entry;
+  if (typeof data === 'string') {
+    return type === 'html' ? data.replace(/<[^>]*>/g, ' ') : data;
+  }
+  if (Array.isArray(data)) {
+    return data.map(file => file.name).join(' ');
+  }
+  return entry.mimeType || '';
+}
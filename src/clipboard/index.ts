@@ -1,12 +1,27 @@
 import { isElement, getElement } from '../utils/dom';
 import { BaseManager } from '../core/BaseManager';
-import { BaseOptions } from '../types/core';
+import { ManagerRegistry } from '../core/ManagerRegistry';
+import { Environment } from '../core/Environment';
+import { getImageManager, ImageManager } from '../image';
+import { HtmlSanitizer, HTML_SANITIZER_PROFILES, HtmlSanitizerOptions, HtmlSanitizerProfileName } from './sanitizer';
+import { ClipboardHistory, ClipboardHistoryOptions } from './history';
+import { CopyBinding, CopyBindingOptions } from './bindings';
+import {
+  BaseDataConverter,
+  DataConverterGraph,
+  HtmlToMarkdownConverter,
+  MarkdownToHtmlConverter,
+  OfficeHtmlCleanupConverter,
+  RtfToHtmlConverter
+} from './converters';
+import { BaseOptions, ValidationRule } from '../types/core';
+import { ImageCompressOptions } from '../types';
 import { ErrorType } from '../types/errors';
 
 /**
  * 剪贴板数据类型
  */
-export type ClipboardDataType = 'text' | 'html' | 'image' | 'rtf' | 'files';
+export type ClipboardDataType = 'text' | 'html' | 'image' | 'rtf' | 'files' | 'markdown';
 
 /**
  * 剪贴板数据接口
@@ -18,6 +33,8 @@ export interface ClipboardData {
   timestamp?: number;
   mimeType?: string;
   encoding?: string;
+  /** 一次写入的全部表示，键为 MIME 类型（仅 write） */
+  representations?: Record<string, string | Blob>;
 }
 
 /**
@@ -32,6 +49,8 @@ export interface CopyOptions {
   encoding?: string;
   preserveFormatting?: boolean;
   sanitizeHtml?: boolean;
+  /** 本次操作使用的 HTML 清理配置，默认使用管理器的 htmlSanitizer */
+  sanitizer?: HtmlSanitizerProfileName | HtmlSanitizerOptions;
 }
 
 /**
@@ -44,7 +63,138 @@ export interface PasteOptions {
   maxSize?: number;
   acceptedTypes?: string[];
   sanitizeHtml?: boolean;
+  /** 本次操作使用的 HTML 清理配置，默认使用管理器的 htmlSanitizer */
+  sanitizer?: HtmlSanitizerProfileName | HtmlSanitizerOptions;
   preserveFormatting?: boolean;
+  /** 用于取消读取的信号 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 可复制的图像来源：Blob、<img>、<canvas> 或图像 DataURL
+ */
+export type ClipboardImageSource = Blob | HTMLImageElement | HTMLCanvasElement | string;
+
+/**
+ * 复制图像选项
+ */
+export interface CopyImageOptions extends CopyOptions {
+  /** 写入前通过 ImageManager 压缩图像 */
+  compress?: ImageCompressOptions;
+  /** 浏览器不支持写入图像时是否降级为复制 <img> HTML，默认 true */
+  htmlFallback?: boolean;
+}
+
+/**
+ * 读取图像选项
+ */
+export interface ReadImageOptions extends PasteOptions {
+  /** 按优先级排列的图像 MIME 类型，都不存在时返回剪贴板中的第一个图像 */
+  preferredTypes?: string[];
+}
+
+/**
+ * 粘贴项类型
+ */
+export type PasteItemKind = 'text' | 'html' | 'image' | 'file' | 'uri-list' | 'custom';
+
+/**
+ * 规范化后的粘贴项
+ */
+export interface PasteItem {
+  /** 粘贴项类型 */
+  kind: PasteItemKind;
+  /** MIME 类型 */
+  mimeType: string;
+  /** 数据：文本、清理后的 HTML、自定义格式为字符串，图像和文件为 File，URI 列表为地址数组 */
+  data: string | File | string[];
+  /** 大小（字节） */
+  size: number;
+}
+
+/**
+ * 被拒绝的粘贴项
+ */
+export interface RejectedPasteItem {
+  /** 粘贴项 */
+  item: PasteItem;
+  /** 拒绝原因 */
+  reason: string;
+}
+
+/**
+ * 触发粘贴目标的事件（粘贴或拖放）
+ */
+export type PasteTargetEvent = ClipboardEvent | DragEvent;
+
+/**
+ * 粘贴目标的处理函数，只在对应类型存在时调用
+ */
+export interface PasteTargetHandlers {
+  /** 所有通过检查的粘贴项，最先调用 */
+  onPaste?: (items: PasteItem[], event: PasteTargetEvent) => void;
+  /** 纯文本 */
+  onText?: (text: string, event: PasteTargetEvent) => void;
+  /** 清理后的 HTML */
+  onHtml?: (html: string, event: PasteTargetEvent) => void;
+  /** 图像文件 */
+  onImages?: (images: File[], event: PasteTargetEvent) => void;
+  /** 非图像文件 */
+  onFiles?: (files: File[], event: PasteTargetEvent) => void;
+  /** text/uri-list 中的地址 */
+  onUris?: (uris: string[], event: PasteTargetEvent) => void;
+  /** 其他 MIME 类型 */
+  onCustom?: (items: PasteItem[], event: PasteTargetEvent) => void;
+  /** 未通过 acceptedTypes、大小或验证规则检查的粘贴项 */
+  onRejected?: (rejected: RejectedPasteItem[], event: PasteTargetEvent) => void;
+}
+
+/**
+ * 粘贴目标选项
+ */
+export interface PasteTargetOptions {
+  /** 接受的 MIME 类型，支持 `image/*` 通配符和 `.ext` 扩展名（按文件名匹配），默认全部接受 */
+  acceptedTypes?: string[];
+  /** 单个粘贴项的最大字节数 */
+  maxSize?: number;
+  /** 是否清理 HTML，默认 true */
+  sanitizeHtml?: boolean;
+  /** HTML 清理配置，默认使用管理器的 htmlSanitizer */
+  sanitizer?: HtmlSanitizerProfileName | HtmlSanitizerOptions;
+  /** 额外的验证规则，与 addValidationRule 添加的规则一起执行 */
+  validationRules?: DataValidationRule[];
+  /**
+   * 是否阻止浏览器的默认粘贴行为：'handled' 有粘贴项被处理时阻止（默认），
+   * true 总是阻止，false 从不阻止，也可以传入函数自行判断；
+   * 启用拖放时 drop 的默认行为总是被阻止，避免被拒绝的文件由浏览器打开
+   */
+  preventDefault?: boolean | 'handled' | ((items: PasteItem[], event: PasteTargetEvent) => boolean);
+  /** 是否同时处理拖放到元素上的内容，默认 true */
+  drop?: boolean;
+}
+
+/**
+ * 多表示写入的数据，所有表示放入同一个 ClipboardItem
+ */
+export interface ClipboardWriteData {
+  /** 纯文本（text/plain） */
+  text?: string;
+  /** HTML（text/html） */
+  html?: string;
+  /** RTF（text/rtf） */
+  rtf?: string;
+  /** 图像 */
+  image?: Blob;
+  /** 自定义格式，键为 MIME 类型，写入时自动添加 `web ` 前缀 */
+  custom?: Record<string, string | Blob>;
+}
+
+/**
+ * 多表示写入选项
+ */
+export interface WriteOptions extends CopyOptions {
+  /** 通过已注册的数据转换器派生缺失的表示，默认 true（派生 text、html、rtf），false 关闭 */
+  derive?: boolean | ClipboardDataType[];
 }
 
 /**
@@ -65,6 +215,8 @@ export interface ClipboardManagerOptions extends BaseOptions {
   permissionTimeout?: number;
   /** 是否启用HTML清理 */
   enableHtmlSanitization?: boolean;
+  /** HTML 清理配置：内置配置名称（plain、richText、email）或自定义白名单 */
+  htmlSanitizer?: HtmlSanitizerProfileName | HtmlSanitizerOptions;
   /** 支持的MIME类型 */
   supportedMimeTypes?: string[];
   /** 是否启用自动权限请求 */
@@ -77,6 +229,8 @@ export interface ClipboardManagerOptions extends BaseOptions {
   maxFileCount?: number;
   /** 支持的文件类型 */
   allowedFileTypes?: string[];
+  /** 剪贴板历史：true 使用默认配置，也可传入配置，默认 false（不记录） */
+  history?: boolean | ClipboardHistoryOptions;
 }
 
 /**
@@ -100,21 +254,46 @@ export enum FallbackStrategy {
   TEXTAREA_ELEMENT = 'textarea'
 }
 
+/**
+ * 剪贴板管理器事件映射
+ */
+export interface ClipboardManagerEvents {
+  /** 通过管理器写入了剪贴板 */
+  copy: [data: ClipboardData];
+  /** 通过管理器读取了剪贴板 */
+  read: [data: ClipboardData];
+  /** 页面触发了系统复制事件 */
+  systemCopy: [event: ClipboardEvent];
+  /** 页面触发了系统粘贴事件 */
+  systemPaste: [event: ClipboardEvent];
+  /** 剪贴板已清空 */
+  cleared: [];
+}
+
+/**
+ * 转换格式：剪贴板数据类型或自定义 MIME 类型（如 'application/x-my-app'）
+ */
+export type ConversionFormat = ClipboardDataType | (string & {});
+
 /**
  * 数据转换器接口
  */
 export interface DataConverter {
   /** 源数据类型 */
-  readonly fromType: ClipboardDataType;
+  readonly fromType: ConversionFormat;
   /** 目标数据类型 */
-  readonly toType: ClipboardDataType;
+  readonly toType: ConversionFormat;
   /** 转换器名称 */
   readonly name: string;
   /** 是否支持大数据处理 */
   readonly supportsBigData?: boolean;
+  /** 转换代价，查找多步转换路径时使用总代价最小的路径，默认 1 */
+  readonly cost?: number;
+  /** 优先级，代价和步数相同时选择优先级高的转换器，默认 0 */
+  readonly priority?: number;
   
-  canConvert(from: ClipboardDataType, to: ClipboardDataType): boolean;
-  convert(data: any, from: ClipboardDataType, to: ClipboardDataType): Promise<any>;
+  canConvert(from: ConversionFormat, to: ConversionFormat): boolean;
+  convert(data: any, from: ConversionFormat, to: ConversionFormat): Promise<any>;
   
   /** 验证输入数据 */
   validateInput?(data: any): boolean;
@@ -122,6 +301,40 @@ export interface DataConverter {
   getOptions?(): Record<string, any>;
 }
 
+/**
+ * 转换路径
+ */
+export interface ConversionRoute {
+  /** 依次执行的转换器 */
+  converters: DataConverter[];
+  /** 经过的格式，包含源格式和目标格式 */
+  path: ConversionFormat[];
+  /** 总代价 */
+  cost: number;
+}
+
+/**
+ * 转换结果
+ */
+export interface ConversionResult<T = any> {
+  /** 转换后的数据，没有可用路径时为原始数据 */
+  data: T;
+  /** 源格式 */
+  from: ConversionFormat;
+  /** 目标格式 */
+  to: ConversionFormat;
+  /** 是否执行了转换 */
+  converted: boolean;
+  /** 使用的转换器名称 */
+  chain: string[];
+  /** 经过的格式 */
+  path: ConversionFormat[];
+  /** 总代价 */
+  cost: number;
+  /** 是否使用了缓存 */
+  fromCache: boolean;
+}
+
 /**
  * 权限请求结果
  */
@@ -200,14 +413,36 @@ export interface DataProcessingResult<T = any> {
   steps: string[];
 }
 
+/**
+ * 文本类表示
+ */
+type TextRepresentation = 'text' | 'html' | 'rtf';
+
+/**
+ * 文本类表示对应的 MIME 类型
+ */
+const REPRESENTATION_MIME_TYPES: Record<TextRepresentation, string> = {
+  text: 'text/plain',
+  html: 'text/html',
+  rtf: 'text/rtf'
+};
+
 /**
  * 剪贴板管理器类
  * 继承 BaseManager，提供统一的架构模式
  */
-export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
-  private dataConverters: Map<string, DataConverter> = new Map();
+export class ClipboardManager extends BaseManager<ClipboardManagerOptions, ClipboardManagerEvents> {
+  private converterGraph: DataConverterGraph = new DataConverterGraph();
   private permissionCache: Map<string, ClipboardPermissionState> = new Map();
   private eventListeners: Map<string, EventListener[]> = new Map();
+  private htmlSanitizer?: { config: ClipboardManagerOptions['htmlSanitizer']; sanitizer: HtmlSanitizer };
+  private clipboardHistory?: ClipboardHistory;
+  private systemCopyListener?: (event: ClipboardEvent) => void;
+  private systemPasteListener?: (event: ClipboardEvent) => void;
+  /** 管理器自身正在执行 execCommand('copy') */
+  private internalCopy = false;
+  private pasteTargetDisposers: Set<() => void> = new Set();
+  private copyBindings: Set<CopyBinding> = new Set();
 
   /**
    * 构造函数
@@ -228,6 +463,8 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       retries: 2,
       cache: true,
       cacheTTL: 30000,
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000 },
+      hooks: {},
       defaultFormat: 'text',
       enablePermissionCheck: true,
       maxDataSize: 10 * 1024 * 1024, // 10MB
@@ -235,6 +472,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       enableFallback: true,
       permissionTimeout: 3000,
       enableHtmlSanitization: true,
+      htmlSanitizer: 'richText',
       supportedMimeTypes: [
         'text/plain',
         'text/html',
@@ -248,10 +486,44 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       fallbackStrategies: ['modern', 'execCommand', 'selection', 'input'],
       enableDataConversion: true,
       maxFileCount: 10,
-      allowedFileTypes: ['image/*', 'text/*', '.pdf', '.doc', '.docx']
+      allowedFileTypes: ['image/*', 'text/*', '.pdf', '.doc', '.docx'],
+      history: false
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'defaultFormat', enum: ['text', 'html', 'image', 'rtf', 'files'] },
+      { field: 'enablePermissionCheck', type: 'boolean' },
+      { field: 'maxDataSize', type: 'number', min: 0 },
+      { field: 'enableDataValidation', type: 'boolean' },
+      { field: 'enableFallback', type: 'boolean' },
+      { field: 'permissionTimeout', type: 'number', min: 0 },
+      { field: 'enableHtmlSanitization', type: 'boolean' },
+      {
+        field: 'htmlSanitizer',
+        validator: value => (typeof value === 'string' && value in HTML_SANITIZER_PROFILES)
+          || (!!value && typeof value === 'object' && !Array.isArray(value))
+          || `Expected one of ${Object.keys(HTML_SANITIZER_PROFILES).join(', ')} or sanitizer options object`
+      },
+      { field: 'supportedMimeTypes', type: 'array', items: { type: 'string' } },
+      { field: 'autoRequestPermissions', type: 'boolean' },
+      { field: 'fallbackStrategies', type: 'array', items: { enum: ['modern', 'execCommand', 'selection', 'input'] } },
+      { field: 'enableDataConversion', type: 'boolean' },
+      { field: 'maxFileCount', type: 'number', min: 0 },
+      { field: 'allowedFileTypes', type: 'array', items: { type: 'string' } },
+      {
+        field: 'history',
+        validator: value => typeof value === 'boolean' || (!!value && typeof value === 'object' && !Array.isArray(value))
+          || 'Expected boolean or clipboard history options object'
+      }
+    ];
+  }
+
   /**
    * 初始化管理器
    */
@@ -269,7 +541,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       await this.checkBrowserSupport();
       
       // 检查权限状态
-      if (this.options.enablePermissionCheck) {
+      if (this.options.enablePermissionCheck && Environment.getNavigator()) {
         await this.checkPermissions();
       }
       
@@ -278,6 +550,9 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       
       // 初始化默认验证规则
       this.initializeValidationRules();
+
+      // 初始化剪贴板历史
+      await this.setupHistory();
       
       this.initialized = true;
       this.emit('initialized');
@@ -290,45 +565,49 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   }
 
   /**
-   * 销毁管理器
+   * 销毁管理器时清理监听器和缓存
    */
-  destroy(): void {
-    if (this.destroyed) {
-      return;
-    }
-
+  protected onDestroy(): void {
     this.logger.info('Destroying ClipboardManager');
     
     // 清理事件监听器
     this.removeEventListeners();
+    this.pasteTargetDisposers.forEach(dispose => dispose());
+    this.copyBindings.forEach(binding => binding.destroy());
+    this.copyBindings.clear();
+    this.clipboardHistory?.removeAllListeners();
     
     // 清理缓存
     this.permissionCache.clear();
-    this.dataConverters.clear();
+    this.converterGraph.clear();
     this.eventListeners.clear();
-    
-    // 调用基类销毁方法
-    this.baseDestroy();
-    
-    this.logger.info('ClipboardManager destroyed');
+  }
+
+  /**
+   * 剪贴板历史，未启用 history 选项时为 undefined
+   */
+  get history(): ClipboardHistory | undefined {
+    return this.clipboardHistory;
   }
 
   /**
    * 检查是否支持现代剪贴板 API
    */
   get isSupported(): boolean {
-    return typeof navigator !== 'undefined' && 
-           'clipboard' in navigator && 
-           'writeText' in navigator.clipboard;
+    const nav = Environment.getNavigator();
+    return !!nav && 
+           'clipboard' in nav && 
+           'writeText' in nav.clipboard;
   }
 
   /**
    * 检查是否支持读取剪贴板
    */
   get canRead(): boolean {
-    return typeof navigator !== 'undefined' && 
-           'clipboard' in navigator && 
-           'readText' in navigator.clipboard;
+    const nav = Environment.getNavigator();
+    return !!nav && 
+           'clipboard' in nav && 
+           'readText' in nav.clipboard;
   }
 
   /**
@@ -347,6 +626,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async copyText(text: string, options: CopyOptions = {}): Promise<boolean> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('copyText');
 
     return this.safeExecute(async () => {
       // 验证输入
@@ -367,21 +647,12 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       // 数据格式转换（如果需要）
       if (options.format && options.format !== 'text') {
         processedText = await this.convertData(text, 'text', options.format, {
-          enableCaching: this.options.cache,
+          enableCaching: !!this.options.cache,
           enableChunking: true,
           maxProcessingTime: this.options.timeout
         });
       }
 
-      const cacheKey = `copy_text_${this.hashString(processedText)}`;
-      
-      // 尝试从缓存获取结果
-      const cached = this.getCached<boolean>(cacheKey);
-      if (cached !== undefined) {
-        this.logger.debug('Using cached copy result');
-        return cached;
-      }
-
       let result = false;
       let permissionResult: PermissionRequestResult | null = null;
 
@@ -429,9 +700,6 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
         }
       }
 
-      // 缓存结果
-      this.setCached(cacheKey, result, 5000); // 5秒缓存
-
       // 触发事件
       if (result) {
         this.emit('copy', { 
@@ -457,6 +725,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async copyHTML(html: string, options: CopyOptions = {}): Promise<boolean> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('copyHTML');
 
     return this.safeExecute(async () => {
       // 验证输入
@@ -476,27 +745,18 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
 
       // HTML清理
       if (options.sanitizeHtml !== false && this.options.enableHtmlSanitization) {
-        processedHtml = this.sanitizeHtml(html);
+        processedHtml = this.sanitizeHtml(html, options.sanitizer);
       }
 
       // 数据格式转换（如果需要）
       if (options.format && options.format !== 'html') {
         processedHtml = await this.convertData(processedHtml, 'html', options.format, {
-          enableCaching: this.options.cache,
+          enableCaching: !!this.options.cache,
           enableChunking: true,
           maxProcessingTime: this.options.timeout
         });
       }
 
-      const cacheKey = `copy_html_${this.hashString(processedHtml)}`;
-      
-      // 尝试从缓存获取结果
-      const cached = this.getCached<boolean>(cacheKey);
-      if (cached !== undefined) {
-        this.logger.debug('Using cached HTML copy result');
-        return cached;
-      }
-
       let result = false;
       let permissionResult: PermissionRequestResult | null = null;
 
@@ -548,9 +808,6 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
         }
       }
 
-      // 缓存结果
-      this.setCached(cacheKey, result, 5000); // 5秒缓存
-
       // 触发事件
       if (result) {
         this.emit('copy', { 
@@ -576,6 +833,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async copyElement(element: Element | string, options: CopyOptions = {}): Promise<boolean> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('copyElement');
 
     return this.safeExecute(async () => {
       const targetElement = getElement(element);
@@ -615,6 +873,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async readText(options: PasteOptions = {}): Promise<string> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('readText');
 
     return this.safeExecute(async () => {
       if (!this.canRead) {
@@ -660,7 +919,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       let processedText = text;
       if (options.format && options.format !== 'text') {
         processedText = await this.convertData(text, 'text', options.format, {
-          enableCaching: this.options.cache,
+          enableCaching: !!this.options.cache,
           enableChunking: true,
           maxProcessingTime: this.options.timeout
         });
@@ -668,7 +927,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
 
       // HTML清理（如果需要）
       if (options.format === 'html' && options.sanitizeHtml !== false && this.options.enableHtmlSanitization) {
-        processedText = this.sanitizeHtml(processedText);
+        processedText = this.sanitizeHtml(processedText, options.sanitizer);
       }
 
       this.logger.debug(`Read ${text.length} characters from clipboard`);
@@ -695,6 +954,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async readHTML(options: PasteOptions = {}): Promise<string> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('readHTML');
 
     return this.safeExecute(async () => {
       if (!this.canRead || !('read' in navigator.clipboard)) {
@@ -738,12 +998,17 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
             );
           }
 
+          // HTML清理
+          const processedHtml = options.sanitizeHtml !== false && this.options.enableHtmlSanitization
+            ? this.sanitizeHtml(html, options.sanitizer)
+            : html;
+
           this.logger.debug(`Read ${html.length} characters of HTML from clipboard`);
           
           // 触发事件
-          this.emit('read', { type: 'html', data: html, timestamp: Date.now() });
+          this.emit('read', { type: 'html', data: processedHtml, timestamp: Date.now() });
 
-          return html;
+          return processedHtml;
         }
       }
       
@@ -764,6 +1029,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async copyFiles(files: File[], options: CopyOptions = {}): Promise<boolean> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('copyFiles');
 
     return this.safeExecute(async () => {
       // 验证输入
@@ -846,8 +1112,9 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async readFiles(options: PasteOptions = {}): Promise<File[]> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('readFiles');
 
-    return this.safeExecute(async () => {
+    return this.safeExecute(async (signal) => {
       if (!this.canRead || !('read' in navigator.clipboard)) {
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
@@ -881,6 +1148,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
           }
           
           if (this.isFileTypeAllowed(type)) {
+            this.throwIfAborted(signal, 'readFiles');
             try {
               const blob = await item.getType(type);
               const file = new File([blob], `clipboard-file.${this.getFileExtension(type)}`, { type });
@@ -892,6 +1160,8 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
         }
       }
 
+      this.throwIfAborted(signal, 'readFiles');
+
       // 数据验证
       if (this.options.enableDataValidation && files.length > 0) {
         this.validateClipboardData(files, 'files');
@@ -909,97 +1179,800 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
         });
       }
 
-      return files;
-    }, 'readFiles');
+      return files;
+    }, 'readFiles', { signal: options.signal });
+  }
+
+  /**
+   * 复制图像到剪贴板
+   * 浏览器不接受原始图像类型时（多数浏览器只支持 image/png）通过 ImageManager 转码为 PNG，
+   * 无法写入图像时降级为复制 <img> HTML
+   * @param source 图像来源：Blob、<img>、<canvas> 或图像 DataURL
+   * @param options 复制选项
+   * @returns 是否复制成功
+   */
+  async copyImage(source: ClipboardImageSource, options: CopyImageOptions = {}): Promise<boolean> {
+    await this.ensureInitialized();
+    this.ensureNotDestroyed();
+    this.ensureBrowser('copyImage');
+
+    return this.safeExecute(async () => {
+      const imageManager = getImageManager();
+      await imageManager.ready();
+
+      const htmlFallback = options.htmlFallback !== false && options.fallback !== false && this.options.enableFallback;
+      const imageElement = isElement(source) && source.tagName === 'IMG' ? source as HTMLImageElement : null;
+
+      let blob: Blob;
+      try {
+        blob = await this.resolveImageSource(source, imageManager);
+      } catch (error) {
+        // 跨域图片无法绘制到 canvas，只能复制引用原地址的 <img>
+        if (htmlFallback && imageElement?.src) {
+          return this.copyImageAsHtml(imageElement.src, options, error as Error);
+        }
+        throw error;
+      }
+
+      if (options.compress) {
+        blob = (await imageManager.imgCompress(this.toImageFile(blob), options.compress)).result;
+      }
+
+      // 数据验证
+      if (this.options.enableDataValidation) {
+        this.validateClipboardData(blob, 'image');
+      }
+
+      let permissionResult: PermissionRequestResult | null = null;
+
+      // 智能权限检查和请求
+      if (this.options.enablePermissionCheck) {
+        permissionResult = await this.requestPermissionSmart('write');
+
+        if (!permissionResult.granted && !permissionResult.fallbackAvailable) {
+          throw permissionResult.error || this.errorHandler.createError(
+            ErrorType.PERMISSION_ERROR,
+            'Clipboard write permission denied and no fallback available',
+            { context: { method: 'copyImage' } }
+          );
+        }
+      }
+
+      try {
+        if (this.canWrite && 'write' in navigator.clipboard && typeof ClipboardItem !== 'undefined' &&
+            (!permissionResult || permissionResult.granted)) {
+          // 格式协商：浏览器不接受原始类型时转码为 PNG
+          if (!this.isClipboardTypeSupported(blob.type)) {
+            if (!this.isClipboardTypeSupported('image/png')) {
+              throw this.errorHandler.createError(
+                ErrorType.SYSTEM_ERROR,
+                'Image clipboard writing not supported in this browser',
+                { context: { method: 'copyImage' } }
+              );
+            }
+            this.logger.debug(`Transcoding ${blob.type} to image/png for clipboard`);
+            blob = (await imageManager.imgConvert(this.toImageFile(blob), { format: 'png' })).result;
+          }
+
+          await (navigator.clipboard as any).write([new ClipboardItem({ [blob.type]: blob })]);
+          this.logger.debug(`Image (${blob.type}) copied using modern API`);
+
+          // 触发事件
+          this.emit('copy', {
+            type: 'image',
+            data: blob,
+            size: blob.size,
+            timestamp: Date.now(),
+            mimeType: blob.type
+          });
+
+          return true;
+        }
+
+        throw this.errorHandler.createError(
+          ErrorType.SYSTEM_ERROR,
+          'Image clipboard writing not supported in this browser',
+          { context: { method: 'copyImage' } }
+        );
+      } catch (error) {
+        if (!htmlFallback) {
+          throw error;
+        }
+        this.logger.warn('Image write failed, falling back to copying <img> HTML:', error);
+        const src = imageElement?.src || (await imageManager.blobToDataURL(blob)).result;
+        return this.copyImageAsHtml(src, options, error as Error);
+      }
+    }, 'copyImage');
+  }
+
+  /**
+   * 从剪贴板读取图像
+   * @param options 读取选项，preferredTypes 指定优先读取的图像类型
+   * @returns 剪贴板中的图像
+   */
+  async readImage(options: ReadImageOptions = {}): Promise<Blob> {
+    await this.ensureInitialized();
+    this.ensureNotDestroyed();
+    this.ensureBrowser('readImage');
+
+    return this.safeExecute(async (signal) => {
+      if (!this.canRead || !('read' in navigator.clipboard)) {
+        throw this.errorHandler.createError(
+          ErrorType.SYSTEM_ERROR,
+          'Clipboard image reading not supported in this browser',
+          { context: { method: 'readImage' } }
+        );
+      }
+
+      let permissionResult: PermissionRequestResult | null = null;
+
+      // 智能权限检查和请求
+      if (this.options.enablePermissionCheck) {
+        permissionResult = await this.requestPermissionSmart('read');
+
+        if (!permissionResult.granted) {
+          throw permissionResult.error || this.errorHandler.createError(
+            ErrorType.PERMISSION_ERROR,
+            'Clipboard read permission denied',
+            { context: { method: 'readImage', extra: { permission: permissionResult.state } } }
+          );
+        }
+      }
+
+      const data = await (navigator.clipboard as any).read();
+      this.throwIfAborted(signal, 'readImage');
+
+      // 收集所有图像表示，按 preferredTypes 选择
+      const candidates: { item: any; type: string }[] = [];
+      for (const item of data) {
+        for (const type of item.types as string[]) {
+          if (type.startsWith('image/') && (!options.acceptedTypes || options.acceptedTypes.includes(type))) {
+            candidates.push({ item, type });
+          }
+        }
+      }
+
+      const preferred = (options.preferredTypes || [])
+        .map(type => candidates.find(candidate => candidate.type === type))
+        .find(Boolean);
+      const selected = preferred || candidates[0];
+
+      if (!selected) {
+        throw this.errorHandler.createError(
+          ErrorType.USER_ERROR,
+          'No image content found in clipboard',
+          { context: { method: 'readImage' } }
+        );
+      }
+
+      const blob: Blob = await selected.item.getType(selected.type);
+      this.throwIfAborted(signal, 'readImage');
+      const image = blob.type ? blob : new Blob([blob], { type: selected.type });
+
+      // 大小检查
+      if (options.maxSize && image.size > options.maxSize) {
+        throw this.errorHandler.createError(
+          ErrorType.USER_ERROR,
+          `Clipboard image exceeds maximum size limit (${options.maxSize} bytes)`,
+          { context: { method: 'readImage', extra: { size: image.size, maxSize: options.maxSize } } }
+        );
+      }
+
+      // 数据验证
+      if (this.options.enableDataValidation) {
+        this.validateClipboardData(image, 'image');
+      }
+
+      this.logger.debug(`Read ${image.type} image (${image.size} bytes) from clipboard`);
+
+      // 触发事件
+      this.emit('read', {
+        type: 'image',
+        data: image,
+        size: image.size,
+        timestamp: Date.now(),
+        mimeType: image.type
+      });
+
+      return image;
+    }, 'readImage', { signal: options.signal });
+  }
+
+  /**
+   * 将多种表示写入同一个剪贴板项（纯文本、HTML、RTF、图像和 web 自定义格式），
+   * 粘贴目标可以选择最合适的格式；缺失的表示通过已注册的数据转换器派生
+   * @param data 要写入的表示
+   * @param options 写入选项
+   * @returns 是否写入成功
+   */
+  async write(data: ClipboardWriteData, options: WriteOptions = {}): Promise<boolean> {
+    await this.ensureInitialized();
+    this.ensureNotDestroyed();
+    this.ensureBrowser('write');
+
+    return this.safeExecute(async () => {
+      if (!data || typeof data !== 'object') {
+        throw this.errorHandler.createError(
+          ErrorType.USER_ERROR,
+          'Invalid data input for clipboard write',
+          { context: { method: 'write' } }
+        );
+      }
+
+      const textual: Partial<Record<TextRepresentation, string>> = {};
+      (Object.keys(REPRESENTATION_MIME_TYPES) as TextRepresentation[]).forEach(type => {
+        if (typeof data[type] === 'string') {
+          textual[type] = data[type];
+        }
+      });
+
+      // HTML清理
+      if (textual.html !== undefined && options.sanitizeHtml !== false && this.options.enableHtmlSanitization) {
+        textual.html = this.sanitizeHtml(textual.html, options.sanitizer);
+      }
+
+      // 调用方提供的表示必须全部写入，派生的表示在浏览器不支持时可以省略
+      const provided = new Set((Object.keys(textual) as TextRepresentation[]).map(type => REPRESENTATION_MIME_TYPES[type]));
+
+      // 派生缺失的表示
+      if (options.derive !== false) {
+        const targets = Array.isArray(options.derive) ? options.derive : Object.keys(REPRESENTATION_MIME_TYPES);
+        await this.deriveRepresentations(textual, targets.filter(
+          (type): type is TextRepresentation => type in REPRESENTATION_MIME_TYPES
+        ));
+      }
+
+      // 数据验证
+      if (this.options.enableDataValidation) {
+        (Object.keys(textual) as TextRepresentation[]).forEach(type => this.validateClipboardData(textual[type], type));
+        if (data.image) {
+          this.validateClipboardData(data.image, 'image');
+        }
+      }
+
+      const representations: Record<string, string | Blob> = {};
+      (Object.keys(textual) as TextRepresentation[]).forEach(type => {
+        representations[REPRESENTATION_MIME_TYPES[type]] = textual[type]!;
+      });
+      if (data.image) {
+        representations[data.image.type] = data.image;
+        provided.add(data.image.type);
+      }
+      Object.keys(data.custom || {}).forEach(type => {
+        const mimeType = type.startsWith('web ') ? type : `web ${type}`;
+        representations[mimeType] = data.custom![type];
+        provided.add(mimeType);
+      });
+
+      const types = Object.keys(representations);
+      if (types.length === 0) {
+        throw this.errorHandler.createError(
+          ErrorType.USER_ERROR,
+          'No clipboard representations provided for write',
+          { context: { method: 'write' } }
+        );
+      }
+
+      let permissionResult: PermissionRequestResult | null = null;
+
+      // 智能权限检查和请求
+      if (this.options.enablePermissionCheck) {
+        permissionResult = await this.requestPermissionSmart('write');
+
+        if (!permissionResult.granted && !permissionResult.fallbackAvailable) {
+          throw permissionResult.error || this.errorHandler.createError(
+            ErrorType.PERMISSION_ERROR,
+            'Clipboard write permission denied and no fallback available',
+            { context: { method: 'write' } }
+          );
+        }
+      }
+
+      const canUseFallback = options.fallback !== false && this.options.enableFallback;
+      const modernAvailable = this.canWrite && 'write' in navigator.clipboard && typeof ClipboardItem !== 'undefined' &&
+        (!permissionResult || permissionResult.granted);
+      const modernTypes = modernAvailable ? types.filter(type => this.isClipboardTypeSupported(type)) : [];
+      const missing = types.filter(type => provided.has(type) && !modernTypes.includes(type));
+      const fallbackComplete = canUseFallback && this.canWriteThroughCopyEvent(representations);
+      let written: Record<string, string | Blob> | null = null;
+
+      if (modernAvailable && missing.length === 0) {
+        const items: Record<string, Blob> = {};
+        modernTypes.forEach(type => {
+          const value = representations[type];
+          items[type] = value instanceof Blob ? value : new Blob([value], { type });
+        });
+        if (modernTypes.length < types.length) {
+          this.logger.debug(`Derived representations not supported by this browser were skipped: ${types.filter(type => !modernTypes.includes(type)).join(', ')}`);
+        }
+
+        try {
+          await (navigator.clipboard as any).write([new ClipboardItem(items)]);
+          written = {};
+          modernTypes.forEach(type => { written![type] = representations[type]; });
+          this.logger.debug(`Wrote ${modernTypes.length} representations using modern API`);
+        } catch (error) {
+          // 现代API失败时，只有 copy 事件能写入全部表示才降级
+          if (!fallbackComplete || !(await this.copyEventFallback(representations).catch(() => false))) {
+            throw error;
+          }
+          written = representations;
+          this.logger.warn('Fallback to copy event after clipboard write failure');
+        }
+      } else if (fallbackComplete) {
+        // ClipboardItem 不接受调用方提供的部分表示（如 text/rtf）时，通过 copy 事件写入完整的表示集合
+        if (await this.copyEventFallback(representations)) {
+          written = representations;
+        }
+      } else if (!modernAvailable && !canUseFallback) {
+        throw this.errorHandler.createError(
+          ErrorType.SYSTEM_ERROR,
+          'Clipboard write API not supported and fallback disabled',
+          { context: { method: 'write' } }
+        );
+      } else {
+        throw this.errorHandler.createError(
+          ErrorType.SYSTEM_ERROR,
+          `Clipboard representations cannot be written together in this browser: ${missing.join(', ')}`,
+          { context: { method: 'write', extra: { types, missing } } }
+        );
+      }
+
+      // 触发事件，主表示按 html、text、rtf、image 的顺序选择
+      if (written) {
+        const primaryType: ClipboardDataType = textual.html !== undefined ? 'html'
+          : textual.text !== undefined ? 'text'
+          : textual.rtf !== undefined ? 'rtf'
+          : 'image';
+        const primary = primaryType === 'image' ? data.image : textual[primaryType as TextRepresentation];
+        this.emit('copy', {
+          type: primaryType,
+          data: primary ?? representations[types[0]],
+          size: typeof primary === 'string' ? primary.length : primary?.size,
+          timestamp: Date.now(),
+          mimeType: primaryType === 'image' ? data.image?.type : REPRESENTATION_MIME_TYPES[primaryType as TextRepresentation],
+          representations: written
+        });
+      }
+
+      return written !== null;
+    }, 'write');
+  }
+
+  /**
+   * 从剪贴板读取数据
+   * @param options 读取选项
+   * @returns 剪贴板数据
+   */
+  async read(options: PasteOptions = {}): Promise<ClipboardData> {
+    await this.ensureInitialized();
+    this.ensureNotDestroyed();
+    this.ensureBrowser('read');
+
+    return this.safeExecute(async () => {
+      const { format = this.options.defaultFormat, fallback = this.options.enableFallback } = options;
+
+      try {
+        switch (format) {
+          case 'html':
+            const html = await this.readHTML(options);
+            return { 
+              type: 'html', 
+              data: html, 
+              size: html.length,
+              timestamp: Date.now(),
+              mimeType: 'text/html',
+              encoding: 'utf-8'
+            };
+          case 'image':
+            const image = await this.readImage(options);
+            return {
+              type: 'image',
+              data: image,
+              size: image.size,
+              timestamp: Date.now(),
+              mimeType: image.type
+            };
+          case 'files':
+            const files = await this.readFiles(options);
+            return { 
+              type: 'files', 
+              data: files, 
+              size: files.reduce((total, file) => total + file.size, 0),
+              timestamp: Date.now()
+            };
+          case 'text':
+          default:
+            const text = await this.readText(options);
+            return { 
+              type: 'text', 
+              data: text, 
+              size: text.length,
+              timestamp: Date.now(),
+              mimeType: 'text/plain',
+              encoding: 'utf-8'
+            };
+        }
+      } catch (error) {
+        if (fallback) {
+          this.logger.warn('Attempting fallback read method');
+          return await this.fallbackRead(format);
+        }
+        throw error;
+      }
+    }, 'read');
+  }
+
+  /**
+   * 获取文件扩展名
+   */
+  private getFileExtension(mimeType: string): string {
+    const extensions: Record<string, string> = {
+      'text/plain': 'txt',
+      'text/html': 'html',
+      'text/css': 'css',
+      'text/javascript': 'js',
+      'application/json': 'json',
+      'image/png': 'png',
+      'image/jpeg': 'jpg',
+      'image/gif': 'gif',
+      'image/webp': 'webp',
+      'image/svg+xml': 'svg',
+      'application/pdf': 'pdf',
+      'application/msword': 'doc',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+    };
+
+    return extensions[mimeType] || 'bin';
+  }
+
+  /**
+   * 将图像来源统一转换为 Blob
+   * @param source 图像来源
+   * @param imageManager 图像管理器
+   */
+  private async resolveImageSource(source: ClipboardImageSource, imageManager: ImageManager): Promise<Blob> {
+    if (source instanceof Blob) {
+      return source;
+    }
+
+    let dataURL: string | null = null;
+    if (typeof source === 'string') {
+      dataURL = source;
+    } else if (isElement(source) && source.tagName === 'CANVAS') {
+      dataURL = (source as HTMLCanvasElement).toDataURL('image/png');
+    } else if (isElement(source) && source.tagName === 'IMG') {
+      const img = source as HTMLImageElement;
+      dataURL = img.src.startsWith('data:') ? img.src : imageManager.imageToDataURL(img, 'png').result;
+    }
+
+    if (dataURL === null || !/^data:image\/[\w.+-]+;base64,/i.test(dataURL)) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        'Invalid image source for clipboard copy, expected Blob, <img>, <canvas> or image data URL',
+        { context: { method: 'copyImage' } }
+      );
+    }
+
+    return imageManager.dataURLtoImgBlob(dataURL).result;
+  }
+
+  /**
+   * 将图像 Blob 包装为 ImageManager 需要的 File
+   */
+  private toImageFile(blob: Blob): File {
+    return blob instanceof File ? blob : new File([blob], `clipboard-image.${this.getFileExtension(blob.type)}`, { type: blob.type });
+  }
+
+  /**
+   * 检查 ClipboardItem 是否接受指定 MIME 类型
+   * 未实现 ClipboardItem.supports 的浏览器只保证支持纯文本、HTML、PNG 图像和 web 自定义格式
+   */
+  private isClipboardTypeSupported(mimeType: string): boolean {
+    const supports = (ClipboardItem as any).supports;
+    if (typeof supports === 'function') {
+      return supports.call(ClipboardItem, mimeType);
+    }
+    return ['text/plain', 'text/html', 'image/png'].includes(mimeType) || mimeType.startsWith('web ');
+  }
+
+  /**
+   * 通过已注册的数据转换器派生缺失的文本类表示，可多步派生（如 html → text → rtf）
+   * 图像不参与派生，避免把图像写成 Base64 文本
+   * @param representations 已有的表示，派生结果直接写入
+   * @param targets 需要派生的表示
+   */
+  private async deriveRepresentations(
+    representations: Partial<Record<TextRepresentation, string>>,
+    targets: TextRepresentation[]
+  ): Promise<void> {
+    const sources: TextRepresentation[] = ['html', 'text', 'rtf'];
+    let derived = true;
+
+    while (derived) {
+      derived = false;
+      for (const target of targets) {
+        if (representations[target] !== undefined) {
+          continue;
+        }
+        const from = sources.find(source =>
+          representations[source] !== undefined && this.converterGraph.has(source, target)
+        );
+        if (from) {
+          representations[target] = await this.convertData(representations[from], from, target, {
+            enableCaching: !!this.options.cache,
+            enableChunking: true,
+            maxProcessingTime: this.options.timeout
+          });
+          derived = true;
+          this.logger.debug(`Derived ${target} representation from ${from}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * copy 事件能否写入全部表示（图像无法通过 copy 事件写入）
+   * @param representations 表示，键为 MIME 类型
+   */
+  private canWriteThroughCopyEvent(representations: Record<string, string | Blob>): boolean {
+    return Object.values(representations).every(value => typeof value === 'string' || !value.type.startsWith('image/'));
+  }
+
+  /**
+   * 通过 copy 事件写入多种表示（execCommand 降级方案），web 自定义格式去掉前缀后写入，
+   * 包含图像时不写入任何表示并返回 false
+   * @param representations 表示，键为 MIME 类型
+   * @returns 是否写入成功
+   */
+  private async copyEventFallback(representations: Record<string, string | Blob>): Promise<boolean> {
+    const doc = Environment.getDocument();
+    if (!doc || typeof doc.execCommand !== 'function') {
+      return false;
+    }
+
+    if (!this.canWriteThroughCopyEvent(representations)) {
+      this.logger.warn('Image representations cannot be written through copy event');
+      return false;
+    }
+
+    const entries: [string, string][] = [];
+    for (const type of Object.keys(representations)) {
+      const value = representations[type];
+      const format = type.startsWith('web ') ? type.slice(4) : type;
+      entries.push([format, typeof value === 'string' ? value : await value.text()]);
+    }
+
+    if (entries.length === 0) {
+      return false;
+    }
+
+    let written = false;
+    const copyHandler = (event: ClipboardEvent) => {
+      if (!event.clipboardData) {
+        return;
+      }
+      entries.forEach(([format, value]) => event.clipboardData!.setData(format, value));
+      event.preventDefault();
+      written = true;
+    };
+
+    doc.addEventListener('copy', copyHandler as EventListener, true);
+    try {
+      const successful = this.execCopyCommand(doc);
+      this.logger.debug(`Copy event fallback ${successful && written ? 'succeeded' : 'failed'} for ${entries.length} representations`);
+      return successful && written;
+    } finally {
+      doc.removeEventListener('copy', copyHandler as EventListener, true);
+    }
+  }
+
+  /**
+   * 以 <img> HTML 的形式复制图像，失败时抛出原始错误
+   * @param src 图像地址
+   * @param options 复制选项
+   * @param cause 图像写入失败的原始错误
+   */
+  private async copyImageAsHtml(src: string, options: CopyImageOptions, cause: Error): Promise<boolean> {
+    const escapedSrc = src.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+    try {
+      return await this.copyHTML(`<img src="${escapedSrc}">`, {
+        fallback: options.fallback,
+        sanitizeHtml: options.sanitizeHtml,
+        sanitizer: options.sanitizer
+      });
+    } catch {
+      throw cause;
+    }
+  }
+
+  /**
+   * 将 DataTransfer 规范化为粘贴项，并按 acceptedTypes、大小和验证规则分为接受和拒绝两组
+   * @param transfer 剪贴板或拖放数据
+   * @param options 粘贴目标选项
+   */
+  private collectPasteItems(
+    transfer: DataTransfer,
+    options: PasteTargetOptions
+  ): { accepted: PasteItem[]; rejected: RejectedPasteItem[] } {
+    const items: PasteItem[] = [];
+
+    Array.from(transfer.files || []).forEach(file => {
+      const mimeType = file.type || 'application/octet-stream';
+      items.push({ kind: mimeType.startsWith('image/') ? 'image' : 'file', mimeType, data: file, size: file.size });
+    });
+
+    Array.from(transfer.types || []).forEach(type => {
+      // 文件已通过 files 读取
+      if (type === 'Files') {
+        return;
+      }
+      const value = transfer.getData(type);
+      if (!value) {
+        return;
+      }
+
+      switch (type) {
+        case 'text/plain':
+          items.push({ kind: 'text', mimeType: type, data: value, size: value.length });
+          break;
+        case 'text/html': {
+          const html = options.sanitizeHtml !== false && this.options.enableHtmlSanitization
+            ? this.sanitizeHtml(value, options.sanitizer)
+            : value;
+          items.push({ kind: 'html', mimeType: type, data: html, size: html.length });
+          break;
+        }
+        case 'text/uri-list': {
+          // RFC 2483：以 # 开头的行是注释
+          const uris = value.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+          items.push({ kind: 'uri-list', mimeType: type, data: uris, size: value.length });
+          break;
+        }
+        default:
+          items.push({ kind: 'custom', mimeType: type, data: value, size: value.length });
+      }
+    });
+
+    const accepted: PasteItem[] = [];
+    const rejected: RejectedPasteItem[] = [];
+    items.forEach(item => {
+      const reason = this.checkPasteItem(item, options);
+      if (reason) {
+        rejected.push({ item, reason });
+      } else {
+        accepted.push(item);
+      }
+    });
+
+    return { accepted, rejected };
+  }
+
+  /**
+   * 检查粘贴项
+   * @returns 拒绝原因，通过检查时返回 null
+   */
+  private checkPasteItem(item: PasteItem, options: PasteTargetOptions): string | null {
+    const fileName = item.data instanceof File ? item.data.name : undefined;
+    if (options.acceptedTypes && !this.matchesMimeType(item.mimeType, options.acceptedTypes, fileName)) {
+      return `Type ${item.mimeType} is not accepted`;
+    }
+
+    if (options.maxSize !== undefined && item.size > options.maxSize) {
+      return `Item exceeds maximum size limit (${options.maxSize} bytes)`;
+    }
+
+    if (!this.options.enableDataValidation) {
+      return null;
+    }
+
+    const type: ClipboardDataType = item.kind === 'image' ? 'image'
+      : item.kind === 'file' ? 'files'
+      : item.kind === 'html' ? 'html'
+      : 'text';
+    const data = item.kind === 'file' ? [item.data]
+      : item.kind === 'uri-list' ? (item.data as string[]).join('\n')
+      : item.data;
+
+    const result = DataProcessor.getInstance().validateData(data, type);
+    this.performBuiltInValidation(data, type, result);
+    (options.validationRules || []).forEach(rule => {
+      try {
+        const outcome = rule.validate(data, type);
+        if (outcome === false) {
+          result.valid = false;
+          result.errors.push(rule.errorMessage || `Validation failed for rule: ${rule.name}`);
+        } else if (typeof outcome === 'string') {
+          if (rule.required) {
+            result.valid = false;
+            result.errors.push(outcome);
+          } else {
+            result.warnings.push(outcome);
+          }
+        }
+      } catch (error) {
+        // 单条规则异常只拒绝当前粘贴项，不影响其余项
+        result.valid = false;
+        result.errors.push(`Validation rule '${rule.name}' threw an error: ${(error as Error).message}`);
+      }
+    });
+
+    if (result.valid && result.warnings.length > 0) {
+      this.logger.warn('Data validation warnings:', result.warnings);
+    }
+
+    return result.valid ? null : result.errors.join(', ');
   }
 
   /**
-   * 从剪贴板读取数据
-   * @param options 读取选项
-   * @returns 剪贴板数据
+   * MIME 类型是否匹配，支持 `*`、`image/*` 通配符和 `.ext` 扩展名
    */
-  async read(options: PasteOptions = {}): Promise<ClipboardData> {
-    await this.ensureInitialized();
-    this.ensureNotDestroyed();
-
-    return this.safeExecute(async () => {
-      const { format = this.options.defaultFormat, fallback = this.options.enableFallback } = options;
-
-      try {
-        switch (format) {
-          case 'html':
-            const html = await this.readHTML(options);
-            return { 
-              type: 'html', 
-              data: html, 
-              size: html.length,
-              timestamp: Date.now(),
-              mimeType: 'text/html',
-              encoding: 'utf-8'
-            };
-          case 'files':
-            const files = await this.readFiles(options);
-            return { 
-              type: 'files', 
-              data: files, 
-              size: files.reduce((total, file) => total + file.size, 0),
-              timestamp: Date.now()
-            };
-          case 'text':
-          default:
-            const text = await this.readText(options);
-            return { 
-              type: 'text', 
-              data: text, 
-              size: text.length,
-              timestamp: Date.now(),
-              mimeType: 'text/plain',
-              encoding: 'utf-8'
-            };
-        }
-      } catch (error) {
-        if (fallback) {
-          this.logger.warn('Attempting fallback read method');
-          return await this.fallbackRead(format);
-        }
-        throw error;
+  private matchesMimeType(mimeType: string, patterns: string[], fileName?: string): boolean {
+    return patterns.some(pattern => {
+      if (pattern === '*' || pattern === '*/*') {
+        return true;
       }
-    }, 'read');
+      if (pattern.startsWith('.')) {
+        return !!fileName && fileName.toLowerCase().endsWith(pattern.toLowerCase());
+      }
+      if (pattern.endsWith('/*')) {
+        return mimeType.startsWith(pattern.slice(0, -1));
+      }
+      return mimeType === pattern;
+    });
   }
 
   /**
-   * 获取文件扩展名
+   * 按类型分发粘贴项
    */
-  private getFileExtension(mimeType: string): string {
-    const extensions: Record<string, string> = {
-      'text/plain': 'txt',
-      'text/html': 'html',
-      'text/css': 'css',
-      'text/javascript': 'js',
-      'application/json': 'json',
-      'image/png': 'png',
-      'image/jpeg': 'jpg',
-      'image/gif': 'gif',
-      'image/webp': 'webp',
-      'image/svg+xml': 'svg',
-      'application/pdf': 'pdf',
-      'application/msword': 'doc',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
-    };
+  private dispatchPasteItems(items: PasteItem[], handlers: PasteTargetHandlers, event: PasteTargetEvent): void {
+    const ofKind = (kind: PasteItemKind) => items.filter(item => item.kind === kind);
+    const text = ofKind('text');
+    const html = ofKind('html');
+    const images = ofKind('image');
+    const files = ofKind('file');
+    const uris = ofKind('uri-list');
+    const custom = ofKind('custom');
 
-    return extensions[mimeType] || 'bin';
+    handlers.onPaste?.(items, event);
+    if (text.length > 0) {
+      handlers.onText?.(text[0].data as string, event);
+    }
+    if (html.length > 0) {
+      handlers.onHtml?.(html[0].data as string, event);
+    }
+    if (images.length > 0) {
+      handlers.onImages?.(images.map(item => item.data as File), event);
+    }
+    if (files.length > 0) {
+      handlers.onFiles?.(files.map(item => item.data as File), event);
+    }
+    if (uris.length > 0) {
+      handlers.onUris?.(uris.flatMap(item => item.data as string[]), event);
+    }
+    if (custom.length > 0) {
+      handlers.onCustom?.(custom, event);
+    }
+  }
+
+  /**
+   * 确保当前为浏览器环境，服务端环境下抛出明确的错误
+   * @param method 方法名称
+   */
+  private ensureBrowser(method: string): void {
+    if (!Environment.getNavigator()) {
+      throw Environment.createServerError('Clipboard API', 'ClipboardManager', method);
+    }
   }
 
   /**
    * 检查浏览器支持
    */
   private async checkBrowserSupport(): Promise<void> {
-    if (typeof navigator === 'undefined') {
-      throw this.errorHandler.createError(
-        ErrorType.SYSTEM_ERROR,
-        'Navigator not available - running in non-browser environment',
-        { context: { method: 'checkBrowserSupport' } }
-      );
+    if (!Environment.getNavigator()) {
+      // 服务端环境：初始化成功但不可用，剪贴板操作会抛出服务端环境错误
+      this.logger.debug('Navigator not available - clipboard operations are disabled in server environment');
+      return;
     }
 
     // 记录支持的功能
@@ -1177,6 +2150,10 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
     this.registerDataConverter(new RtfToTextConverter());
     this.registerDataConverter(new ImageToBase64Converter());
     this.registerDataConverter(new Base64ToImageConverter());
+    this.registerDataConverter(new HtmlToMarkdownConverter());
+    this.registerDataConverter(new MarkdownToHtmlConverter());
+    this.registerDataConverter(new RtfToHtmlConverter());
+    this.registerDataConverter(new OfficeHtmlCleanupConverter());
   }
 
   /**
@@ -1184,9 +2161,8 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    * @param converter 数据转换器
    */
   private registerDataConverter(converter: DataConverter): void {
-    const key = `${converter.fromType}-to-${converter.toType}`;
-    this.dataConverters.set(key, converter);
-    this.logger.debug(`Registered data converter: ${key}`);
+    this.converterGraph.register(converter);
+    this.logger.debug(`Registered data converter: ${converter.fromType}-to-${converter.toType}`);
   }
 
   /**
@@ -1279,68 +2255,94 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    */
   private async convertData(
     data: any, 
-    from: ClipboardDataType, 
-    to: ClipboardDataType,
+    from: ConversionFormat, 
+    to: ConversionFormat,
     options: DataProcessingOptions = {}
   ): Promise<any> {
-    if (from === to) {
-      return data;
+    return (await this.runConversion(data, from, to, options)).data;
+  }
+
+  /**
+   * 沿转换器图中总代价最小的路径依次执行转换器
+   * @returns 转换结果，没有可用路径时返回原始数据
+   */
+  private async runConversion(
+    data: any,
+    from: ConversionFormat,
+    to: ConversionFormat,
+    options: DataProcessingOptions = {}
+  ): Promise<ConversionResult> {
+    const route = this.converterGraph.findRoute(from, to);
+    if (!route) {
+      this.logger.warn(`No converter available for ${from} to ${to}`);
+      return { data, from, to, converted: false, chain: [], path: [from], cost: 0, fromCache: false };
     }
 
-    const cacheKey = `convert_${from}_${to}_${this.hashString(JSON.stringify(data))}`;
-    
+    const chain = route.converters.map(converter => converter.name);
+    if (chain.length === 0) {
+      return { data, from, to, converted: false, chain, path: route.path, cost: 0, fromCache: false };
+    }
+
+    const useCache = options.enableCaching !== false && this.options.cache;
+    // 转换器链是缓存键的一部分，注册新的转换器后不会命中旧路径的结果
+    const cacheKey = `convert_${from}_${to}_${this.hashString(`${chain.join('>')}:${JSON.stringify(data)}`)}`;
+
     // 检查缓存
-    if (options.enableCaching !== false && this.options.cache) {
-      const cached = this.getCached(cacheKey);
+    if (useCache) {
+      const cached = await this.getCachedAsync<ConversionResult>(cacheKey);
       if (cached !== undefined) {
         this.logger.debug(`Using cached conversion result for ${from} to ${to}`);
-        return cached;
+        return { ...cached, fromCache: true };
       }
     }
 
-    const converterKey = `${from}-to-${to}`;
-    const converter = this.dataConverters.get(converterKey);
-    
-    if (!converter || !converter.canConvert(from, to)) {
-      this.logger.warn(`No converter available for ${from} to ${to}`);
-      return data;
-    }
+    const startTime = Date.now();
+    let result = data;
 
-    try {
-      const startTime = Date.now();
-      let result: any;
-
-      // 对于大数据，使用专门的处理逻辑
-      if (converter.supportsBigData && this.isLargeData(data)) {
-        this.logger.debug(`Processing large data conversion: ${from} to ${to}`);
-        const processor = DataProcessor.getInstance();
-        const processingResult = await processor.processLargeData(
-          data,
-          async (chunk) => await converter.convert(chunk, from, to),
-          options
+    for (let index = 0; index < route.converters.length; index++) {
+      const converter = route.converters[index];
+      const stepFrom = route.path[index];
+      const stepTo = route.path[index + 1];
+
+      try {
+        // 对于大数据，使用专门的处理逻辑
+        if (converter.supportsBigData && this.isLargeData(result)) {
+          this.logger.debug(`Processing large data conversion: ${stepFrom} to ${stepTo}`);
+          const processor = DataProcessor.getInstance();
+          const processingResult = await processor.processLargeData(
+            result,
+            async (chunk) => await converter.convert(chunk, stepFrom, stepTo),
+            options
+          );
+          result = processingResult.data.join('');
+        } else {
+          result = await converter.convert(result, stepFrom, stepTo);
+        }
+      } catch (error) {
+        this.performanceMonitor.recordTiming('convert', Date.now() - startTime, true);
+        this.logger.error(`Data conversion failed (${from} to ${to}) at ${converter.name}:`, error);
+        throw this.errorHandler.createError(
+          ErrorType.INTERNAL_ERROR,
+          `Failed to convert data from ${from} to ${to}: ${(error as Error).message}`,
+          { context: { method: 'convertData', extra: { from, to, chain, failedStep: converter.name } }, cause: error as Error }
         );
-        result = processingResult.data.join('');
-      } else {
-        result = await converter.convert(data, from, to);
       }
+    }
 
-      const processingTime = Date.now() - startTime;
-      this.logger.debug(`Data conversion completed in ${processingTime}ms`);
+    const processingTime = Date.now() - startTime;
+    this.performanceMonitor.recordTiming('convert', processingTime);
+    this.logger.debug(`Data conversion completed in ${processingTime}ms via ${chain.join(' → ')}`);
 
-      // 缓存结果
-      if (options.enableCaching !== false && this.options.cache) {
-        this.setCached(cacheKey, result, options.cacheExpiry || this.options.cacheTTL);
-      }
+    const conversion: ConversionResult = {
+      data: result, from, to, converted: true, chain, path: route.path, cost: route.cost, fromCache: false
+    };
 
-      return result;
-    } catch (error) {
-      this.logger.error(`Data conversion failed (${from} to ${to}):`, error);
-      throw this.errorHandler.createError(
-        ErrorType.INTERNAL_ERROR,
-        `Failed to convert data from ${from} to ${to}: ${(error as Error).message}`,
-        { context: { method: 'convertData', extra: { from, to } }, cause: error as Error }
-      );
+    // 缓存结果
+    if (useCache) {
+      this.setCached(cacheKey, conversion, options.cacheExpiry || this.options.cacheTTL);
     }
+
+    return conversion;
   }
 
   /**
@@ -1613,26 +2615,20 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   }
 
   /**
-   * 清理HTML内容
+   * 使用白名单清理HTML内容
+   * @param html HTML 内容
+   * @param sanitizer 本次使用的清理配置，默认使用 htmlSanitizer 选项
    */
-  private sanitizeHtml(html: string): string {
+  private sanitizeHtml(html: string, sanitizer?: HtmlSanitizerProfileName | HtmlSanitizerOptions): string {
     if (!this.options.enableHtmlSanitization) {
       return html;
     }
 
-    // 移除危险的标签和属性
-    let sanitized = html
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/javascript:/gi, '')
-      .replace(/on\w+\s*=\s*["'][^"']*["']/gi, '')
-      .replace(/on\w+\s*=\s*[^\s>]+/gi, '')
-      .replace(/<iframe\b[^>]*>/gi, '')
-      .replace(/<object\b[^>]*>/gi, '')
-      .replace(/<embed\b[^>]*>/gi, '')
-      .replace(/<form\b[^>]*>/gi, '')
-      .replace(/<input\b[^>]*>/gi, '')
-      .replace(/<meta\b[^>]*>/gi, '')
-      .replace(/<link\b[^>]*>/gi, '');
+    // 按配置值缓存，updateOptions 修改 htmlSanitizer 后重新创建
+    if (!sanitizer && this.htmlSanitizer?.config !== this.options.htmlSanitizer) {
+      this.htmlSanitizer = { config: this.options.htmlSanitizer, sanitizer: new HtmlSanitizer(this.options.htmlSanitizer) };
+    }
+    const sanitized = (sanitizer ? new HtmlSanitizer(sanitizer) : this.htmlSanitizer!.sanitizer).sanitize(html);
 
     this.logger.debug('HTML content sanitized');
     return sanitized;
@@ -1686,13 +2682,15 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    * 设置事件监听器
    */
   private setupEventListeners(): void {
-    if (typeof document === 'undefined') {
+    if (!Environment.getDocument()) {
       return;
     }
 
     // 监听系统剪贴板事件
-    document.addEventListener('copy', this.handleCopyEvent.bind(this));
-    document.addEventListener('paste', this.handlePasteEvent.bind(this));
+    this.systemCopyListener = this.handleCopyEvent.bind(this);
+    this.systemPasteListener = this.handlePasteEvent.bind(this);
+    document.addEventListener('copy', this.systemCopyListener);
+    document.addEventListener('paste', this.systemPasteListener);
   }
 
   /**
@@ -1703,8 +2701,14 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       return;
     }
 
-    document.removeEventListener('copy', this.handleCopyEvent.bind(this));
-    document.removeEventListener('paste', this.handlePasteEvent.bind(this));
+    if (this.systemCopyListener) {
+      document.removeEventListener('copy', this.systemCopyListener);
+    }
+    if (this.systemPasteListener) {
+      document.removeEventListener('paste', this.systemPasteListener);
+    }
+    this.systemCopyListener = undefined;
+    this.systemPasteListener = undefined;
   }
 
   /**
@@ -1712,6 +2716,10 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    */
   private handleCopyEvent(event: ClipboardEvent): void {
     this.emit('systemCopy', event);
+    // 管理器自身的降级复制已经通过 copy 事件记录
+    if (!this.internalCopy) {
+      this.recordSystemEvent(event, 'systemCopy');
+    }
   }
 
   /**
@@ -1719,6 +2727,85 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    */
   private handlePasteEvent(event: ClipboardEvent): void {
     this.emit('systemPaste', event);
+    this.recordSystemEvent(event, 'systemPaste');
+  }
+
+  /**
+   * 初始化剪贴板历史：记录管理器的复制、读取事件，并从存储恢复
+   */
+  private async setupHistory(): Promise<void> {
+    const { history } = this.options;
+    if (!history) {
+      return;
+    }
+
+    this.clipboardHistory = new ClipboardHistory({
+      maxEntrySize: this.options.maxDataSize,
+      ...(history === true ? {} : history)
+    });
+    this.clipboardHistory.on('error', error => this.logger.warn('Failed to persist clipboard history:', error));
+    this.on('copy', data => this.clipboardHistory?.add(data, 'copy'));
+    this.on('read', data => this.clipboardHistory?.add(data, 'read'));
+
+    try {
+      await this.clipboardHistory.load();
+    } catch (error) {
+      this.logger.warn('Failed to restore clipboard history:', error);
+    }
+  }
+
+  /**
+   * 将系统复制/粘贴事件记录到剪贴板历史
+   * 复制时优先使用页面写入 clipboardData 的数据，其次是表单控件或页面的选中文本；密码框中的内容整条脱敏
+   * @param event 剪贴板事件
+   * @param source 来源
+   */
+  private recordSystemEvent(event: ClipboardEvent, source: 'systemCopy' | 'systemPaste'): void {
+    const history = this.clipboardHistory;
+    if (!history || !history.accepts(source)) {
+      return;
+    }
+
+    try {
+      const clipboardData = event.clipboardData;
+      const target = event.target as HTMLInputElement | null;
+      const isFormField = !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA');
+      const sensitive = isFormField && target!.type === 'password';
+      let data: ClipboardData | null = null;
+
+      if (source === 'systemPaste' && clipboardData && clipboardData.files && clipboardData.files.length > 0) {
+        const files = Array.from(clipboardData.files);
+        data = { type: 'files', data: files, size: files.reduce((total, file) => total + file.size, 0) };
+      } else if (clipboardData?.getData('text/html')) {
+        data = { type: 'html', data: this.sanitizeHtml(clipboardData.getData('text/html')), mimeType: 'text/html' };
+      } else if (clipboardData?.getData('text/plain')) {
+        data = { type: 'text', data: clipboardData.getData('text/plain'), mimeType: 'text/plain' };
+      } else if (source === 'systemCopy') {
+        const text = isFormField
+          ? target!.value.slice(target!.selectionStart ?? 0, target!.selectionEnd ?? 0)
+          : Environment.getWindow()?.getSelection()?.toString() || '';
+        data = { type: 'text', data: text, mimeType: 'text/plain' };
+      }
+
+      if (data) {
+        history.add({ ...data, timestamp: Date.now() }, source, { sensitive });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to record clipboard history:', error);
+    }
+  }
+
+  /**
+   * 执行 execCommand('copy')，期间触发的系统 copy 事件不会重复记录到剪贴板历史
+   * @param doc 文档对象
+   */
+  private execCopyCommand(doc: Document = document): boolean {
+    this.internalCopy = true;
+    try {
+      return doc.execCommand('copy');
+    } finally {
+      this.internalCopy = false;
+    }
   }
 
   /**
@@ -1819,7 +2906,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       // 确保文本被选中
       textArea.setSelectionRange(0, textArea.value.length);
       
-      const successful = document.execCommand('copy');
+      const successful = this.execCopyCommand();
       return successful;
     } finally {
       document.body.removeChild(textArea);
@@ -1858,7 +2945,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       selection.addRange(range);
       
       // 尝试复制
-      const successful = document.execCommand('copy');
+      const successful = this.execCopyCommand();
       selection.removeAllRanges();
       
       return successful;
@@ -1891,7 +2978,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       input.select();
       input.setSelectionRange(0, input.value.length);
       
-      const successful = document.execCommand('copy');
+      const successful = this.execCopyCommand();
       return successful;
     } finally {
       document.body.removeChild(input);
@@ -1922,7 +3009,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       textarea.select();
       textarea.setSelectionRange(0, textarea.value.length);
       
-      const successful = document.execCommand('copy');
+      const successful = this.execCopyCommand();
       return successful;
     } finally {
       document.body.removeChild(textarea);
@@ -2029,7 +3116,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       selection.addRange(range);
       
       // 尝试复制
-      const successful = document.execCommand('copy');
+      const successful = this.execCopyCommand();
       selection.removeAllRanges();
       
       return successful;
@@ -2070,7 +3157,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
         selection.removeAllRanges();
         selection.addRange(range);
         
-        const successful = document.execCommand('copy');
+        const successful = this.execCopyCommand();
         selection.removeAllRanges();
         
         return successful;
@@ -2103,7 +3190,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
         selection.removeAllRanges();
         selection.addRange(range);
         
-        const successful = document.execCommand('copy');
+        const successful = this.execCopyCommand();
         selection.removeAllRanges();
         
         if (successful) {
@@ -2181,7 +3268,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
       if (clipboardData) {
         try {
           if (clipboardData.types.includes('text/html')) {
-            const html = clipboardData.getData('text/html');
+            const html = this.sanitizeHtml(clipboardData.getData('text/html'));
             callback({ 
               type: 'html', 
               data: html, 
@@ -2211,6 +3298,123 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
     });
   }
 
+  /**
+   * 为容器内的复制按钮绑定声明式复制：点击 `[data-copy]` 触发器时复制其属性值或 `data-copy-target`
+   * 引用元素的内容，在触发器上设置 `data-copy-state`，触发 `copy-success` / `copy-error` 事件并播报结果
+   * @param container 容器元素或选择器，容器内后续添加的触发器同样生效
+   * @param options 绑定选项
+   * @returns 移除绑定的函数
+   */
+  bindCopy(container: Element | string, options: CopyBindingOptions = {}): () => void {
+    this.ensureNotDestroyed();
+    this.ensureBrowser('bindCopy');
+
+    const containerElement = getElement(container);
+    if (!containerElement) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        'Invalid container provided for copy binding',
+        { context: { method: 'bindCopy', input: container } }
+      );
+    }
+
+    const binding = new CopyBinding(this, containerElement, options);
+    this.copyBindings.add(binding);
+
+    return () => {
+      if (this.copyBindings.delete(binding)) {
+        binding.destroy();
+      }
+    };
+  }
+
+  /**
+   * 将元素注册为粘贴目标：粘贴（以及拖放）的内容被规范化为文本、清理后的 HTML、图像、文件、
+   * URI 列表和自定义类型，经过 acceptedTypes、大小和验证规则检查后交给对应的处理函数
+   * @param element 目标元素或选择器
+   * @param handlers 处理函数
+   * @param options 粘贴目标选项
+   * @returns 移除监听器的函数
+   */
+  attachPasteTarget(
+    element: Element | string,
+    handlers: PasteTargetHandlers,
+    options: PasteTargetOptions = {}
+  ): () => void {
+    this.ensureNotDestroyed();
+    this.ensureBrowser('attachPasteTarget');
+
+    const target = getElement(element);
+    if (!target) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        'Invalid element provided for paste target',
+        { context: { method: 'attachPasteTarget', input: element } }
+      );
+    }
+
+    const handleTransfer = (event: PasteTargetEvent, transfer: DataTransfer | null) => {
+      if (!transfer) {
+        return;
+      }
+
+      try {
+        const { accepted, rejected } = this.collectPasteItems(transfer, options);
+        const { preventDefault = 'handled' } = options;
+        const shouldPrevent = typeof preventDefault === 'function'
+          ? preventDefault(accepted, event)
+          : preventDefault === 'handled' ? accepted.length > 0 : preventDefault;
+        if (shouldPrevent) {
+          event.preventDefault();
+        }
+
+        if (rejected.length > 0) {
+          this.logger.debug(`Rejected ${rejected.length} pasted items`);
+          handlers.onRejected?.(rejected, event);
+        }
+        if (accepted.length > 0) {
+          this.dispatchPasteItems(accepted, handlers, event);
+        }
+      } catch (error) {
+        this.handleError(error as Error, 'attachPasteTarget');
+      }
+    };
+
+    const pasteListener = (event: Event) => handleTransfer(event as ClipboardEvent, (event as ClipboardEvent).clipboardData);
+    // dragover 已接受拖放，drop 不阻止默认行为时被拒绝的文件会由浏览器打开
+    const dropListener = (event: Event) => {
+      event.preventDefault();
+      handleTransfer(event as DragEvent, (event as DragEvent).dataTransfer);
+    };
+    // 只有在 dragover 中阻止默认行为，浏览器才会触发 drop
+    const dragOverListener = (event: Event) => {
+      event.preventDefault();
+      const transfer = (event as DragEvent).dataTransfer;
+      if (transfer) {
+        transfer.dropEffect = 'copy';
+      }
+    };
+    const withDrop = options.drop !== false;
+
+    target.addEventListener('paste', pasteListener);
+    if (withDrop) {
+      target.addEventListener('dragover', dragOverListener);
+      target.addEventListener('drop', dropListener);
+    }
+
+    const dispose = () => {
+      target.removeEventListener('paste', pasteListener);
+      if (withDrop) {
+        target.removeEventListener('dragover', dragOverListener);
+        target.removeEventListener('drop', dropListener);
+      }
+      this.pasteTargetDisposers.delete(dispose);
+    };
+    this.pasteTargetDisposers.add(dispose);
+
+    return dispose;
+  }
+
   /**
    * 获取剪贴板权限状态
    */
@@ -2256,6 +3460,7 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   async clear(): Promise<boolean> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('clear');
 
     return this.safeExecute(async () => {
       try {
@@ -2286,10 +3491,40 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    * @param converter 数据转换器
    */
   addDataConverter(converter: DataConverter): void {
+    if (converter.cost !== undefined && !(Number.isFinite(converter.cost) && converter.cost >= 0)) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        `Invalid cost for data converter ${converter.name}: cost must be a non-negative number`,
+        { context: { method: 'addDataConverter', input: converter.cost } }
+      );
+    }
     this.registerDataConverter(converter);
     this.logger.debug(`Added custom data converter: ${converter.name}`);
   }
 
+  /**
+   * 按名称移除数据转换器（包括内置转换器）
+   * @param name 转换器名称
+   * @returns 是否移除了转换器
+   */
+  removeDataConverter(name: string): boolean {
+    const removed = this.converterGraph.unregister(name);
+    if (removed) {
+      this.logger.debug(`Removed data converter: ${name}`);
+    }
+    return removed;
+  }
+
+  /**
+   * 查找两种格式之间总代价最小的转换路径
+   * @param from 源格式
+   * @param to 目标格式
+   * @returns 转换路径，不可达时返回 null
+   */
+  findConversionRoute(from: ConversionFormat, to: ConversionFormat): ConversionRoute | null {
+    return this.converterGraph.findRoute(from, to);
+  }
+
   /**
    * 检测数据类型
    * @param data 数据
@@ -2321,8 +3556,8 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
    */
   async convertDataFormat(
     data: any,
-    from: ClipboardDataType,
-    to: ClipboardDataType,
+    from: ConversionFormat,
+    to: ConversionFormat,
     options?: DataProcessingOptions
   ): Promise<any> {
     await this.ensureInitialized();
@@ -2330,62 +3565,50 @@ export class ClipboardManager extends BaseManager<ClipboardManagerOptions> {
   }
 
   /**
-   * 获取数据处理统计信息
+   * 转换数据格式并返回使用的转换路径，源格式和目标格式之间没有直接转换器时经过其他格式多步转换
+   * @param data 原始数据
+   * @param from 源格式
+   * @param to 目标格式
+   * @param options 处理选项
+   * @returns 转换结果，包含转换器链、经过的格式和总代价
+   */
+  async convertDataWithRoute<T = any>(
+    data: any,
+    from: ConversionFormat,
+    to: ConversionFormat,
+    options?: DataProcessingOptions
+  ): Promise<ConversionResult<T>> {
+    await this.ensureInitialized();
+    return this.runConversion(data, from, to, options);
+  }
+
+  /**
+   * 获取数据处理统计信息，转换次数和耗时取自 getMetrics() 中的 convert 操作
    */
   getProcessingStats(): {
     converters: number;
     validationRules: number;
     cacheSize: number;
+    conversions: number;
+    conversionErrors: number;
+    averageConversionTime: number;
+    cacheHitRate: number;
   } {
     const processor = DataProcessor.getInstance();
+    const metrics = this.performanceMonitor.getMetrics();
+    const conversions = metrics.operations.convert;
     return {
-      converters: this.dataConverters.size,
+      converters: this.converterGraph.size,
       validationRules: processor['validationRules']?.size || 0,
-      cacheSize: this.cache?.size() || 0
+      cacheSize: this.cache?.size() || 0,
+      conversions: conversions?.count ?? 0,
+      conversionErrors: conversions?.errors ?? 0,
+      averageConversionTime: conversions?.average ?? 0,
+      cacheHitRate: metrics.cacheHitRate
     };
   }
 }
 
-/**
- * 抽象数据转换器基类
- */
-abstract class BaseDataConverter implements DataConverter {
-  abstract readonly fromType: ClipboardDataType;
-  abstract readonly toType: ClipboardDataType;
-  abstract readonly name: string;
-  readonly supportsBigData: boolean = false;
-
-  canConvert(from: ClipboardDataType, to: ClipboardDataType): boolean {
-    return from === this.fromType && to === this.toType;
-  }
-
-  abstract convert(data: any, from: ClipboardDataType, to: ClipboardDataType): Promise<any>;
-
-  validateInput(data: any): boolean {
-    return data !== null && data !== undefined;
-  }
-
-  getOptions(): Record<string, any> {
-    return {};
-  }
-
-  /**
-   * 处理大数据的分块转换
-   */
-  protected async processInChunks<T>(
-    data: string,
-    processor: (chunk: string) => T,
-    chunkSize: number = 64 * 1024
-  ): Promise<T[]> {
-    const chunks: T[] = [];
-    for (let i = 0; i < data.length; i += chunkSize) {
-      const chunk = data.slice(i, i + chunkSize);
-      chunks.push(processor(chunk));
-    }
-    return chunks;
-  }
-}
-
 /**
  * 文本到HTML转换器
  */
@@ -2767,7 +3990,28 @@ class DataProcessor {
   }
 }
 
-// 创建单例实例（自动初始化已在构造函数中处理）
-const clipboard = new ClipboardManager();
+export { HtmlSanitizer, sanitizeHtml, HTML_SANITIZER_PROFILES } from './sanitizer';
+export type { HtmlSanitizerOptions, HtmlSanitizerProfile, HtmlSanitizerProfileName } from './sanitizer';
+export { ClipboardHistory, DEFAULT_HISTORY_REDACTION_RULES } from './history';
+export type {
+  ClipboardHistoryEntry,
+  ClipboardHistoryOptions,
+  ClipboardHistorySource,
+  ClipboardHistoryAddOptions,
+  ClipboardHistorySearchOptions,
+  ClipboardHistoryEvents
+} from './history';
+export { COPY_SUCCESS_EVENT, COPY_ERROR_EVENT } from './bindings';
+export type { CopyBindingOptions, CopyBindingSource, CopyBindingEventDetail } from './bindings';
+
+/**
+ * 获取默认剪贴板管理器实例，可通过 ManagerRegistry.provide('ClipboardManager', manager) 替换
+ */
+export function getClipboardManager(): ClipboardManager {
+  return ManagerRegistry.resolve('ClipboardManager', () => new ClipboardManager());
+}
+
+// 默认实例的延迟代理，首次使用时才创建，保证服务端导入安全
+const clipboard = ManagerRegistry.lazy(getClipboardManager);
 
 export default clipboard; 
\ No newline at end of file
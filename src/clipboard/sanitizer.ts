@@ -0,0 +1,596 @@
+/**
+ * HTML 清理器
+ *
+ * @description 基于解析器和白名单的 HTML 清理：标签、属性、URL 协议和 CSS 属性白名单，
+ * 内置 plain、richText、email 三种配置；浏览器中使用惰性的 DOMParser 解析，
+ * 非浏览器环境使用内置的无 DOM 解析器
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { Environment } from '../core/Environment';
+
+/**
+ * 内置清理配置名称
+ */
+export type HtmlSanitizerProfileName = 'plain' | 'richText' | 'email';
+
+/**
+ * 清理配置
+ */
+export interface HtmlSanitizerProfile {
+  /** 允许的标签，不在白名单中的标签会被移除但保留其内容 */
+  allowedTags: string[];
+  /** 允许的属性，键为标签名，'*' 表示所有标签 */
+  allowedAttributes: Record<string, string[]>;
+  /** URL 属性（href、src 等）允许的协议，不带冒号；相对地址始终允许 */
+  allowedSchemes: string[];
+  /** style 属性中允许的 CSS 属性，为空时移除 style 属性 */
+  allowedStyles: string[];
+  /** 是否允许 data-* 属性 */
+  allowDataAttributes: boolean;
+  /** 是否允许 img 使用 data:image/* 地址 */
+  allowDataImages: boolean;
+}
+
+/**
+ * 清理选项：基于内置配置，单独指定的字段会整体替换配置中的对应字段
+ */
+export interface HtmlSanitizerOptions extends Partial<HtmlSanitizerProfile> {
+  /** 基础配置，默认 richText */
+  profile?: HtmlSanitizerProfileName;
+}
+
+/**
+ * 解析后的文本节点
+ */
+export interface SanitizerText {
+  type: 'text';
+  value: string;
+}
+
+/**
+ * 解析后的元素节点（属性值已解码）
+ */
+export interface SanitizerElement {
+  type: 'element';
+  tag: string;
+  attributes: Array<[string, string]>;
+  children: SanitizerNode[];
+}
+
+export type SanitizerNode = SanitizerText | SanitizerElement;
+
+const RICH_TEXT_TAGS = [
+  'p', 'br', 'div', 'span', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins',
+  'sub', 'sup', 'mark', 'small', 'code', 'pre', 'kbd', 'blockquote', 'q', 'cite', 'abbr',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'a', 'img', 'hr',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'colgroup', 'col',
+  'figure', 'figcaption'
+];
+
+const RICH_TEXT_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['title', 'lang', 'dir', 'class', 'style'],
+  a: ['href', 'target', 'rel', 'name'],
+  img: ['src', 'alt', 'width', 'height'],
+  ol: ['start', 'type', 'reversed'],
+  ul: ['type'],
+  li: ['value'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  td: ['colspan', 'rowspan', 'align', 'valign'],
+  th: ['colspan', 'rowspan', 'align', 'valign', 'scope'],
+  col: ['span', 'width'],
+  colgroup: ['span', 'width']
+};
+
+const RICH_TEXT_STYLES = [
+  'color', 'background-color', 'font-family', 'font-size', 'font-style', 'font-weight',
+  'text-align', 'text-decoration', 'text-indent', 'text-transform', 'vertical-align',
+  'line-height', 'letter-spacing', 'white-space', 'list-style-type',
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left'
+];
+
+/**
+ * 内置清理配置
+ */
+export const HTML_SANITIZER_PROFILES: Readonly<Record<HtmlSanitizerProfileName, Readonly<HtmlSanitizerProfile>>> = {
+  plain: {
+    allowedTags: ['p', 'br', 'div'],
+    allowedAttributes: {},
+    allowedSchemes: [],
+    allowedStyles: [],
+    allowDataAttributes: false,
+    allowDataImages: false
+  },
+  richText: {
+    allowedTags: RICH_TEXT_TAGS,
+    allowedAttributes: RICH_TEXT_ATTRIBUTES,
+    allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+    allowedStyles: RICH_TEXT_STYLES,
+    allowDataAttributes: false,
+    allowDataImages: true
+  },
+  email: {
+    allowedTags: [...RICH_TEXT_TAGS, 'font', 'center'],
+    allowedAttributes: {
+      ...RICH_TEXT_ATTRIBUTES,
+      '*': [...RICH_TEXT_ATTRIBUTES['*'], 'align', 'bgcolor', 'width', 'height'],
+      font: ['color', 'face', 'size'],
+      table: ['border', 'cellpadding', 'cellspacing', 'bgcolor', 'width', 'height', 'align'],
+      td: [...RICH_TEXT_ATTRIBUTES.td, 'bgcolor', 'width', 'height', 'nowrap'],
+      th: [...RICH_TEXT_ATTRIBUTES.th, 'bgcolor', 'width', 'height', 'nowrap'],
+      img: [...RICH_TEXT_ATTRIBUTES.img, 'border']
+    },
+    allowedSchemes: ['http', 'https', 'mailto', 'tel', 'cid'],
+    allowedStyles: [
+      ...RICH_TEXT_STYLES,
+      'width', 'height', 'max-width', 'min-width', 'display',
+      'border', 'border-top', 'border-right', 'border-bottom', 'border-left',
+      'border-color', 'border-style', 'border-width', 'border-collapse', 'border-spacing', 'border-radius'
+    ],
+    allowDataAttributes: false,
+    allowDataImages: true
+  }
+};
+
+/** 连同内容一起移除的标签（脚本、样式、嵌入内容和 SVG/MathML 等外部内容） */
+export const DROP_CONTENT_TAGS = new Set([
+  'script', 'style', 'template', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'applet', 'textarea', 'select', 'title', 'xmp', 'noembed', 'noframes', 'plaintext',
+  'svg', 'math', 'head', 'base', 'meta', 'link'
+]);
+
+/** 内容按原始文本解析的标签 */
+const RAW_TEXT_TAGS = new Set([
+  'script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript'
+]);
+
+/** 空元素 */
+export const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'keygen', 'link', 'meta',
+  'param', 'source', 'track', 'wbr'
+]);
+
+/** 值为 URL 的属性 */
+export const URL_ATTRIBUTES = new Set([
+  'href', 'src', 'cite', 'action', 'formaction', 'background', 'poster', 'longdesc', 'xlink:href'
+]);
+
+const START_TAG_PATTERN = /<([a-zA-Z][^\s/>]*)/y;
+const END_TAG_PATTERN = /<\/([a-zA-Z][^\s/>]*)[^>]*>/y;
+const ATTRIBUTE_NAME_PATTERN = /[^\s/>][^\s/>=]*/y;
+const UNQUOTED_VALUE_PATTERN = /[^\s>]*/y;
+
+/** 无 DOM 解析器支持的命名实体（URL 协议绕过常用的实体和常见排版符号） */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0',
+  colon: ':', semi: ';', comma: ',', period: '.', sol: '/', bsol: '\\', lpar: '(', rpar: ')',
+  tab: '\t', newline: '\n', excl: '!', quest: '?', num: '#', equals: '=', plus: '+',
+  copy: '\u00A9', reg: '\u00AE', trade: '\u2122', hellip: '\u2026', mdash: '\u2014', ndash: '\u2013',
+  lsquo: '\u2018', rsquo: '\u2019', ldquo: '\u201C', rdquo: '\u201D', laquo: '\u00AB', raquo: '\u00BB',
+  bull: '\u2022', middot: '\u00B7', times: '\u00D7', divide: '\u00F7', deg: '\u00B0', sect: '\u00A7',
+  euro: '\u20AC', pound: '\u00A3', yen: '\u00A5', cent: '\u00A2'
+};
+
+/**
+ * HTML 清理器
+ */
+export class HtmlSanitizer {
+  private allowedTags: Set<string>;
+  private allowedAttributes: Map<string, Set<string>>;
+  private allowedSchemes: Set<string>;
+  private allowedStyles: Set<string>;
+  private allowDataAttributes: boolean;
+  private allowDataImages: boolean;
+
+  /**
+   * 构造函数
+   * @param options 内置配置名称或清理选项，默认 richText
+   */
+  constructor(options: HtmlSanitizerProfileName | HtmlSanitizerOptions = 'richText') {
+    const { profile = 'richText', ...overrides } = typeof options === 'string' ? { profile: options } : options;
+    const config: HtmlSanitizerProfile = { ...HTML_SANITIZER_PROFILES[profile], ...stripUndefined(overrides) };
+
+    this.allowedTags = new Set(config.allowedTags.map(tag => tag.toLowerCase()));
+    this.allowedAttributes = new Map(
+      Object.keys(config.allowedAttributes).map(tag => [
+        tag.toLowerCase(),
+        new Set(config.allowedAttributes[tag].map(name => name.toLowerCase()))
+      ])
+    );
+    this.allowedSchemes = new Set(config.allowedSchemes.map(scheme => scheme.toLowerCase()));
+    this.allowedStyles = new Set(config.allowedStyles.map(property => property.toLowerCase()));
+    this.allowDataAttributes = config.allowDataAttributes;
+    this.allowDataImages = config.allowDataImages;
+  }
+
+  /**
+   * 清理 HTML
+   * @param html HTML 字符串
+   * @returns 只包含白名单内容的 HTML
+   */
+  sanitize(html: string): string {
+    if (!html) {
+      return '';
+    }
+    return this.serializeNodes(parseHtmlFragment(html));
+  }
+
+  /**
+   * 序列化节点列表，同时应用白名单
+   */
+  private serializeNodes(nodes: SanitizerNode[]): string {
+    let output = '';
+    for (const node of nodes) {
+      output += node.type === 'text' ? escapeText(node.value) : this.serializeElement(node);
+    }
+    return output;
+  }
+
+  /**
+   * 序列化元素：危险元素连同内容移除，未允许的元素只保留内容
+   */
+  private serializeElement(element: SanitizerElement): string {
+    const { tag } = element;
+    if (DROP_CONTENT_TAGS.has(tag)) {
+      return '';
+    }
+    if (!this.allowedTags.has(tag)) {
+      return this.serializeNodes(element.children);
+    }
+
+    const attributes = this.filterAttributes(tag, element.attributes)
+      .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+      .join('');
+
+    if (VOID_TAGS.has(tag)) {
+      return `<${tag}${attributes}>`;
+    }
+    return `<${tag}${attributes}>${this.serializeNodes(element.children)}</${tag}>`;
+  }
+
+  /**
+   * 过滤属性
+   */
+  private filterAttributes(tag: string, attributes: Array<[string, string]>): Array<[string, string]> {
+    const result: Array<[string, string]> = [];
+    const seen = new Set<string>();
+
+    for (const [rawName, rawValue] of attributes) {
+      const name = rawName.toLowerCase();
+      if (seen.has(name) || name.startsWith('on') || !this.isAttributeAllowed(tag, name)) {
+        continue;
+      }
+
+      let value: string | undefined = rawValue;
+      if (URL_ATTRIBUTES.has(name)) {
+        value = this.isUrlAllowed(tag, name, rawValue) ? rawValue.trim() : undefined;
+      } else if (name === 'style') {
+        value = this.filterStyle(rawValue);
+      }
+
+      if (value !== undefined) {
+        seen.add(name);
+        result.push([name, value]);
+      }
+    }
+
+    // 新窗口打开的链接不允许访问 window.opener
+    if (tag === 'a' && seen.has('target')) {
+      const rel = result.find(([name]) => name === 'rel');
+      const values = new Set((rel ? rel[1] : '').split(/\s+/).filter(Boolean).concat('noopener', 'noreferrer'));
+      if (rel) {
+        rel[1] = Array.from(values).join(' ');
+      } else {
+        result.push(['rel', Array.from(values).join(' ')]);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 属性是否在白名单中
+   */
+  private isAttributeAllowed(tag: string, name: string): boolean {
+    if (this.allowDataAttributes && /^data-[\w-]+$/.test(name)) {
+      return true;
+    }
+    return !!this.allowedAttributes.get('*')?.has(name) || !!this.allowedAttributes.get(tag)?.has(name);
+  }
+
+  /**
+   * URL 是否安全：相对地址或白名单协议，img 可选允许 data:image/*
+   */
+  private isUrlAllowed(tag: string, name: string, value: string): boolean {
+    // 浏览器解析 URL 时会忽略控制字符和空白，检查前同样去除，防止 "java\tscript:" 之类的绕过
+    const normalized = value.replace(/[\u0000-\u0020\u007f-\u009f]/g, '').toLowerCase();
+    const match = /^([a-z][a-z0-9+.-]*):/.exec(normalized);
+    if (!match) {
+      return true;
+    }
+    const scheme = match[1];
+    if (scheme === 'data') {
+      return this.allowDataImages && tag === 'img' && name === 'src'
+        && /^data:image\/(png|gif|jpe?g|webp|bmp|avif)[;,]/.test(normalized);
+    }
+    return this.allowedSchemes.has(scheme);
+  }
+
+  /**
+   * 过滤 style 属性，只保留白名单中且值安全的 CSS 属性
+   * @returns 过滤后的样式，没有剩余属性时返回 undefined
+   */
+  private filterStyle(style: string): string | undefined {
+    const declarations: string[] = [];
+    for (const declaration of style.split(';')) {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) {
+        continue;
+      }
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      if (value && this.allowedStyles.has(property) && isSafeCssValue(value)) {
+        declarations.push(`${property}: ${value}`);
+      }
+    }
+    return declarations.length > 0 ? declarations.join('; ') : undefined;
+  }
+}
+
+/**
+ * 使用白名单清理 HTML
+ * @param html HTML 字符串
+ * @param options 内置配置名称或清理选项，默认 richText
+ * @returns 清理后的 HTML
+ */
+export function sanitizeHtml(html: string, options?: HtmlSanitizerProfileName | HtmlSanitizerOptions): string {
+  return new HtmlSanitizer(options).sanitize(html);
+}
+
+/**
+ * 将 HTML 片段解析为节点树，浏览器中使用 DOMParser，其他环境使用无 DOM 解析器（数据转换器也使用该方法）
+ * @param html HTML 字符串
+ * @returns 节点列表，注释、DOCTYPE 等已被丢弃
+ */
+export function parseHtmlFragment(html: string): SanitizerNode[] {
+  return html ? parseWithDom(html) ?? parseHtml(html) : [];
+}
+
+/**
+ * CSS 值是否安全：禁止外部资源、表达式和转义（转义可以隐藏关键字）
+ */
+export function isSafeCssValue(value: string): boolean {
+  return !/url\s*\(|image-set\s*\(|expression\s*\(|javascript:|vbscript:|@import|behavior\s*:|-moz-binding|[\\<>"'{}]|\/\*/i.test(value);
+}
+
+/**
+ * 移除值为 undefined 的字段，避免覆盖配置中的默认值
+ */
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(value) as Array<keyof T>).forEach(key => {
+    if (value[key] !== undefined) {
+      result[key] = value[key];
+    }
+  });
+  return result;
+}
+
+/**
+ * 转义文本内容
+ */
+export function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 转义属性值
+ */
+export function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * 解码 HTML 实体（数字实体和常用命名实体）
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff) ? String.fromCodePoint(code) : '\uFFFD';
+    }
+    const named = NAMED_ENTITIES[body.toLowerCase()];
+    return named !== undefined ? named : entity;
+  });
+}
+
+/**
+ * 使用浏览器的 DOMParser 解析（生成的文档是惰性的，不会执行脚本或加载资源）
+ * @returns 非浏览器环境返回 undefined
+ */
+function parseWithDom(html: string): SanitizerNode[] | undefined {
+  const win = Environment.getWindow() as (Window & { DOMParser?: typeof DOMParser }) | undefined;
+  if (!win || typeof win.DOMParser !== 'function') {
+    return undefined;
+  }
+  const doc = new win.DOMParser().parseFromString(`<!DOCTYPE html><body>${html}`, 'text/html');
+  return convertDomNodes(doc.body ? doc.body.childNodes : []);
+}
+
+/**
+ * 将 DOM 节点转换为清理器节点
+ */
+function convertDomNodes(nodes: ArrayLike<Node>): SanitizerNode[] {
+  const result: SanitizerNode[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node.nodeType === 3) {
+      result.push({ type: 'text', value: node.nodeValue || '' });
+    } else if (node.nodeType === 1) {
+      const element = node as Element;
+      result.push({
+        type: 'element',
+        tag: element.localName.toLowerCase(),
+        attributes: Array.from(element.attributes).map(attribute => [attribute.name, attribute.value] as [string, string]),
+        children: convertDomNodes(element.childNodes)
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * 无 DOM 的 HTML 解析器：按浏览器的分词规则处理标签、属性、注释和原始文本元素，
+ * 不处理隐式闭合等树构建细节（清理器会重新生成闭合标签）
+ */
+function parseHtml(html: string): SanitizerNode[] {
+  const root: SanitizerElement = { type: 'element', tag: '#root', attributes: [], children: [] };
+  const stack: SanitizerElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const pushText = (text: string) => {
+    if (text) {
+      current().children.push({ type: 'text', value: decodeEntities(text) });
+    }
+  };
+
+  let index = 0;
+  while (index < html.length) {
+    const open = html.indexOf('<', index);
+    if (open === -1) {
+      pushText(html.slice(index));
+      break;
+    }
+    pushText(html.slice(index, open));
+
+    // 注释
+    if (html.startsWith('<!--', open)) {
+      const end = html.indexOf('-->', open + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    // DOCTYPE、CDATA、处理指令等按注释丢弃
+    if (html[open + 1] === '!' || html[open + 1] === '?') {
+      const end = html.indexOf('>', open);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    // 结束标签
+    if (html[open + 1] === '/') {
+      const match = matchAt(END_TAG_PATTERN, html, open);
+      if (match) {
+        const tag = match[1].toLowerCase();
+        const position = stack.map(element => element.tag).lastIndexOf(tag);
+        if (position > 0) {
+          stack.length = position;
+        }
+        index = open + match[0].length;
+      } else {
+        const end = html.indexOf('>', open);
+        index = end === -1 ? html.length : end + 1;
+      }
+      continue;
+    }
+
+    // 开始标签
+    const nameMatch = matchAt(START_TAG_PATTERN, html, open);
+    if (!nameMatch) {
+      pushText('<');
+      index = open + 1;
+      continue;
+    }
+
+    const tag = nameMatch[1].toLowerCase();
+    const parsed = parseAttributes(html, open + nameMatch[0].length);
+    if (!parsed) {
+      // 未闭合的标签（输入在标签中间结束），浏览器同样会丢弃
+      break;
+    }
+
+    const element: SanitizerElement = { type: 'element', tag, attributes: parsed.attributes, children: [] };
+    current().children.push(element);
+    index = parsed.end;
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const closingPattern = new RegExp(`</${tag}(?=[\\s/>])`, 'gi');
+      closingPattern.lastIndex = index;
+      const closing = closingPattern.exec(html);
+      const end = closing ? closing.index : html.length;
+      element.children.push({ type: 'text', value: html.slice(index, end) });
+      const close = closing ? html.indexOf('>', end) : -1;
+      index = close === -1 ? html.length : close + 1;
+    } else if (tag === 'plaintext') {
+      element.children.push({ type: 'text', value: html.slice(index) });
+      index = html.length;
+    } else if (!VOID_TAGS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+/**
+ * 从指定位置匹配粘性正则
+ */
+function matchAt(pattern: RegExp, html: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(html);
+}
+
+/**
+ * 解析开始标签中的属性
+ * @returns 属性和标签结束后的位置，标签未闭合时返回 undefined
+ */
+function parseAttributes(html: string, start: number): { attributes: Array<[string, string]>; end: number } | undefined {
+  const attributes: Array<[string, string]> = [];
+  let index = start;
+
+  while (index < html.length) {
+    const char = html[index];
+    if (/[\s/]/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '>') {
+      return { attributes, end: index + 1 };
+    }
+
+    const nameMatch = matchAt(ATTRIBUTE_NAME_PATTERN, html, index);
+    const name = nameMatch ? nameMatch[0] : char;
+    index += name.length;
+
+    while (index < html.length && /\s/.test(html[index])) {
+      index++;
+    }
+
+    let value = '';
+    if (html[index] === '=') {
+      index++;
+      while (index < html.length && /\s/.test(html[index])) {
+        index++;
+      }
+      const quote = html[index];
+      if (quote === '"' || quote === "'") {
+        const end = html.indexOf(quote, index + 1);
+        if (end === -1) {
+          return undefined;
+        }
+        value = html.slice(index + 1, end);
+        index = end + 1;
+      } else {
+        const match = matchAt(UNQUOTED_VALUE_PATTERN, html, index);
+        value = match ? match[0] : '';
+        index += value.length;
+      }
+    }
+
+    attributes.push([name, decodeEntities(value)]);
+  }
+
+  return undefined;
+}
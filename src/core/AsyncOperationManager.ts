@@ -0,0 +1,351 @@
+/**
+ * 异步操作管理器
+ *
+ * @description 登记长时间运行的异步操作，提供操作ID、进度事件、状态/结果查询、取消和已结束操作的清理
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import {
+  AsyncOperationContext,
+  AsyncOperationOptions,
+  AsyncOperationResult,
+  AsyncOperationStatus,
+  IAsyncOperationManager
+} from '../types/core';
+import { ErrorType } from '../types/errors';
+import { CustomError, ErrorHandler } from './ErrorHandler';
+import { EventEmitter } from './EventEmitter';
+import { TypedEventListener } from './types';
+
+/**
+ * 异步操作管理器配置
+ */
+export interface AsyncOperationManagerOptions {
+  /** 错误处理器 */
+  errorHandler?: ErrorHandler;
+}
+
+/**
+ * 异步操作事件
+ */
+export type AsyncOperationEvent = 'started' | 'progress' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 异步操作事件映射
+ */
+export type AsyncOperationEvents = Record<AsyncOperationEvent, [result: AsyncOperationResult]>;
+
+/**
+ * 操作记录
+ */
+interface OperationRecord {
+  result: AsyncOperationResult;
+  controller: AbortController;
+  promise: Promise<AsyncOperationResult>;
+  resolve: (result: AsyncOperationResult) => void;
+  detach?: () => void;
+}
+
+/**
+ * 异步操作管理器类
+ *
+ * 事件：started、progress、completed、failed、cancelled，参数均为操作结果快照
+ */
+export class AsyncOperationManager implements IAsyncOperationManager {
+  private errorHandler: ErrorHandler;
+  private eventEmitter: EventEmitter<AsyncOperationEvents>;
+  private operations: Map<string, OperationRecord> = new Map();
+
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options: AsyncOperationManagerOptions = {}) {
+    this.errorHandler = options.errorHandler || new ErrorHandler();
+    this.eventEmitter = new EventEmitter({ errorHandler: this.errorHandler, module: 'AsyncOperationManager' });
+  }
+
+  /**
+   * 启动异步操作并立即返回操作ID，操作在下一个微任务开始执行
+   * @param operation 异步操作，通过上下文获取取消信号并报告进度
+   * @param options 操作选项
+   * @returns 操作ID
+   */
+  start<T>(operation: (context: AsyncOperationContext) => Promise<T>, options: AsyncOperationOptions = {}): string {
+    const id = options.id || generateOperationId();
+    const existing = this.operations.get(id);
+    if (existing && !isFinished(existing.result.status)) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        `Operation "${id}" is already running`,
+        { context: { method: 'start', input: id } }
+      );
+    }
+
+    const controller = new AbortController();
+    let resolve!: (result: AsyncOperationResult) => void;
+    const promise = new Promise<AsyncOperationResult>(done => {
+      resolve = done;
+    });
+    const record: OperationRecord = {
+      result: {
+        id,
+        name: options.name,
+        status: AsyncOperationStatus.PENDING,
+        startTime: Date.now(),
+        progress: 0
+      },
+      controller,
+      promise,
+      resolve
+    };
+    this.operations.set(id, record);
+
+    const { signal } = options;
+    if (signal) {
+      const onAbort = () => this.cancel(id, signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      record.detach = () => signal.removeEventListener('abort', onAbort);
+    }
+
+    const context: AsyncOperationContext = {
+      id,
+      signal: controller.signal,
+      reportProgress: (progress: number) => this.updateProgress(record, progress)
+    };
+
+    Promise.resolve()
+      .then(() => {
+        if (signal?.aborted) {
+          this.cancel(id, signal.reason);
+        }
+        if (isFinished(record.result.status)) {
+          return undefined;
+        }
+        record.result = { ...record.result, status: AsyncOperationStatus.RUNNING };
+        this.eventEmitter.emit('started', this.snapshot(record));
+        return operation(context);
+      })
+      .then(
+        value => this.settle(record, AsyncOperationStatus.COMPLETED, { result: value, progress: 100 }),
+        error => this.settle(
+          record,
+          this.errorHandler.isCancellationError(error) ? AsyncOperationStatus.CANCELLED : AsyncOperationStatus.FAILED,
+          { error: error as Error }
+        )
+      );
+
+    return id;
+  }
+
+  /**
+   * 执行异步操作并等待结果，失败不会抛出异常，错误信息通过结果返回
+   * @param operation 异步操作
+   * @param idOrOptions 操作ID或操作选项
+   * @returns 操作结果
+   */
+  execute<T>(
+    operation: (context: AsyncOperationContext) => Promise<T>,
+    idOrOptions?: string | AsyncOperationOptions
+  ): Promise<AsyncOperationResult<T>> {
+    const options = typeof idOrOptions === 'string' ? { id: idOrOptions } : idOrOptions;
+    return this.wait<T>(this.start(operation, options));
+  }
+
+  /**
+   * 等待操作结束
+   * @param id 操作ID
+   * @returns 操作结果
+   */
+  wait<T>(id: string): Promise<AsyncOperationResult<T>> {
+    const record = this.operations.get(id);
+    if (!record) {
+      return Promise.reject(this.createNotFoundError(id, 'wait'));
+    }
+    return record.promise as Promise<AsyncOperationResult<T>>;
+  }
+
+  /**
+   * 取消操作
+   * @param id 操作ID
+   * @param reason 取消原因
+   * @returns 是否取消了正在进行的操作
+   */
+  cancel(id: string, reason?: any): boolean {
+    const record = this.operations.get(id);
+    if (!record || isFinished(record.result.status)) {
+      return false;
+    }
+
+    const error = reason instanceof CustomError
+      ? reason
+      : this.errorHandler.createError(
+        ErrorType.CANCELLED_ERROR,
+        reason instanceof Error && reason.name !== 'AbortError' ? reason.message : 'Operation was cancelled',
+        {
+          context: { method: record.result.name || 'operation', input: id },
+          recoverable: false,
+          cause: reason instanceof Error ? reason : undefined
+        }
+      );
+
+    record.controller.abort(error);
+    this.settle(record, AsyncOperationStatus.CANCELLED, { error });
+    return true;
+  }
+
+  /**
+   * 取消所有未结束的操作
+   * @param reason 取消原因
+   */
+  cancelAll(reason?: any): void {
+    Array.from(this.operations.keys()).forEach(id => this.cancel(id, reason));
+  }
+
+  /**
+   * 获取操作状态
+   * @param id 操作ID
+   */
+  getStatus(id: string): AsyncOperationStatus | undefined {
+    return this.operations.get(id)?.result.status;
+  }
+
+  /**
+   * 获取操作结果快照
+   * @param id 操作ID
+   */
+  getResult<T>(id: string): AsyncOperationResult<T> | undefined {
+    const record = this.operations.get(id);
+    return record ? this.snapshot(record) : undefined;
+  }
+
+  /**
+   * 获取操作列表
+   * @param status 只返回指定状态的操作
+   */
+  getOperations(status?: AsyncOperationStatus): AsyncOperationResult[] {
+    return Array.from(this.operations.values())
+      .filter(record => !status || record.result.status === status)
+      .map(record => this.snapshot(record));
+  }
+
+  /**
+   * 清理已结束（完成、失败或取消）的操作
+   * @param maxAge 只清理结束时间早于该时长（毫秒）的操作，默认清理全部
+   */
+  cleanup(maxAge: number = 0): void {
+    const threshold = Date.now() - maxAge;
+    this.operations.forEach((record, id) => {
+      if (isFinished(record.result.status) && record.result.endTime! <= threshold) {
+        this.operations.delete(id);
+      }
+    });
+  }
+
+  /**
+   * 监听操作事件
+   * @param event 事件名称
+   * @param listener 监听器
+   */
+  on<K extends AsyncOperationEvent>(event: K, listener: TypedEventListener<AsyncOperationEvents, K>): this {
+    this.eventEmitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * 移除操作事件监听器
+   * @param event 事件名称
+   * @param listener 监听器
+   */
+  off<K extends AsyncOperationEvent>(event: K, listener?: TypedEventListener<AsyncOperationEvents, K>): this {
+    this.eventEmitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * 取消所有操作并释放资源
+   */
+  destroy(): void {
+    this.cancelAll();
+    this.operations.clear();
+    this.eventEmitter.removeAllListeners();
+  }
+
+  /**
+   * 更新进度，只对执行中的操作生效
+   * @param record 操作记录
+   * @param progress 进度（0-100）
+   */
+  private updateProgress(record: OperationRecord, progress: number): void {
+    if (record.result.status !== AsyncOperationStatus.RUNNING || !Number.isFinite(progress)) {
+      return;
+    }
+
+    const value = Math.min(100, Math.max(0, progress));
+    if (value === record.result.progress) {
+      return;
+    }
+
+    record.result = { ...record.result, progress: value };
+    this.eventEmitter.emit('progress', this.snapshot(record));
+  }
+
+  /**
+   * 结束操作，已结束的操作不会被再次修改
+   * @param record 操作记录
+   * @param status 最终状态
+   * @param patch 需要写入结果的字段
+   */
+  private settle(record: OperationRecord, status: AsyncOperationStatus, patch: Partial<AsyncOperationResult>): void {
+    if (isFinished(record.result.status)) {
+      return;
+    }
+
+    record.result = { ...record.result, ...patch, status, endTime: Date.now() };
+    record.detach?.();
+
+    const snapshot = this.snapshot(record);
+    // 结束状态的取值与 completed/failed/cancelled 事件名称一致
+    this.eventEmitter.emit(status as `${AsyncOperationStatus}` as AsyncOperationEvent, snapshot);
+    record.resolve(snapshot);
+  }
+
+  /**
+   * 生成结果快照，避免外部修改内部状态
+   * @param record 操作记录
+   */
+  private snapshot<T>(record: OperationRecord): AsyncOperationResult<T> {
+    return { ...record.result };
+  }
+
+  /**
+   * 创建操作不存在的错误
+   * @param id 操作ID
+   * @param method 方法名称
+   */
+  private createNotFoundError(id: string, method: string): CustomError {
+    return this.errorHandler.createError(
+      ErrorType.USER_ERROR,
+      `Operation "${id}" not found`,
+      { context: { method, input: id } }
+    );
+  }
+}
+
+/**
+ * 是否为结束状态
+ * @param status 操作状态
+ */
+function isFinished(status: AsyncOperationStatus): boolean {
+  return status === AsyncOperationStatus.COMPLETED
+    || status === AsyncOperationStatus.FAILED
+    || status === AsyncOperationStatus.CANCELLED;
+}
+
+/**
+ * 生成操作ID
+ */
+function generateOperationId(): string {
+  return `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -6,26 +6,67 @@
  * @date 2024-07-20
  */
 
-import { BaseOptions } from '../types/core';
-import { ErrorContext, ProcessedError } from '../types/errors';
+import {
+  AsyncOperationContext,
+  AsyncOperationOptions,
+  BaseManagerEvents,
+  BaseOptions,
+  IPlugin,
+  LifecycleHooks,
+  ManagerDefaultOptions,
+  ManagerEvents,
+  ModuleState,
+  PerformanceMetrics,
+  SafeExecuteOptions,
+  ValidationResult,
+  ValidationRule
+} from '../types/core';
+import { ErrorContext, ErrorType, ProcessedError, RetryPolicy } from '../types/errors';
 import { EventEmitter } from './EventEmitter';
-import { ErrorHandler } from './ErrorHandler';
+import {
+  DefaultEventMap,
+  EmitAsyncOptions,
+  EventArgs,
+  EventListener,
+  EventMap,
+  EventName,
+  ListenerOptions,
+  TypedEventListener,
+  WaitForOptions,
+  WildcardEventListener,
+  WildcardEventName,
+  CacheSetOptions
+} from './types';
+import { ErrorHandler, CustomError } from './ErrorHandler';
 import { Logger } from './Logger';
 import { Cache } from './Cache';
+import { PluginManager } from './PluginManager';
+import { ErrorRetrier } from './ErrorRetrier';
+import { PerformanceMonitor } from './PerformanceMonitor';
+import { ConfigValidator } from './ConfigValidator';
+import { AsyncOperationEvent, AsyncOperationManager } from './AsyncOperationManager';
+import { ManagerRegistry } from './ManagerRegistry';
 
 /**
  * 基础管理器抽象类
+ *
+ * 第二个泛型参数为模块事件映射，会与 BaseManagerEvents 合并，用于约束 on/off/once/emit 的事件名称和参数
  */
-export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
+export abstract class BaseManager<T extends BaseOptions = BaseOptions, E extends EventMap = DefaultEventMap> {
   protected options: Required<T>;
-  protected eventEmitter: EventEmitter;
+  protected eventEmitter: EventEmitter<ManagerEvents<E>>;
   protected errorHandler: ErrorHandler;
   protected logger: Logger;
   protected cache?: Cache;
-  protected initialized: boolean = false;
-  protected destroyed: boolean = false;
+  protected pluginManager: PluginManager<this>;
+  protected retrier: ErrorRetrier;
+  protected optionsValidator: ConfigValidator;
+  protected performanceMonitor: PerformanceMonitor;
+  protected operationManager: AsyncOperationManager;
+  private moduleState: ModuleState = ModuleState.UNINITIALIZED;
+  private stateBeforePause?: ModuleState;
+  private destroyPromise?: Promise<void>;
   private initPromise?: Promise<void>;
-  private initializing: boolean = false;
 
   /**
    * 构造函数
@@ -33,8 +74,10 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
    * @param moduleName 模块名称
    */
   constructor(options?: T, moduleName: string = 'BaseManager') {
-    // 合并默认配置
-    this.options = this.mergeDefaultOptions(options);
+    // 合并默认配置和全局配置并按选项模式验证，无效字段回退为默认值
+    this.optionsValidator = new ConfigValidator(this.getOptionsSchema());
+    const validation = this.optionsValidator.validate(this.mergeDefaultOptions(options, moduleName));
+    this.options = this.applyOptionsFallback(validation);
     
     // 初始化核心组件
     this.logger = new Logger(moduleName, {
@@ -42,17 +85,36 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
       enableConsole: this.options.debug
     });
     
-    this.eventEmitter = new EventEmitter();
     this.errorHandler = new ErrorHandler(this.logger);
+    // 监听器抛出的异常交给管理器的错误处理器
+    this.eventEmitter = new EventEmitter<ManagerEvents<E>>({ errorHandler: this.errorHandler, module: moduleName });
+    this.retrier = new ErrorRetrier();
+    this.performanceMonitor = new PerformanceMonitor({ name: moduleName });
+    PerformanceMonitor.register(this.performanceMonitor);
+    ManagerRegistry.register(this, moduleName);
+    this.pluginManager = new PluginManager<this>(this, {
+      logger: this.logger.createChild('plugins'),
+      errorHandler: this.errorHandler
+    });
+    this.operationManager = new AsyncOperationManager({ errorHandler: this.errorHandler });
+    this.forwardOperationEvents();
+
+    if (!validation.valid) {
+      this.logger.warn(`Invalid options, falling back to defaults: ${validation.errors.join('; ')}`, {
+        issues: validation.issues
+      });
+    }
     
     // 如果启用缓存，初始化缓存管理器
     if (this.options.cache) {
-      this.cache = new Cache();
+      this.cache = new Cache({
+        namespace: moduleName,
+        onStorageError: (error, key) => this.logger.warn(`Cache storage operation failed for "${key}": ${error.message}`),
+        onRevalidateError: (error, key) => this.logger.warn(`Cache revalidation failed for "${key}": ${error.message}`),
+        ...(typeof this.options.cache === 'object' ? this.options.cache : {})
+      });
     }
 
-    // 设置错误处理
-    this.setupErrorHandling();
-    
     // 自动开始初始化（不阻塞构造函数）
     this.startAutoInitialization();
   }
@@ -63,53 +125,299 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
   abstract initialize(): Promise<void>;
 
   /**
-   * 销毁管理器（抽象方法，子类必须实现）
+   * 子类的销毁逻辑，在 beforeDestroy 钩子之后、基础资源释放之前执行
+   */
+  protected onDestroy(): void {}
+
+  /**
+   * 子类的启动逻辑（如开始轮询或监听）
+   */
+  protected onStart(): void | Promise<void> {}
+
+  /**
+   * 子类的停止逻辑
+   */
+  protected onStop(): void | Promise<void> {}
+
+  /**
+   * 子类的暂停逻辑（如页面隐藏时暂停轮询）
+   */
+  protected onPause(): void | Promise<void> {}
+
+  /**
+   * 子类的恢复逻辑
+   */
+  protected onResume(): void | Promise<void> {}
+
+  /**
+   * 获取默认配置（抽象方法，子类必须实现），retryPolicy 与 hooks 可省略
+   */
+  protected abstract getDefaultOptions(): ManagerDefaultOptions<T>;
+
+  /**
+   * 获取选项验证规则，子类可扩展以声明自己的选项
+   * @returns 验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      { field: 'debug', type: 'boolean' },
+      { field: 'timeout', type: 'number', min: 0 },
+      { field: 'retries', type: 'number', min: 0, validator: value => Number.isInteger(value) || 'Expected an integer' },
+      {
+        field: 'cache',
+        validator: value => typeof value === 'boolean'
+          || (!!value && typeof value === 'object' && !Array.isArray(value))
+          || 'Expected boolean or cache config object'
+      },
+      { field: 'cacheTTL', type: 'number', min: 0 },
+      {
+        field: 'retryPolicy',
+        type: 'object',
+        rules: [
+          { field: 'delay', type: 'number', min: 0 },
+          { field: 'backoffMultiplier', type: 'number', min: 1 },
+          { field: 'maxDelay', type: 'number', min: 0 },
+          { field: 'jitter', enum: ['none', 'full', 'decorrelated'] },
+          { field: 'shouldRetry', type: 'function' },
+          { field: 'onRetry', type: 'function' }
+        ]
+      },
+      {
+        field: 'hooks',
+        type: 'object',
+        rules: [
+          { field: 'beforeInit', type: 'function' },
+          { field: 'afterInit', type: 'function' },
+          { field: 'beforeDestroy', type: 'function' },
+          { field: 'afterDestroy', type: 'function' },
+          { field: 'onError', type: 'function' }
+        ]
+      }
+    ];
+  }
+
+  /**
+   * 当前生命周期状态
+   */
+  get state(): ModuleState {
+    return this.moduleState;
+  }
+
+  /**
+   * 是否已初始化（包括运行中和已暂停）
+   */
+  get isInitialized(): boolean {
+    return this.moduleState === ModuleState.INITIALIZED
+      || this.moduleState === ModuleState.RUNNING
+      || this.moduleState === ModuleState.PAUSED;
+  }
+
+  /**
+   * 是否正在运行
+   */
+  get isRunning(): boolean {
+    return this.moduleState === ModuleState.RUNNING;
+  }
+
+  /**
+   * 是否已初始化，子类在 initialize() 中设置为 true 表示初始化完成
+   */
+  protected get initialized(): boolean {
+    return this.isInitialized;
+  }
+
+  protected set initialized(value: boolean) {
+    if (value && !this.isInitialized) {
+      // 子类直接调用 initialize() 时（未经过自动初始化）先进入 INITIALIZING
+      if (this.moduleState !== ModuleState.INITIALIZING) {
+        this.transition(ModuleState.INITIALIZING, 'initialize');
+      }
+      this.transition(ModuleState.INITIALIZED, 'initialize');
+    }
+  }
+
+  /**
+   * 是否已销毁
+   */
+  protected get destroyed(): boolean {
+    return this.moduleState === ModuleState.DESTROYED;
+  }
+
+  /**
+   * 是否正在初始化
+   */
+  protected get initializing(): boolean {
+    return this.moduleState === ModuleState.INITIALIZING;
+  }
+
+  /**
+   * 启动管理器（INITIALIZED -> RUNNING），未初始化时会先等待初始化
+   */
+  async start(): Promise<void> {
+    await this.ensureInitialized();
+    if (this.moduleState === ModuleState.RUNNING) {
+      return;
+    }
+
+    this.transition(ModuleState.RUNNING, 'start');
+    await this.runLifecycleStep('start', 'started', () => this.onStart());
+  }
+
+  /**
+   * 停止管理器（RUNNING/PAUSED -> INITIALIZED）
+   */
+  async stop(): Promise<void> {
+    if (this.moduleState === ModuleState.INITIALIZED) {
+      return;
+    }
+    // 只有 initialize() 能进入 INITIALIZED，未初始化或初始化失败的管理器不能通过 stop() 跳过初始化
+    if (this.moduleState !== ModuleState.RUNNING && this.moduleState !== ModuleState.PAUSED) {
+      throw this.createTransitionError(this.moduleState, ModuleState.INITIALIZED, 'stop');
+    }
+
+    this.transition(ModuleState.INITIALIZED, 'stop');
+    this.stateBeforePause = undefined;
+    await this.runLifecycleStep('stop', 'stopped', () => this.onStop());
+  }
+
+  /**
+   * 暂停管理器（INITIALIZED/RUNNING -> PAUSED），恢复时回到暂停前的状态
+   */
+  async pause(): Promise<void> {
+    if (this.moduleState === ModuleState.PAUSED) {
+      return;
+    }
+
+    const previous = this.moduleState;
+    this.transition(ModuleState.PAUSED, 'pause');
+    this.stateBeforePause = previous;
+    await this.runLifecycleStep('pause', 'paused', () => this.onPause());
+  }
+
+  /**
+   * 恢复已暂停的管理器
    */
-  abstract destroy(): void;
+  async resume(): Promise<void> {
+    if (this.moduleState !== ModuleState.PAUSED) {
+      return;
+    }
+
+    this.transition(this.stateBeforePause || ModuleState.INITIALIZED, 'resume');
+    this.stateBeforePause = undefined;
+    await this.runLifecycleStep('resume', 'resumed', () => this.onResume());
+  }
 
   /**
-   * 获取默认配置（抽象方法，子类必须实现）
+   * 销毁管理器：依次执行 beforeDestroy 钩子、子类销毁逻辑、基础资源释放和 afterDestroy 钩子。
+   * 钩子均为同步时销毁会同步完成，返回的 Promise 在异步钩子结束后完成
    */
-  protected abstract getDefaultOptions(): Required<T>;
+  destroy(): Promise<void> {
+    if (this.destroyPromise) {
+      return this.destroyPromise;
+    }
+    if (this.destroyed) {
+      return Promise.resolve();
+    }
+
+    const teardown = (): Promise<void> => {
+      try {
+        this.onDestroy();
+      } catch (error) {
+        this.handleError(error as Error, 'destroy');
+      }
+      // 插件卸载完成后再调用 afterDestroy 钩子
+      return this.baseDestroy().then(() => this.invokeHook('afterDestroy'));
+    };
+
+    const pending = this.invokeHook('beforeDestroy');
+    this.destroyPromise = pending ? pending.then(teardown) : teardown();
+    return this.destroyPromise;
+  }
 
   /**
    * 添加事件监听器
-   * @param event 事件名称
-   * @param listener 监听器函数
-   * @param options 监听器选项
+   * @param event 事件名称，支持 `*` 和 `prefix:*` 通配符
+   * @param listener 监听器函数，通配符监听器的第一个参数为实际事件名称
+   * @param options 监听器选项（一次性、优先级、命名空间）
    */
-  on(event: string, listener: (...args: any[]) => void, options?: { once?: boolean; priority?: number }): this {
-    this.eventEmitter.on(event, listener, options);
+  on(event: WildcardEventName, listener: WildcardEventListener<ManagerEvents<E>>, options?: ListenerOptions): this;
+  on<K extends EventName<ManagerEvents<E>>>(
+    event: K,
+    listener: TypedEventListener<ManagerEvents<E>, K>,
+    options?: ListenerOptions
+  ): this;
+  on(event: string, listener: EventListener, options?: ListenerOptions): this {
+    this.untypedEmitter.on(event, listener, options);
     return this;
   }
 
   /**
    * 移除事件监听器
-   * @param event 事件名称
+   * @param event 事件名称或通配符
    * @param listener 监听器函数
    */
-  off(event: string, listener?: (...args: any[]) => void): this {
-    this.eventEmitter.off(event, listener);
+  off(event: WildcardEventName, listener?: WildcardEventListener<ManagerEvents<E>>): this;
+  off<K extends EventName<ManagerEvents<E>>>(event: K, listener?: TypedEventListener<ManagerEvents<E>, K>): this;
+  off(event: string, listener?: EventListener): this {
+    this.untypedEmitter.off(event, listener);
     return this;
   }
 
+  /**
+   * 移除命名空间下的所有监听器
+   * @param namespace 命名空间
+   * @returns 移除的监听器数量
+   */
+  offNamespace(namespace: string): number {
+    return this.eventEmitter.offNamespace(namespace);
+  }
+
   /**
    * 触发事件
    * @param event 事件名称
    * @param args 事件参数
    */
-  emit(event: string, ...args: any[]): boolean {
+  emit<K extends EventName<ManagerEvents<E>>>(event: K, ...args: EventArgs<ManagerEvents<E>, K>): boolean {
     return this.eventEmitter.emit(event, ...args);
   }
 
   /**
-   * 添加一次性事件监听器
+   * 异步触发事件并等待所有监听器完成，失败会被汇总后抛出
    * @param event 事件名称
+   * @param args 事件参数
+   * @param options 触发选项（serial/parallel）
+   */
+  emitAsync<K extends EventName<ManagerEvents<E>>>(
+    event: K,
+    args: EventArgs<ManagerEvents<E>, K>,
+    options?: EmitAsyncOptions
+  ): Promise<boolean> {
+    return this.eventEmitter.emitAsync(event, args, options);
+  }
+
+  /**
+   * 等待事件触发
+   * @param event 事件名称
+   * @param options 超时、过滤条件和取消信号
+   * @returns 事件参数
+   */
+  waitFor<K extends EventName<ManagerEvents<E>>>(
+    event: K,
+    options?: WaitForOptions<EventArgs<ManagerEvents<E>, K>>
+  ): Promise<EventArgs<ManagerEvents<E>, K>> {
+    return this.eventEmitter.waitFor(event, options);
+  }
+
+  /**
+   * 添加一次性事件监听器
+   * @param event 事件名称或通配符
    * @param listener 监听器函数
    * @param priority 优先级
    */
-  once(event: string, listener: (...args: any[]) => void, priority?: number): this {
-    this.eventEmitter.once(event, listener, priority);
+  once(event: WildcardEventName, listener: WildcardEventListener<ManagerEvents<E>>, priority?: number): this;
+  once<K extends EventName<ManagerEvents<E>>>(event: K, listener: TypedEventListener<ManagerEvents<E>, K>, priority?: number): this;
+  once(event: string, listener: EventListener, priority?: number): this {
+    this.untypedEmitter.once(event, listener, priority);
     return this;
   }
 
@@ -117,17 +425,90 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
    * 获取事件监听器数量
    * @param event 事件名称
    */
-  listenerCount(event: string): number {
+  listenerCount(event: EventName<ManagerEvents<E>>): number {
     return this.eventEmitter.listenerCount(event);
   }
 
   /**
    * 获取所有事件名称
    */
-  eventNames(): string[] {
+  eventNames(): EventName<ManagerEvents<E>>[] {
     return this.eventEmitter.eventNames();
   }
 
+  /**
+   * 注册并启用插件，依赖的插件需已注册
+   * @param plugin 插件对象
+   * @returns 当前管理器实例
+   */
+  async use(plugin: IPlugin<this>): Promise<this> {
+    this.ensureNotDestroyed();
+
+    try {
+      if (this.pluginManager.get(plugin?.name) !== plugin) {
+        this.pluginManager.register(plugin);
+      }
+      await this.pluginManager.enable(plugin.name);
+    } catch (error) {
+      throw this.handleError(error as Error, 'use');
+    }
+
+    return this;
+  }
+
+  /**
+   * 获取插件管理器，用于在运行时启用/禁用插件
+   */
+  getPluginManager(): PluginManager<this> {
+    return this.pluginManager;
+  }
+
+  /**
+   * 获取错误处理器，可用于注册处理/恢复策略或查看错误统计
+   */
+  getErrorHandler(): ErrorHandler {
+    return this.errorHandler;
+  }
+
+  /**
+   * 获取异步操作管理器，可按操作ID查询状态/结果、取消操作或清理已结束的操作
+   */
+  getOperationManager(): AsyncOperationManager {
+    return this.operationManager;
+  }
+
+  /**
+   * 启动可跟踪的长时间操作，进度和状态变化通过 operation* 事件通知
+   * @param name 操作名称
+   * @param operation 异步操作
+   * @param options 操作选项
+   * @returns 操作ID
+   */
+  protected startOperation<R>(
+    name: string,
+    operation: (context: AsyncOperationContext) => Promise<R>,
+    options: Omit<AsyncOperationOptions, 'name'> = {}
+  ): string {
+    this.ensureNotDestroyed();
+    return this.operationManager.start(operation, { ...options, name });
+  }
+
+  /**
+   * 将异步操作管理器的事件转发为管理器事件
+   */
+  private forwardOperationEvents(): void {
+    const events: Record<AsyncOperationEvent, keyof BaseManagerEvents & `operation${string}`> = {
+      started: 'operationStarted',
+      progress: 'operationProgress',
+      completed: 'operationCompleted',
+      failed: 'operationFailed',
+      cancelled: 'operationCancelled'
+    };
+    (Object.keys(events) as AsyncOperationEvent[]).forEach((event) => {
+      this.operationManager.on(event, (result) => this.emitBaseEvent(events[event], result));
+    });
+  }
+
   /**
    * 处理错误
    * @param error 错误对象
@@ -135,6 +516,11 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
    * @returns 处理后的错误对象
    */
   protected handleError(error: Error, context?: string): ProcessedError {
+    // 已处理的错误（如 safeExecute 抛出的错误）不重复记录，也不重复触发事件
+    if (ErrorHandler.isProcessedError(error)) {
+      return error;
+    }
+
     const errorContext: Partial<ErrorContext> = {
       module: this.constructor.name,
       method: context
@@ -142,8 +528,13 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
 
     const processedError = this.errorHandler.handleError(error, errorContext);
     
-    // 触发错误事件
-    this.emit('error', processedError);
+    // 触发错误事件，主动取消单独触发 cancelled 事件
+    if (processedError.type === ErrorType.CANCELLED_ERROR) {
+      this.emitBaseEvent('cancelled', processedError);
+    } else {
+      this.emitBaseEvent('error', processedError);
+      this.invokeHook('onError', processedError);
+    }
     
     return processedError;
   }
@@ -151,114 +542,245 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
   /**
    * 验证输入参数
    * @param input 输入参数
-   * @param schema 验证模式
+   * @param schema 验证规则，兼容旧的 `{ type, required, isArray, properties }` 写法
    * @returns 是否验证通过
    */
-  protected validateInput(input: any, schema: any): boolean {
-    try {
-      // 简单的类型验证
-      if (schema.type) {
-        const actualType = typeof input;
-        if (actualType !== schema.type) {
-          throw this.errorHandler.createError(
-            'USER_ERROR' as any,
-            `Expected ${schema.type}, got ${actualType}`,
-            { context: { method: 'validateInput' } }
-          );
-        }
-      }
+  protected validateInput(input: any, schema: Omit<ValidationRule, 'field'> | LegacyInputSchema): boolean {
+    const result = this.optionsValidator.validateValue(input, toValidationRule(schema), 'input');
+    if (result.valid) {
+      return true;
+    }
 
-      // 必填字段验证
-      if (schema.required && (input === null || input === undefined)) {
-        throw this.errorHandler.createError(
-          'USER_ERROR' as any,
-          'Required parameter is missing',
-          { context: { method: 'validateInput' } }
-        );
-      }
+    this.handleError(this.errorHandler.createError(
+      ErrorType.USER_ERROR,
+      result.errors.join('; '),
+      { context: { method: 'validateInput', extra: { issues: result.issues } } }
+    ), 'validateInput');
+    return false;
+  }
 
-      // 数组验证
-      if (schema.isArray && !Array.isArray(input)) {
-        throw this.errorHandler.createError(
-          'USER_ERROR' as any,
-          'Expected array',
-          { context: { method: 'validateInput' } }
-        );
-      }
+  /**
+   * 按规则验证对象，汇总所有错误
+   * @param input 待验证的对象
+   * @param rules 验证规则
+   * @returns 验证结果
+   */
+  protected validate(input: any, rules: ValidationRule[]): ValidationResult {
+    return new ConfigValidator(rules).validate(input);
+  }
 
-      // 对象属性验证
-      if (schema.properties && typeof input === 'object' && input !== null) {
-        for (const [key, propSchema] of Object.entries(schema.properties)) {
-          if (!this.validateInput(input[key], propSchema)) {
-            return false;
-          }
+  /**
+   * 安全执行异步操作
+   * @param operation 异步操作函数，接收本次执行的取消信号（超时或调用方取消时触发）
+   * @param context 上下文信息
+   * @param retries 重试次数或执行选项
+   * @returns 操作结果
+   */
+  protected async safeExecute<R>(
+    operation: (signal: AbortSignal) => Promise<R>,
+    context: string,
+    retries?: number | SafeExecuteOptions
+  ): Promise<R> {
+    // 记录耗时和失败次数（主动取消不计为错误）
+    return this.performanceMonitor.timeAsync(
+      context,
+      () => this.executeWithRetry(operation, context, retries),
+      error => !this.errorHandler.isCancellationError(error as Error)
+    );
+  }
+
+  /**
+   * 按重试策略执行操作
+   * @param operation 异步操作函数
+   * @param context 上下文信息
+   * @param retries 重试次数或执行选项
+   * @returns 操作结果
+   */
+  private async executeWithRetry<R>(
+    operation: (signal: AbortSignal) => Promise<R>,
+    context: string,
+    retries?: number | SafeExecuteOptions
+  ): Promise<R> {
+    const executeOptions: SafeExecuteOptions = typeof retries === 'number' ? { retries } : retries || {};
+    const maxRetries = executeOptions.retries ?? this.options.retries ?? 0;
+    const timeout = executeOptions.timeout ?? this.options.timeout;
+    const signal = executeOptions.signal;
+    const policy = this.getRetryPolicy();
+
+    const outcome = await this.retrier.retry(
+      () => {
+        this.throwIfAborted(signal, context);
+        return this.executeAttempt(operation, context, timeout, signal);
+      },
+      {
+        ...policy,
+        maxRetries,
+        signal,
+        // 取消的操作不重试，其余交给策略或错误处理器判断
+        shouldRetry: (error, attempt) => !this.errorHandler.isCancellationError(error) && (
+          policy.shouldRetry ? policy.shouldRetry(error, attempt) : this.errorHandler.isRecoverableError(error)
+        ),
+        onRetry: (error, attempt, delay) => {
+          this.logger.warn(`Operation failed, retrying in ${delay}ms (attempt ${attempt}/${maxRetries + 1})`, {
+            context,
+            error: error.message
+          });
+          policy.onRetry?.(error, attempt, delay);
         }
       }
+    );
 
-      return true;
-    } catch (error) {
-      this.handleError(error as Error, 'validateInput');
-      return false;
+    if (outcome.success) {
+      // 如果是重试成功，记录日志
+      if (outcome.attempts > 1) {
+        this.logger.info(`Operation succeeded after ${outcome.attempts - 1} retries`, { context });
+      }
+      return outcome.result as R;
     }
+
+    const error = signal?.aborted ? this.createCancellationError(signal, context) : outcome.error!;
+    throw this.handleError(error, context);
   }
 
   /**
-   * 安全执行异步操作
+   * 获取当前管理器的重试策略
+   */
+  protected getRetryPolicy(): RetryPolicy {
+    return this.options.retryPolicy || {};
+  }
+
+  /**
+   * 获取重试统计
+   */
+  getRetryStats(): ReturnType<ErrorRetrier['getRetryStats']> {
+    return this.retrier.getRetryStats();
+  }
+
+  /**
+   * 获取性能指标快照（耗时分位、缓存命中率、错误率和吞吐量）
+   */
+  getMetrics(): PerformanceMetrics {
+    this.performanceMonitor.recordMemoryUsage();
+    return this.performanceMonitor.getMetrics();
+  }
+
+  /**
+   * 执行单次操作，超时或调用方取消时中止本次操作并清理定时器
    * @param operation 异步操作函数
    * @param context 上下文信息
-   * @param retries 重试次数
-   * @returns 操作结果
+   * @param timeout 超时时间（毫秒）
+   * @param signal 调用方的取消信号
    */
-  protected async safeExecute<R>(
-    operation: () => Promise<R>,
+  private executeAttempt<R>(
+    operation: (signal: AbortSignal) => Promise<R>,
     context: string,
-    retries?: number
+    timeout?: number,
+    signal?: AbortSignal
   ): Promise<R> {
-    const maxRetries = retries ?? this.options.retries ?? 0;
-    let lastError: Error | null = null;
+    const controller = new AbortController();
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        // 设置超时
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => {
-            reject(this.errorHandler.createError(
-              'TIMEOUT_ERROR' as any,
-              `Operation timed out after ${this.options.timeout}ms`,
-              { context: { method: context } }
-            ));
-          }, this.options.timeout);
-        });
-
-        const result = await Promise.race([operation(), timeoutPromise]);
-        
-        // 如果是重试成功，记录日志
-        if (attempt > 0) {
-          this.logger.info(`Operation succeeded after ${attempt} retries`, { context });
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error as Error;
-        
-        // 如果是最后一次尝试或错误不可恢复，直接抛出
-        if (attempt === maxRetries || !this.errorHandler.isRecoverableError(lastError)) {
-          throw this.handleError(lastError, context);
+    return new Promise<R>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        if (timer !== undefined) {
+          clearTimeout(timer);
         }
-        
-        // 等待一段时间后重试
-        const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // 指数退避，最大5秒
-        this.logger.warn(`Operation failed, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries + 1})`, {
-          context,
-          error: lastError.message
-        });
-        
-        await new Promise(resolve => setTimeout(resolve, delay));
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const fail = (error: Error) => {
+        cleanup();
+        controller.abort(error);
+        reject(error);
+      };
+
+      const onAbort = () => fail(this.createCancellationError(signal!, context));
+
+      if (timeout && timeout > 0) {
+        timer = setTimeout(() => {
+          fail(this.errorHandler.createError(
+            ErrorType.TIMEOUT_ERROR,
+            `Operation timed out after ${timeout}ms`,
+            { context: { method: context } }
+          ));
+        }, timeout);
       }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      Promise.resolve()
+        .then(() => operation(controller.signal))
+        .then(
+          (result) => {
+            cleanup();
+            resolve(result);
+          },
+          (error) => {
+            cleanup();
+            reject(error);
+          }
+        );
+    });
+  }
+
+  /**
+   * 如果信号已取消则抛出取消错误
+   * @param signal 取消信号
+   * @param context 上下文信息
+   */
+  protected throwIfAborted(signal: AbortSignal | undefined, context: string): void {
+    if (signal?.aborted) {
+      throw this.createCancellationError(signal, context);
+    }
+  }
+
+  /**
+   * 根据取消信号创建取消错误，超时等已分类的原因会被保留
+   * @param signal 取消信号
+   * @param context 上下文信息
+   */
+  protected createCancellationError(signal: AbortSignal, context: string): CustomError {
+    const reason = signal.reason;
+    if (reason instanceof CustomError) {
+      return reason;
     }
 
-    // 这里不应该到达，但为了类型安全
-    throw this.handleError(lastError!, context);
+    return this.errorHandler.createError(
+      ErrorType.CANCELLED_ERROR,
+      reason instanceof Error && reason.name !== 'AbortError' ? reason.message : 'Operation was cancelled',
+      {
+        context: { method: context },
+        recoverable: false,
+        cause: reason instanceof Error ? reason : undefined
+      }
+    );
+  }
+
+  /**
+   * 可取消的延时
+   * @param ms 延时时间（毫秒）
+   * @param signal 取消信号
+   * @param context 上下文信息
+   */
+  protected delay(ms: number, signal?: AbortSignal, context: string = 'delay'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createCancellationError(signal, context));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.createCancellationError(signal!, context));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -267,39 +789,88 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
    * @returns 缓存值
    */
   protected getCached<R>(key: string): R | undefined {
-    return this.cache?.get(key);
+    if (!this.cache) {
+      return undefined;
+    }
+
+    const value = this.cache.get(key);
+    if (value !== undefined) {
+      this.performanceMonitor.recordCacheHit();
+    } else {
+      this.performanceMonitor.recordCacheMiss();
+    }
+    return value;
+  }
+
+  /**
+   * 获取缓存值，内存未命中时从持久化存储读取
+   * @param key 缓存键
+   * @returns 缓存值
+   */
+  protected async getCachedAsync<R>(key: string): Promise<R | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
+
+    const value = await this.cache.getAsync(key);
+    if (value !== undefined) {
+      this.performanceMonitor.recordCacheHit();
+    } else {
+      this.performanceMonitor.recordCacheMiss();
+    }
+    return value;
   }
 
   /**
    * 设置缓存值
    * @param key 缓存键
    * @param value 缓存值
-   * @param ttl 过期时间
+   * @param ttl 过期时间或写入选项（标签等）
    */
-  protected setCached<R>(key: string, value: R, ttl?: number): void {
+  protected setCached<R>(key: string, value: R, ttl?: number | CacheSetOptions): void {
     this.cache?.set(key, value, ttl);
   }
 
+  /**
+   * 使带有指定标签的缓存失效
+   * @param tag 标签
+   * @returns 失效的缓存项数量
+   */
+  protected invalidateCacheTag(tag: string): number {
+    return this.cache?.invalidateTag(tag) ?? 0;
+  }
+
   /**
    * 获取或设置缓存值
    * @param key 缓存键
    * @param factory 工厂函数
-   * @param ttl 过期时间
+   * @param ttl 过期时间或写入选项（标签、stale-while-revalidate 等）
    * @returns 缓存值
    */
   protected async getOrSetCached<R>(
     key: string,
     factory: () => Promise<R>,
-    ttl?: number
+    ttl?: number | CacheSetOptions
   ): Promise<R> {
     if (this.cache) {
-      return this.cache.getOrSet(key, factory, ttl);
+      let hit = true;
+      const value = await this.cache.getOrSet(key, () => {
+        hit = false;
+        return factory();
+      }, ttl);
+
+      if (hit) {
+        this.performanceMonitor.recordCacheHit();
+      } else {
+        this.performanceMonitor.recordCacheMiss();
+      }
+      return value;
     }
     return factory();
   }
 
   /**
-   * 确保已初始化（自动初始化版本）
+   * 确保已初始化（自动初始化版本），上次初始化失败时会重新初始化
    */
   protected async ensureInitialized(): Promise<void> {
     if (this.destroyed) {
@@ -310,30 +881,28 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
       );
     }
 
-    if (this.initialized) {
-      return;
+    if (!this.initPromise) {
+      if (this.initialized) {
+        return;
+      }
+      this.initPromise = this.runInitialization();
     }
 
-    if (this.initPromise) {
-      try {
-        await this.initPromise;
-        this.initPromise = undefined;
-      } catch (error) {
-        // 重新抛出初始化错误
-        throw this.errorHandler.createError(
-          'SYSTEM_ERROR' as any,
-          `Manager initialization failed: ${(error as Error).message}`,
-          { context: { method: 'ensureInitialized' } }
-        );
-      }
-    } else if (!this.initializing) {
-      // 如果没有初始化Promise且未在初始化中，手动初始化
-      this.initializing = true;
-      try {
-        await this.initialize();
-      } finally {
-        this.initializing = false;
+    // 等待初始化（包括 afterInit 钩子）完成
+    try {
+      await this.initPromise;
+    } catch (error) {
+      this.initPromise = undefined;
+      // 等待期间子类直接调用的 initialize() 已成功
+      if (this.isInitialized) {
+        return;
       }
+      // 重新抛出初始化错误
+      throw this.errorHandler.createError(
+        'SYSTEM_ERROR' as any,
+        `Manager initialization failed: ${(error as Error).message}`,
+        { context: { method: 'ensureInitialized' } }
+      );
     }
   }
 
@@ -376,6 +945,7 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
    * 获取管理器状态
    */
   getStatus(): {
+    state: ModuleState;
     initialized: boolean;
     destroyed: boolean;
     eventListeners: number;
@@ -383,11 +953,12 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
     initializing: boolean;
   } {
     return {
+      state: this.moduleState,
       initialized: this.initialized,
       destroyed: this.destroyed,
       eventListeners: this.eventNames().reduce((total, event) => total + this.listenerCount(event), 0),
       cacheSize: this.cache?.size(),
-      initializing: this.initializing || !!this.initPromise
+      initializing: this.initializing
     };
   }
 
@@ -396,7 +967,16 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
    * @param newOptions 新的配置选项
    */
   updateOptions(newOptions: Partial<T>): void {
-    this.options = { ...this.options, ...newOptions };
+    const validation = this.optionsValidator.validate({ ...this.options, ...newOptions });
+    if (!validation.valid) {
+      throw this.handleError(this.errorHandler.createError(
+        ErrorType.CONFIG_ERROR,
+        `Invalid options: ${validation.errors.join('; ')}`,
+        { context: { method: 'updateOptions', extra: { issues: validation.issues } } }
+      ), 'updateOptions');
+    }
+
+    this.options = validation.config;
     
     // 更新日志级别
     if (newOptions.debug !== undefined) {
@@ -405,40 +985,52 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
     }
     
     // 触发配置更新事件
-    this.emit('optionsUpdated', this.options);
+    this.emitBaseEvent('optionsUpdated', this.options);
   }
 
   /**
-   * 合并默认配置
+   * 合并默认配置：管理器默认值 < 全局配置 < 用户配置
    * @param options 用户配置
+   * @param moduleName 模块名称
    * @returns 合并后的配置
    */
-  private mergeDefaultOptions(options?: T): Required<T> {
-    const defaultOptions = this.getDefaultOptions();
-    return { ...defaultOptions, ...options } as Required<T>;
+  private mergeDefaultOptions(options: T | undefined, moduleName: string): Required<T> {
+    const defaultOptions = this.resolveDefaultOptions();
+    return { ...defaultOptions, ...ManagerRegistry.getDefaults(moduleName), ...options } as Required<T>;
   }
 
   /**
-   * 设置错误处理
+   * 获取补全后的默认配置，子类未提供的 retryPolicy 与 hooks 补为空对象
+   * @returns 完整的默认配置
    */
-  private setupErrorHandling(): void {
-    // 监听未捕获的Promise拒绝
-    if (typeof window !== 'undefined') {
-      window.addEventListener('unhandledrejection', (event) => {
-        this.handleError(new Error(event.reason), 'unhandledrejection');
-      });
-    } else if (typeof process !== 'undefined') {
-      process.on('unhandledRejection', (reason) => {
-        this.handleError(new Error(String(reason)), 'unhandledRejection');
-      });
+  private resolveDefaultOptions(): Required<T> {
+    return { retryPolicy: {}, hooks: {}, ...this.getDefaultOptions() } as Required<T>;
+  }
+
+  /**
+   * 将验证失败的顶层选项回退为默认值
+   * @param validation 选项验证结果
+   * @returns 可用的配置
+   */
+  private applyOptionsFallback(validation: ValidationResult): Required<T> {
+    if (validation.valid) {
+      return validation.config;
+    }
+
+    const defaultOptions = this.resolveDefaultOptions();
+    const options = { ...validation.config };
+    for (const issue of validation.issues) {
+      const field = issue.path.split(/[.[]/)[0] as keyof T;
+      options[field] = defaultOptions[field];
     }
+    return options;
   }
 
   /**
    * 开始自动初始化
    */
   private startAutoInitialization(): void {
-    this.initPromise = this.initialize().catch((error) => {
+    this.initPromise = this.runInitialization().catch((error) => {
       this.logger.error('Auto-initialization failed:', error);
       // 不要在这里抛出未处理的拒绝，而是存储错误供后续使用
       return Promise.reject(error);
@@ -451,15 +1043,162 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
   }
 
   /**
-   * 基础销毁逻辑
+   * 执行初始化：beforeInit 钩子、initialize()、afterInit 钩子，失败时进入 ERROR 状态。
+   * 钩子均为同步时，initialize() 会在调用方的同一调用栈中开始执行
    */
-  protected baseDestroy(): void {
-    if (this.destroyed) {
+  private runInitialization(): Promise<void> {
+    this.transition(ModuleState.INITIALIZING, 'initialize');
+
+    return this.performanceMonitor.timeAsync('initialize', async () => {
+      const beforeInit = this.invokeHook('beforeInit');
+      if (beforeInit) {
+        await beforeInit;
+      }
+
+      await this.initialize();
+      if (this.destroyed) {
+        return;
+      }
+      this.initialized = true;
+
+      const afterInit = this.invokeHook('afterInit');
+      if (afterInit) {
+        await afterInit;
+      }
+    }).catch((error) => {
+      // 自动初始化在子类构造函数完成前开始，子类字段尚未赋值时可能失败；
+      // 子类随后直接调用的 initialize() 已成功时忽略这次过期的失败
+      if (this.destroyed || this.isInitialized) {
+        return;
+      }
+      this.transition(ModuleState.ERROR, 'initialize');
+      throw error;
+    });
+  }
+
+  /**
+   * 切换生命周期状态并触发 stateChange 事件
+   * @param next 目标状态
+   * @param method 发起切换的方法，用于错误上下文
+   */
+  private transition(next: ModuleState, method: string = 'transition'): void {
+    const previous = this.moduleState;
+    if (previous === next) {
       return;
     }
 
+    if (!STATE_TRANSITIONS[previous].includes(next)) {
+      throw this.createTransitionError(previous, next, method);
+    }
+
+    this.moduleState = next;
+    this.emitBaseEvent('stateChange', { from: previous, to: next });
+  }
+
+  /**
+   * 创建非法状态切换错误
+   * @param from 当前状态
+   * @param to 目标状态
+   * @param method 发起切换的方法
+   */
+  private createTransitionError(from: ModuleState, to: ModuleState, method: string): CustomError {
+    return this.errorHandler.createError(
+      ErrorType.USER_ERROR,
+      `Invalid state transition from "${from}" to "${to}"`,
+      { context: { method, extra: { from, to } } }
+    );
+  }
+
+  /**
+   * 不受事件映射约束的事件发射器视图，用于转发重载方法
+   */
+  private get untypedEmitter(): EventEmitter {
+    return this.eventEmitter as unknown as EventEmitter;
+  }
+
+  /**
+   * 触发基础事件，子类的事件映射未确定时仍按 BaseManagerEvents 约束参数
+   * @param event 事件名称
+   * @param args 事件参数
+   */
+  private emitBaseEvent<K extends keyof BaseManagerEvents>(event: K, ...args: BaseManagerEvents[K]): boolean {
+    return (this.eventEmitter as unknown as EventEmitter<BaseManagerEvents>).emit(event, ...args);
+  }
+
+  /**
+   * 执行启动/停止/暂停/恢复的子类逻辑，成功后触发对应事件，失败时进入 ERROR 状态
+   * @param method 方法名称
+   * @param event 成功后触发的事件
+   * @param step 子类逻辑
+   */
+  private async runLifecycleStep(
+    method: string,
+    event: 'started' | 'stopped' | 'paused' | 'resumed',
+    step: () => void | Promise<void>
+  ): Promise<void> {
+    try {
+      await step();
+      this.emitBaseEvent(event);
+    } catch (error) {
+      this.transition(ModuleState.ERROR, method);
+      throw this.handleError(error as Error, method);
+    }
+  }
+
+  /**
+   * 调用生命周期钩子，钩子抛出的异常只记录日志，不会中断生命周期
+   * @param name 钩子名称
+   * @param args 钩子参数
+   * @returns 钩子返回 Promise 时返回等待其完成的 Promise，否则返回 undefined
+   */
+  private invokeHook(name: keyof LifecycleHooks, ...args: any[]): Promise<void> | undefined {
+    const hook = this.options.hooks?.[name] as ((...hookArgs: any[]) => void | Promise<void>) | undefined;
+    if (!hook) {
+      return undefined;
+    }
+
+    const onFailure = (error: unknown) => {
+      this.logger.error(`Lifecycle hook "${name}" failed:`, error);
+    };
+
+    try {
+      const result = hook(...args);
+      if (result && typeof result.then === 'function') {
+        return Promise.resolve(result).catch(onFailure);
+      }
+    } catch (error) {
+      onFailure(error);
+    }
+    return undefined;
+  }
+
+  /**
+   * 基础销毁逻辑，状态同步切换为 DESTROYED
+   * @returns 插件卸载完成后完成的 Promise
+   */
+  protected baseDestroy(): Promise<void> {
+    if (this.destroyed) {
+      return Promise.resolve();
+    }
+
     // 触发销毁前事件
-    this.emit('beforeDestroy');
+    this.emitBaseEvent('beforeDestroy');
+
+    // 卸载插件（按启用顺序逆序）
+    const pluginsCleared = this.pluginManager.clear().catch((error) => {
+      this.logger.error('Failed to uninstall plugins:', error);
+    });
+
+    // 取消未结束的异步操作
+    this.operationManager.destroy();
+
+    // 标记为已销毁
+    this.transition(ModuleState.DESTROYED, 'destroy');
+    this.stateBeforePause = undefined;
+    this.initPromise = undefined;
+
+    // 触发销毁后事件
+    this.emitBaseEvent('destroyed');
 
     // 清理事件监听器
     this.eventEmitter.removeAllListeners();
@@ -467,14 +1206,58 @@ export abstract class BaseManager<T extends BaseOptions = BaseOptions> {
     // 停止缓存清理
     this.cache?.destroy();
 
+    // 从性能指标汇总中移除
+    PerformanceMonitor.unregister(this.performanceMonitor);
+
+    // 从管理器注册表中移除
+    ManagerRegistry.unregister(this);
+
     // 停止日志清理
     this.logger.clear();
 
-    // 标记为已销毁
-    this.destroyed = true;
-    this.initialized = false;
+    return pluginsCleared;
+  }
+}
 
-    // 触发销毁后事件
-    this.emit('destroyed');
+/**
+ * 允许的生命周期状态切换
+ */
+const STATE_TRANSITIONS: Record<ModuleState, ModuleState[]> = {
+  [ModuleState.UNINITIALIZED]: [ModuleState.INITIALIZING, ModuleState.DESTROYED],
+  [ModuleState.INITIALIZING]: [ModuleState.INITIALIZED, ModuleState.ERROR, ModuleState.DESTROYED],
+  [ModuleState.INITIALIZED]: [ModuleState.RUNNING, ModuleState.PAUSED, ModuleState.ERROR, ModuleState.DESTROYED],
+  [ModuleState.RUNNING]: [ModuleState.INITIALIZED, ModuleState.PAUSED, ModuleState.ERROR, ModuleState.DESTROYED],
+  [ModuleState.PAUSED]: [ModuleState.INITIALIZED, ModuleState.RUNNING, ModuleState.ERROR, ModuleState.DESTROYED],
+  [ModuleState.ERROR]: [ModuleState.INITIALIZING, ModuleState.DESTROYED],
+  [ModuleState.DESTROYED]: []
+};
+
+/**
+ * 旧的输入验证模式
+ */
+interface LegacyInputSchema {
+  type?: string;
+  required?: boolean;
+  isArray?: boolean;
+  properties?: Record<string, LegacyInputSchema>;
+}
+
+/**
+ * 将旧的输入验证模式转换为验证规则
+ * @param schema 验证模式
+ */
+function toValidationRule(schema: Omit<ValidationRule, 'field'> | LegacyInputSchema): Omit<ValidationRule, 'field'> {
+  const { isArray, properties, ...rest } = schema as LegacyInputSchema & Omit<ValidationRule, 'field'>;
+  const rule = { ...rest } as Omit<ValidationRule, 'field'>;
+
+  if (isArray) {
+    rule.type = 'array';
+  }
+  if (properties) {
+    rule.rules = Object.entries(properties).map(([field, propSchema]) => ({
+      ...toValidationRule(propSchema),
+      field
+    }));
   }
-}
\ No newline at end of file
+  return rule;
+}
@@ -1,20 +1,54 @@
 /**
  * 智能缓存管理器
- * 
- * @description 提供智能缓存管理功能，支持TTL、LRU清理和自动过期
+ *
+ * @description 提供智能缓存管理功能，支持TTL、LRU/LFU淘汰、字节数限制、标签失效、
+ * stale-while-revalidate、自动过期和可插拔的持久化存储
  * @author js-use-core
  * @date 2024-07-20
  */
 
-import { CacheEntry, CacheConfig } from './types';
+import {
+  CacheEntry,
+  CacheConfig,
+  CacheSetOptions,
+  CacheSerializer,
+  CacheStorageAdapter,
+  StoredCacheEntry
+} from './types';
+import { defaultCacheSerializer, isQuotaExceededError } from './CacheStorage';
+
+/**
+ * 内存缓存的基础配置
+ */
+type MemoryCacheConfig = Required<Pick<
+  CacheConfig,
+  'maxSize' | 'defaultTTL' | 'enableLRU' | 'evictionPolicy' | 'maxBytes' | 'cleanupInterval'
+>>;
 
 /**
  * 缓存管理器类
+ *
+ * 同步 API（get/set/has 等）只操作内存；配置 storage 后写入会在后台同步到存储，
+ * getAsync/setAsync 等异步 API 会读写存储，内存未命中时从存储回填
+ *
+ * LRU 利用 Map 的插入顺序（访问时移到末尾），LFU 按访问次数分桶，淘汰均为 O(1)
  */
 export class Cache<T = any> {
   private cache: Map<string, CacheEntry<T>> = new Map();
-  private config: Required<CacheConfig>;
+  private config: MemoryCacheConfig;
   private cleanupTimer?: NodeJS.Timeout;
+  private storage?: CacheStorageAdapter;
+  private storagePrefix: string;
+  private serializer: CacheSerializer;
+  private sizeOf: (value: any) => number;
+  private onStorageError?: (error: Error, key: string) => void;
+  private onRevalidateError?: (error: Error, key: string) => void;
+  private totalBytes = 0;
+  private tagIndex: Map<string, Set<string>> = new Map();
+  private frequencies: Map<number, Set<string>> = new Map();
+  private minFrequency = 0;
+  private pending: Map<string, Promise<T>> = new Map();
+  private counters = { hits: 0, misses: 0, staleHits: 0, evictions: 0 };
 
   /**
    * 构造函数
@@ -25,8 +59,16 @@ export class Cache<T = any> {
       maxSize: config?.maxSize ?? 100,
       defaultTTL: config?.defaultTTL ?? 5 * 60 * 1000, // 5分钟
       enableLRU: config?.enableLRU ?? true,
+      evictionPolicy: config?.evictionPolicy ?? 'lru',
+      maxBytes: config?.maxBytes ?? Infinity,
       cleanupInterval: config?.cleanupInterval ?? 60 * 1000 // 1分钟
     };
+    this.storage = config?.storage;
+    this.storagePrefix = `js-use-core:${config?.namespace || 'default'}:`;
+    this.serializer = config?.serializer || defaultCacheSerializer;
+    this.sizeOf = config?.sizeOf || estimateSize;
+    this.onStorageError = config?.onStorageError;
+    this.onRevalidateError = config?.onRevalidateError;
 
     // 启动定期清理
     this.startCleanup();
@@ -36,73 +78,118 @@ export class Cache<T = any> {
    * 设置缓存项
    * @param key 缓存键
    * @param value 缓存值
-   * @param ttl 过期时间（毫秒），可选
+   * @param options 过期时间（毫秒）或写入选项，可选
    */
-  set(key: string, value: T, ttl?: number): void {
-    const now = Date.now();
-    const expireTime = ttl ?? this.config.defaultTTL;
-    
-    const entry: CacheEntry<T> = {
-      value,
-      expireAt: now + expireTime,
-      createdAt: now,
-      accessCount: 0,
-      lastAccessed: now
-    };
-
-    // 如果缓存已满且不是更新现有键，执行LRU清理
-    if (this.cache.size >= this.config.maxSize && !this.cache.has(key)) {
-      this.evictLRU();
+  set(key: string, value: T, options?: number | CacheSetOptions): void {
+    const entry = this.setMemory(key, value, options);
+    if (shouldPersist(options)) {
+      this.runInBackground(key, () => this.persist(key, entry));
     }
+  }
 
-    this.cache.set(key, entry);
+  /**
+   * 设置缓存项并等待写入存储
+   * @param key 缓存键
+   * @param value 缓存值
+   * @param options 过期时间（毫秒）或写入选项，可选
+   * @returns 是否写入了存储（未配置存储、persist 为 false 或空间不足时为 false，值仍保留在内存中）
+   */
+  async setAsync(key: string, value: T, options?: number | CacheSetOptions): Promise<boolean> {
+    const entry = this.setMemory(key, value, options);
+    return shouldPersist(options) ? this.persist(key, entry) : false;
   }
 
   /**
-   * 获取缓存项
+   * 获取缓存项，内存未命中时从存储读取并回填内存
    * @param key 缓存键
    * @returns 缓存值或undefined
    */
-  get(key: string): T | undefined {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return undefined;
+  async getAsync(key: string): Promise<T | undefined> {
+    const entry = this.lookup(key);
+    if (entry) {
+      this.counters.hits++;
+      this.recordAccess(key, entry);
+      return entry.value;
     }
 
-    const now = Date.now();
-    
-    // 检查是否过期
-    if (now > entry.expireAt) {
-      this.cache.delete(key);
-      return undefined;
+    const value = await this.readStorage(key);
+    if (value === undefined) {
+      this.counters.misses++;
+    } else {
+      this.counters.hits++;
     }
+    return value;
+  }
 
-    // 更新访问信息
-    entry.accessCount++;
-    entry.lastAccessed = now;
+  /**
+   * 删除缓存项并等待从存储中删除
+   * @param key 缓存键
+   */
+  async deleteAsync(key: string): Promise<boolean> {
+    const deleted = this.removeEntry(key);
+    if (this.storage) {
+      await this.storage.removeItem(this.storagePrefix + key);
+    }
+    return deleted;
+  }
 
-    return entry.value;
+  /**
+   * 清空内存和存储中当前命名空间的缓存
+   */
+  async clearAsync(): Promise<void> {
+    this.clearMemory();
+    if (this.storage) {
+      const keys = await this.storage.keys(this.storagePrefix);
+      await Promise.all(keys.map(key => this.storage!.removeItem(key)));
+    }
   }
 
   /**
-   * 检查缓存项是否存在且未过期
+   * 清理存储中当前命名空间的过期项
+   * @returns 清理的数量
+   */
+  async pruneStorage(): Promise<number> {
+    if (!this.storage) {
+      return 0;
+    }
+    const now = Date.now();
+    const entries = await this.readStoredEntries();
+    const expired = entries.filter(([, entry]) => !entry || now > entry.expireAt);
+    await Promise.all(expired.map(([key]) => this.storage!.removeItem(key)));
+    return expired.length;
+  }
+
+  /**
+   * 获取存储适配器
+   */
+  getStorage(): CacheStorageAdapter | undefined {
+    return this.storage;
+  }
+
+  /**
+   * 获取缓存项（只读取内存）
    * @param key 缓存键
+   * @returns 缓存值或undefined
    */
-  has(key: string): boolean {
-    const entry = this.cache.get(key);
-    
+  get(key: string): T | undefined {
+    const entry = this.lookup(key);
+
     if (!entry) {
-      return false;
+      this.counters.misses++;
+      return undefined;
     }
 
-    // 检查是否过期
-    if (Date.now() > entry.expireAt) {
-      this.cache.delete(key);
-      return false;
-    }
+    this.counters.hits++;
+    this.recordAccess(key, entry);
+    return entry.value;
+  }
 
-    return true;
+  /**
+   * 检查缓存项是否存在且未过期
+   * @param key 缓存键
+   */
+  has(key: string): boolean {
+    return this.lookup(key) !== undefined;
   }
 
   /**
@@ -110,14 +197,48 @@ export class Cache<T = any> {
    * @param key 缓存键
    */
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    if (this.storage) {
+      this.runInBackground(key, () => this.storage!.removeItem(this.storagePrefix + key));
+    }
+    return this.removeEntry(key);
   }
 
   /**
-   * 清空所有缓存
+   * 清空所有缓存（配置了存储时在后台清空当前命名空间）
    */
   clear(): void {
-    this.cache.clear();
+    this.clearMemory();
+    if (this.storage) {
+      this.runInBackground('*', () => this.clearAsync());
+    }
+  }
+
+  /**
+   * 使带有指定标签的缓存项全部失效（配置了存储时在后台删除存储中的对应条目）
+   * @param tag 标签
+   * @returns 失效的内存缓存项数量
+   */
+  invalidateTag(tag: string): number {
+    const keys = Array.from(this.tagIndex.get(tag) ?? []);
+    keys.forEach(key => this.removeEntry(key));
+
+    if (this.storage) {
+      this.runInBackground(`tag:${tag}`, async () => {
+        const entries = await this.readStoredEntries();
+        const tagged = entries.filter(([, entry]) => entry?.tags?.includes(tag));
+        await Promise.all(tagged.map(([key]) => this.storage!.removeItem(key)));
+      });
+    }
+
+    return keys.length;
+  }
+
+  /**
+   * 获取带有指定标签的缓存键
+   * @param tag 标签
+   */
+  getKeysByTag(tag: string): string[] {
+    return Array.from(this.tagIndex.get(tag) ?? []);
   }
 
   /**
@@ -127,6 +248,13 @@ export class Cache<T = any> {
     return this.cache.size;
   }
 
+  /**
+   * 获取缓存值占用的总字节数（估算值）
+   */
+  bytes(): number {
+    return this.totalBytes;
+  }
+
   /**
    * 获取所有缓存键
    */
@@ -139,19 +267,8 @@ export class Cache<T = any> {
    * @param key 缓存键
    */
   getInfo(key: string): CacheEntry<T> | undefined {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return undefined;
-    }
-
-    // 检查是否过期
-    if (Date.now() > entry.expireAt) {
-      this.cache.delete(key);
-      return undefined;
-    }
-
-    return { ...entry }; // 返回副本
+    const entry = this.lookup(key);
+    return entry ? { ...entry } : undefined; // 返回副本
   }
 
   /**
@@ -160,23 +277,17 @@ export class Cache<T = any> {
    * @param ttl 新的过期时间（毫秒）
    */
   touch(key: string, ttl?: number): boolean {
-    const entry = this.cache.get(key);
-    
+    const entry = this.lookup(key);
+
     if (!entry) {
       return false;
     }
 
+    // 更新过期时间，保留原有的 stale 窗口长度
     const now = Date.now();
-    
-    // 检查是否过期
-    if (now > entry.expireAt) {
-      this.cache.delete(key);
-      return false;
-    }
-
-    // 更新过期时间
-    const expireTime = ttl ?? this.config.defaultTTL;
-    entry.expireAt = now + expireTime;
+    const staleWindow = entry.staleUntil !== undefined ? entry.staleUntil - entry.expireAt : undefined;
+    entry.expireAt = now + (ttl ?? this.config.defaultTTL);
+    entry.staleUntil = staleWindow !== undefined ? entry.expireAt + staleWindow : undefined;
     entry.lastAccessed = now;
 
     return true;
@@ -184,30 +295,43 @@ export class Cache<T = any> {
 
   /**
    * 获取或设置缓存项（如果不存在则通过工厂函数创建）
+   *
+   * 同一个键同时只会执行一次工厂函数；设置了 staleWhileRevalidate 时，
+   * 过期但仍在 stale 窗口内的值会立即返回，并在后台刷新
    * @param key 缓存键
    * @param factory 工厂函数
-   * @param ttl 过期时间（毫秒），可选
+   * @param options 过期时间（毫秒）或写入选项，可选
    */
-  async getOrSet(key: string, factory: () => T | Promise<T>, ttl?: number): Promise<T> {
-    const cached = this.get(key);
-    
-    if (cached !== undefined) {
-      return cached;
+  async getOrSet(key: string, factory: () => T | Promise<T>, options?: number | CacheSetOptions): Promise<T> {
+    const entry = this.cache.get(key);
+    const now = Date.now();
+
+    if (entry && now <= entry.expireAt) {
+      this.counters.hits++;
+      this.recordAccess(key, entry);
+      return entry.value;
     }
 
-    const value = await factory();
-    this.set(key, value, ttl);
-    return value;
+    if (entry && entry.staleUntil !== undefined && now <= entry.staleUntil) {
+      this.counters.staleHits++;
+      this.recordAccess(key, entry);
+      this.load(key, factory, options, false).catch((error) => {
+        this.onRevalidateError?.(error instanceof Error ? error : new Error(String(error)), key);
+      });
+      return entry.value;
+    }
+
+    return this.load(key, factory, options, true);
   }
 
   /**
    * 批量设置缓存项
    * @param entries 缓存项数组
-   * @param ttl 过期时间（毫秒），可选
+   * @param options 过期时间（毫秒）或写入选项，可选
    */
-  mset(entries: Array<[string, T]>, ttl?: number): void {
+  mset(entries: Array<[string, T]>, options?: number | CacheSetOptions): void {
     for (const [key, value] of entries) {
-      this.set(key, value, ttl);
+      this.set(key, value, options);
     }
   }
 
@@ -239,6 +363,12 @@ export class Cache<T = any> {
   getStats(): {
     size: number;
     maxSize: number;
+    bytes: number;
+    maxBytes: number;
+    hits: number;
+    misses: number;
+    staleHits: number;
+    evictions: number;
     hitRate: number;
     totalAccess: number;
     expiredCount: number;
@@ -247,33 +377,49 @@ export class Cache<T = any> {
     let expiredCount = 0;
     const now = Date.now();
 
-    for (const [key, entry] of this.cache.entries()) {
+    for (const entry of this.cache.values()) {
       totalAccess += entry.accessCount;
-      
+
       if (now > entry.expireAt) {
         expiredCount++;
       }
     }
 
+    const { hits, misses, staleHits, evictions } = this.counters;
+    const lookups = hits + staleHits + misses;
+
     return {
       size: this.cache.size,
       maxSize: this.config.maxSize,
-      hitRate: totalAccess > 0 ? (totalAccess - expiredCount) / totalAccess : 0,
+      bytes: this.totalBytes,
+      maxBytes: this.config.maxBytes,
+      hits,
+      misses,
+      staleHits,
+      evictions,
+      hitRate: lookups > 0 ? (hits + staleHits) / lookups : 0,
       totalAccess,
       expiredCount
     };
   }
 
   /**
-   * 手动清理过期项
+   * 重置命中、未命中和淘汰计数
+   */
+  resetStats(): void {
+    this.counters = { hits: 0, misses: 0, staleHits: 0, evictions: 0 };
+  }
+
+  /**
+   * 手动清理过期项（stale 窗口内的项会保留到窗口结束）
    */
   cleanup(): number {
     const now = Date.now();
     let cleaned = 0;
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expireAt) {
-        this.cache.delete(key);
+    for (const [key, entry] of Array.from(this.cache.entries())) {
+      if (isDead(entry, now)) {
+        this.removeEntry(key);
         cleaned++;
       }
     }
@@ -281,29 +427,6 @@ export class Cache<T = any> {
     return cleaned;
   }
 
-  /**
-   * LRU清理（移除最少使用的项）
-   */
-  private evictLRU(): void {
-    if (!this.config.enableLRU || this.cache.size === 0) {
-      return;
-    }
-
-    let lruKey: string | null = null;
-    let lruTime = Infinity; // 初始化为最大值，寻找最小的访问时间
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.lastAccessed < lruTime) {
-        lruTime = entry.lastAccessed;
-        lruKey = key;
-      }
-    }
-
-    if (lruKey) {
-      this.cache.delete(lruKey);
-    }
-  }
-
   /**
    * 启动定期清理
    */
@@ -315,6 +438,9 @@ export class Cache<T = any> {
     this.cleanupTimer = setInterval(() => {
       this.cleanup();
     }, this.config.cleanupInterval);
+
+    // Node.js 中不阻止进程退出（服务端渲染时缓存可能随模块常驻）
+    this.cleanupTimer.unref?.();
   }
 
   /**
@@ -328,30 +454,440 @@ export class Cache<T = any> {
   }
 
   /**
-   * 更新配置
+   * 更新配置（存储、命名空间等在构造时确定，不能更新）
    * @param config 新的配置
    */
   updateConfig(config: Partial<CacheConfig>): void {
-    this.config = { ...this.config, ...config };
-    
+    const policyChanged = config.evictionPolicy !== undefined && config.evictionPolicy !== this.config.evictionPolicy;
+    this.config = {
+      maxSize: config.maxSize ?? this.config.maxSize,
+      defaultTTL: config.defaultTTL ?? this.config.defaultTTL,
+      enableLRU: config.enableLRU ?? this.config.enableLRU,
+      evictionPolicy: config.evictionPolicy ?? this.config.evictionPolicy,
+      maxBytes: config.maxBytes ?? this.config.maxBytes,
+      cleanupInterval: config.cleanupInterval ?? this.config.cleanupInterval
+    };
+
     // 如果更新了清理间隔，重启清理定时器
     if (config.cleanupInterval !== undefined) {
       this.startCleanup();
     }
 
-    // 如果缓存大小超过新的限制，执行清理
-    if (config.maxSize !== undefined && this.cache.size > config.maxSize) {
-      while (this.cache.size > config.maxSize) {
-        this.evictLRU();
+    // 切换淘汰策略时重建访问次数分桶
+    if (policyChanged) {
+      this.frequencies.clear();
+      this.minFrequency = 0;
+      if (this.config.evictionPolicy === 'lfu') {
+        this.cache.forEach((entry, key) => this.addToFrequency(key, entry.accessCount));
       }
     }
+
+    // 如果缓存大小超过新的限制，执行清理
+    this.evictOverflow();
   }
 
   /**
-   * 销毁缓存管理器
+   * 销毁缓存管理器（只释放内存，持久化存储中的数据会保留）
    */
   destroy(): void {
     this.stopCleanup();
-    this.clear();
+    this.clearMemory();
+    this.pending.clear();
+  }
+
+  /**
+   * 写入内存缓存，值超过 maxBytes 时不会保留在内存中
+   * @returns 写入的条目
+   */
+  private setMemory(key: string, value: T, options?: number | CacheSetOptions): CacheEntry<T> {
+    const setOptions: CacheSetOptions = typeof options === 'number' ? { ttl: options } : options ?? {};
+    const { ttl, tags, size, staleWhileRevalidate } = setOptions;
+    const now = Date.now();
+    const expireAt = now + (ttl ?? this.config.defaultTTL);
+
+    const entry: CacheEntry<T> = {
+      value,
+      expireAt,
+      createdAt: now,
+      accessCount: 0,
+      lastAccessed: now,
+      size: size ?? this.sizeOf(value),
+      tags: tags?.length ? Array.from(new Set(tags)) : undefined,
+      staleUntil: staleWhileRevalidate ? expireAt + staleWhileRevalidate : undefined
+    };
+
+    this.removeEntry(key);
+    if (entry.size! > this.config.maxBytes) {
+      return entry;
+    }
+
+    // 如果超出条目数或字节数限制，执行淘汰
+    this.evictOverflow(entry.size!);
+
+    this.cache.set(key, entry);
+    this.totalBytes += entry.size!;
+    entry.tags?.forEach(tag => {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    });
+    if (this.config.evictionPolicy === 'lfu') {
+      this.addToFrequency(key, 0);
+    }
+    return entry;
+  }
+
+  /**
+   * 查找未过期的内存缓存项，不更新统计和访问信息；已超过 stale 窗口的项会被删除
+   */
+  private lookup(key: string): CacheEntry<T> | undefined {
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (now > entry.expireAt) {
+      if (isDead(entry, now)) {
+        this.removeEntry(key);
+      }
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * 记录一次访问：LRU 将键移到末尾，LFU 将键移到下一个访问次数分桶
+   */
+  private recordAccess(key: string, entry: CacheEntry<T>): void {
+    entry.lastAccessed = Date.now();
+
+    if (this.config.evictionPolicy === 'lfu') {
+      this.removeFromFrequency(key, entry.accessCount);
+      entry.accessCount++;
+      this.addToFrequency(key, entry.accessCount);
+      return;
+    }
+
+    entry.accessCount++;
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+  }
+
+  /**
+   * 删除内存缓存项并更新字节数、标签和访问次数索引
+   */
+  private removeEntry(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.cache.delete(key);
+    this.totalBytes -= entry.size ?? 0;
+    entry.tags?.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    });
+    if (this.config.evictionPolicy === 'lfu') {
+      this.removeFromFrequency(key, entry.accessCount);
+    }
+    return true;
+  }
+
+  /**
+   * 清空内存缓存和所有索引
+   */
+  private clearMemory(): void {
+    this.cache.clear();
+    this.tagIndex.clear();
+    this.frequencies.clear();
+    this.minFrequency = 0;
+    this.totalBytes = 0;
+  }
+
+  /**
+   * 淘汰缓存项直到可以放入新条目
+   * @param incomingSize 即将写入的条目字节数，不传表示只检查当前是否超出限制
+   */
+  private evictOverflow(incomingSize?: number): void {
+    if (!this.config.enableLRU) {
+      return;
+    }
+
+    const slot = incomingSize === undefined ? 0 : 1;
+    const bytes = incomingSize ?? 0;
+    while (
+      this.cache.size > 0
+      && (this.cache.size + slot > this.config.maxSize || this.totalBytes + bytes > this.config.maxBytes)
+    ) {
+      const victim = this.selectVictim();
+      if (victim === undefined) {
+        return;
+      }
+      this.removeEntry(victim);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * 选择要淘汰的键
+   */
+  private selectVictim(): string | undefined {
+    if (this.config.evictionPolicy === 'lfu') {
+      if (!this.frequencies.has(this.minFrequency)) {
+        if (this.frequencies.size === 0) {
+          return undefined;
+        }
+        this.minFrequency = Math.min(...Array.from(this.frequencies.keys()));
+      }
+      // 同一访问次数内按加入顺序淘汰
+      return this.frequencies.get(this.minFrequency)!.values().next().value;
+    }
+
+    // Map 按插入顺序迭代，访问时会移到末尾，第一个即最近最少使用的项
+    return this.cache.keys().next().value;
+  }
+
+  /**
+   * 将键加入访问次数分桶
+   */
+  private addToFrequency(key: string, frequency: number): void {
+    let keys = this.frequencies.get(frequency);
+    if (!keys) {
+      keys = new Set();
+      this.frequencies.set(frequency, keys);
+    }
+    keys.add(key);
+    if (this.frequencies.size === 1 || frequency < this.minFrequency) {
+      this.minFrequency = frequency;
+    }
+  }
+
+  /**
+   * 将键移出访问次数分桶
+   */
+  private removeFromFrequency(key: string, frequency: number): void {
+    const keys = this.frequencies.get(frequency);
+    if (!keys) {
+      return;
+    }
+    keys.delete(key);
+    if (keys.size === 0) {
+      this.frequencies.delete(frequency);
+      if (this.minFrequency === frequency) {
+        this.minFrequency = frequency + 1;
+      }
+    }
+  }
+
+  /**
+   * 加载缓存值，同一个键同时只执行一次
+   * @param readStorage 是否先尝试从存储读取
+   */
+  private load(
+    key: string,
+    factory: () => T | Promise<T>,
+    options: number | CacheSetOptions | undefined,
+    readStorage: boolean
+  ): Promise<T> {
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = (async () => {
+      if (readStorage) {
+        const stored = await this.readStorage(key);
+        if (stored !== undefined) {
+          this.counters.hits++;
+          return stored;
+        }
+        this.counters.misses++;
+      }
+
+      const value = await factory();
+      this.set(key, value, options);
+      return value;
+    })().finally(() => {
+      if (this.pending.get(key) === promise) {
+        this.pending.delete(key);
+      }
+    });
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * 从存储读取缓存项并回填内存
+   */
+  private async readStorage(key: string): Promise<T | undefined> {
+    if (!this.storage) {
+      return undefined;
+    }
+
+    const storageKey = this.storagePrefix + key;
+    const stored = await this.storage.getItem(storageKey);
+    if (!stored) {
+      return undefined;
+    }
+    if (Date.now() > stored.expireAt) {
+      await this.storage.removeItem(storageKey);
+      return undefined;
+    }
+
+    const value: T = this.storage.structured ? stored.value as T : await this.serializer.deserialize(stored.value);
+    const entry = this.setMemory(key, value, { ttl: stored.expireAt - Date.now(), tags: stored.tags });
+    entry.createdAt = stored.createdAt;
+    if (this.cache.get(key) === entry) {
+      this.recordAccess(key, entry);
+    }
+    return value;
+  }
+
+  /**
+   * 将条目写入存储，空间不足时淘汰当前命名空间中最早写入的条目后重试
+   * @returns 是否写入成功
+   */
+  private async persist(key: string, entry: CacheEntry<T>): Promise<boolean> {
+    if (!this.storage) {
+      return false;
+    }
+
+    const storageKey = this.storagePrefix + key;
+    const stored: StoredCacheEntry = {
+      value: this.storage.structured ? entry.value : await this.serializer.serialize(entry.value),
+      expireAt: entry.expireAt,
+      createdAt: entry.createdAt
+    };
+    if (entry.tags) {
+      stored.tags = entry.tags;
+    }
+
+    try {
+      await this.storage.setItem(storageKey, stored);
+      return true;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        throw error;
+      }
+    }
+
+    // 先清理过期项，再按写入时间从早到晚淘汰
+    const now = Date.now();
+    const candidates = (await this.readStoredEntries())
+      .filter(([candidate]) => candidate !== storageKey)
+      .sort(([, a], [, b]) => {
+        const expiredA = !a || now > a.expireAt ? 0 : 1;
+        const expiredB = !b || now > b.expireAt ? 0 : 1;
+        return expiredA - expiredB || (a?.createdAt ?? 0) - (b?.createdAt ?? 0);
+      });
+
+    for (const [candidate] of candidates) {
+      await this.storage.removeItem(candidate);
+      try {
+        await this.storage.setItem(storageKey, stored);
+        return true;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * 读取存储中当前命名空间的所有条目
+   */
+  private async readStoredEntries(): Promise<Array<[string, StoredCacheEntry | undefined]>> {
+    const keys = await this.storage!.keys(this.storagePrefix);
+    return Promise.all(keys.map(async key => [key, await this.storage!.getItem(key)] as [string, StoredCacheEntry | undefined]));
+  }
+
+  /**
+   * 在后台执行存储操作，失败时交给 onStorageError
+   * @param key 缓存键
+   * @param task 存储操作
+   */
+  private runInBackground(key: string, task: () => Promise<unknown>): void {
+    task().catch((error) => {
+      this.onStorageError?.(error instanceof Error ? error : new Error(String(error)), key);
+    });
+  }
+}
+
+/**
+ * 写入选项是否允许持久化
+ */
+function shouldPersist(options?: number | CacheSetOptions): boolean {
+  return typeof options !== 'object' || options.persist !== false;
+}
+
+/**
+ * 是否已超过 stale 窗口（没有 stale 窗口时即已过期）
+ */
+function isDead(entry: CacheEntry, now: number): boolean {
+  return now > (entry.staleUntil ?? entry.expireAt);
+}
+
+/**
+ * 估算值占用的字节数：字符串按 UTF-16 计算，Blob/ArrayBuffer 取实际大小，对象递归累加
+ */
+function estimateSize(value: unknown, seen: WeakSet<object> = new WeakSet()): number {
+  switch (typeof value) {
+    case 'string':
+      return value.length * 2;
+    case 'number':
+    case 'bigint':
+      return 8;
+    case 'boolean':
+      return 4;
+    case 'object':
+      break;
+    default:
+      return 0;
+  }
+
+  if (value === null || seen.has(value)) {
+    return 0;
+  }
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return value.size;
+  }
+  if (value instanceof ArrayBuffer) {
+    return value.byteLength;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+
+  seen.add(value);
+  let total = 0;
+  if (value instanceof Map) {
+    value.forEach((item, key) => {
+      total += estimateSize(key, seen) + estimateSize(item, seen);
+    });
+    return total;
+  }
+  if (Array.isArray(value) || value instanceof Set) {
+    for (const item of value) {
+      total += estimateSize(item, seen);
+    }
+    return total;
+  }
+  for (const key of Object.keys(value)) {
+    total += key.length * 2 + estimateSize((value as Record<string, unknown>)[key], seen);
   }
-}
\ No newline at end of file
+  return total;
+}
@@ -0,0 +1,394 @@
+/**
+ * 缓存存储适配器
+ *
+ * @description 为 Cache 提供持久化存储后端：内存（测试用）、localStorage/sessionStorage 和 IndexedDB，
+ * 以及支持 Blob/File 的默认序列化钩子
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { CacheSerializer, CacheStorageAdapter, StoredCacheEntry } from './types';
+
+/**
+ * 内存存储配置
+ */
+export interface MemoryCacheStorageOptions {
+  /** 模拟的存储配额（按字符数计算），超出时抛出 QuotaExceededError */
+  quota?: number;
+}
+
+/**
+ * 内存存储适配器
+ *
+ * 条目以 JSON 字符串保存，行为与 Web Storage 一致，可在测试中代替 localStorage，
+ * 多个 Cache 共享同一实例即可模拟“刷新页面后读取”
+ */
+export class MemoryCacheStorage implements CacheStorageAdapter {
+  readonly name = 'memory';
+  private items: Map<string, string> = new Map();
+  private quota?: number;
+
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options: MemoryCacheStorageOptions = {}) {
+    this.quota = options.quota;
+  }
+
+  async getItem(key: string): Promise<StoredCacheEntry | undefined> {
+    const raw = this.items.get(key);
+    return raw === undefined ? undefined : JSON.parse(raw);
+  }
+
+  async setItem(key: string, entry: StoredCacheEntry): Promise<void> {
+    const raw = JSON.stringify(entry);
+    if (this.quota !== undefined) {
+      const used = this.usage() - (this.items.has(key) ? key.length + this.items.get(key)!.length : 0);
+      if (used + key.length + raw.length > this.quota) {
+        throw createQuotaExceededError();
+      }
+    }
+    this.items.set(key, raw);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.items.keys()).filter(key => key.startsWith(prefix));
+  }
+
+  /**
+   * 已使用的空间（字符数）
+   */
+  usage(): number {
+    let total = 0;
+    this.items.forEach((value, key) => {
+      total += key.length + value.length;
+    });
+    return total;
+  }
+}
+
+/**
+ * Web Storage 存储适配器（localStorage/sessionStorage）
+ */
+export class WebStorageCacheStorage implements CacheStorageAdapter {
+  readonly name: string;
+  private target: Storage | 'local' | 'session';
+
+  /**
+   * 构造函数
+   * @param storage 存储对象，或 'local'/'session'，默认 localStorage
+   */
+  constructor(storage: Storage | 'local' | 'session' = 'local') {
+    this.target = storage;
+    this.name = storage === 'session' ? 'sessionStorage' : 'localStorage';
+  }
+
+  /**
+   * 当前环境是否可用
+   * @param type 存储类型
+   */
+  static isSupported(type: 'local' | 'session' = 'local'): boolean {
+    try {
+      return typeof window !== 'undefined' && !!window[type === 'local' ? 'localStorage' : 'sessionStorage'];
+    } catch {
+      // 禁用存储时访问属性会抛出 SecurityError
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<StoredCacheEntry | undefined> {
+    const raw = this.storage.getItem(key);
+    if (raw === null) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      // 非本库写入的数据视为不存在
+      return undefined;
+    }
+  }
+
+  async setItem(key: string, entry: StoredCacheEntry): Promise<void> {
+    this.storage.setItem(key, JSON.stringify(entry));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * 解析存储对象，延迟到使用时以支持 SSR 环境下创建实例
+   */
+  private get storage(): Storage {
+    if (typeof this.target !== 'string') {
+      return this.target;
+    }
+    return this.target === 'session' ? window.sessionStorage : window.localStorage;
+  }
+}
+
+/**
+ * IndexedDB 存储配置
+ */
+export interface IndexedDBCacheStorageOptions {
+  /** 数据库名称，默认 js-use-core-cache */
+  dbName?: string;
+  /** 对象仓库名称，默认 entries */
+  storeName?: string;
+  /** IDBFactory，默认使用全局 indexedDB */
+  factory?: IDBFactory;
+}
+
+/**
+ * IndexedDB 存储适配器，可直接保存 Blob/File 等结构化数据
+ */
+export class IndexedDBCacheStorage implements CacheStorageAdapter {
+  readonly name = 'indexedDB';
+  readonly structured = true;
+  private dbName: string;
+  private storeName: string;
+  private factory?: IDBFactory;
+  private dbPromise?: Promise<IDBDatabase>;
+
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options: IndexedDBCacheStorageOptions = {}) {
+    this.dbName = options.dbName || 'js-use-core-cache';
+    this.storeName = options.storeName || 'entries';
+    this.factory = options.factory;
+  }
+
+  /**
+   * 当前环境是否可用
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getItem(key: string): Promise<StoredCacheEntry | undefined> {
+    const entry = await this.request<StoredCacheEntry | undefined>('readonly', store => store.get(key));
+    return entry ?? undefined;
+  }
+
+  async setItem(key: string, entry: StoredCacheEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys(range));
+    return keys.map(String);
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  async close(): Promise<void> {
+    if (this.dbPromise) {
+      const db = await this.dbPromise;
+      db.close();
+      this.dbPromise = undefined;
+    }
+  }
+
+  /**
+   * 在对象仓库上执行请求
+   */
+  private async request<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const db = await this.open();
+    return new Promise<R>((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as R);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * 打开数据库（只打开一次）
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const factory = this.factory || indexedDB;
+        const request = factory.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = undefined;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * 序列化后的 Blob/File
+ */
+interface SerializedBinary {
+  __cacheType: 'blob' | 'file';
+  type: string;
+  data: string;
+  name?: string;
+  lastModified?: number;
+}
+
+/**
+ * 默认序列化钩子：递归地将 Blob/File 转换为 base64 数据，其余值原样保留
+ */
+export const defaultCacheSerializer: CacheSerializer = {
+  async serialize(value: any): Promise<unknown> {
+    if (isBlob(value)) {
+      const binary: SerializedBinary = {
+        __cacheType: isFile(value) ? 'file' : 'blob',
+        type: value.type,
+        data: await blobToBase64(value)
+      };
+      if (isFile(value)) {
+        binary.name = value.name;
+        binary.lastModified = value.lastModified;
+      }
+      return binary;
+    }
+    if (Array.isArray(value)) {
+      return Promise.all(value.map(item => defaultCacheSerializer.serialize(item)));
+    }
+    if (isPlainObject(value)) {
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        output[key] = await defaultCacheSerializer.serialize(value[key]);
+      }
+      return output;
+    }
+    return value;
+  },
+
+  deserialize(data: unknown): any {
+    if (isSerializedBinary(data)) {
+      const bytes = base64ToBytes(data.data);
+      return data.__cacheType === 'file' && typeof File !== 'undefined'
+        ? new File([bytes], data.name || '', { type: data.type, lastModified: data.lastModified })
+        : new Blob([bytes], { type: data.type });
+    }
+    if (Array.isArray(data)) {
+      return data.map(item => defaultCacheSerializer.deserialize(item));
+    }
+    if (isPlainObject(data)) {
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(data)) {
+        output[key] = defaultCacheSerializer.deserialize(data[key]);
+      }
+      return output;
+    }
+    return data;
+  }
+};
+
+/**
+ * 是否为存储空间不足错误（各浏览器的名称和错误码不同）
+ * @param error 错误对象
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { name, code } = error as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+/**
+ * 创建存储空间不足错误
+ */
+function createQuotaExceededError(): Error {
+  if (typeof DOMException !== 'undefined') {
+    return new DOMException('Cache storage quota exceeded', 'QuotaExceededError');
+  }
+  const error = new Error('Cache storage quota exceeded');
+  error.name = 'QuotaExceededError';
+  return error;
+}
+
+/**
+ * 是否为 Blob（包括 File）
+ */
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+/**
+ * 是否为 File
+ */
+function isFile(value: unknown): value is File {
+  return typeof File !== 'undefined' && value instanceof File;
+}
+
+/**
+ * 是否为普通对象
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * 是否为序列化后的 Blob/File
+ */
+function isSerializedBinary(value: unknown): value is SerializedBinary {
+  return isPlainObject(value)
+    && (value.__cacheType === 'blob' || value.__cacheType === 'file')
+    && typeof value.data === 'string';
+}
+
+/**
+ * 读取 Blob 为 base64（不含 data URL 前缀）
+ */
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result);
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 将 base64 转换为字节数组
+ */
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,227 @@
+/**
+ * 配置验证器
+ *
+ * @description 基于 ValidationRule 的声明式验证，支持类型、范围、正则、枚举、嵌套对象、数组元素、自定义验证和默认值，
+ * 汇总所有错误而不是在第一个错误处中断
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { IConfigValidator, ValidationIssue, ValidationResult, ValidationRule } from '../types/core';
+
+/**
+ * 配置验证器类
+ */
+export class ConfigValidator implements IConfigValidator {
+  private rules: ValidationRule[] = [];
+
+  /**
+   * 构造函数
+   * @param rules 验证规则
+   */
+  constructor(rules: ValidationRule[] = []) {
+    rules.forEach(rule => this.addRule(rule));
+  }
+
+  /**
+   * 添加验证规则，同名字段的规则会被替换
+   * @param rule 验证规则
+   */
+  addRule(rule: ValidationRule): void {
+    this.rules = this.rules.filter(item => item.field !== rule.field);
+    this.rules.push(rule);
+  }
+
+  /**
+   * 获取验证规则
+   */
+  getRules(): ValidationRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * 验证配置，未提供的字段会填充默认值
+   * @param config 配置对象
+   * @returns 验证结果
+   */
+  validate(config: any): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const result = validateObject(config ?? {}, this.rules, '', issues);
+    return createResult(issues, result);
+  }
+
+  /**
+   * 验证单个值（用于方法参数等非对象输入）
+   * @param value 待验证的值
+   * @param rule 验证规则
+   * @param path 错误信息中使用的路径
+   * @returns 验证结果，config 为填充默认值后的值
+   */
+  validateValue(value: any, rule: Omit<ValidationRule, 'field'>, path: string = 'value'): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const result = validateField(value, { ...rule, field: path }, path, value, issues);
+    return createResult(issues, result);
+  }
+
+  /**
+   * 获取由规则默认值组成的默认配置
+   */
+  getDefaults(): any {
+    return collectDefaults(this.rules);
+  }
+}
+
+/**
+ * 生成验证结果
+ */
+function createResult(issues: ValidationIssue[], config: any): ValidationResult {
+  return {
+    valid: issues.length === 0,
+    errors: issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)),
+    issues,
+    config
+  };
+}
+
+/**
+ * 验证对象的各个字段，返回填充默认值后的副本
+ */
+function validateObject(target: any, rules: ValidationRule[], basePath: string, issues: ValidationIssue[]): any {
+  const output = { ...target };
+
+  for (const rule of rules) {
+    const path = basePath ? `${basePath}.${rule.field}` : rule.field;
+    const value = validateField(target[rule.field], rule, path, target, issues);
+    if (value !== undefined) {
+      output[rule.field] = value;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 验证单个字段
+ * @returns 验证后的值（可能是默认值或嵌套对象的副本）
+ */
+function validateField(value: any, rule: ValidationRule, path: string, config: any, issues: ValidationIssue[]): any {
+  const fail = (message: string) => {
+    issues.push({ path, message: rule.message || message, value });
+  };
+
+  if (value === undefined || value === null) {
+    if (rule.default !== undefined) {
+      return cloneDefault(rule.default);
+    }
+    if (rule.required) {
+      fail('Required value is missing');
+    }
+    return value;
+  }
+
+  if (rule.type) {
+    const actualType = getType(value);
+    if (actualType !== rule.type) {
+      fail(`Expected ${rule.type}, got ${actualType}`);
+      return value;
+    }
+  }
+
+  const size = typeof value === 'number'
+    ? value
+    : (typeof value === 'string' || Array.isArray(value) ? value.length : undefined);
+  const sizeLabel = typeof value === 'number' ? 'Value' : 'Length';
+
+  if (size !== undefined && rule.min !== undefined && size < rule.min) {
+    fail(`${sizeLabel} must be >= ${rule.min}`);
+  }
+  if (size !== undefined && rule.max !== undefined && size > rule.max) {
+    fail(`${sizeLabel} must be <= ${rule.max}`);
+  }
+
+  if (rule.pattern && typeof value === 'string') {
+    rule.pattern.lastIndex = 0;
+    if (!rule.pattern.test(value)) {
+      fail(`Value does not match ${rule.pattern}`);
+    }
+  }
+
+  if (rule.enum && !rule.enum.includes(value)) {
+    fail(`Expected one of ${rule.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+
+  let output = value;
+
+  if (rule.rules && getType(value) === 'object') {
+    output = validateObject(value, rule.rules, path, issues);
+  }
+
+  if (rule.items && Array.isArray(value)) {
+    output = value.map((item, index) => validateField(
+      item,
+      { ...rule.items!, field: `${rule.field}[${index}]` },
+      `${path}[${index}]`,
+      config,
+      issues
+    ));
+  }
+
+  if (rule.validator) {
+    try {
+      const result = rule.validator(value, config);
+      if (result === false) {
+        fail('Value is invalid');
+      } else if (typeof result === 'string') {
+        fail(result);
+      }
+    } catch (error) {
+      fail((error as Error).message);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 获取值的验证类型
+ */
+function getType(value: any): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && Number.isNaN(value)) {
+    return 'NaN';
+  }
+  return typeof value;
+}
+
+/**
+ * 由规则收集默认值（包括嵌套对象）
+ */
+function collectDefaults(rules: ValidationRule[]): any {
+  const defaults: any = {};
+  for (const rule of rules) {
+    if (rule.default !== undefined) {
+      defaults[rule.field] = cloneDefault(rule.default);
+    } else if (rule.rules) {
+      const nested = collectDefaults(rule.rules);
+      if (Object.keys(nested).length > 0) {
+        defaults[rule.field] = nested;
+      }
+    }
+  }
+  return defaults;
+}
+
+/**
+ * 复制默认值，避免多个配置共享同一个对象
+ */
+function cloneDefault(value: any): any {
+  if (Array.isArray(value)) {
+    return [...value];
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return { ...value };
+  }
+  return value;
+}
@@ -0,0 +1,143 @@
+/**
+ * 运行环境抽象
+ *
+ * @description 统一访问 window、document、navigator、location 等全局对象，
+ * 在 Node.js/SSR 环境中返回 undefined 而不是抛出 ReferenceError，
+ * 并提供服务端环境下调用浏览器专属功能时的统一错误
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { ErrorType } from '../types/errors';
+import { CustomError } from './ErrorHandler';
+
+/**
+ * 可注入的全局对象，用于测试或在服务端模拟浏览器环境（如 jsdom）
+ */
+export interface EnvironmentGlobals {
+  window?: Window;
+  document?: Document;
+  navigator?: Navigator;
+  location?: Location;
+}
+
+/**
+ * 服务端环境错误码
+ */
+export const SERVER_ENVIRONMENT_ERROR = 'SERVER_ENVIRONMENT';
+
+/**
+ * 运行环境
+ *
+ * 管理器通过该类访问浏览器全局对象；configure 注入的对象优先于真实的全局对象，
+ * 注入 null 表示强制视为不存在（可在浏览器测试中模拟服务端环境）
+ */
+export class Environment {
+  private static overrides: { [K in keyof EnvironmentGlobals]?: EnvironmentGlobals[K] | null } = {};
+
+  /**
+   * 注入全局对象
+   * @param globals 全局对象，值为 null 时视为不存在
+   */
+  static configure(globals: { [K in keyof EnvironmentGlobals]?: EnvironmentGlobals[K] | null }): void {
+    Environment.overrides = { ...Environment.overrides, ...globals };
+  }
+
+  /**
+   * 清除注入的全局对象
+   */
+  static reset(): void {
+    Environment.overrides = {};
+  }
+
+  /**
+   * 获取 window
+   */
+  static getWindow(): Window | undefined {
+    return Environment.resolve('window', () => (typeof window !== 'undefined' ? window : undefined));
+  }
+
+  /**
+   * 获取 document
+   */
+  static getDocument(): Document | undefined {
+    return Environment.resolve('document', () => (typeof document !== 'undefined' ? document : undefined));
+  }
+
+  /**
+   * 获取 navigator
+   */
+  static getNavigator(): Navigator | undefined {
+    return Environment.resolve('navigator', () => (typeof navigator !== 'undefined' ? navigator : undefined));
+  }
+
+  /**
+   * 获取 location
+   */
+  static getLocation(): Location | undefined {
+    return Environment.resolve('location', () => Environment.getWindow()?.location);
+  }
+
+  /**
+   * 是否为浏览器环境（window 和 document 均可用）
+   */
+  static isBrowser(): boolean {
+    return !!Environment.getWindow() && !!Environment.getDocument();
+  }
+
+  /**
+   * 是否为服务端环境
+   */
+  static isServer(): boolean {
+    return !Environment.isBrowser();
+  }
+
+  /**
+   * 获取当前环境的 UA 字符串，服务端返回空字符串
+   */
+  static getUserAgent(): string {
+    return Environment.getNavigator()?.userAgent || '';
+  }
+
+  /**
+   * 创建服务端环境下调用浏览器专属功能的错误
+   * @param feature 功能名称
+   * @param module 模块名称
+   * @param method 方法名称
+   */
+  static createServerError(feature: string, module: string, method: string): CustomError {
+    return new CustomError(
+      ErrorType.SYSTEM_ERROR,
+      `${feature} is not available in server environment`,
+      {
+        code: SERVER_ENVIRONMENT_ERROR,
+        context: { module, method, userAgent: 'Node.js', timestamp: Date.now() }
+      }
+    );
+  }
+
+  /**
+   * 断言当前为浏览器环境，否则抛出服务端环境错误
+   * @param feature 功能名称
+   * @param module 模块名称
+   * @param method 方法名称
+   */
+  static requireBrowser(feature: string, module: string, method: string): void {
+    if (Environment.isServer()) {
+      throw Environment.createServerError(feature, module, method);
+    }
+  }
+
+  /**
+   * 读取全局对象，优先使用注入的值
+   */
+  private static resolve<K extends keyof EnvironmentGlobals>(
+    key: K,
+    fallback: () => EnvironmentGlobals[K] | undefined
+  ): EnvironmentGlobals[K] | undefined {
+    if (key in Environment.overrides) {
+      return Environment.overrides[key] ?? undefined;
+    }
+    return fallback();
+  }
+}
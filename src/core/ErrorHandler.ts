@@ -6,8 +6,20 @@
  * @date 2024-07-20
  */
 
-import { ErrorType, ErrorSeverity, ErrorContext, ProcessedError } from '../types/errors';
+import {
+  ErrorType,
+  ErrorSeverity,
+  ErrorContext,
+  ProcessedError,
+  ErrorHandlerConfig,
+  ErrorHandlingStrategy,
+  ErrorRecoveryStrategy,
+  ErrorStats,
+  IErrorHandler
+} from '../types/errors';
 import { Logger } from './Logger';
+import { ErrorReporter } from './ErrorReporter';
+import { Environment } from './Environment';
 
 /**
  * 自定义错误类
@@ -49,36 +61,126 @@ export class CustomError extends Error {
 /**
  * 错误处理器类
  */
-export class ErrorHandler {
+export class ErrorHandler implements Omit<IErrorHandler, 'createError'> {
+  private static globalReporter?: ErrorReporter;
   private logger: Logger;
+  private reporter?: ErrorReporter;
   private errorSolutions: Map<string, string> = new Map();
+  private config: Required<Pick<ErrorHandlerConfig, 'maxHistory' | 'enableAutoRecovery'>>;
+  private strategies: ErrorHandlingStrategy[] = [];
+  private recoveryStrategies: ErrorRecoveryStrategy[] = [];
+  private history: ProcessedError[] = [];
+  private stats = this.createEmptyStats();
 
   /**
    * 构造函数
    * @param logger 日志记录器实例
+   * @param config 错误处理器配置
    */
-  constructor(logger?: Logger) {
+  constructor(logger?: Logger, config: ErrorHandlerConfig = {}) {
     this.logger = logger || new Logger('ErrorHandler');
+    this.config = {
+      maxHistory: config.maxHistory ?? 100,
+      enableAutoRecovery: config.enableAutoRecovery ?? false
+    };
     this.initializeErrorSolutions();
+
+    config.strategies?.forEach(strategy => this.addStrategy(strategy));
+    config.recoveryStrategies?.forEach(strategy => this.addRecoveryStrategy(strategy));
+
+    if (config.enableReporting && config.reporting) {
+      this.reporter = new ErrorReporter({ ...config.reporting, logger: this.logger.createChild('reporter') });
+    }
   }
 
   /**
-   * 处理错误
+   * 设置全局错误上报器，所有未单独配置上报器的错误处理器都会使用它
+   * @param reporter 错误上报器，传入 undefined 取消全局上报
+   */
+  static setGlobalReporter(reporter?: ErrorReporter): void {
+    ErrorHandler.globalReporter = reporter;
+  }
+
+  /**
+   * 获取全局错误上报器
+   */
+  static getGlobalReporter(): ErrorReporter | undefined {
+    return ErrorHandler.globalReporter;
+  }
+
+  /**
+   * 判断是否为已处理的错误（handleError 的返回值）
+   * @param value 任意值
+   */
+  static isProcessedError(value: unknown): value is ProcessedError {
+    const candidate = value as ProcessedError | null | undefined;
+    return !!candidate
+      && typeof candidate === 'object'
+      && typeof candidate.id === 'string'
+      && typeof candidate.type === 'string'
+      && typeof candidate.processedAt === 'number'
+      && !!candidate.context
+      && typeof candidate.context === 'object';
+  }
+
+  /**
+   * 处理错误，已处理的错误原样返回，不会重复记录和上报
    * @param error 错误对象
    * @param context 错误上下文
    * @returns 处理后的错误对象
    */
   handleError(error: Error, context?: Partial<ErrorContext>): ProcessedError {
-    const errorType = this.classifyError(error);
+    // safeExecute 抛出的错误会被公共方法的 catch 再次传入
+    if (ErrorHandler.isProcessedError(error)) {
+      return error;
+    }
+
     const fullContext: ErrorContext = {
       module: 'Unknown',
       method: 'Unknown',
       timestamp: Date.now(),
-      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'Node.js',
+      userAgent: Environment.getUserAgent() || 'Node.js',
       ...context
     };
 
-    const processedError: ProcessedError = {
+    const processedError = this.applyStrategy(error, fullContext) || this.processError(error, fullContext);
+    this.record(processedError);
+    void this.reportError(processedError);
+
+    // 记录错误日志（主动取消不视为错误）
+    const log = processedError.type === ErrorType.CANCELLED_ERROR
+      ? this.logger.debug.bind(this.logger)
+      : this.logger.error.bind(this.logger);
+    log(
+      `[${processedError.type}] ${processedError.message}`,
+      {
+        error: error.message,
+        stack: error.stack,
+        context: fullContext,
+        recoverable: processedError.recoverable
+      }
+    );
+
+    // 自动恢复（不阻塞调用方）
+    if (this.config.enableAutoRecovery && processedError.recoverable && this.recoveryStrategies.length > 0) {
+      this.recoverFromError(processedError).catch(() => {
+        // 恢复失败已记录日志
+      });
+    }
+
+    return processedError;
+  }
+
+  /**
+   * 使用默认规则处理错误
+   * @param error 错误对象
+   * @param fullContext 完整的错误上下文
+   * @returns 处理后的错误对象
+   */
+  private processError(error: Error, fullContext: ErrorContext): ProcessedError {
+    const errorType = this.classifyError(error);
+
+    return {
       type: errorType,
       severity: this.getErrorSeverity(errorType),
       message: error.message,
@@ -92,19 +194,248 @@ export class ErrorHandler {
       processedAt: Date.now(),
       relatedErrors: []
     };
+  }
 
-    // 记录错误日志
-    this.logger.error(
-      `[${errorType}] ${processedError.message}`,
-      {
-        error: error.message,
-        stack: error.stack,
-        context: fullContext,
-        recoverable: processedError.recoverable
+  /**
+   * 按优先级使用第一个匹配的自定义处理策略
+   * @param error 错误对象
+   * @param fullContext 完整的错误上下文
+   * @returns 策略处理结果，没有匹配的策略时返回 null
+   */
+  private applyStrategy(error: Error, fullContext: ErrorContext): ProcessedError | null {
+    for (const strategy of this.strategies) {
+      try {
+        if (strategy.matches(error, fullContext)) {
+          return strategy.handle(error, fullContext);
+        }
+      } catch (strategyError) {
+        this.logger.warn(`Error handling strategy "${strategy.name}" failed`, {
+          error: (strategyError as Error).message
+        });
       }
-    );
+    }
+    return null;
+  }
 
-    return processedError;
+  /**
+   * 添加错误处理策略，优先级高的先匹配
+   * @param strategy 错误处理策略
+   */
+  addStrategy(strategy: ErrorHandlingStrategy): void {
+    this.removeStrategy(strategy.name);
+    this.insertByPriority(this.strategies, strategy);
+  }
+
+  /**
+   * 移除错误处理策略
+   * @param name 策略名称
+   * @returns 是否移除成功
+   */
+  removeStrategy(name: string): boolean {
+    const index = this.strategies.findIndex(strategy => strategy.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.strategies.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 添加错误恢复策略，优先级高的先尝试
+   * @param strategy 错误恢复策略
+   */
+  addRecoveryStrategy(strategy: ErrorRecoveryStrategy): void {
+    this.removeRecoveryStrategy(strategy.name);
+    this.insertByPriority(this.recoveryStrategies, strategy);
+  }
+
+  /**
+   * 移除错误恢复策略
+   * @param name 策略名称
+   * @returns 是否移除成功
+   */
+  removeRecoveryStrategy(name: string): boolean {
+    const index = this.recoveryStrategies.findIndex(strategy => strategy.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.recoveryStrategies.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 尝试恢复错误，按优先级依次执行可用的恢复策略，直到某个策略成功
+   * @param error 处理后的错误对象
+   * @returns 恢复结果
+   */
+  async recoverFromError(error: ProcessedError): Promise<any> {
+    for (const strategy of this.recoveryStrategies) {
+      if (!strategy.canRecover(error)) {
+        continue;
+      }
+
+      try {
+        const result = await strategy.recover(error);
+        this.logger.info(`Recovered from error ${error.id} using "${strategy.name}"`);
+        return result;
+      } catch (recoveryError) {
+        this.logger.warn(`Recovery strategy "${strategy.name}" failed`, {
+          errorId: error.id,
+          error: (recoveryError as Error).message
+        });
+      }
+    }
+
+    throw new CustomError(error.type, `Unable to recover from error: ${error.message}`, {
+      code: error.code,
+      context: error.context,
+      recoverable: false,
+      cause: error.originalError
+    });
+  }
+
+  /**
+   * 上报错误，优先使用当前处理器的上报器，否则使用全局上报器
+   * @param error 处理后的错误对象
+   */
+  async reportError(error: ProcessedError): Promise<void> {
+    const reporter = this.reporter || ErrorHandler.globalReporter;
+    reporter?.report(error);
+  }
+
+  /**
+   * 设置当前处理器的错误上报器
+   * @param reporter 错误上报器
+   */
+  setReporter(reporter?: ErrorReporter): void {
+    this.reporter = reporter;
+  }
+
+  /**
+   * 获取错误历史（从旧到新）
+   */
+  getErrorHistory(): ProcessedError[] {
+    return [...this.history];
+  }
+
+  /**
+   * 获取错误统计，errorRate 为统计时间范围内的每分钟错误数
+   */
+  getErrorStats(): ErrorStats {
+    const end = Date.now();
+    const minutes = Math.max(end - this.stats.start, 1) / 60000;
+
+    const topErrors = Array.from(this.stats.messages.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10)
+      .map(entry => ({ ...entry }));
+
+    return {
+      totalErrors: this.stats.totalErrors,
+      errorsByType: { ...this.stats.errorsByType },
+      errorsBySeverity: { ...this.stats.errorsBySeverity },
+      errorsByModule: { ...this.stats.errorsByModule },
+      topErrors,
+      errorRate: this.stats.totalErrors / minutes,
+      timeRange: { start: this.stats.start, end }
+    };
+  }
+
+  /**
+   * 清除错误历史和统计
+   */
+  clearHistory(): void {
+    this.history = [];
+    this.stats = this.createEmptyStats();
+  }
+
+  /**
+   * 设置最大历史记录数
+   * @param maxHistory 最大历史记录数
+   */
+  setMaxHistory(maxHistory: number): void {
+    this.config.maxHistory = Math.max(0, maxHistory);
+    if (this.history.length > this.config.maxHistory) {
+      this.history.splice(0, this.history.length - this.config.maxHistory);
+    }
+  }
+
+  /**
+   * 记录错误到历史和统计
+   * @param error 处理后的错误对象
+   */
+  private record(error: ProcessedError): void {
+    if (this.config.maxHistory > 0) {
+      this.history.push(error);
+      if (this.history.length > this.config.maxHistory) {
+        this.history.shift();
+      }
+    }
+
+    const stats = this.stats;
+    const module = error.context?.module || 'Unknown';
+    stats.totalErrors++;
+    stats.errorsByType[error.type] = (stats.errorsByType[error.type] || 0) + 1;
+    stats.errorsBySeverity[error.severity] = (stats.errorsBySeverity[error.severity] || 0) + 1;
+    stats.errorsByModule[module] = (stats.errorsByModule[module] || 0) + 1;
+
+    const key = `${error.type}:${error.message}`;
+    const entry = stats.messages.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      // 限制不同错误消息的数量，淘汰出现次数最少的一条
+      if (stats.messages.size >= 500) {
+        let minKey = '';
+        let minCount = Infinity;
+        stats.messages.forEach((value, messageKey) => {
+          if (value.count < minCount) {
+            minCount = value.count;
+            minKey = messageKey;
+          }
+        });
+        stats.messages.delete(minKey);
+      }
+      stats.messages.set(key, { message: error.message, count: 1, type: error.type });
+    }
+  }
+
+  /**
+   * 创建空的统计数据
+   */
+  private createEmptyStats() {
+    const errorsByType = {} as Record<ErrorType, number>;
+    Object.values(ErrorType).forEach(type => {
+      errorsByType[type] = 0;
+    });
+
+    const errorsBySeverity = {} as Record<ErrorSeverity, number>;
+    Object.values(ErrorSeverity).forEach(severity => {
+      errorsBySeverity[severity] = 0;
+    });
+
+    return {
+      start: Date.now(),
+      totalErrors: 0,
+      errorsByType,
+      errorsBySeverity,
+      errorsByModule: {} as Record<string, number>,
+      messages: new Map<string, { message: string; count: number; type: ErrorType }>()
+    };
+  }
+
+  /**
+   * 按优先级（从高到低）插入策略
+   * @param list 策略列表
+   * @param strategy 策略
+   */
+  private insertByPriority<S extends { priority: number }>(list: S[], strategy: S): void {
+    const index = list.findIndex(item => strategy.priority > item.priority);
+    if (index === -1) {
+      list.push(strategy);
+    } else {
+      list.splice(index, 0, strategy);
+    }
   }
 
   /**
@@ -128,7 +459,7 @@ export class ErrorHandler {
       module: 'Unknown',
       method: 'Unknown',
       timestamp: Date.now(),
-      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'Node.js',
+      userAgent: Environment.getUserAgent() || 'Node.js',
       ...details?.context
     };
 
@@ -167,6 +498,15 @@ export class ErrorHandler {
     }
   }
 
+  /**
+   * 判断错误是否为主动取消
+   * @param error 错误对象
+   * @returns 是否为取消错误
+   */
+  isCancellationError(error: Error): boolean {
+    return this.classifyError(error) === ErrorType.CANCELLED_ERROR;
+  }
+
   /**
    * 获取错误解决方案
    * @param error 错误对象
@@ -209,6 +549,7 @@ export class ErrorHandler {
     switch (errorType) {
       case ErrorType.USER_ERROR:
       case ErrorType.CONFIG_ERROR:
+      case ErrorType.CANCELLED_ERROR:
         return ErrorSeverity.LOW;
       case ErrorType.NETWORK_ERROR:
       case ErrorType.TIMEOUT_ERROR:
@@ -272,9 +613,20 @@ export class ErrorHandler {
       return error.type;
     }
 
+    // 已处理过的错误（ProcessedError）保留原有类型
+    const existingType = (error as any)?.type;
+    if (Object.values(ErrorType).includes(existingType)) {
+      return existingType;
+    }
+
     const message = (error.message || '').toLowerCase();
     const name = (error.name || '').toLowerCase();
 
+    // 取消错误（AbortController）
+    if (name === 'aborterror') {
+      return ErrorType.CANCELLED_ERROR;
+    }
+
     // 网络相关错误
     if (
       message.includes('network') ||
@@ -358,6 +710,8 @@ export class ErrorHandler {
         return '配置参数错误，请检查配置';
       case ErrorType.USER_ERROR:
         return '输入参数错误，请检查输入参数';
+      case ErrorType.CANCELLED_ERROR:
+        return '操作已取消';
       default:
         return error.message || '发生未知错误';
     }
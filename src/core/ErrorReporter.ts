@@ -0,0 +1,417 @@
+/**
+ * 错误上报器
+ *
+ * @description 按 ErrorReportingConfig 收集各管理器处理后的错误，进行过滤、采样和限流后批量上报
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { ErrorContext, ErrorReportingConfig, ErrorSeverity, ErrorType, ProcessedError } from '../types/errors';
+import { Logger } from './Logger';
+
+/**
+ * 上报的错误数据
+ */
+export interface ErrorReport {
+  id: string;
+  type: ErrorType;
+  severity: ErrorSeverity;
+  message: string;
+  userMessage: string;
+  code: string;
+  recoverable: boolean;
+  timestamp: number;
+  context: ErrorContext;
+  /** 堆栈信息，includeStackTrace 为 false 时不包含 */
+  stack?: string;
+}
+
+/**
+ * 上报传输上下文
+ */
+export interface ErrorReportTransportContext {
+  endpoint?: string;
+  apiKey?: string;
+  /** 是否在页面卸载时发送 */
+  unloading: boolean;
+}
+
+/**
+ * 自定义上报传输函数
+ */
+export type ErrorReportTransport = (
+  reports: any[],
+  context: ErrorReportTransportContext
+) => void | boolean | Promise<void | boolean>;
+
+/**
+ * 错误上报器配置
+ */
+export interface ErrorReporterConfig extends ErrorReportingConfig {
+  /** 传输方式：fetch、navigator.sendBeacon 或自定义函数，默认 fetch */
+  transport?: 'fetch' | 'beacon' | ErrorReportTransport;
+  /** 队列达到该数量时立即上报，默认 10 */
+  batchSize?: number;
+  /** 页面隐藏（pagehide）时立即上报剩余错误，默认 true */
+  flushOnPageHide?: boolean;
+  /** 日志记录器 */
+  logger?: Logger;
+}
+
+/**
+ * 上报统计
+ */
+export interface ErrorReporterStats {
+  /** 已接收的错误数 */
+  received: number;
+  /** 已发送的错误数 */
+  sent: number;
+  /** 发送失败的错误数 */
+  failed: number;
+  /** 被过滤的错误数 */
+  filtered: number;
+  /** 被采样丢弃的错误数 */
+  sampled: number;
+  /** 被限流丢弃的错误数 */
+  rateLimited: number;
+  /** 队列中等待发送的错误数 */
+  queued: number;
+}
+
+/**
+ * 错误上报器类
+ */
+export class ErrorReporter {
+  private config: Required<Omit<ErrorReporterConfig, 'endpoint' | 'apiKey' | 'filter' | 'transform' | 'logger'>>
+    & Pick<ErrorReporterConfig, 'endpoint' | 'apiKey' | 'filter' | 'transform'>;
+  private logger: Logger;
+  private queue: ProcessedError[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private windowStart: number = Date.now();
+  private windowCount: number = 0;
+  private pageHideListener?: () => void;
+  private stats: Omit<ErrorReporterStats, 'queued'> = {
+    received: 0,
+    sent: 0,
+    failed: 0,
+    filtered: 0,
+    sampled: 0,
+    rateLimited: 0
+  };
+
+  /**
+   * 构造函数
+   * @param config 上报配置
+   */
+  constructor(config: ErrorReporterConfig = {}) {
+    const { logger, ...rest } = config;
+    this.logger = logger || new Logger('ErrorReporter');
+    this.config = {
+      enabled: true,
+      sampleRate: 1,
+      maxReports: 100,
+      reportInterval: 5000,
+      includeStackTrace: true,
+      includeUserInfo: false,
+      transport: 'fetch',
+      batchSize: 10,
+      flushOnPageHide: true,
+      ...rest
+    };
+
+    if (this.config.flushOnPageHide) {
+      this.listenPageHide();
+    }
+  }
+
+  /**
+   * 提交错误，经过过滤、采样和限流后进入上报队列
+   * @param error 处理后的错误
+   * @returns 是否进入队列
+   */
+  report(error: ProcessedError): boolean {
+    if (!this.config.enabled) {
+      return false;
+    }
+
+    this.stats.received++;
+
+    // 主动取消不上报
+    if (error.type === ErrorType.CANCELLED_ERROR) {
+      this.stats.filtered++;
+      return false;
+    }
+
+    if (this.config.filter) {
+      try {
+        if (!this.config.filter(error)) {
+          this.stats.filtered++;
+          return false;
+        }
+      } catch (filterError) {
+        // 过滤函数的异常不应影响调用方
+        this.stats.failed++;
+        this.logger.warn('Error report filter threw, report dropped', {
+          error: (filterError as Error).message
+        });
+        return false;
+      }
+    }
+
+    if (this.config.sampleRate < 1 && Math.random() >= this.config.sampleRate) {
+      this.stats.sampled++;
+      return false;
+    }
+
+    if (!this.acquireRateLimit()) {
+      this.stats.rateLimited++;
+      return false;
+    }
+
+    this.queue.push(this.scrub(error));
+
+    if (this.queue.length >= this.config.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+
+    return true;
+  }
+
+  /**
+   * 立即发送队列中的错误
+   * @param unloading 是否处于页面卸载阶段（优先使用 sendBeacon）
+   */
+  async flush(unloading: boolean = false): Promise<void> {
+    this.clearFlushTimer();
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    // 先序列化再移出队列，转换函数抛出时只丢弃对应的错误
+    const batch = this.queue.slice();
+    const payload: unknown[] = [];
+    batch.forEach(error => {
+      try {
+        payload.push(this.config.transform ? this.config.transform(error) : this.serialize(error));
+      } catch (transformError) {
+        this.stats.failed++;
+        this.logger.warn(`Failed to serialize error report ${error.id}`, {
+          error: (transformError as Error).message
+        });
+      }
+    });
+    this.queue.splice(0, batch.length);
+
+    if (payload.length === 0) {
+      return;
+    }
+
+    try {
+      const result = await this.send(payload, unloading);
+      if (result === false) {
+        throw new Error('Transport rejected the error reports');
+      }
+      this.stats.sent += payload.length;
+    } catch (error) {
+      this.stats.failed += payload.length;
+      this.logger.warn(`Failed to send ${payload.length} error reports`, {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * 获取上报统计
+   */
+  getStats(): ErrorReporterStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  /**
+   * 更新配置
+   * @param config 新的配置
+   */
+  updateConfig(config: Partial<ErrorReporterConfig>): void {
+    const { logger, ...rest } = config;
+    if (logger) {
+      this.logger = logger;
+    }
+    this.config = { ...this.config, ...rest };
+
+    if (this.config.flushOnPageHide) {
+      this.listenPageHide();
+    } else {
+      this.unlistenPageHide();
+    }
+  }
+
+  /**
+   * 销毁上报器，丢弃未发送的错误
+   */
+  destroy(): void {
+    this.clearFlushTimer();
+    this.unlistenPageHide();
+    this.queue = [];
+  }
+
+  /**
+   * 按配置清理堆栈和用户信息
+   * @param error 处理后的错误
+   */
+  private scrub(error: ProcessedError): ProcessedError {
+    const context: ErrorContext = { ...error.context };
+    let originalError = error.originalError;
+
+    if (!this.config.includeStackTrace) {
+      delete context.stackTrace;
+
+      if (originalError) {
+        originalError = new Error(originalError.message);
+        originalError.name = error.originalError.name;
+        delete originalError.stack;
+      }
+    }
+
+    if (!this.config.includeUserInfo) {
+      delete context.userId;
+      delete context.sessionId;
+      delete context.userAgent;
+    }
+
+    return { ...error, context, originalError };
+  }
+
+  /**
+   * 序列化错误
+   * @param error 已清理的错误
+   */
+  private serialize(error: ProcessedError): ErrorReport {
+    const report: ErrorReport = {
+      id: error.id,
+      type: error.type,
+      severity: error.severity,
+      message: error.message,
+      userMessage: error.userMessage,
+      code: error.code,
+      recoverable: error.recoverable,
+      timestamp: error.processedAt,
+      context: error.context
+    };
+
+    if (this.config.includeStackTrace && error.originalError?.stack) {
+      report.stack = error.originalError.stack;
+    }
+
+    return report;
+  }
+
+  /**
+   * 通过配置的传输方式发送
+   * @param reports 上报数据
+   * @param unloading 是否处于页面卸载阶段
+   */
+  private async send(reports: any[], unloading: boolean): Promise<void | boolean> {
+    const { transport, endpoint, apiKey } = this.config;
+
+    if (typeof transport === 'function') {
+      return transport(reports, { endpoint, apiKey, unloading });
+    }
+
+    if (!endpoint) {
+      throw new Error('Error reporting endpoint is not configured');
+    }
+
+    const canBeacon = typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+    if (canBeacon && (transport === 'beacon' || unloading)) {
+      const body = JSON.stringify({ apiKey, reports, sentAt: Date.now() });
+      return navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }));
+    }
+
+    if (typeof fetch !== 'function') {
+      throw new Error('fetch is not available for error reporting');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['X-API-Key'] = apiKey;
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ reports, sentAt: Date.now() }),
+      keepalive: unloading
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * 检查限流：每个上报周期内最多接收 maxReports 个错误
+   */
+  private acquireRateLimit(): boolean {
+    const now = Date.now();
+    if (now - this.windowStart >= this.config.reportInterval) {
+      this.windowStart = now;
+      this.windowCount = 0;
+    }
+
+    if (this.windowCount >= this.config.maxReports) {
+      return false;
+    }
+
+    this.windowCount++;
+    return true;
+  }
+
+  /**
+   * 安排定时上报
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, this.config.reportInterval);
+  }
+
+  /**
+   * 清除定时上报
+   */
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  /**
+   * 监听页面隐藏事件
+   */
+  private listenPageHide(): void {
+    if (this.pageHideListener || typeof window === 'undefined') {
+      return;
+    }
+    this.pageHideListener = () => {
+      void this.flush(true);
+    };
+    window.addEventListener('pagehide', this.pageHideListener);
+  }
+
+  /**
+   * 移除页面隐藏事件监听
+   */
+  private unlistenPageHide(): void {
+    if (this.pageHideListener && typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.pageHideListener);
+    }
+    this.pageHideListener = undefined;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * 错误重试器
+ *
+ * @description 统一的重试实现，支持指数退避、最大延迟、抖动策略、重试条件、重试钩子和重试统计
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { IErrorRetrier, RetryConfig, RetryResult } from '../types/errors';
+
+/**
+ * 默认重试配置
+ */
+export const DEFAULT_RETRY_CONFIG: Readonly<Omit<RetryConfig, 'shouldRetry' | 'onRetry' | 'signal'>> = {
+  maxRetries: 3,
+  delay: 1000,
+  backoffMultiplier: 2,
+  maxDelay: 5000,
+  jitter: 'none'
+};
+
+/**
+ * 错误重试器类
+ */
+export class ErrorRetrier implements IErrorRetrier {
+  private defaultConfig: Partial<RetryConfig>;
+  private stats = {
+    totalOperations: 0,
+    totalAttempts: 0,
+    totalRetries: 0,
+    successfulRetries: 0,
+    failedRetries: 0
+  };
+
+  /**
+   * 构造函数
+   * @param config 默认重试配置
+   */
+  constructor(config: Partial<RetryConfig> = {}) {
+    this.defaultConfig = { ...DEFAULT_RETRY_CONFIG, ...config };
+  }
+
+  /**
+   * 执行带重试的操作，不会抛出异常，失败信息通过结果返回
+   * @param operation 异步操作，参数为当前尝试次数（从1开始）
+   * @param config 本次重试配置，覆盖默认配置
+   * @returns 重试结果
+   */
+  async retry<T>(
+    operation: (attempt: number) => Promise<T>,
+    config: Partial<RetryConfig> = {}
+  ): Promise<RetryResult<T>> {
+    const merged = { ...this.defaultConfig, ...config };
+    const maxRetries = Math.max(0, merged.maxRetries ?? 0);
+    const startTime = Date.now();
+    let previousDelay = merged.delay ?? 0;
+    let attempts = 0;
+    let lastError: Error | undefined;
+
+    this.stats.totalOperations++;
+
+    while (attempts <= maxRetries) {
+      if (merged.signal?.aborted) {
+        lastError = this.getAbortReason(merged.signal);
+        break;
+      }
+
+      attempts++;
+      this.stats.totalAttempts++;
+
+      try {
+        const result = await operation(attempts);
+        if (attempts > 1) {
+          this.stats.successfulRetries++;
+        }
+        return { success: true, result, attempts, totalTime: Date.now() - startTime };
+      } catch (error) {
+        lastError = error as Error;
+      }
+
+      if (attempts > maxRetries || (merged.shouldRetry && !merged.shouldRetry(lastError, attempts))) {
+        break;
+      }
+
+      const delay = this.calculateDelay(attempts, merged, previousDelay);
+      previousDelay = delay;
+      this.stats.totalRetries++;
+      merged.onRetry?.(lastError, attempts, delay);
+
+      try {
+        await this.wait(delay, merged.signal);
+      } catch (abortError) {
+        lastError = abortError as Error;
+        break;
+      }
+    }
+
+    if (attempts > 1) {
+      this.stats.failedRetries++;
+    }
+
+    return { success: false, error: lastError, attempts, totalTime: Date.now() - startTime };
+  }
+
+  /**
+   * 计算第 attempt 次失败后的等待时间
+   * @param attempt 已尝试次数（从1开始）
+   * @param config 重试配置
+   * @param previousDelay 上一次等待时间，用于 decorrelated 抖动
+   * @returns 等待时间（毫秒）
+   */
+  calculateDelay(attempt: number, config: Partial<RetryConfig> = {}, previousDelay?: number): number {
+    const merged = { ...this.defaultConfig, ...config };
+    const baseDelay = Math.max(0, merged.delay ?? 0);
+    const multiplier = merged.backoffMultiplier ?? 1;
+    const maxDelay = merged.maxDelay ?? Infinity;
+    const backoff = Math.min(baseDelay * Math.pow(multiplier, attempt - 1), maxDelay);
+
+    switch (merged.jitter) {
+      case 'full':
+        return Math.round(Math.random() * backoff);
+      case 'decorrelated': {
+        const upper = Math.max(baseDelay, (previousDelay ?? baseDelay) * 3);
+        return Math.round(Math.min(maxDelay, baseDelay + Math.random() * (upper - baseDelay)));
+      }
+      default:
+        return backoff;
+    }
+  }
+
+  /**
+   * 设置默认重试配置
+   * @param config 重试配置
+   */
+  setDefaultConfig(config: Partial<RetryConfig>): void {
+    this.defaultConfig = { ...this.defaultConfig, ...config };
+  }
+
+  /**
+   * 获取默认重试配置
+   */
+  getDefaultConfig(): Partial<RetryConfig> {
+    return { ...this.defaultConfig };
+  }
+
+  /**
+   * 获取重试统计
+   */
+  getRetryStats(): {
+    totalRetries: number;
+    successfulRetries: number;
+    failedRetries: number;
+    averageAttempts: number;
+  } {
+    return {
+      totalRetries: this.stats.totalRetries,
+      successfulRetries: this.stats.successfulRetries,
+      failedRetries: this.stats.failedRetries,
+      averageAttempts: this.stats.totalOperations > 0
+        ? this.stats.totalAttempts / this.stats.totalOperations
+        : 0
+    };
+  }
+
+  /**
+   * 重置重试统计
+   */
+  resetStats(): void {
+    this.stats = {
+      totalOperations: 0,
+      totalAttempts: 0,
+      totalRetries: 0,
+      successfulRetries: 0,
+      failedRetries: 0
+    };
+  }
+
+  /**
+   * 可取消的等待
+   * @param ms 等待时间（毫秒）
+   * @param signal 取消信号
+   */
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.getAbortReason(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 获取取消原因
+   * @param signal 取消信号
+   */
+  private getAbortReason(signal: AbortSignal): Error {
+    if (signal.reason instanceof Error) {
+      return signal.reason;
+    }
+    const error = new Error('Operation was cancelled');
+    error.name = 'AbortError';
+    return error;
+  }
+}
@@ -1,27 +1,86 @@
 /**
  * 轻量级事件发射器
- * 
- * @description 提供事件的注册、移除和触发功能，支持优先级和一次性监听器
+ *
+ * @description 提供事件的注册、移除和触发功能，支持优先级、一次性监听器、通配符、命名空间、异步触发和等待事件
  * @author js-use-core
  * @date 2024-07-20
  */
 
-import { EventListener, EventListenerConfig } from './types';
+import { ErrorType } from '../types/errors';
+import { CustomError, ErrorHandler } from './ErrorHandler';
+import {
+  DefaultEventMap,
+  EmitAsyncOptions,
+  EventArgs,
+  EventListener,
+  EventListenerConfig,
+  EventMap,
+  EventName,
+  ListenerOptions,
+  TypedEventListener,
+  WaitForOptions,
+  WildcardEventListener,
+  WildcardEventName
+} from './types';
+
+/**
+ * 事件发射器配置
+ */
+export interface EventEmitterOptions {
+  /** 错误处理器，监听器抛出的异常交由其处理，默认按需创建独立的错误处理器 */
+  errorHandler?: ErrorHandler;
+  /** 错误上下文中的模块名称 */
+  module?: string;
+  /** 单个事件的最大监听器数量 */
+  maxListeners?: number;
+}
+
+/**
+ * 触发时匹配到的监听器
+ */
+interface MatchedListener {
+  /** 注册时使用的事件名称或通配符 */
+  key: string;
+  config: EventListenerConfig;
+}
 
 /**
  * 事件发射器类
+ *
+ * 通过事件映射泛型约束事件名称和监听器参数，未指定时不做限制
+ *
+ * @example
+ * const emitter = new EventEmitter<{ change: [value: string] }>();
+ * emitter.on('change', value => value.toUpperCase());
+ * emitter.emit('change', 'next');
  */
-export class EventEmitter {
+export class EventEmitter<Events extends EventMap = DefaultEventMap> {
   private events: Map<string, EventListenerConfig[]> = new Map();
   private maxListeners: number = 10;
+  private errorHandler?: ErrorHandler;
+  private moduleName: string;
+
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options: EventEmitterOptions = {}) {
+    this.errorHandler = options.errorHandler;
+    this.moduleName = options.module || 'EventEmitter';
+    if (options.maxListeners !== undefined) {
+      this.setMaxListeners(options.maxListeners);
+    }
+  }
 
   /**
    * 添加事件监听器
-   * @param event 事件名称
-   * @param listener 监听器函数
+   * @param event 事件名称，支持 `*` 和 `prefix:*` 通配符
+   * @param listener 监听器函数，通配符监听器的第一个参数为实际事件名称
    * @param options 监听器配置
    */
-  on(event: string, listener: EventListener, options?: { once?: boolean; priority?: number }): this {
+  on(event: WildcardEventName, listener: WildcardEventListener<Events>, options?: ListenerOptions): this;
+  on<K extends EventName<Events>>(event: K, listener: TypedEventListener<Events, K>, options?: ListenerOptions): this;
+  on(event: string, listener: EventListener, options?: ListenerOptions): this {
     if (typeof listener !== 'function') {
       throw new Error('Listener must be a function');
     }
@@ -29,7 +88,8 @@ export class EventEmitter {
     const config: EventListenerConfig = {
       listener,
       once: options?.once || false,
-      priority: options?.priority || 0
+      priority: options?.priority || 0,
+      namespace: options?.namespace
     };
 
     if (!this.events.has(event)) {
@@ -37,7 +97,7 @@ export class EventEmitter {
     }
 
     const listeners = this.events.get(event)!;
-    
+
     // 检查监听器数量限制
     if (listeners.length >= this.maxListeners) {
       console.warn(`Warning: Possible EventEmitter memory leak detected. ${listeners.length + 1} listeners added for event "${event}". Use setMaxListeners() to increase limit.`);
@@ -62,19 +122,23 @@ export class EventEmitter {
 
   /**
    * 添加一次性事件监听器
-   * @param event 事件名称
+   * @param event 事件名称，支持通配符
    * @param listener 监听器函数
    * @param priority 优先级
    */
+  once(event: WildcardEventName, listener: WildcardEventListener<Events>, priority?: number): this;
+  once<K extends EventName<Events>>(event: K, listener: TypedEventListener<Events, K>, priority?: number): this;
   once(event: string, listener: EventListener, priority?: number): this {
-    return this.on(event, listener, { once: true, priority });
+    return this.on(event as EventName<Events>, listener, { once: true, priority });
   }
 
   /**
    * 移除事件监听器
-   * @param event 事件名称
-   * @param listener 监听器函数
+   * @param event 事件名称或通配符
+   * @param listener 监听器函数，不提供时移除该事件的所有监听器
    */
+  off(event: WildcardEventName, listener?: WildcardEventListener<Events>): this;
+  off<K extends EventName<Events>>(event: K, listener?: TypedEventListener<Events, K>): this;
   off(event: string, listener?: EventListener): this {
     if (!this.events.has(event)) {
       return this;
@@ -100,55 +164,164 @@ export class EventEmitter {
   }
 
   /**
-   * 触发事件
+   * 移除命名空间下的所有监听器
+   * @param namespace 命名空间
+   * @returns 移除的监听器数量
+   */
+  offNamespace(namespace: string): number {
+    let removed = 0;
+    this.events.forEach((listeners, event) => {
+      const remaining = listeners.filter(config => config.namespace !== namespace);
+      removed += listeners.length - remaining.length;
+      if (remaining.length === 0) {
+        this.events.delete(event);
+      } else {
+        this.events.set(event, remaining);
+      }
+    });
+    return removed;
+  }
+
+  /**
+   * 同步触发事件，监听器抛出的异常（包括返回的 Promise 被拒绝）交由错误处理器处理，不会中断其他监听器
    * @param event 事件名称
    * @param args 传递给监听器的参数
+   * @returns 是否有监听器
    */
-  emit(event: string, ...args: any[]): boolean {
-    if (!this.events.has(event)) {
+  emit<K extends EventName<Events>>(event: K, ...args: EventArgs<Events, K>): boolean {
+    const matched = this.takeListeners(event);
+    if (matched.length === 0) {
       return false;
     }
 
-    const listeners = this.events.get(event)!.slice(); // 复制数组避免在执行过程中被修改
-    const toRemove: EventListenerConfig[] = [];
-
-    for (const config of listeners) {
+    for (const item of matched) {
       try {
-        config.listener.apply(this, args);
-        
-        if (config.once) {
-          toRemove.push(config);
+        const result = this.invoke(item, event, args);
+        if (isPromiseLike(result)) {
+          result.then(undefined, error => this.reportListenerError(error, event));
         }
       } catch (error) {
-        console.error(`Error in event listener for "${event}":`, error);
+        this.reportListenerError(error, event);
       }
     }
 
-    // 移除一次性监听器
-    if (toRemove.length > 0) {
-      const currentListeners = this.events.get(event);
-      if (currentListeners) {
-        for (const config of toRemove) {
-          const index = currentListeners.indexOf(config);
-          if (index !== -1) {
-            currentListeners.splice(index, 1);
-          }
-        }
-        
-        if (currentListeners.length === 0) {
-          this.events.delete(event);
-        }
+    return true;
+  }
+
+  /**
+   * 异步触发事件并等待所有监听器完成，所有监听器都会执行，失败会被汇总后抛出
+   * @param event 事件名称
+   * @param args 传递给监听器的参数
+   * @param options 触发选项
+   * @returns 是否有监听器
+   */
+  async emitAsync<K extends EventName<Events>>(
+    event: K,
+    args: EventArgs<Events, K>,
+    options: EmitAsyncOptions = {}
+  ): Promise<boolean> {
+    const matched = this.takeListeners(event);
+    if (matched.length === 0) {
+      return false;
+    }
+
+    const errors: Error[] = [];
+    const run = async (item: MatchedListener) => {
+      try {
+        await this.invoke(item, event, args);
+      } catch (error) {
+        errors.push(error instanceof Error ? error : new Error(String(error)));
       }
+    };
+
+    if (options.mode === 'parallel') {
+      await Promise.all(matched.map(run));
+    } else {
+      for (const item of matched) {
+        await run(item);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw this.getErrorHandler().createError(
+        ErrorType.INTERNAL_ERROR,
+        `${errors.length} listener(s) failed for event "${event}"`,
+        {
+          context: { module: this.moduleName, method: 'emitAsync', input: event, extra: { errors } },
+          cause: errors[0]
+        }
+      );
     }
 
     return true;
   }
 
+  /**
+   * 等待事件触发
+   * @param event 事件名称
+   * @param options 超时、过滤条件和取消信号
+   * @returns 事件参数
+   */
+  waitFor<K extends EventName<Events>>(
+    event: K,
+    options: WaitForOptions<EventArgs<Events, K>> = {}
+  ): Promise<EventArgs<Events, K>> {
+    const { timeout = 0, filter, signal } = options;
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        this.off(event, listener as TypedEventListener<Events, K>);
+      };
+
+      const listener = (...args: EventArgs<Events, K>) => {
+        try {
+          if (filter && !filter(...args)) {
+            return;
+          }
+        } catch (error) {
+          cleanup();
+          reject(error);
+          return;
+        }
+        cleanup();
+        resolve(args);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason instanceof CustomError
+          ? signal!.reason
+          : this.createWaitError(ErrorType.CANCELLED_ERROR, `Waiting for event "${event}" was cancelled`, event));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      this.on(event, listener as TypedEventListener<Events, K>);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(this.createWaitError(ErrorType.TIMEOUT_ERROR, `Timed out waiting for event "${event}" after ${timeout}ms`, event));
+        }, timeout);
+      }
+    });
+  }
+
   /**
    * 获取事件的监听器数量
    * @param event 事件名称
    */
-  listenerCount(event: string): number {
+  listenerCount(event: EventName<Events>): number {
     return this.events.get(event)?.length || 0;
   }
 
@@ -156,22 +329,22 @@ export class EventEmitter {
    * 获取事件的所有监听器
    * @param event 事件名称
    */
-  listeners(event: string): EventListener[] {
-    return this.events.get(event)?.map(config => config.listener) || [];
+  listeners<K extends EventName<Events>>(event: K): TypedEventListener<Events, K>[] {
+    return (this.events.get(event)?.map(config => config.listener) || []) as TypedEventListener<Events, K>[];
   }
 
   /**
    * 获取所有事件名称
    */
-  eventNames(): string[] {
-    return Array.from(this.events.keys());
+  eventNames(): EventName<Events>[] {
+    return Array.from(this.events.keys()) as EventName<Events>[];
   }
 
   /**
    * 移除所有监听器
    * @param event 可选的事件名称，如果不提供则移除所有事件的监听器
    */
-  removeAllListeners(event?: string): this {
+  removeAllListeners(event?: EventName<Events> | WildcardEventName): this {
     if (event) {
       this.events.delete(event);
     } else {
@@ -204,7 +377,7 @@ export class EventEmitter {
    * @param event 事件名称
    * @param listener 监听器函数
    */
-  prependListener(event: string, listener: EventListener): this {
+  prependListener<K extends EventName<Events>>(event: K, listener: TypedEventListener<Events, K>): this {
     return this.on(event, listener, { priority: Number.MAX_SAFE_INTEGER });
   }
 
@@ -213,7 +386,106 @@ export class EventEmitter {
    * @param event 事件名称
    * @param listener 监听器函数
    */
-  prependOnceListener(event: string, listener: EventListener): this {
+  prependOnceListener<K extends EventName<Events>>(event: K, listener: TypedEventListener<Events, K>): this {
     return this.once(event, listener, Number.MAX_SAFE_INTEGER);
   }
-}
\ No newline at end of file
+
+  /**
+   * 收集事件的监听器（包括匹配的通配符监听器）并按优先级排序，一次性监听器在执行前移除
+   * @param event 事件名称
+   */
+  private takeListeners(event: string): MatchedListener[] {
+    const matched: MatchedListener[] = [];
+    this.events.forEach((listeners, key) => {
+      if (key === event || matchesWildcard(key, event)) {
+        listeners.forEach(config => matched.push({ key, config }));
+      }
+    });
+
+    // Array.prototype.sort 是稳定排序，同优先级保持注册顺序
+    matched.sort((a, b) => (b.config.priority || 0) - (a.config.priority || 0));
+
+    matched
+      .filter(item => item.config.once)
+      .forEach(item => this.removeConfig(item));
+
+    return matched;
+  }
+
+  /**
+   * 调用监听器，通配符监听器会额外收到事件名称
+   */
+  private invoke(item: MatchedListener, event: string, args: any[]): void | Promise<void> {
+    return item.key === event
+      ? item.config.listener.apply(this, args)
+      : item.config.listener.call(this, event, ...args);
+  }
+
+  /**
+   * 移除指定的监听器配置
+   */
+  private removeConfig(item: MatchedListener): void {
+    const listeners = this.events.get(item.key);
+    if (!listeners) {
+      return;
+    }
+    const index = listeners.indexOf(item.config);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+    if (listeners.length === 0) {
+      this.events.delete(item.key);
+    }
+  }
+
+  /**
+   * 将监听器异常交给错误处理器
+   * @param error 异常
+   * @param event 事件名称
+   */
+  private reportListenerError(error: unknown, event: string): void {
+    this.getErrorHandler().handleError(
+      error instanceof Error ? error : new Error(String(error)),
+      { module: this.moduleName, method: `listener:${event}` }
+    );
+  }
+
+  /**
+   * 创建 waitFor 的超时或取消错误
+   */
+  private createWaitError(type: ErrorType, message: string, event: string): CustomError {
+    return this.getErrorHandler().createError(type, message, {
+      context: { module: this.moduleName, method: 'waitFor', input: event },
+      recoverable: type === ErrorType.TIMEOUT_ERROR
+    });
+  }
+
+  /**
+   * 获取错误处理器，未配置时按需创建
+   */
+  private getErrorHandler(): ErrorHandler {
+    if (!this.errorHandler) {
+      this.errorHandler = new ErrorHandler();
+    }
+    return this.errorHandler;
+  }
+}
+
+/**
+ * 通配符是否匹配事件名称
+ * @param pattern 注册时使用的事件名称
+ * @param event 实际触发的事件名称
+ */
+function matchesWildcard(pattern: string, event: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  return pattern.endsWith(':*') && event.startsWith(pattern.slice(0, -1));
+}
+
+/**
+ * 是否为 Promise
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+}
@@ -0,0 +1,225 @@
+/**
+ * 全局错误处理器
+ *
+ * @description 按 GlobalErrorHandlerConfig 捕获全局错误和未处理的 Promise 拒绝，统一交给 ErrorHandler 处理
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { ErrorContext, GlobalErrorHandlerConfig, ProcessedError } from '../types/errors';
+import { ErrorHandler } from './ErrorHandler';
+import { Logger } from './Logger';
+
+/**
+ * js-use-core 中的管理器类名，用于从堆栈中识别错误来源模块
+ */
+const MANAGER_NAMES = [
+  'ClipboardManager',
+  'DeviceDetector',
+  'FileManager',
+  'FontManager',
+  'FullscreenManager',
+  'ImageManager',
+  'UAManager',
+  'UrlManager',
+  'PluginManager'
+];
+
+const MANAGER_PATTERN = new RegExp(`\\b(?:new\\s+)?(${MANAGER_NAMES.join('|')})[.\\s]`);
+
+/**
+ * 全局错误处理器类
+ */
+export class GlobalErrorHandler {
+  private config: GlobalErrorHandlerConfig & Required<Pick<
+    GlobalErrorHandlerConfig,
+    'catchUnhandledRejections' | 'catchGlobalErrors' | 'logToConsole'
+  >>;
+  private errorHandler: ErrorHandler;
+  private installed: boolean = false;
+
+  /**
+   * 构造函数
+   * @param config 全局错误处理配置
+   * @param errorHandler 使用的错误处理器，不传时按配置创建
+   */
+  constructor(config: GlobalErrorHandlerConfig = {}, errorHandler?: ErrorHandler) {
+    this.config = {
+      catchUnhandledRejections: true,
+      catchGlobalErrors: true,
+      logToConsole: true,
+      ...config
+    };
+    this.errorHandler = errorHandler || new ErrorHandler(
+      new Logger('GlobalErrorHandler', { enableConsole: this.config.logToConsole }),
+      this.config
+    );
+  }
+
+  /**
+   * 安装全局监听，重复调用不会重复安装
+   */
+  install(): this {
+    if (this.installed || typeof window === 'undefined') {
+      return this;
+    }
+
+    if (this.config.catchGlobalErrors) {
+      window.addEventListener('error', this.handleGlobalError);
+    }
+    if (this.config.catchUnhandledRejections) {
+      window.addEventListener('unhandledrejection', this.handleRejection);
+    }
+
+    this.installed = true;
+    return this;
+  }
+
+  /**
+   * 移除全局监听
+   */
+  uninstall(): void {
+    if (!this.installed) {
+      return;
+    }
+
+    window.removeEventListener('error', this.handleGlobalError);
+    window.removeEventListener('unhandledrejection', this.handleRejection);
+    this.installed = false;
+  }
+
+  /**
+   * 是否已安装
+   */
+  isInstalled(): boolean {
+    return this.installed;
+  }
+
+  /**
+   * 获取使用的错误处理器
+   */
+  getErrorHandler(): ErrorHandler {
+    return this.errorHandler;
+  }
+
+  /**
+   * 处理捕获到的错误，模块已处理过的错误保留原有上下文，不会重复记录
+   * @param error 错误对象
+   * @param context 错误上下文
+   * @returns 处理后的错误对象
+   */
+  capture(error: Error | ProcessedError, context: Partial<ErrorContext> = {}): ProcessedError {
+    const processedError = ErrorHandler.isProcessedError(error) ? error : this.errorHandler.handleError(error, {
+      module: detectModule(error) || 'Global',
+      url: typeof location !== 'undefined' ? location.href : undefined,
+      stackTrace: error.stack,
+      ...context
+    });
+
+    if (this.config.customLogger) {
+      try {
+        this.config.customLogger(processedError);
+      } catch {
+        // 自定义日志函数的异常不应影响错误流
+      }
+    }
+
+    return processedError;
+  }
+
+  /**
+   * 全局错误事件处理
+   */
+  private handleGlobalError = (event: ErrorEvent): void => {
+    // 资源加载失败等非脚本错误没有 message
+    if (!event.error && !event.message) {
+      return;
+    }
+
+    const error = isCapturable(event.error) ? event.error : new Error(event.message || String(event.error));
+    this.capture(error, {
+      method: 'onerror',
+      extra: { filename: event.filename, lineno: event.lineno, colno: event.colno }
+    });
+  };
+
+  /**
+   * 未处理的 Promise 拒绝事件处理
+   */
+  private handleRejection = (event: PromiseRejectionEvent): void => {
+    const reason = event.reason;
+    const error = isCapturable(reason) ? reason : new Error(
+      typeof reason === 'string' ? reason : `Unhandled rejection: ${safeStringify(reason)}`
+    );
+    this.capture(error, { method: 'unhandledrejection' });
+  };
+}
+
+let activeHandler: GlobalErrorHandler | null = null;
+
+/**
+ * 安装全局错误处理器，已安装的处理器会先被卸载
+ * @param config 全局错误处理配置
+ * @param errorHandler 使用的错误处理器
+ * @returns 全局错误处理器实例
+ */
+export function installGlobalErrorHandler(
+  config?: GlobalErrorHandlerConfig,
+  errorHandler?: ErrorHandler
+): GlobalErrorHandler {
+  uninstallGlobalErrorHandler();
+  activeHandler = new GlobalErrorHandler(config, errorHandler).install();
+  return activeHandler;
+}
+
+/**
+ * 卸载通过 installGlobalErrorHandler 安装的全局错误处理器
+ */
+export function uninstallGlobalErrorHandler(): void {
+  activeHandler?.uninstall();
+  activeHandler = null;
+}
+
+/**
+ * 是否可以直接交给 capture 处理（Error 或模块已处理过的错误）
+ * @param value 任意值
+ */
+function isCapturable(value: unknown): value is Error | ProcessedError {
+  return value instanceof Error || ErrorHandler.isProcessedError(value);
+}
+
+/**
+ * 识别错误来源模块：优先使用错误自身上下文中的模块，其次从堆栈中查找最先出现的 js-use-core 管理器
+ * （压缩后的构建中类名会被改写，堆栈匹配只作为兜底）
+ * @param error 错误对象
+ */
+function detectModule(error: Error & { context?: Partial<ErrorContext> }): string | undefined {
+  if (typeof error.context?.module === 'string' && error.context.module) {
+    return error.context.module;
+  }
+
+  const stack = error.stack;
+  if (!stack) {
+    return undefined;
+  }
+
+  for (const frame of stack.split('\n')) {
+    const match = MANAGER_PATTERN.exec(frame);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 安全地序列化拒绝原因
+ * @param value 任意值
+ */
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
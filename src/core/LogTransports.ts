@@ -0,0 +1,585 @@
+/**
+ * 日志传输与格式化
+ *
+ * @description 提供控制台、内存环形缓冲、localStorage、IndexedDB 和远程批量上报等日志传输，以及 JSON/可读格式化函数
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { LogEntry, LogFormatter, LogLevel, LogTransport } from './types';
+
+/**
+ * 传输通用配置
+ */
+export interface LogTransportOptions {
+  /** 最低日志级别 */
+  level?: LogLevel;
+}
+
+/**
+ * 可读格式：`[时间] [级别] [模块] 消息`
+ * @param entry 日志条目
+ */
+export const prettyFormatter: LogFormatter = entry => {
+  const timestamp = new Date(entry.timestamp).toISOString();
+  return `[${timestamp}] [${LogLevel[entry.level]}] [${entry.module}] ${entry.message}`;
+};
+
+/**
+ * 结构化 JSON 格式，每条日志一行
+ * @param entry 日志条目
+ */
+export const jsonFormatter: LogFormatter = entry => {
+  return safeStringify({
+    timestamp: new Date(entry.timestamp).toISOString(),
+    level: LogLevel[entry.level],
+    module: entry.module,
+    message: entry.message,
+    ...(entry.data !== undefined ? { data: entry.data } : {})
+  });
+};
+
+/**
+ * 控制台传输
+ */
+export class ConsoleTransport implements LogTransport {
+  readonly name = 'console';
+  level?: LogLevel;
+  private formatter?: LogFormatter;
+
+  /**
+   * 构造函数
+   * @param options 传输配置，未指定格式化函数时使用可读格式并将额外数据作为第二个参数输出
+   */
+  constructor(options: LogTransportOptions & { formatter?: LogFormatter } = {}) {
+    this.level = options.level;
+    this.formatter = options.formatter;
+  }
+
+  write(entry: LogEntry): void {
+    const args = this.formatter
+      ? [this.formatter(entry)]
+      : [prettyFormatter(entry), ...(entry.data !== undefined ? [entry.data] : [])];
+
+    switch (entry.level) {
+      case LogLevel.DEBUG:
+        console.debug(...args);
+        break;
+      case LogLevel.INFO:
+        console.info(...args);
+        break;
+      case LogLevel.WARN:
+        console.warn(...args);
+        break;
+      case LogLevel.ERROR:
+        console.error(...args);
+        break;
+    }
+  }
+}
+
+/**
+ * 内存环形缓冲传输
+ */
+export class MemoryTransport implements LogTransport {
+  readonly name: string;
+  level?: LogLevel;
+  private buffer: LogEntry[] = [];
+  private capacity: number;
+  private start: number = 0;
+
+  /**
+   * 构造函数
+   * @param options 传输配置
+   */
+  constructor(options: LogTransportOptions & { name?: string; capacity?: number } = {}) {
+    this.name = options.name || 'memory';
+    this.level = options.level;
+    this.capacity = Math.max(1, options.capacity ?? 1000);
+  }
+
+  write(entry: LogEntry): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(entry);
+      return;
+    }
+    // 缓冲已满时覆盖最旧的日志
+    this.buffer[this.start] = entry;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /**
+   * 获取缓冲中的日志（从旧到新）
+   */
+  getEntries(): LogEntry[] {
+    return [...this.buffer.slice(this.start), ...this.buffer.slice(0, this.start)];
+  }
+
+  /**
+   * 清空缓冲
+   */
+  clear(): void {
+    this.buffer = [];
+    this.start = 0;
+  }
+}
+
+/**
+ * localStorage 持久化传输，日志先在内存中缓冲，再批量写入
+ */
+export class StorageTransport implements LogTransport {
+  readonly name: string;
+  level?: LogLevel;
+  private key: string;
+  private maxEntries: number;
+  private storage?: Storage;
+  private batchSize: number;
+  private flushInterval: number;
+  private pending: LogEntry[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * 构造函数
+   * @param options 传输配置
+   */
+  constructor(options: LogTransportOptions & {
+    name?: string;
+    /** 存储键名，默认 js-use-core:logs */
+    key?: string;
+    /** 最多保存的日志数量，默认 500 */
+    maxEntries?: number;
+    /** 存储对象，默认 localStorage */
+    storage?: Storage;
+    /** 缓冲达到该数量时立即写入，默认 50 */
+    batchSize?: number;
+    /** 缓冲写入间隔（毫秒），默认 1000 */
+    flushInterval?: number;
+  } = {}) {
+    this.name = options.name || 'storage';
+    this.level = options.level;
+    this.key = options.key || 'js-use-core:logs';
+    this.maxEntries = options.maxEntries ?? 500;
+    this.storage = options.storage || (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    this.batchSize = options.batchSize ?? 50;
+    this.flushInterval = options.flushInterval ?? 1000;
+  }
+
+  write(entry: LogEntry): void {
+    if (!this.storage) {
+      return;
+    }
+
+    this.pending.push(entry);
+    if (this.pending.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush();
+      }, this.flushInterval);
+    }
+  }
+
+  /**
+   * 将缓冲中的日志与已保存的日志合并后一次写入
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (!this.storage || this.pending.length === 0) {
+      return;
+    }
+
+    const entries = [...this.readStored(), ...this.pending];
+    this.pending = [];
+
+    try {
+      this.storage.setItem(this.key, safeStringify(entries.slice(-this.maxEntries)));
+    } catch {
+      // 存储空间不足时丢弃较旧的一半日志后重试一次
+      try {
+        this.storage.setItem(this.key, safeStringify(entries.slice(-Math.floor(this.maxEntries / 2))));
+      } catch {
+        // 无法写入时忽略
+      }
+    }
+  }
+
+  /**
+   * 获取已保存的日志（包括尚未写入的缓冲）
+   */
+  getEntries(): LogEntry[] {
+    return [...this.readStored(), ...this.pending].slice(-this.maxEntries);
+  }
+
+  /**
+   * 清空已保存的日志
+   */
+  clear(): void {
+    this.pending = [];
+    this.storage?.removeItem(this.key);
+  }
+
+  destroy(): void {
+    this.flush();
+  }
+
+  /**
+   * 读取存储中的日志
+   */
+  private readStored(): LogEntry[] {
+    try {
+      const entries = JSON.parse(this.storage?.getItem(this.key) || '[]');
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * IndexedDB 持久化传输，日志先在内存中缓冲，再批量写入
+ */
+export class IndexedDBTransport implements LogTransport {
+  readonly name: string;
+  level?: LogLevel;
+  private dbName: string;
+  private storeName: string;
+  private maxEntries: number;
+  private pending: LogEntry[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private dbPromise?: Promise<IDBDatabase>;
+
+  /**
+   * 构造函数
+   * @param options 传输配置
+   */
+  constructor(options: LogTransportOptions & {
+    name?: string;
+    /** 数据库名称，默认 js-use-core-logs */
+    dbName?: string;
+    /** 对象仓库名称，默认 logs */
+    storeName?: string;
+    /** 最多保存的日志数量，默认 5000 */
+    maxEntries?: number;
+  } = {}) {
+    this.name = options.name || 'indexeddb';
+    this.level = options.level;
+    this.dbName = options.dbName || 'js-use-core-logs';
+    this.storeName = options.storeName || 'logs';
+    this.maxEntries = options.maxEntries ?? 5000;
+  }
+
+  write(entry: LogEntry): void {
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+    this.pending.push(entry);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush().catch(() => {
+          // 写入失败时忽略
+        });
+      }, 0);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    const entries = this.pending.splice(0, this.pending.length);
+    const db = await this.open();
+
+    await this.transact(db, 'readwrite', store => {
+      entries.forEach(entry => store.add(entry));
+    });
+    await this.trim(db);
+  }
+
+  /**
+   * 获取已保存的日志
+   */
+  async getEntries(): Promise<LogEntry[]> {
+    if (typeof indexedDB === 'undefined') {
+      return [];
+    }
+    await this.flush();
+    const db = await this.open();
+    let result: LogEntry[] = [];
+    await this.transact(db, 'readonly', store => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        result = request.result;
+      };
+    });
+    return result;
+  }
+
+  /**
+   * 清空已保存的日志
+   */
+  async clear(): Promise<void> {
+    this.pending = [];
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+    const db = await this.open();
+    await this.transact(db, 'readwrite', store => {
+      store.clear();
+    });
+  }
+
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.dbPromise?.then(db => db.close()).catch(() => {
+      // 数据库未能打开时忽略
+    });
+    this.dbPromise = undefined;
+  }
+
+  /**
+   * 打开数据库
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 在事务中执行操作
+   */
+  private transact(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * 删除超出数量限制的旧日志
+   */
+  private trim(db: IDBDatabase): Promise<void> {
+    return this.transact(db, 'readwrite', store => {
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - this.maxEntries;
+        if (excess <= 0) {
+          return;
+        }
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor && excess > 0) {
+            cursor.delete();
+            excess--;
+            cursor.continue();
+          }
+        };
+      };
+    });
+  }
+}
+
+/**
+ * 远程批量上报传输，发送失败后按指数退避冷却，冷却期间只入队不发送
+ */
+export class RemoteTransport implements LogTransport {
+  readonly name: string;
+  level?: LogLevel;
+  private endpoint?: string;
+  private headers: Record<string, string>;
+  private send?: (entries: LogEntry[]) => Promise<void> | void;
+  private batchSize: number;
+  private flushInterval: number;
+  private maxQueueSize: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private queue: LogEntry[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private sending?: Promise<void>;
+  private failures: number = 0;
+  private retryAt: number = 0;
+
+  /**
+   * 构造函数
+   * @param options 传输配置，需要提供 endpoint 或自定义 send
+   */
+  constructor(options: LogTransportOptions & {
+    name?: string;
+    /** 上报地址，使用 fetch 以 JSON POST 发送 */
+    endpoint?: string;
+    /** 额外请求头 */
+    headers?: Record<string, string>;
+    /** 自定义发送函数 */
+    send?: (entries: LogEntry[]) => Promise<void> | void;
+    /** 队列达到该数量时立即发送，默认 20 */
+    batchSize?: number;
+    /** 定时发送间隔（毫秒），默认 5000 */
+    flushInterval?: number;
+    /** 发送失败时最多保留的日志数量，默认 1000 */
+    maxQueueSize?: number;
+    /** 首次发送失败后的冷却时间（毫秒），之后每次连续失败翻倍，默认 1000 */
+    retryDelay?: number;
+    /** 冷却时间上限（毫秒），默认 60000 */
+    maxRetryDelay?: number;
+  }) {
+    this.name = options.name || 'remote';
+    this.level = options.level ?? LogLevel.WARN;
+    this.endpoint = options.endpoint;
+    this.headers = options.headers || {};
+    this.send = options.send;
+    this.batchSize = options.batchSize ?? 20;
+    this.flushInterval = options.flushInterval ?? 5000;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 60000;
+  }
+
+  write(entry: LogEntry): void {
+    this.queue.push(entry);
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.splice(0, this.queue.length - this.maxQueueSize);
+    }
+
+    // 冷却期间只入队，冷却结束时的定时发送会带上这些日志
+    if (Date.now() < this.retryAt) {
+      return;
+    }
+
+    if (this.queue.length >= this.batchSize) {
+      this.flush().catch(() => {
+        // 发送失败的日志已重新入队
+      });
+    } else if (!this.flushTimer) {
+      this.scheduleFlush(this.flushInterval);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    // 等待进行中的发送，保证顺序
+    if (this.sending) {
+      await this.sending.catch(() => undefined);
+    }
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const batch = this.queue.splice(0, this.queue.length);
+    this.sending = this.deliver(batch);
+
+    try {
+      await this.sending;
+      this.failures = 0;
+      this.retryAt = 0;
+    } catch (error) {
+      // 失败的日志放回队首，超出上限时丢弃最旧的日志
+      this.queue = [...batch, ...this.queue].slice(-this.maxQueueSize);
+      this.failures++;
+      const delay = Math.min(this.retryDelay * 2 ** (this.failures - 1), this.maxRetryDelay);
+      this.retryAt = Date.now() + delay;
+      this.scheduleFlush(delay);
+      throw error;
+    } finally {
+      this.sending = undefined;
+    }
+  }
+
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.queue = [];
+  }
+
+  /**
+   * 延迟发送队列中的日志
+   * @param delay 延迟（毫秒）
+   */
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch(() => {
+        // 发送失败的日志已重新入队
+      });
+    }, delay);
+  }
+
+  /**
+   * 发送一批日志
+   * @param entries 日志条目
+   */
+  private async deliver(entries: LogEntry[]): Promise<void> {
+    if (this.send) {
+      await this.send(entries);
+      return;
+    }
+
+    if (!this.endpoint) {
+      throw new Error('RemoteTransport requires an endpoint or a send function');
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: safeStringify({ logs: entries })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * 序列化对象，处理循环引用和 Error 对象
+ * @param value 任意值
+ */
+function safeStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(value, (_key, current) => {
+    if (current instanceof Error) {
+      return { name: current.name, message: current.message, stack: current.stack };
+    }
+    if (current && typeof current === 'object') {
+      if (seen.has(current)) {
+        return '[Circular]';
+      }
+      seen.add(current);
+    }
+    return current;
+  });
+}
@@ -1,41 +1,81 @@
 /**
  * 统一日志记录器
  * 
- * @description 提供统一的日志记录功能，支持不同级别的日志和格式化输出
+ * @description 提供统一的日志记录功能，支持不同级别的日志、可插拔传输、格式化输出和字段脱敏
  * @author js-use-core
  * @date 2024-07-20
  */
 
-import { LogLevel, LogEntry } from './types';
+import { LogLevel, LogEntry, LogTransport, LoggerOptions, LoggerGlobalConfig, RedactionRule } from './types';
+import { ConsoleTransport } from './LogTransports';
+
+/**
+ * 默认脱敏规则：凭据类字段、剪贴板内容以及 URL 中的令牌参数
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { key: /^(password|passwd|secret|token|accessToken|refreshToken|apiKey|authorization|cookie)$/i },
+  { key: /^(text|html|clipboardText|clipboardData)$/i },
+  {
+    pattern: /([?&#](?:access_token|id_token|token|api_key|apikey|key|auth|code|sig|signature|password)=)[^&#\s]+/gi,
+    replacement: '$1[REDACTED]'
+  }
+];
 
 /**
  * 日志记录器类
  */
 export class Logger {
+  private static globalConfig: LoggerGlobalConfig = {};
   private level: LogLevel = LogLevel.INFO;
   private module: string;
   private logs: LogEntry[] = [];
   private maxLogs: number = 1000;
   private enableConsole: boolean = true;
+  private consoleTransport: LogTransport = new ConsoleTransport();
+  private transports: LogTransport[] = [];
+  private redactionRules?: RedactionRule[];
 
   /**
    * 构造函数
    * @param module 模块名称
    * @param options 配置选项
    */
-  constructor(module: string = 'Core', options?: {
-    level?: LogLevel;
-    maxLogs?: number;
-    enableConsole?: boolean;
-  }) {
+  constructor(module: string = 'Core', options?: LoggerOptions) {
     this.module = module;
     if (options) {
       this.level = options.level ?? LogLevel.INFO;
       this.maxLogs = options.maxLogs ?? 1000;
       this.enableConsole = options.enableConsole ?? true;
+      this.transports = [...(options.transports || [])];
+      this.redactionRules = resolveRedactionRules(options.redact);
+      if (options.formatter) {
+        this.consoleTransport = new ConsoleTransport({ formatter: options.formatter });
+      }
     }
   }
 
+  /**
+   * 设置全局配置，作用于所有日志记录器（包括已创建的）
+   * @param config 全局配置
+   */
+  static configure(config: LoggerGlobalConfig): void {
+    Logger.globalConfig = { ...Logger.globalConfig, ...config };
+  }
+
+  /**
+   * 获取全局配置
+   */
+  static getGlobalConfig(): LoggerGlobalConfig {
+    return { ...Logger.globalConfig };
+  }
+
+  /**
+   * 重置全局配置
+   */
+  static resetGlobalConfig(): void {
+    Logger.globalConfig = {};
+  }
+
   /**
    * 设置日志级别
    * @param level 日志级别
@@ -98,12 +138,13 @@ export class Logger {
       return;
     }
 
+    const rules = this.redactionRules ?? resolveRedactionRules(Logger.globalConfig.redact);
     const entry: LogEntry = {
       level,
-      message,
+      message: rules ? redactString(message, rules) : message,
       timestamp: Date.now(),
       module: this.module,
-      data
+      data: rules && data !== undefined ? redactValue(data, rules, new WeakMap()) : data
     };
 
     // 添加到日志数组
@@ -116,40 +157,84 @@ export class Logger {
 
     // 输出到控制台
     if (this.enableConsole) {
-      this.outputToConsole(entry);
+      this.writeToTransport(this.consoleTransport, entry);
     }
+
+    // 写入自定义传输和全局传输
+    this.getActiveTransports().forEach(transport => this.writeToTransport(transport, entry));
   }
 
   /**
-   * 输出日志到控制台
+   * 写入单个传输，传输异常不会影响日志记录
+   * @param transport 日志传输
    * @param entry 日志条目
    */
-  private outputToConsole(entry: LogEntry): void {
-    const timestamp = new Date(entry.timestamp).toISOString();
-    const levelName = LogLevel[entry.level];
-    const prefix = `[${timestamp}] [${levelName}] [${entry.module}]`;
-    
-    const args = [
-      `${prefix} ${entry.message}`,
-      ...(entry.data !== undefined ? [entry.data] : [])
-    ];
-
-    switch (entry.level) {
-      case LogLevel.DEBUG:
-        console.debug(...args);
-        break;
-      case LogLevel.INFO:
-        console.info(...args);
-        break;
-      case LogLevel.WARN:
-        console.warn(...args);
-        break;
-      case LogLevel.ERROR:
-        console.error(...args);
-        break;
+  private writeToTransport(transport: LogTransport, entry: LogEntry): void {
+    if (transport.level !== undefined && entry.level < transport.level) {
+      return;
+    }
+
+    try {
+      const result = transport.write(entry);
+      if (result instanceof Promise) {
+        result.catch(() => {
+          // 异步传输失败时忽略
+        });
+      }
+    } catch {
+      // 传输失败时忽略
     }
   }
 
+  /**
+   * 获取自定义传输和全局传输（去重）
+   */
+  private getActiveTransports(): LogTransport[] {
+    return Array.from(new Set([...this.transports, ...(Logger.globalConfig.transports || [])]));
+  }
+
+  /**
+   * 添加日志传输
+   * @param transport 日志传输
+   */
+  addTransport(transport: LogTransport): void {
+    if (!this.transports.includes(transport)) {
+      this.transports.push(transport);
+    }
+  }
+
+  /**
+   * 移除日志传输
+   * @param transport 日志传输或传输名称
+   */
+  removeTransport(transport: LogTransport | string): void {
+    this.transports = this.transports.filter(item => (
+      typeof transport === 'string' ? item.name !== transport : item !== transport
+    ));
+  }
+
+  /**
+   * 获取当前日志记录器的传输（不含全局传输）
+   */
+  getTransports(): LogTransport[] {
+    return [...this.transports];
+  }
+
+  /**
+   * 立即写出所有传输中缓冲的日志
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.getActiveTransports().map(transport => transport.flush?.()));
+  }
+
+  /**
+   * 设置脱敏规则
+   * @param rules 脱敏规则，true 表示使用默认规则，false 表示不脱敏
+   */
+  setRedactionRules(rules: boolean | RedactionRule[]): void {
+    this.redactionRules = resolveRedactionRules(rules);
+  }
+
   /**
    * 获取所有日志
    */
@@ -235,14 +320,102 @@ export class Logger {
   }
 
   /**
-   * 创建子日志记录器
+   * 创建子日志记录器，继承级别、控制台输出、传输和脱敏规则
    * @param subModule 子模块名称
    */
   createChild(subModule: string): Logger {
-    return new Logger(`${this.module}.${subModule}`, {
+    const child = new Logger(`${this.module}.${subModule}`, {
       level: this.level,
       maxLogs: this.maxLogs,
-      enableConsole: this.enableConsole
+      enableConsole: this.enableConsole,
+      transports: this.transports
     });
+    child.consoleTransport = this.consoleTransport;
+    child.redactionRules = this.redactionRules;
+    return child;
+  }
+}
+
+/**
+ * 解析脱敏配置
+ * @param redact 脱敏配置
+ */
+function resolveRedactionRules(redact?: boolean | RedactionRule[]): RedactionRule[] | undefined {
+  if (redact === true) {
+    return DEFAULT_REDACTION_RULES;
+  }
+  if (redact === false) {
+    return [];
+  }
+  return redact;
+}
+
+/**
+ * 检查字段名是否命中脱敏规则
+ * @param key 字段名
+ * @param rule 脱敏规则
+ */
+function matchesKey(key: string, rule: RedactionRule): boolean {
+  if (rule.key === undefined) {
+    return false;
+  }
+  if (typeof rule.key === 'string') {
+    return rule.key === key;
+  }
+  rule.key.lastIndex = 0;
+  return rule.key.test(key);
+}
+
+/**
+ * 按内容规则脱敏字符串
+ * @param value 字符串
+ * @param rules 脱敏规则
+ */
+function redactString(value: string, rules: RedactionRule[]): string {
+  return rules.reduce((result, rule) => {
+    if (!rule.pattern) {
+      return result;
+    }
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+    return result.replace(new RegExp(rule.pattern.source, flags), rule.replacement ?? '[REDACTED]');
+  }, value);
+}
+
+/**
+ * 递归脱敏数据，返回副本，不修改原始对象
+ * @param value 任意值
+ * @param rules 脱敏规则
+ * @param seen 已处理的对象，用于处理循环引用
+ */
+function redactValue(value: any, rules: RedactionRule[], seen: WeakMap<object, any>): any {
+  if (typeof value === 'string') {
+    return redactString(value, rules);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  if (value instanceof Error) {
+    const copy = { name: value.name, message: redactString(value.message, rules), stack: value.stack };
+    seen.set(value, copy);
+    return copy;
+  }
+
+  // 非普通对象（如 Date、Blob、DOM 节点）保持原样
+  const prototype = Object.getPrototypeOf(value);
+  const isArray = Array.isArray(value);
+  if (!isArray && prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+
+  const copy: any = isArray ? [] : {};
+  seen.set(value, copy);
+  for (const key of Object.keys(value)) {
+    const rule = isArray ? undefined : rules.find(item => matchesKey(key, item));
+    copy[key] = rule ? (rule.replacement ?? '[REDACTED]') : redactValue(value[key], rules, seen);
   }
+  return copy;
 }
\ No newline at end of file
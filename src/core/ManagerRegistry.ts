@@ -0,0 +1,293 @@
+/**
+ * 管理器注册表和全局配置
+ *
+ * @description 统一保存所有管理器的全局默认选项，通过弱引用跟踪存活的管理器实例，
+ * 管理各模块的默认实例（可替换为自定义实例），并支持一次性销毁全部管理器
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import type { BaseManager } from './BaseManager';
+import type { LoggerGlobalConfig } from './types';
+import type { BaseOptions, ModuleState } from '../types/core';
+import { Logger } from './Logger';
+
+/**
+ * 全局配置
+ */
+export interface GlobalConfig {
+  /** 所有管理器共享的默认选项（debug、timeout、cache 等），优先级高于管理器自身的默认值 */
+  defaults?: Partial<BaseOptions> & Record<string, any>;
+  /** 按模块名称设置的默认选项，如 `{ FullscreenManager: { navigationUI: 'hide' } }`，优先级高于 defaults */
+  modules?: Record<string, Record<string, any>>;
+  /** 日志全局配置，等同于 Logger.configure */
+  logger?: LoggerGlobalConfig;
+}
+
+/**
+ * 注册表中的管理器（BaseManager 实例）
+ */
+export type RegisteredManager = Pick<BaseManager<any, any>, 'state' | 'destroy'>;
+
+/**
+ * 管理器引用，支持 WeakRef 时为弱引用
+ */
+interface ManagerRef {
+  deref(): RegisteredManager | undefined;
+}
+
+/**
+ * 已注册管理器的信息
+ */
+export interface ManagerInfo {
+  /** 模块名称 */
+  name: string;
+  /** 生命周期状态 */
+  state: ModuleState;
+  /** 是否为该模块的默认实例 */
+  isDefault: boolean;
+  /** 管理器实例 */
+  manager: RegisteredManager;
+}
+
+/**
+ * 管理器注册表
+ *
+ * 管理器在构造时自动注册、销毁时自动取消注册；注册表只持有弱引用，未销毁就被丢弃的管理器仍可被回收。
+ * 构造时的选项按 管理器默认值 < defaults < modules[模块名称] < 构造参数 的顺序合并
+ */
+export class ManagerRegistry {
+  private static config: Required<Omit<GlobalConfig, 'logger'>> = { defaults: {}, modules: {} };
+  private static managers: Set<ManagerRef> = new Set();
+  private static entries: WeakMap<RegisteredManager, { name: string; ref: ManagerRef }> = new WeakMap();
+  private static finalizer = createFinalizer(ref => ManagerRegistry.managers.delete(ref));
+  private static defaultInstances: Map<string, RegisteredManager> = new Map();
+
+  /**
+   * 设置全局配置，只影响之后创建的管理器
+   * @param config 全局配置
+   */
+  static configure(config: GlobalConfig): void {
+    const { defaults, modules, logger } = config;
+    if (defaults) {
+      ManagerRegistry.config.defaults = { ...ManagerRegistry.config.defaults, ...defaults };
+    }
+    if (modules) {
+      const merged = { ...ManagerRegistry.config.modules };
+      Object.keys(modules).forEach(name => {
+        merged[name] = { ...merged[name], ...modules[name] };
+      });
+      ManagerRegistry.config.modules = merged;
+    }
+    if (logger) {
+      Logger.configure(logger);
+    }
+  }
+
+  /**
+   * 获取全局配置
+   */
+  static getGlobalConfig(): GlobalConfig {
+    return {
+      defaults: { ...ManagerRegistry.config.defaults },
+      modules: { ...ManagerRegistry.config.modules },
+      logger: Logger.getGlobalConfig()
+    };
+  }
+
+  /**
+   * 重置全局配置（包括日志全局配置）
+   */
+  static resetConfig(): void {
+    ManagerRegistry.config = { defaults: {}, modules: {} };
+    Logger.resetGlobalConfig();
+  }
+
+  /**
+   * 获取指定模块的全局默认选项
+   * @param name 模块名称
+   */
+  static getDefaults(name: string): Record<string, any> {
+    return { ...ManagerRegistry.config.defaults, ...ManagerRegistry.config.modules[name] };
+  }
+
+  /**
+   * 注册管理器
+   * @param manager 管理器
+   * @param name 模块名称
+   */
+  static register(manager: RegisteredManager, name: string): void {
+    if (ManagerRegistry.entries.has(manager)) {
+      return;
+    }
+    const ref = createManagerRef(manager);
+    ManagerRegistry.managers.add(ref);
+    ManagerRegistry.entries.set(manager, { name, ref });
+    ManagerRegistry.finalizer?.register(manager, ref, ref);
+  }
+
+  /**
+   * 取消注册管理器，如果它是默认实例，下次获取默认实例时会重新创建
+   * @param manager 管理器
+   */
+  static unregister(manager: RegisteredManager): void {
+    const entry = ManagerRegistry.entries.get(manager);
+    if (!entry) {
+      return;
+    }
+    ManagerRegistry.managers.delete(entry.ref);
+    ManagerRegistry.entries.delete(manager);
+    ManagerRegistry.finalizer?.unregister(entry.ref);
+    if (ManagerRegistry.defaultInstances.get(entry.name) === manager) {
+      ManagerRegistry.defaultInstances.delete(entry.name);
+    }
+  }
+
+  /**
+   * 列出存活的管理器
+   * @param name 只列出指定模块的管理器，可选
+   */
+  static list(name?: string): ManagerInfo[] {
+    const infos: ManagerInfo[] = [];
+    ManagerRegistry.managers.forEach(ref => {
+      const manager = ref.deref();
+      if (!manager) {
+        // 已被回收的管理器
+        ManagerRegistry.managers.delete(ref);
+        return;
+      }
+      const managerName = ManagerRegistry.entries.get(manager)!.name;
+      if (name === undefined || managerName === name) {
+        infos.push({
+          name: managerName,
+          state: manager.state,
+          isDefault: ManagerRegistry.defaultInstances.get(managerName) === manager,
+          manager
+        });
+      }
+    });
+    return infos;
+  }
+
+  /**
+   * 获取模块的默认实例，不存在时通过工厂函数创建
+   * @param name 模块名称
+   * @param factory 创建默认实例的工厂函数
+   */
+  static resolve<M extends RegisteredManager>(name: string, factory: () => M): M {
+    let manager = ManagerRegistry.defaultInstances.get(name);
+    if (!manager) {
+      manager = factory();
+      ManagerRegistry.defaultInstances.set(name, manager);
+    }
+    return manager as M;
+  }
+
+  /**
+   * 创建默认实例的延迟代理，首次访问属性或方法时才调用 getDefault 创建实例，
+   * 之后的每次访问都转发给 getDefault 返回的当前实例（包括 provide 替换的实例），保证模块在 Node.js 中导入时无副作用。
+   * 方法绑定到当前实例后会被缓存，默认实例不变时多次访问返回同一个函数
+   * @param getDefault 获取默认实例的函数，如 getFullscreenManager
+   */
+  static lazy<M extends object>(getDefault: () => M): M {
+    let boundTo: M | undefined;
+    const boundMethods: Map<PropertyKey, { source: Function; bound: Function }> = new Map();
+
+    return new Proxy({} as M, {
+      get(_target, property) {
+        const manager = getDefault();
+        const value = Reflect.get(manager, property, manager);
+        if (typeof value !== 'function') {
+          return value;
+        }
+
+        if (boundTo !== manager) {
+          boundTo = manager;
+          boundMethods.clear();
+        }
+        let cached = boundMethods.get(property);
+        if (!cached || cached.source !== value) {
+          cached = { source: value, bound: value.bind(manager) };
+          boundMethods.set(property, cached);
+        }
+        return cached.bound;
+      },
+      set(_target, property, value) {
+        return Reflect.set(getDefault(), property, value);
+      },
+      has(_target, property) {
+        return property in getDefault();
+      },
+      getPrototypeOf() {
+        return Object.getPrototypeOf(getDefault());
+      }
+    });
+  }
+
+  /**
+   * 替换模块的默认实例，便捷函数和静态接口会使用该实例
+   * @param name 模块名称
+   * @param manager 自定义实例，传入 null 时移除（下次获取时重新创建）
+   */
+  static provide(name: string, manager: RegisteredManager | null): void {
+    if (manager) {
+      ManagerRegistry.defaultInstances.set(name, manager);
+    } else {
+      ManagerRegistry.defaultInstances.delete(name);
+    }
+  }
+
+  /**
+   * 获取模块当前的默认实例（不会创建）
+   * @param name 模块名称
+   */
+  static getDefault<M extends RegisteredManager>(name: string): M | undefined {
+    return ManagerRegistry.defaultInstances.get(name) as M | undefined;
+  }
+
+  /**
+   * 销毁所有存活的管理器（包括默认实例），用于测试清理或微前端卸载
+   * @param name 只销毁指定模块的管理器，可选
+   */
+  static async destroyAll(name?: string): Promise<void> {
+    const targets = ManagerRegistry.list(name).map(info => info.manager);
+    await Promise.all(targets.map(manager => manager.destroy()));
+  }
+}
+
+/**
+ * 创建管理器引用，不支持 WeakRef 的环境退化为强引用
+ * @param manager 管理器
+ */
+function createManagerRef(manager: RegisteredManager): ManagerRef {
+  const WeakRefConstructor = (globalThis as any).WeakRef;
+  return typeof WeakRefConstructor === 'function' ? new WeakRefConstructor(manager) : { deref: () => manager };
+}
+
+/**
+ * 创建管理器被回收时的清理器，不支持 FinalizationRegistry 的环境返回 undefined（由 list() 惰性清理）
+ * @param cleanup 清理回调
+ */
+function createFinalizer(cleanup: (ref: ManagerRef) => void): {
+  register(target: object, ref: ManagerRef, token: object): void;
+  unregister(token: object): void;
+} | undefined {
+  const FinalizationRegistryConstructor = (globalThis as any).FinalizationRegistry;
+  return typeof FinalizationRegistryConstructor === 'function' ? new FinalizationRegistryConstructor(cleanup) : undefined;
+}
+
+/**
+ * 设置全局配置
+ * @param config 全局配置
+ */
+export function configure(config: GlobalConfig): void {
+  ManagerRegistry.configure(config);
+}
+
+/**
+ * 销毁所有存活的管理器
+ * @param name 只销毁指定模块的管理器，可选
+ */
+export function destroyAll(name?: string): Promise<void> {
+  return ManagerRegistry.destroyAll(name);
+}
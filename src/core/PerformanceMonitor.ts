@@ -0,0 +1,368 @@
+/**
+ * 性能监控器
+ *
+ * @description 统一记录操作耗时、分位延迟、缓存命中率、错误率和吞吐量，可选输出 performance.mark/measure 条目
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { IPerformanceMonitor, OperationMetrics, PerformanceMetrics } from '../types/core';
+
+/**
+ * 性能监控器配置
+ */
+export interface PerformanceMonitorOptions {
+  /** 监控器名称（通常为模块名称），用于汇总指标和 performance 条目命名 */
+  name?: string;
+  /** 是否输出 performance.mark/measure 条目，默认使用全局配置（false） */
+  marks?: boolean;
+  /** 每个操作保留的耗时样本数，默认使用全局配置（1000） */
+  maxSamples?: number;
+}
+
+/**
+ * 单个操作的原始统计
+ */
+interface OperationStats {
+  count: number;
+  errors: number;
+  total: number;
+  min: number;
+  max: number;
+  last: number;
+  samples: number[];
+}
+
+/**
+ * 性能监控器类
+ */
+export class PerformanceMonitor implements IPerformanceMonitor {
+  private static defaults: Required<Omit<PerformanceMonitorOptions, 'name'>> = {
+    marks: false,
+    maxSamples: 1000
+  };
+  private static registry: Set<PerformanceMonitor> = new Set();
+
+  readonly name: string;
+  private options: PerformanceMonitorOptions;
+  private operations: Map<string, OperationStats> = new Map();
+  private pending: Map<string, number[]> = new Map();
+  private startedAt: number = Date.now();
+  private initTime: number = 0;
+  private memoryUsage: number = 0;
+  private totalOperations: number = 0;
+  private totalErrors: number = 0;
+  private totalDuration: number = 0;
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options: PerformanceMonitorOptions = {}) {
+    this.name = options.name || 'Core';
+    this.options = options;
+  }
+
+  /**
+   * 设置所有监控器的默认配置
+   * @param defaults 默认配置
+   */
+  static configure(defaults: Partial<Omit<PerformanceMonitorOptions, 'name'>>): void {
+    PerformanceMonitor.defaults = { ...PerformanceMonitor.defaults, ...defaults };
+  }
+
+  /**
+   * 注册监控器，使其出现在 getAllMetrics() 的汇总中
+   * @param monitor 监控器
+   */
+  static register(monitor: PerformanceMonitor): void {
+    PerformanceMonitor.registry.add(monitor);
+  }
+
+  /**
+   * 取消注册监控器
+   * @param monitor 监控器
+   */
+  static unregister(monitor: PerformanceMonitor): void {
+    PerformanceMonitor.registry.delete(monitor);
+  }
+
+  /**
+   * 获取所有已注册监控器的指标快照，同名监控器以 `名称#序号` 区分
+   */
+  static getAllMetrics(): Record<string, PerformanceMetrics> {
+    const snapshot: Record<string, PerformanceMetrics> = {};
+    PerformanceMonitor.registry.forEach(monitor => {
+      let key = monitor.name;
+      for (let index = 2; key in snapshot; index++) {
+        key = `${monitor.name}#${index}`;
+      }
+      snapshot[key] = monitor.getMetrics();
+    });
+    return snapshot;
+  }
+
+  /**
+   * 开始计时，同名操作可以嵌套或并发，按后进先出结束
+   * @param operation 操作名称
+   */
+  startTiming(operation: string): void {
+    const starts = this.pending.get(operation) || [];
+    starts.push(now());
+    this.pending.set(operation, starts);
+    this.mark(`${operation}:start`);
+  }
+
+  /**
+   * 结束计时并记录耗时
+   * @param operation 操作名称
+   * @param failed 操作是否失败
+   * @returns 耗时（毫秒），没有对应的开始计时时返回 0
+   */
+  endTiming(operation: string, failed: boolean = false): number {
+    const starts = this.pending.get(operation);
+    const start = starts?.pop();
+    if (start === undefined) {
+      return 0;
+    }
+    if (starts!.length === 0) {
+      this.pending.delete(operation);
+    }
+
+    const duration = now() - start;
+    this.recordTiming(operation, duration, failed);
+    this.mark(`${operation}:end`);
+    this.measure(operation);
+    return duration;
+  }
+
+  /**
+   * 计时执行异步操作，失败时记录为错误后重新抛出
+   * @param operation 操作名称
+   * @param fn 异步操作
+   * @param isError 判断异常是否计为错误，默认全部计为错误
+   */
+  async timeAsync<R>(operation: string, fn: () => Promise<R>, isError?: (error: unknown) => boolean): Promise<R> {
+    const start = now();
+    this.mark(`${operation}:start`);
+
+    try {
+      const result = await fn();
+      this.recordTiming(operation, now() - start, false);
+      return result;
+    } catch (error) {
+      this.recordTiming(operation, now() - start, isError ? isError(error) : true);
+      throw error;
+    } finally {
+      this.mark(`${operation}:end`);
+      this.measure(operation);
+    }
+  }
+
+  /**
+   * 记录一次操作的耗时
+   * @param operation 操作名称
+   * @param duration 耗时（毫秒）
+   * @param failed 操作是否失败
+   */
+  recordTiming(operation: string, duration: number, failed: boolean = false): void {
+    let stats = this.operations.get(operation);
+    if (!stats) {
+      stats = { count: 0, errors: 0, total: 0, min: Infinity, max: 0, last: 0, samples: [] };
+      this.operations.set(operation, stats);
+    }
+
+    stats.count++;
+    stats.total += duration;
+    stats.min = Math.min(stats.min, duration);
+    stats.max = Math.max(stats.max, duration);
+    stats.last = duration;
+    stats.samples.push(duration);
+    if (stats.samples.length > this.getMaxSamples()) {
+      stats.samples.shift();
+    }
+
+    this.totalOperations++;
+    this.totalDuration += duration;
+
+    if (failed) {
+      stats.errors++;
+      this.totalErrors++;
+    }
+
+    if (operation === 'initialize') {
+      this.initTime = duration;
+    }
+  }
+
+  /**
+   * 记录缓存命中
+   */
+  recordCacheHit(): void {
+    this.cacheHits++;
+  }
+
+  /**
+   * 记录缓存未命中
+   */
+  recordCacheMiss(): void {
+    this.cacheMisses++;
+  }
+
+  /**
+   * 记录内存使用（仅在支持 performance.memory 的环境中有效）
+   */
+  recordMemoryUsage(): void {
+    const memory = typeof performance !== 'undefined' ? (performance as any).memory : undefined;
+    if (memory && typeof memory.usedJSHeapSize === 'number') {
+      this.memoryUsage = memory.usedJSHeapSize;
+    }
+  }
+
+  /**
+   * 记录与计时操作无关的错误
+   * @param _error 错误对象
+   */
+  recordError(_error: Error): void {
+    this.totalErrors++;
+  }
+
+  /**
+   * 获取指标快照
+   */
+  getMetrics(): PerformanceMetrics {
+    const cacheTotal = this.cacheHits + this.cacheMisses;
+    const elapsedSeconds = (Date.now() - this.startedAt) / 1000;
+    const operations: Record<string, OperationMetrics> = {};
+
+    this.operations.forEach((stats, operation) => {
+      const sorted = [...stats.samples].sort((a, b) => a - b);
+      operations[operation] = {
+        count: stats.count,
+        errors: stats.errors,
+        average: stats.total / stats.count,
+        min: stats.min,
+        max: stats.max,
+        last: stats.last,
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p95: percentile(sorted, 95),
+        p99: percentile(sorted, 99)
+      };
+    });
+
+    return {
+      initTime: this.initTime,
+      apiCallTime: this.totalOperations > 0 ? this.totalDuration / this.totalOperations : 0,
+      memoryUsage: this.memoryUsage,
+      cacheHitRate: cacheTotal > 0 ? this.cacheHits / cacheTotal : 0,
+      errorRate: this.totalOperations > 0
+        ? Math.min(1, this.totalErrors / this.totalOperations)
+        : (this.totalErrors > 0 ? 1 : 0),
+      throughput: elapsedSeconds > 0 ? this.totalOperations / elapsedSeconds : 0,
+      totalOperations: this.totalOperations,
+      totalErrors: this.totalErrors,
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+      operations
+    };
+  }
+
+  /**
+   * 重置指标
+   */
+  resetMetrics(): void {
+    this.operations.clear();
+    this.pending.clear();
+    this.startedAt = Date.now();
+    this.initTime = 0;
+    this.memoryUsage = 0;
+    this.totalOperations = 0;
+    this.totalErrors = 0;
+    this.totalDuration = 0;
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+  }
+
+  /**
+   * 设置是否输出 performance 条目
+   * @param enabled 是否启用
+   */
+  setMarksEnabled(enabled: boolean): void {
+    this.options = { ...this.options, marks: enabled };
+  }
+
+  /**
+   * 每个操作保留的样本数
+   */
+  private getMaxSamples(): number {
+    return this.options.maxSamples ?? PerformanceMonitor.defaults.maxSamples;
+  }
+
+  /**
+   * 是否输出 performance 条目
+   */
+  private marksEnabled(): boolean {
+    return (this.options.marks ?? PerformanceMonitor.defaults.marks)
+      && typeof performance !== 'undefined'
+      && typeof performance.mark === 'function'
+      && typeof performance.measure === 'function';
+  }
+
+  /**
+   * 输出 performance.mark
+   * @param label 标记名称
+   */
+  private mark(label: string): void {
+    if (!this.marksEnabled()) {
+      return;
+    }
+    try {
+      performance.mark(`js-use-core:${this.name}:${label}`);
+    } catch {
+      // 不支持时忽略
+    }
+  }
+
+  /**
+   * 输出 performance.measure 并清理对应的 mark
+   * @param operation 操作名称
+   */
+  private measure(operation: string): void {
+    if (!this.marksEnabled()) {
+      return;
+    }
+    const prefix = `js-use-core:${this.name}:${operation}`;
+    try {
+      performance.measure(prefix, `${prefix}:start`, `${prefix}:end`);
+      performance.clearMarks?.(`${prefix}:start`);
+      performance.clearMarks?.(`${prefix}:end`);
+    } catch {
+      // 缺少开始标记（如并发操作已清理）时忽略
+    }
+  }
+}
+
+/**
+ * 当前高精度时间
+ */
+function now(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
+/**
+ * 计算已排序样本的分位数（最近秩法）
+ * @param sorted 升序样本
+ * @param p 分位（0-100）
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
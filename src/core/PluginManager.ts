@@ -0,0 +1,429 @@
+/**
+ * 插件管理器
+ *
+ * @description 管理挂载在管理器上的插件，支持依赖排序、版本校验以及运行时启用/禁用
+ * @author js-use-core
+ * @date 2024-07-20
+ */
+
+import { IPlugin, IPluginManager } from '../types/core';
+import { ErrorType } from '../types/errors';
+import { ErrorHandler } from './ErrorHandler';
+import { Logger } from './Logger';
+
+/**
+ * 插件宿主，需要能够触发事件
+ */
+export interface PluginHost {
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * 插件管理器配置
+ */
+export interface PluginManagerOptions {
+  /** 日志记录器 */
+  logger?: Logger;
+  /** 错误处理器 */
+  errorHandler?: ErrorHandler;
+}
+
+/**
+ * 解析后的依赖声明
+ */
+interface PluginDependency {
+  name: string;
+  range?: string;
+}
+
+/**
+ * 插件管理器类
+ */
+export class PluginManager<M extends PluginHost = PluginHost> implements IPluginManager<M> {
+  private host: M;
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+  private plugins: Map<string, IPlugin<M>> = new Map();
+  private enabled: Set<string> = new Set();
+  private pending: Map<string, Promise<void>> = new Map();
+
+  /**
+   * 构造函数
+   * @param host 插件宿主（通常是管理器实例）
+   * @param options 配置选项
+   */
+  constructor(host: M, options: PluginManagerOptions = {}) {
+    this.host = host;
+    this.logger = options.logger || new Logger('PluginManager');
+    this.errorHandler = options.errorHandler || new ErrorHandler(this.logger);
+  }
+
+  /**
+   * 注册插件（不会自动启用）
+   * @param plugin 插件对象
+   */
+  register(plugin: IPlugin<M>): void {
+    this.validatePlugin(plugin);
+
+    if (this.plugins.has(plugin.name)) {
+      throw this.errorHandler.createError(
+        ErrorType.CONFIG_ERROR,
+        `Plugin "${plugin.name}" is already registered`,
+        { context: { method: 'register', input: plugin.name } }
+      );
+    }
+
+    this.plugins.set(plugin.name, plugin);
+    this.host.emit('pluginRegistered', { plugin });
+    this.logger.debug(`Plugin registered: ${plugin.name}@${plugin.version}`);
+  }
+
+  /**
+   * 卸载插件，已启用的插件及依赖它的插件会先被禁用
+   * @param name 插件名称
+   */
+  async unregister(name: string): Promise<void> {
+    const plugin = this.plugins.get(name);
+    if (!plugin) {
+      return;
+    }
+
+    await this.disable(name);
+    this.plugins.delete(name);
+    this.host.emit('pluginUnregistered', { plugin });
+    this.logger.debug(`Plugin unregistered: ${name}`);
+  }
+
+  /**
+   * 获取插件
+   * @param name 插件名称
+   */
+  get(name: string): IPlugin<M> | undefined {
+    return this.plugins.get(name);
+  }
+
+  /**
+   * 获取所有插件（按注册顺序）
+   */
+  getAll(): IPlugin<M>[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * 检查插件是否存在
+   * @param name 插件名称
+   */
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * 检查插件是否已启用
+   * @param name 插件名称
+   */
+  isEnabled(name: string): boolean {
+    return this.enabled.has(name);
+  }
+
+  /**
+   * 获取已启用的插件（按启用顺序）
+   */
+  getEnabled(): IPlugin<M>[] {
+    return Array.from(this.enabled).map(name => this.plugins.get(name)!);
+  }
+
+  /**
+   * 启用插件，依赖的插件会按顺序先被启用
+   * @param name 插件名称
+   */
+  async enable(name: string): Promise<void> {
+    const order = this.resolveOrder(name);
+
+    for (const pluginName of order) {
+      await this.install(pluginName);
+    }
+  }
+
+  /**
+   * 禁用插件，依赖它的已启用插件会先被禁用
+   * @param name 插件名称
+   */
+  async disable(name: string): Promise<void> {
+    if (!this.enabled.has(name)) {
+      return;
+    }
+
+    // 先禁用依赖当前插件的插件
+    for (const dependent of this.getEnabledDependents(name)) {
+      await this.disable(dependent);
+    }
+
+    const plugin = this.plugins.get(name)!;
+    this.enabled.delete(name);
+
+    try {
+      await plugin.uninstall(this.host);
+    } catch (error) {
+      throw this.errorHandler.createError(
+        ErrorType.INTERNAL_ERROR,
+        `Failed to uninstall plugin "${name}": ${(error as Error).message}`,
+        { context: { method: 'disable', input: name }, cause: error as Error }
+      );
+    }
+
+    this.host.emit('pluginDisabled', { plugin });
+    this.logger.debug(`Plugin disabled: ${name}`);
+  }
+
+  /**
+   * 按启用顺序的逆序禁用所有插件
+   */
+  async disableAll(): Promise<void> {
+    const names = Array.from(this.enabled).reverse();
+    for (const name of names) {
+      await this.disable(name);
+    }
+  }
+
+  /**
+   * 禁用并移除所有插件
+   */
+  async clear(): Promise<void> {
+    await this.disableAll();
+    this.plugins.clear();
+  }
+
+  /**
+   * 安装单个插件（依赖已就绪）
+   * @param name 插件名称
+   */
+  private install(name: string): Promise<void> {
+    if (this.enabled.has(name)) {
+      return Promise.resolve();
+    }
+
+    // 防止并发启用时重复安装
+    const pending = this.pending.get(name);
+    if (pending) {
+      return pending;
+    }
+
+    const plugin = this.plugins.get(name)!;
+    const task = (async () => {
+      try {
+        await plugin.install(this.host);
+      } catch (error) {
+        throw this.errorHandler.createError(
+          ErrorType.INTERNAL_ERROR,
+          `Failed to install plugin "${name}": ${(error as Error).message}`,
+          { context: { method: 'enable', input: name }, cause: error as Error }
+        );
+      }
+
+      this.enabled.add(name);
+      this.host.emit('pluginEnabled', { plugin });
+      this.logger.debug(`Plugin enabled: ${name}`);
+    })();
+
+    this.pending.set(name, task);
+    return task.finally(() => {
+      this.pending.delete(name);
+    });
+  }
+
+  /**
+   * 计算启用顺序（依赖在前），同时校验依赖是否存在、版本是否匹配以及是否存在循环依赖
+   * @param name 插件名称
+   */
+  private resolveOrder(name: string): string[] {
+    const order: string[] = [];
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (current: string, path: string[]) => {
+      if (visited.has(current)) {
+        return;
+      }
+
+      if (visiting.has(current)) {
+        throw this.errorHandler.createError(
+          ErrorType.CONFIG_ERROR,
+          `Circular plugin dependency: ${[...path, current].join(' -> ')}`,
+          { context: { method: 'enable', input: name } }
+        );
+      }
+
+      const plugin = this.plugins.get(current);
+      if (!plugin) {
+        const requiredBy = path[path.length - 1];
+        throw this.errorHandler.createError(
+          ErrorType.CONFIG_ERROR,
+          requiredBy
+            ? `Plugin "${requiredBy}" depends on "${current}", which is not registered`
+            : `Plugin "${current}" is not registered`,
+          { context: { method: 'enable', input: name } }
+        );
+      }
+
+      visiting.add(current);
+
+      for (const dependency of this.getDependencies(plugin)) {
+        const target = this.plugins.get(dependency.name);
+        if (target && dependency.range && !satisfiesRange(target.version, dependency.range)) {
+          throw this.errorHandler.createError(
+            ErrorType.CONFIG_ERROR,
+            `Plugin "${current}" requires ${dependency.name}@${dependency.range}, but ${target.version} is registered`,
+            { context: { method: 'enable', input: name } }
+          );
+        }
+        visit(dependency.name, [...path, current]);
+      }
+
+      visiting.delete(current);
+      visited.add(current);
+      order.push(current);
+    };
+
+    visit(name, []);
+    return order;
+  }
+
+  /**
+   * 获取依赖指定插件的已启用插件
+   * @param name 插件名称
+   */
+  private getEnabledDependents(name: string): string[] {
+    return Array.from(this.enabled).filter(enabledName => {
+      const plugin = this.plugins.get(enabledName)!;
+      return this.getDependencies(plugin).some(dependency => dependency.name === name);
+    });
+  }
+
+  /**
+   * 解析插件的依赖声明
+   * @param plugin 插件对象
+   */
+  private getDependencies(plugin: IPlugin<M>): PluginDependency[] {
+    return (plugin.dependencies || []).map(parseDependency);
+  }
+
+  /**
+   * 校验插件结构
+   * @param plugin 插件对象
+   */
+  private validatePlugin(plugin: IPlugin<M>): void {
+    if (!plugin || typeof plugin !== 'object') {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        'Plugin must be an object',
+        { context: { method: 'register' } }
+      );
+    }
+
+    if (typeof plugin.name !== 'string' || !plugin.name || plugin.name.includes('@')) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        'Plugin name must be a non-empty string without "@"',
+        { context: { method: 'register', input: plugin.name } }
+      );
+    }
+
+    if (typeof plugin.version !== 'string' || !parseVersion(plugin.version)) {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        `Plugin "${plugin.name}" has an invalid version: ${plugin.version}`,
+        { context: { method: 'register', input: plugin.name } }
+      );
+    }
+
+    if (typeof plugin.install !== 'function' || typeof plugin.uninstall !== 'function') {
+      throw this.errorHandler.createError(
+        ErrorType.USER_ERROR,
+        `Plugin "${plugin.name}" must implement install() and uninstall()`,
+        { context: { method: 'register', input: plugin.name } }
+      );
+    }
+  }
+}
+
+/**
+ * 解析依赖声明，如 `logger` 或 `logger@^1.2.0`
+ * @param spec 依赖声明
+ */
+function parseDependency(spec: string): PluginDependency {
+  const index = spec.indexOf('@');
+  if (index <= 0) {
+    return { name: spec };
+  }
+  return { name: spec.slice(0, index), range: spec.slice(index + 1).trim() || undefined };
+}
+
+/**
+ * 解析版本号为 [major, minor, patch]
+ * @param version 版本号
+ */
+function parseVersion(version: string): [number, number, number] | null {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)];
+}
+
+/**
+ * 比较两个版本号
+ */
+function compareVersion(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 检查版本是否满足范围，支持 `*`、`1.2.3`、`^1.2.0`、`~1.2.0`、`>=1.0.0`、`<2.0.0`，
+ * 多个条件以空格分隔时需同时满足
+ * @param version 版本号
+ * @param range 版本范围
+ */
+function satisfiesRange(version: string, range: string): boolean {
+  const current = parseVersion(version);
+  if (!current) {
+    return false;
+  }
+
+  return range.split(/\s+/).filter(Boolean).every(condition => {
+    if (condition === '*' || condition === 'x') {
+      return true;
+    }
+
+    const match = /^(\^|~|>=|<=|>|<|=)?(.+)$/.exec(condition)!;
+    const operator = match[1] || '=';
+    const target = parseVersion(match[2]);
+    if (!target) {
+      return false;
+    }
+
+    const result = compareVersion(current, target);
+    switch (operator) {
+      case '^':
+        return result >= 0 && (target[0] > 0
+          ? current[0] === target[0]
+          : current[0] === 0 && current[1] === target[1]);
+      case '~':
+        return result >= 0 && current[0] === target[0] && current[1] === target[1];
+      case '>=':
+        return result >= 0;
+      case '<=':
+        return result <= 0;
+      case '>':
+        return result > 0;
+      case '<':
+        return result < 0;
+      default:
+        return result === 0;
+    }
+  });
+}
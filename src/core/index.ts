@@ -9,7 +9,74 @@
 export { BaseManager } from './BaseManager';
 export { ErrorHandler, CustomError } from './ErrorHandler';
 export { EventEmitter } from './EventEmitter';
-export { Logger } from './Logger';
+export { Logger, DEFAULT_REDACTION_RULES } from './Logger';
+export {
+  ConsoleTransport,
+  MemoryTransport,
+  StorageTransport,
+  IndexedDBTransport,
+  RemoteTransport,
+  prettyFormatter,
+  jsonFormatter
+} from './LogTransports';
 export { Cache } from './Cache';
+export {
+  MemoryCacheStorage,
+  WebStorageCacheStorage,
+  IndexedDBCacheStorage,
+  defaultCacheSerializer,
+  isQuotaExceededError
+} from './CacheStorage';
+export { PluginManager } from './PluginManager';
+export { ErrorRetrier, DEFAULT_RETRY_CONFIG } from './ErrorRetrier';
+export { ErrorReporter } from './ErrorReporter';
+export { PerformanceMonitor } from './PerformanceMonitor';
+export { ConfigValidator } from './ConfigValidator';
+export { AsyncOperationManager } from './AsyncOperationManager';
+export { GlobalErrorHandler, installGlobalErrorHandler, uninstallGlobalErrorHandler } from './GlobalErrorHandler';
+export { ManagerRegistry, configure, destroyAll } from './ManagerRegistry';
+export { Environment, SERVER_ENVIRONMENT_ERROR } from './Environment';
+
+export type { PluginHost, PluginManagerOptions } from './PluginManager';
+export type { LogTransportOptions } from './LogTransports';
+export type { MemoryCacheStorageOptions, IndexedDBCacheStorageOptions } from './CacheStorage';
+export type { EventEmitterOptions } from './EventEmitter';
+export type { GlobalConfig, ManagerInfo } from './ManagerRegistry';
+export type { EnvironmentGlobals } from './Environment';
+export type { PerformanceMonitorOptions } from './PerformanceMonitor';
+export type { AsyncOperationManagerOptions, AsyncOperationEvent, AsyncOperationEvents } from './AsyncOperationManager';
+export type {
+  ErrorReport,
+  ErrorReporterConfig,
+  ErrorReporterStats,
+  ErrorReportTransport,
+  ErrorReportTransportContext
+} from './ErrorReporter';
+export type {
+  IPlugin,
+  IPluginManager,
+  CancelableOptions,
+  SafeExecuteOptions,
+  IPerformanceMonitor,
+  PerformanceMetrics,
+  OperationMetrics,
+  IConfigValidator,
+  ValidationRule,
+  ValidationResult,
+  ValidationIssue,
+  IAsyncOperationManager,
+  AsyncOperationResult,
+  AsyncOperationContext,
+  AsyncOperationOptions,
+  LifecycleHook,
+  LifecycleHooks,
+  ManagerDefaultOptions,
+  BaseManagerEvents,
+  ManagerEvents,
+  StateChangeEvent,
+  PluginEvent
+} from '../types/core';
+export { AsyncOperationStatus, ModuleState } from '../types/core';
+export type { IErrorRetrier, RetryConfig, RetryResult, RetryJitter, RetryPolicy, ErrorReportingConfig, GlobalErrorHandlerConfig } from '../types/errors';
 
 export * from './types';
\ No newline at end of file
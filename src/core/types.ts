@@ -6,6 +6,9 @@
  * @date 2024-07-20
  */
 
+import { RetryPolicy } from '../types/errors';
+import { CancelableOptions, LifecycleHooks } from '../types/core';
+
 /**
  * 基础配置接口
  */
@@ -16,8 +19,12 @@ export interface BaseOptions {
   timeout?: number;
   /** 重试次数 */
   retries?: number;
-  /** 是否启用缓存 */
-  cache?: boolean;
+  /** 是否启用缓存，传入配置对象时可指定持久化存储等选项 */
+  cache?: boolean | CacheConfig;
+  /** 重试策略（退避、抖动、重试条件等） */
+  retryPolicy?: RetryPolicy;
+  /** 生命周期钩子 */
+  hooks?: LifecycleHooks;
 }
 
 /**
@@ -40,6 +47,8 @@ export enum ErrorType {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   /** 内部错误 - 内部逻辑错误 */
   INTERNAL_ERROR = 'INTERNAL_ERROR',
+  /** 取消错误 - 操作被调用方主动取消（AbortSignal） */
+  CANCELLED_ERROR = 'CANCELLED_ERROR',
   /** 未知错误 - 其他未分类错误 */
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
@@ -108,6 +117,67 @@ export interface LogEntry {
   data?: any;
 }
 
+/**
+ * 日志格式化函数
+ */
+export type LogFormatter = (entry: LogEntry) => string;
+
+/**
+ * 日志传输接口
+ */
+export interface LogTransport {
+  /** 传输名称 */
+  readonly name: string;
+  /** 最低日志级别，低于该级别的日志不会写入此传输 */
+  level?: LogLevel;
+  /** 写入日志 */
+  write(entry: LogEntry): void | Promise<void>;
+  /** 立即写出缓冲中的日志 */
+  flush?(): void | Promise<void>;
+  /** 释放资源 */
+  destroy?(): void;
+}
+
+/**
+ * 日志脱敏规则
+ */
+export interface RedactionRule {
+  /** 需要脱敏的字段名，匹配任意层级的键 */
+  key?: string | RegExp;
+  /** 需要脱敏的字符串内容，作用于消息和所有字符串字段 */
+  pattern?: RegExp;
+  /** 替换文本，默认 [REDACTED] */
+  replacement?: string;
+}
+
+/**
+ * 日志记录器配置
+ */
+export interface LoggerOptions {
+  /** 日志级别 */
+  level?: LogLevel;
+  /** 内存中保留的最大日志数量 */
+  maxLogs?: number;
+  /** 是否输出到控制台 */
+  enableConsole?: boolean;
+  /** 控制台输出的格式化函数 */
+  formatter?: LogFormatter;
+  /** 日志传输 */
+  transports?: LogTransport[];
+  /** 脱敏规则，true 表示使用默认规则 */
+  redact?: boolean | RedactionRule[];
+}
+
+/**
+ * 日志全局配置，作用于所有日志记录器（包括各管理器内部的日志记录器）
+ */
+export interface LoggerGlobalConfig {
+  /** 所有日志记录器都会写入的传输 */
+  transports?: LogTransport[];
+  /** 未单独配置脱敏规则的日志记录器使用的规则，true 表示使用默认规则 */
+  redact?: boolean | RedactionRule[];
+}
+
 /**
  * 缓存条目接口
  */
@@ -122,6 +192,33 @@ export interface CacheEntry<T = any> {
   accessCount: number;
   /** 最后访问时间 */
   lastAccessed: number;
+  /** 估算的占用字节数 */
+  size?: number;
+  /** 标签，可通过 invalidateTag 批量失效 */
+  tags?: string[];
+  /** 过期后仍可返回旧值的截止时间（stale-while-revalidate） */
+  staleUntil?: number;
+}
+
+/**
+ * 缓存淘汰策略：lru 淘汰最近最少使用的项，lfu 淘汰访问次数最少的项
+ */
+export type CacheEvictionPolicy = 'lru' | 'lfu';
+
+/**
+ * 写入缓存的选项
+ */
+export interface CacheSetOptions {
+  /** 过期时间（毫秒） */
+  ttl?: number;
+  /** 标签 */
+  tags?: string[];
+  /** 占用字节数，不设置时自动估算 */
+  size?: number;
+  /** 过期后仍可返回旧值并在后台刷新的时间（毫秒），仅 getOrSet 生效 */
+  staleWhileRevalidate?: number;
+  /** 是否写入持久化存储，默认 true；DOM 元素等无法序列化的值应设为 false */
+  persist?: boolean;
 }
 
 /**
@@ -132,14 +229,72 @@ export interface CacheConfig {
   maxSize?: number;
   /** 默认过期时间（毫秒） */
   defaultTTL?: number;
-  /** 是否启用LRU清理 */
+  /** 是否启用淘汰，关闭后超出限制也不会淘汰 */
   enableLRU?: boolean;
+  /** 淘汰策略，默认 lru */
+  evictionPolicy?: CacheEvictionPolicy;
+  /** 内存中缓存值的最大总字节数（估算值），默认不限制 */
+  maxBytes?: number;
+  /** 自定义字节数估算函数 */
+  sizeOf?: (value: any) => number;
   /** 清理间隔（毫秒） */
   cleanupInterval?: number;
+  /** 持久化存储，设置后写入会同步到存储，异步读取会从存储回填内存 */
+  storage?: CacheStorageAdapter;
+  /** 存储键的命名空间（通常为模块名称），不同命名空间的缓存互不影响 */
+  namespace?: string;
+  /** 写入存储前的序列化钩子，默认支持 Blob/File */
+  serializer?: CacheSerializer;
+  /** 后台写入或删除存储失败时的回调 */
+  onStorageError?: (error: Error, key: string) => void;
+  /** stale-while-revalidate 后台刷新失败时的回调 */
+  onRevalidateError?: (error: Error, key: string) => void;
+}
+
+/**
+ * 持久化存储中的缓存条目
+ */
+export interface StoredCacheEntry {
+  /** 序列化后的值 */
+  value: unknown;
+  /** 过期时间戳 */
+  expireAt: number;
+  /** 创建时间戳 */
+  createdAt: number;
+  /** 标签 */
+  tags?: string[];
+}
+
+/**
+ * 缓存存储适配器
+ */
+export interface CacheStorageAdapter {
+  /** 适配器名称 */
+  readonly name: string;
+  /** 是否可以直接保存结构化数据（如 IndexedDB 可保存 Blob），为 true 时跳过序列化 */
+  readonly structured?: boolean;
+  /** 读取条目 */
+  getItem(key: string): Promise<StoredCacheEntry | undefined>;
+  /** 写入条目，空间不足时应抛出 QuotaExceededError */
+  setItem(key: string, entry: StoredCacheEntry): Promise<void>;
+  /** 删除条目 */
+  removeItem(key: string): Promise<void>;
+  /** 获取以指定前缀开头的键 */
+  keys(prefix: string): Promise<string[]>;
+}
+
+/**
+ * 缓存序列化钩子
+ */
+export interface CacheSerializer {
+  /** 将值转换为可存储的数据 */
+  serialize(value: any): unknown | Promise<unknown>;
+  /** 将存储的数据还原为值 */
+  deserialize(data: unknown): any | Promise<any>;
 }
 
 /**
- * 事件监听器函数类型
+ * 事件监听器函数类型（可以是异步函数，返回的 Promise 会被 emitAsync 等待）
  */
 export type EventListener = (...args: any[]) => void;
 
@@ -153,8 +308,84 @@ export interface EventListenerConfig {
   once?: boolean;
   /** 优先级（数字越大优先级越高） */
   priority?: number;
+  /** 命名空间，可通过 offNamespace 整组移除 */
+  namespace?: string;
+}
+
+/**
+ * 添加监听器的选项
+ */
+export interface ListenerOptions {
+  /** 是否只执行一次 */
+  once?: boolean;
+  /** 优先级（数字越大优先级越高） */
+  priority?: number;
+  /** 命名空间 */
+  namespace?: string;
 }
 
+/**
+ * emitAsync 选项
+ */
+export interface EmitAsyncOptions {
+  /** 执行方式：serial 按优先级依次等待，parallel 同时执行，默认 serial */
+  mode?: 'serial' | 'parallel';
+}
+
+/**
+ * waitFor 选项
+ */
+export interface WaitForOptions<Args extends any[] = any[]> extends CancelableOptions {
+  /** 超时时间（毫秒），不设置或为 0 时一直等待 */
+  timeout?: number;
+  /** 过滤条件，返回 true 的事件才会结束等待 */
+  filter?: (...args: Args) => boolean;
+}
+
+/**
+ * 通配符事件名称：`*` 匹配所有事件，`prefix:*` 匹配以 `prefix:` 开头的事件
+ */
+export type WildcardEventName = '*' | `${string}:*`;
+
+/**
+ * 通配符监听器，第一个参数为实际触发的事件名称
+ */
+export type WildcardEventListener<E extends EventMap = DefaultEventMap> = (
+  event: EventName<E>,
+  ...args: any[]
+) => void;
+
+/**
+ * 事件映射，键为事件名称，值为监听器参数元组
+ *
+ * @example
+ * interface MyEvents {
+ *   change: [value: string];
+ *   reset: [];
+ * }
+ */
+export type EventMap = object;
+
+/**
+ * 默认事件映射，不限制事件名称和参数
+ */
+export type DefaultEventMap = Record<string, any[]>;
+
+/**
+ * 事件映射中的事件名称
+ */
+export type EventName<E extends EventMap> = keyof E & string;
+
+/**
+ * 事件映射中指定事件的监听器参数
+ */
+export type EventArgs<E extends EventMap, K extends keyof E> = E[K] extends any[] ? E[K] : any[];
+
+/**
+ * 事件映射中指定事件的监听器函数类型
+ */
+export type TypedEventListener<E extends EventMap, K extends keyof E> = (...args: EventArgs<E, K>) => void;
+
 /**
  * API响应接口
  */
@@ -4,6 +4,7 @@
 
 import type { MobileDetectOptions } from './types';
 import { DeviceType, OSType, BrowserType } from './types';
+import { Environment } from '../core/Environment';
 
 // 缓存检测结果
 const detectionCache = new Map<string, { result: any; timestamp: number }>();
@@ -49,7 +50,7 @@ function setCachedResult<T = boolean>(key: string, result: T): void {
 export function isMobile(opts?: MobileDetectOptions): boolean {
   if (!opts) opts = {};
   let ua = opts.ua;
-  if (!ua && typeof navigator !== "undefined") ua = navigator.userAgent;
+  if (!ua) ua = Environment.getNavigator()?.userAgent;
   if (ua && typeof ua === 'object' && ua.headers && typeof ua.headers["user-agent"] === "string") {
     ua = ua.headers["user-agent"];
   }
@@ -74,9 +75,10 @@ export function isMobile(opts?: MobileDetectOptions): boolean {
   let result = (mobileRE.test(ua) && !notMobileRE.test(ua)) || (!!opts.tablet && tabletRE.test(ua));
 
   // 增强的iPad Pro检测
-  if (!result && opts.featureDetect && typeof navigator !== "undefined") {
+  const nav = Environment.getNavigator();
+  if (!result && opts.featureDetect && nav) {
     // 检测iPad Pro（在macOS上使用Safari时）
-    if (navigator.maxTouchPoints > 1 && 
+    if (nav.maxTouchPoints > 1 && 
         ua.indexOf("Macintosh") !== -1 && 
         ua.indexOf("Safari") !== -1 &&
         ua.indexOf("Chrome") === -1) {
@@ -84,11 +86,12 @@ export function isMobile(opts?: MobileDetectOptions): boolean {
     }
     
     // 检测其他触摸设备
-    if (!result && navigator.maxTouchPoints > 0) {
+    if (!result && nav.maxTouchPoints > 0) {
       // 检查屏幕尺寸来区分手机和平板
-      if (typeof window !== 'undefined') {
-        const screenWidth = window.screen.width;
-        const screenHeight = window.screen.height;
+      const win = Environment.getWindow();
+      if (win) {
+        const screenWidth = win.screen.width;
+        const screenHeight = win.screen.height;
         const minDimension = Math.min(screenWidth, screenHeight);
         const maxDimension = Math.max(screenWidth, screenHeight);
         
@@ -144,7 +147,7 @@ export function getDeviceType(opts?: MobileDetectOptions): DeviceType {
  * @returns 操作系统类型
  */
 export function detectOS(ua?: string): OSType {
-  const userAgent = ua || (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+  const userAgent = ua || Environment.getUserAgent();
   
   // 生成缓存键
   const cacheKey = `os_${userAgent}`;
@@ -192,7 +195,7 @@ export function detectOS(ua?: string): OSType {
  * @returns 浏览器类型
  */
 export function detectBrowser(ua?: string): BrowserType {
-  const userAgent = ua || (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+  const userAgent = ua || Environment.getUserAgent();
   
   // 生成缓存键
   const cacheKey = `browser_${userAgent}`;
@@ -230,13 +233,15 @@ export function detectBrowser(ua?: string): BrowserType {
  * @returns 是否支持触摸
  */
 export function isTouchDevice(): boolean {
-  if (typeof window === 'undefined') return false;
+  const win = Environment.getWindow();
+  const nav = Environment.getNavigator();
+  if (!win || !nav) return false;
   
   return (
-    'ontouchstart' in window ||
-    navigator.maxTouchPoints > 0 ||
+    'ontouchstart' in win ||
+    nav.maxTouchPoints > 0 ||
     // @ts-ignore
-    navigator.msMaxTouchPoints > 0
+    nav.msMaxTouchPoints > 0
   );
 }
 
@@ -245,9 +250,10 @@ export function isTouchDevice(): boolean {
  * @returns 是否为高分辨率屏幕
  */
 export function isRetinaDisplay(): boolean {
-  if (typeof window === 'undefined') return false;
+  const win = Environment.getWindow();
+  if (!win) return false;
   
-  return window.devicePixelRatio > 1;
+  return win.devicePixelRatio > 1;
 }
 
 /**
@@ -255,9 +261,10 @@ export function isRetinaDisplay(): boolean {
  * @returns 是否为暗色主题
  */
 export function isDarkMode(): boolean {
-  if (typeof window === 'undefined') return false;
+  const win = Environment.getWindow();
+  if (!win) return false;
   
-  return window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
+  return win.matchMedia && win.matchMedia('(prefers-color-scheme: dark)').matches;
 }
 
 /**
@@ -266,12 +273,13 @@ export function isDarkMode(): boolean {
  */
 export function supportsWebP(): Promise<boolean> {
   return new Promise((resolve) => {
-    if (typeof window === 'undefined') {
+    const win = Environment.getWindow() as (Window & { Image?: typeof Image }) | undefined;
+    if (!win || typeof win.Image !== 'function') {
       resolve(false);
       return;
     }
     
-    const webP = new Image();
+    const webP = new win.Image();
     webP.onload = webP.onerror = () => {
       resolve(webP.height === 2);
     };
@@ -285,12 +293,13 @@ export function supportsWebP(): Promise<boolean> {
  */
 export function supportsAVIF(): Promise<boolean> {
   return new Promise((resolve) => {
-    if (typeof window === 'undefined') {
+    const win = Environment.getWindow() as (Window & { Image?: typeof Image }) | undefined;
+    if (!win || typeof win.Image !== 'function') {
       resolve(false);
       return;
     }
     
-    const avif = new Image();
+    const avif = new win.Image();
     avif.onload = avif.onerror = () => {
       resolve(avif.height === 2);
     };
@@ -329,7 +338,7 @@ export function enhancedMobileDetection(opts?: MobileDetectOptions): {
   if (!opts) opts = {};
   
   let ua = opts.ua;
-  if (!ua && typeof navigator !== "undefined") ua = navigator.userAgent;
+  if (!ua) ua = Environment.getNavigator()?.userAgent;
   if (ua && typeof ua === 'object' && ua.headers && typeof ua.headers["user-agent"] === "string") {
     ua = ua.headers["user-agent"];
   }
@@ -344,7 +353,9 @@ export function enhancedMobileDetection(opts?: MobileDetectOptions): {
   };
 
   // 如果不启用特征检测，直接返回用户代理结果
-  if (!opts.featureDetect || typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  const nav = Environment.getNavigator();
+  if (!opts.featureDetect || !win || !nav) {
     return {
       ...uaResult,
       confidence: 0.8,
@@ -353,12 +364,12 @@ export function enhancedMobileDetection(opts?: MobileDetectOptions): {
   }
 
   // 特征检测
-  const hasTouch = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-  const screenWidth = window.screen.width;
-  const screenHeight = window.screen.height;
+  const hasTouch = 'ontouchstart' in win || nav.maxTouchPoints > 0;
+  const screenWidth = win.screen.width;
+  const screenHeight = win.screen.height;
   const minDimension = Math.min(screenWidth, screenHeight);
   const maxDimension = Math.max(screenWidth, screenHeight);
-  const pixelRatio = window.devicePixelRatio || 1;
+  const pixelRatio = win.devicePixelRatio || 1;
 
   // 基于屏幕尺寸的判断
   let featureResult = {
@@ -2,7 +2,7 @@
  * 设备检测主要功能类
  */
 
-import type { DeviceInfo, MobileDetectOptions, DeviceDetectorOptions } from './types';
+import type { DeviceInfo, MobileDetectOptions, DeviceDetectorOptions, DeviceDetectorEvents } from './types';
 import { 
   isMobile, 
   isTablet, 
@@ -12,16 +12,19 @@ import {
   detectBrowser, 
   isTouchDevice 
 } from './detector';
-import { getScreenSize } from './utils';
+import { getScreenSize, monitorDevicePerformance, onNetworkChange, onOrientationChange } from './utils';
 import { BaseManager } from '../core/BaseManager';
+import { Environment } from '../core/Environment';
+import { ValidationRule } from '../types/core';
 
 /**
  * 设备检测管理类
  * 继承 BaseManager，提供统一的生命周期管理和错误处理
  */
-export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
+export class DeviceDetector extends BaseManager<DeviceDetectorOptions, DeviceDetectorEvents> {
   private _deviceInfo: DeviceInfo | null = null;
   private _detectionOptions: MobileDetectOptions;
+  private monitorDisposers: Array<() => void> = [];
 
   constructor(options: DeviceDetectorOptions = {}) {
     super(options, 'DeviceDetector');
@@ -42,6 +45,8 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
       retries: 2,
       cache: true,
       cacheTTL: 5 * 60 * 1000, // 5分钟
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000 },
+      hooks: {},
       // 使用空字符串作为默认值，避免 undefined 类型错误
       // 当 ua 为空字符串时，_getUserAgent() 方法会回退到 navigator.userAgent
       ua: '',
@@ -51,6 +56,24 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      {
+        field: 'ua',
+        validator: value => typeof value === 'string'
+          || typeof value?.headers?.['user-agent'] === 'string'
+          || 'Expected a user agent string or headers object'
+      },
+      { field: 'tablet', type: 'boolean' },
+      { field: 'featureDetect', type: 'boolean' },
+      { field: 'enablePerformanceMonitoring', type: 'boolean' }
+    ];
+  }
+
   /**
    * 初始化设备检测器
    */
@@ -77,22 +100,48 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
   }
 
   /**
-   * 销毁设备检测器
+   * 销毁设备检测器时清除缓存的设备信息
    */
-  destroy(): void {
-    if (this.destroyed) {
-      return;
-    }
-
+  protected onDestroy(): void {
     this.logger.info('Destroying DeviceDetector');
     
+    // 停止设备监听
+    this.stopMonitoring();
+
     // 清除缓存的设备信息
     this._deviceInfo = null;
-    
-    // 调用基类销毁方法
-    this.baseDestroy();
-    
-    this.logger.info('DeviceDetector destroyed');
+  }
+
+  /**
+   * 启动后监听屏幕方向、尺寸和网络变化并刷新设备信息，
+   * 启用 enablePerformanceMonitoring 时定期采集性能数据
+   */
+  protected onStart(): void {
+    this.startMonitoring();
+  }
+
+  /**
+   * 停止设备监听
+   */
+  protected onStop(): void {
+    this.stopMonitoring();
+  }
+
+  /**
+   * 暂停时停止设备监听（如页面隐藏时）
+   */
+  protected onPause(): void {
+    this.stopMonitoring();
+  }
+
+  /**
+   * 恢复到运行状态时重新开始监听，并刷新暂停期间可能已变化的设备信息
+   */
+  protected onResume(): void {
+    if (this.isRunning) {
+      this.startMonitoring();
+      this.refreshInBackground();
+    }
   }
 
   /**
@@ -106,7 +155,7 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
     
     // 尝试从缓存获取
     if (this.options.cache) {
-      const cached = this.getCached<DeviceInfo>(cacheKey);
+      const cached = await this.getCachedAsync<DeviceInfo>(cacheKey);
       if (cached) {
         this.logger.debug('Device info retrieved from cache');
         return cached;
@@ -146,6 +195,40 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
     return deviceInfo;
   }
 
+  /**
+   * 开始监听设备变化
+   */
+  private startMonitoring(): void {
+    if (this.monitorDisposers.length > 0) {
+      return;
+    }
+
+    this.monitorDisposers.push(
+      onOrientationChange(() => this.refreshInBackground()),
+      onNetworkChange(() => this.refreshInBackground())
+    );
+    if (this.options.enablePerformanceMonitoring) {
+      this.monitorDisposers.push(monitorDevicePerformance(info => this.emit('devicePerformance', info)));
+    }
+  }
+
+  /**
+   * 停止监听设备变化
+   */
+  private stopMonitoring(): void {
+    this.monitorDisposers.forEach(dispose => dispose());
+    this.monitorDisposers = [];
+  }
+
+  /**
+   * 在后台刷新设备信息，失败只记录日志
+   */
+  private refreshInBackground(): void {
+    this.refresh().catch((error) => {
+      this.logger.warn(`Failed to refresh device info: ${(error as Error).message}`);
+    });
+  }
+
   /**
    * 检测设备信息
    */
@@ -190,7 +273,7 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
       if (typeof this._detectionOptions.ua === 'string') {
         // 如果是非空字符串，使用自定义 UA
         return this._detectionOptions.ua.length > 0 ? this._detectionOptions.ua : 
-               (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+               Environment.getUserAgent();
       }
       // 如果是对象格式，提取 headers 中的 user-agent
       if (this._detectionOptions.ua.headers && this._detectionOptions.ua.headers['user-agent']) {
@@ -199,7 +282,7 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
     }
     
     // 回退到浏览器的 navigator.userAgent
-    return typeof navigator !== 'undefined' ? navigator.userAgent : '';
+    return Environment.getUserAgent();
   }
 
   /**
@@ -282,7 +365,7 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
       touchSupport: deviceInfo.isTouchDevice,
       screenSize: deviceInfo.screen,
       userAgent: deviceInfo.userAgent,
-      online: typeof navigator !== 'undefined' ? navigator.onLine : true
+      online: Environment.getNavigator()?.onLine ?? true
     };
   }
 }
@@ -294,8 +377,13 @@ export class DeviceDetector extends BaseManager<DeviceDetectorOptions> {
  */
 export async function getDeviceInfo(options?: DeviceDetectorOptions): Promise<DeviceInfo> {
   const detector = new DeviceDetector(options);
-  await detector.initialize();
-  return detector.getDeviceInfo();
+  try {
+    await detector.initialize();
+    return await detector.getDeviceInfo();
+  } finally {
+    // 临时实例用完即销毁，避免在管理器注册表和性能指标汇总中堆积
+    await detector.destroy();
+  }
 }
 
 /**
@@ -305,7 +393,7 @@ export async function getDeviceInfo(options?: DeviceDetectorOptions): Promise<De
  */
 export function getDeviceInfoSync(options?: MobileDetectOptions): DeviceInfo {
   const userAgent = typeof options?.ua === 'string' ? options.ua : 
-    (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+    Environment.getUserAgent();
   const screen = getScreenSize();
   
   return {
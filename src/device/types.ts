@@ -2,6 +2,10 @@
  * 设备检测相关类型定义
  */
 
+import type { RetryPolicy } from '../types/errors';
+import type { LifecycleHooks } from '../types/core';
+import type { CacheConfig } from '../core/types';
+
 /**
  * 移动设备检测选项
  */
@@ -27,10 +31,14 @@ export interface DeviceDetectorOptions extends MobileDetectOptions {
   timeout?: number;
   /** 失败重试次数 */
   retries?: number;
-  /** 是否启用缓存 */
-  cache?: boolean;
+  /** 是否启用缓存，传入配置对象时可指定持久化存储等选项 */
+  cache?: boolean | CacheConfig;
   /** 缓存过期时间（毫秒） */
   cacheTTL?: number;
+  /** 重试策略（退避、抖动、重试条件等） */
+  retryPolicy?: RetryPolicy;
+  /** 生命周期钩子 */
+  hooks?: LifecycleHooks;
   /** 是否启用性能监控 */
   enablePerformanceMonitoring?: boolean;
 }
@@ -166,4 +174,20 @@ export interface DeviceCapabilities {
   deviceMotion: boolean;
   /** 设备方向支持 */
   deviceOrientation: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * 设备检测器事件映射
+ */
+export interface DeviceDetectorEvents {
+  /** 首次检测到设备信息 */
+  deviceInfoDetected: [info: DeviceInfo];
+  /** 设备信息已刷新 */
+  deviceInfoRefreshed: [info: DeviceInfo];
+  /** 检测选项已更新 */
+  detectionOptionsUpdated: [options: MobileDetectOptions];
+  /** 性能监控数据（需启用 enablePerformanceMonitoring） */
+  performanceMetric: [metric: { operation: string; time: number }];
+  /** 运行中定期采集的设备性能数据（需调用 start() 并启用 enablePerformanceMonitoring） */
+  devicePerformance: [info: DevicePerformanceInfo];
+}
@@ -3,6 +3,7 @@
  */
 
 import { ScreenOrientation, NetworkType, DevicePerformanceInfo, DeviceCapabilities } from './types';
+import { Environment } from '../core/Environment';
 
 // 这些函数在 detector.ts 中不存在，所以在这里直接实现
 
@@ -17,7 +18,8 @@ const SCREEN_CACHE_TTL = 30000; // 30秒缓存
  * @returns 屏幕尺寸对象
  */
 export function getScreenSize(forceRefresh = false) {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  if (!win) {
     return { width: 0, height: 0, pixelRatio: 1 };
   }
   
@@ -30,9 +32,9 @@ export function getScreenSize(forceRefresh = false) {
   
   // 获取更准确的屏幕信息
   const screenInfo = {
-    width: window.screen.width,
-    height: window.screen.height,
-    pixelRatio: window.devicePixelRatio || 1
+    width: win.screen.width,
+    height: win.screen.height,
+    pixelRatio: win.devicePixelRatio || 1
   };
   
   // 更新缓存
@@ -47,7 +49,8 @@ export function getScreenSize(forceRefresh = false) {
  * @returns 详细屏幕信息
  */
 export function getDetailedScreenInfo() {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  if (!win) {
     return {
       width: 0,
       height: 0,
@@ -60,13 +63,13 @@ export function getDetailedScreenInfo() {
     };
   }
   
-  const screen = window.screen;
+  const screen = win.screen;
   return {
     width: screen.width,
     height: screen.height,
     availWidth: screen.availWidth,
     availHeight: screen.availHeight,
-    pixelRatio: window.devicePixelRatio || 1,
+    pixelRatio: win.devicePixelRatio || 1,
     colorDepth: screen.colorDepth || 24,
     pixelDepth: screen.pixelDepth || 24,
     orientation: (screen as any).orientation?.angle || 0
@@ -79,20 +82,24 @@ export function getDetailedScreenInfo() {
  * @returns 视口尺寸对象
  */
 export function getViewportSize(includeScrollbar = false) {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  if (!win) {
     return { width: 0, height: 0 };
   }
   
+  const doc = Environment.getDocument();
+  const root = doc?.documentElement;
+  
   if (includeScrollbar) {
     return {
-      width: window.outerWidth || window.innerWidth || document.documentElement.clientWidth,
-      height: window.outerHeight || window.innerHeight || document.documentElement.clientHeight
+      width: win.outerWidth || win.innerWidth || root?.clientWidth || 0,
+      height: win.outerHeight || win.innerHeight || root?.clientHeight || 0
     };
   }
   
   return {
-    width: window.innerWidth || document.documentElement.clientWidth || document.body.clientWidth,
-    height: window.innerHeight || document.documentElement.clientHeight || document.body.clientHeight
+    width: win.innerWidth || root?.clientWidth || doc?.body?.clientWidth || 0,
+    height: win.innerHeight || root?.clientHeight || doc?.body?.clientHeight || 0
   };
 }
 
@@ -101,15 +108,16 @@ export function getViewportSize(includeScrollbar = false) {
  * @returns 实际视口尺寸
  */
 export function getActualViewportSize() {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  if (!win) {
     return { width: 0, height: 0 };
   }
   
   // 使用 visualViewport API（如果可用）
-  if ('visualViewport' in window && window.visualViewport) {
+  if ('visualViewport' in win && win.visualViewport) {
     return {
-      width: window.visualViewport.width,
-      height: window.visualViewport.height
+      width: win.visualViewport.width,
+      height: win.visualViewport.height
     };
   }
   
@@ -135,7 +143,7 @@ export function getScreenSizeCategory(): 'small' | 'medium' | 'large' | 'xlarge'
  * @returns 屏幕方向
  */
 export function getScreenOrientation(): ScreenOrientation {
-  if (typeof window === 'undefined') {
+  if (!Environment.getWindow()) {
     return ScreenOrientation.PORTRAIT;
   }
   
@@ -149,7 +157,8 @@ export function getScreenOrientation(): ScreenOrientation {
  * @returns 取消监听的函数
  */
 export function onOrientationChange(callback: (orientation: ScreenOrientation) => void): () => void {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  if (!win) {
     return () => {};
   }
   
@@ -157,12 +166,12 @@ export function onOrientationChange(callback: (orientation: ScreenOrientation) =
     callback(getScreenOrientation());
   };
   
-  window.addEventListener('orientationchange', handler);
-  window.addEventListener('resize', handler);
+  win.addEventListener('orientationchange', handler);
+  win.addEventListener('resize', handler);
   
   return () => {
-    window.removeEventListener('orientationchange', handler);
-    window.removeEventListener('resize', handler);
+    win.removeEventListener('orientationchange', handler);
+    win.removeEventListener('resize', handler);
   };
 }
 
@@ -171,12 +180,13 @@ export function onOrientationChange(callback: (orientation: ScreenOrientation) =
  * @returns 网络类型
  */
 export function getNetworkType(): NetworkType {
-  if (typeof navigator === 'undefined' || !('connection' in navigator)) {
+  const nav = Environment.getNavigator();
+  if (!nav || !('connection' in nav)) {
     return NetworkType.UNKNOWN;
   }
   
   // @ts-ignore
-  const connection = navigator.connection || navigator.mozConnection || navigator.webkitConnection;
+  const connection = nav.connection || nav.mozConnection || nav.webkitConnection;
   
   if (!connection) return NetworkType.UNKNOWN;
   
@@ -194,12 +204,13 @@ export function getNetworkType(): NetworkType {
  * @returns 网络速度信息
  */
 export function getNetworkSpeed() {
-  if (typeof navigator === 'undefined' || !('connection' in navigator)) {
+  const nav = Environment.getNavigator();
+  if (!nav || !('connection' in nav)) {
     return { downlink: 0, rtt: 0, effectiveType: 'unknown' };
   }
   
   // @ts-ignore
-  const connection = navigator.connection || navigator.mozConnection || navigator.webkitConnection;
+  const connection = nav.connection || nav.mozConnection || nav.webkitConnection;
   
   if (!connection) {
     return { downlink: 0, rtt: 0, effectiveType: 'unknown' };
@@ -217,8 +228,9 @@ export function getNetworkSpeed() {
  * @returns 是否在线
  */
 export function isOnline(): boolean {
-  if (typeof navigator === 'undefined') return true;
-  return navigator.onLine;
+  const nav = Environment.getNavigator();
+  if (!nav) return true;
+  return nav.onLine;
 }
 
 /**
@@ -227,19 +239,20 @@ export function isOnline(): boolean {
  * @returns 取消监听的函数
  */
 export function onNetworkChange(callback: (isOnline: boolean) => void): () => void {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  if (!win) {
     return () => {};
   }
   
   const onlineHandler = () => callback(true);
   const offlineHandler = () => callback(false);
   
-  window.addEventListener('online', onlineHandler);
-  window.addEventListener('offline', offlineHandler);
+  win.addEventListener('online', onlineHandler);
+  win.addEventListener('offline', offlineHandler);
   
   return () => {
-    window.removeEventListener('online', onlineHandler);
-    window.removeEventListener('offline', offlineHandler);
+    win.removeEventListener('online', onlineHandler);
+    win.removeEventListener('offline', offlineHandler);
   };
 }
 
@@ -248,13 +261,14 @@ export function onNetworkChange(callback: (isOnline: boolean) => void): () => vo
  * @returns Promise<BatteryManager | null> 电池信息
  */
 export async function getBatteryInfo(): Promise<any> {
-  if (typeof navigator === 'undefined' || !('getBattery' in navigator)) {
+  const nav = Environment.getNavigator();
+  if (!nav || !('getBattery' in nav)) {
     return null;
   }
   
   try {
     // @ts-ignore
-    const battery = await navigator.getBattery();
+    const battery = await nav.getBattery();
     return {
       charging: battery.charging,
       level: battery.level,
@@ -290,7 +304,8 @@ export function getMemoryInfo() {
  * @returns 是否支持 Service Worker
  */
 export function supportsServiceWorker(): boolean {
-  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+  const nav = Environment.getNavigator();
+  return !!nav && 'serviceWorker' in nav;
 }
 
 /**
@@ -314,10 +329,11 @@ export function supportsWebAssembly(): boolean {
  * @returns 是否支持 WebGL
  */
 export function supportsWebGL(): boolean {
-  if (typeof window === 'undefined') return false;
+  const doc = Environment.getDocument();
+  if (!doc) return false;
   
   try {
-    const canvas = document.createElement('canvas');
+    const canvas = doc.createElement('canvas');
     const context = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
     return !!context;
   } catch {
@@ -330,10 +346,11 @@ export function supportsWebGL(): boolean {
  * @returns 是否支持 WebGL2
  */
 export function supportsWebGL2(): boolean {
-  if (typeof window === 'undefined') return false;
+  const doc = Environment.getDocument();
+  if (!doc) return false;
   
   try {
-    const canvas = document.createElement('canvas');
+    const canvas = doc.createElement('canvas');
     const context = canvas.getContext('webgl2');
     return !!context;
   } catch {
@@ -348,10 +365,11 @@ export function supportsWebGL2(): boolean {
  * @returns GPU 信息
  */
 export function getGPUInfo() {
-  if (typeof window === 'undefined') return null;
+  const doc = Environment.getDocument();
+  if (!doc) return null;
   
   try {
-    const canvas = document.createElement('canvas');
+    const canvas = doc.createElement('canvas');
     const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
     
     if (!gl) return null;
@@ -373,7 +391,9 @@ export function getGPUInfo() {
  * @returns 设备性能信息
  */
 export function getDevicePerformanceInfo(): DevicePerformanceInfo {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  const nav = Environment.getNavigator();
+  if (!win || !nav) {
     return {
       level: 'unknown',
       score: 0,
@@ -387,7 +407,7 @@ export function getDevicePerformanceInfo(): DevicePerformanceInfo {
   let level: 'low' | 'medium' | 'high' | 'unknown' = 'unknown';
   
   // 检测CPU核心数
-  const cores = navigator.hardwareConcurrency || 1;
+  const cores = nav.hardwareConcurrency || 1;
   score += Math.min(cores * 10, 40); // 最多40分
   
   // 检测内存
@@ -413,7 +433,7 @@ export function getDevicePerformanceInfo(): DevicePerformanceInfo {
   }
   
   // 检测屏幕像素密度（高分屏通常意味着更好的设备）
-  const pixelRatio = window.devicePixelRatio || 1;
+  const pixelRatio = win.devicePixelRatio || 1;
   score += Math.min(pixelRatio * 5, 10);
   
   // 根据分数确定性能等级
@@ -435,7 +455,9 @@ export function getDevicePerformanceInfo(): DevicePerformanceInfo {
  * @returns 设备能力信息
  */
 export function getDeviceCapabilities(): DeviceCapabilities {
-  if (typeof window === 'undefined') {
+  const win = Environment.getWindow();
+  const nav = Environment.getNavigator();
+  if (!win || !nav) {
     return {
       touch: false,
       webgl: false,
@@ -461,14 +483,14 @@ export function getDeviceCapabilities(): DeviceCapabilities {
     webassembly: supportsWebAssembly(),
     serviceWorker: supportsServiceWorker(),
     webWorkers: supportsWebWorkers(),
-    geolocation: 'geolocation' in navigator,
-    camera: 'mediaDevices' in navigator && 'getUserMedia' in navigator.mediaDevices,
-    microphone: 'mediaDevices' in navigator && 'getUserMedia' in navigator.mediaDevices,
-    notifications: 'Notification' in window,
-    vibration: 'vibrate' in navigator,
-    battery: 'getBattery' in navigator,
-    deviceMotion: 'DeviceMotionEvent' in window,
-    deviceOrientation: 'DeviceOrientationEvent' in window
+    geolocation: 'geolocation' in nav,
+    camera: 'mediaDevices' in nav && 'getUserMedia' in nav.mediaDevices,
+    microphone: 'mediaDevices' in nav && 'getUserMedia' in nav.mediaDevices,
+    notifications: 'Notification' in win,
+    vibration: 'vibrate' in nav,
+    battery: 'getBattery' in nav,
+    deviceMotion: 'DeviceMotionEvent' in win,
+    deviceOrientation: 'DeviceOrientationEvent' in win
   };
 }
 
@@ -477,15 +499,17 @@ export function getDeviceCapabilities(): DeviceCapabilities {
  * @returns 是否支持触摸
  */
 export function isEnhancedTouchDevice(): boolean {
-  if (typeof window === 'undefined') return false;
+  const win = Environment.getWindow();
+  const nav = Environment.getNavigator();
+  if (!win || !nav) return false;
   
   return (
-    'ontouchstart' in window ||
-    navigator.maxTouchPoints > 0 ||
+    'ontouchstart' in win ||
+    nav.maxTouchPoints > 0 ||
     // @ts-ignore
-    navigator.msMaxTouchPoints > 0 ||
+    nav.msMaxTouchPoints > 0 ||
     // 检测CSS媒体查询
-    (window.matchMedia && window.matchMedia('(pointer: coarse)').matches)
+    (win.matchMedia && win.matchMedia('(pointer: coarse)').matches)
   );
 }
 
@@ -514,17 +538,19 @@ export function runPerformanceBenchmark(): Promise<{
     results.jsPerformance = performance.now() - jsStart;
     
     // 渲染性能测试
-    if (typeof document !== 'undefined') {
+    const win = Environment.getWindow();
+    const doc = Environment.getDocument();
+    if (win && doc) {
       const renderStart = performance.now();
-      const div = document.createElement('div');
+      const div = doc.createElement('div');
       div.style.width = '100px';
       div.style.height = '100px';
       div.style.backgroundColor = 'red';
-      document.body.appendChild(div);
+      doc.body.appendChild(div);
       
-      requestAnimationFrame(() => {
+      win.requestAnimationFrame(() => {
         results.renderPerformance = performance.now() - renderStart;
-        document.body.removeChild(div);
+        doc.body.removeChild(div);
         
         // 内存性能测试
         const memory = (performance as any).memory;
@@ -549,7 +575,7 @@ export function monitorDevicePerformance(
   callback: (performance: DevicePerformanceInfo) => void,
   interval = 30000
 ): () => void {
-  if (typeof window === 'undefined') {
+  if (!Environment.getWindow()) {
     return () => {};
   }
   
@@ -575,7 +601,8 @@ export function monitorDevicePerformance(
  * @returns 是否为低性能模式
  */
 export function isLowPerformanceMode(): boolean {
-  if (typeof window === 'undefined') return false;
+  const win = Environment.getWindow();
+  if (!win) return false;
   
   const performance = getDevicePerformanceInfo();
   
@@ -584,7 +611,7 @@ export function isLowPerformanceMode(): boolean {
     performance.level === 'low',
     performance.cores <= 2,
     performance.memory < 2,
-    window.devicePixelRatio <= 1
+    win.devicePixelRatio <= 1
   ];
   
   // 如果有2个或以上指标表明低性能，则认为是低性能模式
@@ -596,10 +623,11 @@ export function isLowPerformanceMode(): boolean {
  * @returns 设备热度状态
  */
 export function getDeviceThermalState(): 'normal' | 'fair' | 'serious' | 'critical' | 'unknown' {
-  if (typeof navigator === 'undefined') return 'unknown';
+  const nav = Environment.getNavigator();
+  if (!nav) return 'unknown';
   
   // 检查实验性的热度API
-  const thermal = (navigator as any).thermal;
+  const thermal = (nav as any).thermal;
   if (thermal && thermal.state) {
     return thermal.state;
   }
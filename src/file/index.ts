@@ -7,7 +7,9 @@
  */
 
 import { BaseManager } from '../core/BaseManager';
-import { BaseOptions } from '../types/core';
+import { ManagerRegistry } from '../core/ManagerRegistry';
+import { Environment } from '../core/Environment';
+import { BaseManagerEvents, BaseOptions, CancelableOptions, ValidationRule } from '../types/core';
 import { FileInfo, FileReadOptions, FileReadResult, FileTypeResult } from '../types';
 import { 
   getExtensionFromMimeType, 
@@ -58,9 +60,17 @@ export interface FileConversionResult<T = any> {
  * 
  * @description 提供统一的文件处理功能，包括格式转换、类型检测、安全验证等
  */
-export class FileManager extends BaseManager<FileManagerOptions> {
+export class FileManager extends BaseManager<FileManagerOptions, BaseManagerEvents> {
   private readonly CHUNK_SIZE = 512; // Base64转换时的块大小
 
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options?: FileManagerOptions) {
+    super(options, 'FileManager');
+  }
+
   /**
    * 获取默认配置
    */
@@ -71,6 +81,8 @@ export class FileManager extends BaseManager<FileManagerOptions> {
       retries: 2,
       cache: true,
       cacheTTL: 300000, // 5分钟
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000, jitter: 'full' }, // 网络请求使用随机抖动
+      hooks: {},
       maxFileSize: 10 * 1024 * 1024, // 10MB
       allowedTypes: [],
       enableTypeValidation: true,
@@ -79,6 +91,20 @@ export class FileManager extends BaseManager<FileManagerOptions> {
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'maxFileSize', type: 'number', min: 0 },
+      { field: 'allowedTypes', type: 'array', items: { type: 'string' } },
+      { field: 'enableTypeValidation', type: 'boolean' },
+      { field: 'enableSizeValidation', type: 'boolean' },
+      { field: 'defaultReadAs', enum: ['text', 'dataURL', 'arrayBuffer', 'binaryString'] }
+    ];
+  }
+
   /**
    * 初始化文件管理器
    */
@@ -104,17 +130,17 @@ export class FileManager extends BaseManager<FileManagerOptions> {
   /**
    * 销毁文件管理器
    */
-  destroy(): void {
-    this.baseDestroy();
-    this.logger.info('FileManager destroyed');
+  protected onDestroy(): void {
+    this.logger.info('Destroying FileManager');
   }
 
   /**
    * URL转Base64
    * @param url 文件URL
+   * @param options 选项，可传入 signal 取消请求
    * @returns Promise<FileConversionResult<string>> 转换结果
    */
-  async urlToBase64(url: string): Promise<FileConversionResult<string>> {
+  async urlToBase64(url: string, options: CancelableOptions = {}): Promise<FileConversionResult<string>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
 
@@ -127,8 +153,10 @@ export class FileManager extends BaseManager<FileManagerOptions> {
     const cacheKey = `url_to_base64_${url}`;
 
     try {
+      this.throwIfAborted(options.signal, 'urlToBase64');
+
       // 尝试从缓存获取
-      const cached = this.getCached<string>(cacheKey);
+      const cached = await this.getCachedAsync<string>(cacheKey);
       if (cached) {
         return {
           result: cached,
@@ -138,15 +166,16 @@ export class FileManager extends BaseManager<FileManagerOptions> {
       }
 
       // 执行转换
-      const result = await this.safeExecute(async () => {
-        const response = await fetch(url);
+      const result = await this.safeExecute(async (signal) => {
+        const response = await fetch(url, { signal });
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
         
         const blob = await response.blob();
+        this.throwIfAborted(signal, 'urlToBase64');
         return await this.blobToBase64(blob);
-      }, 'urlToBase64');
+      }, 'urlToBase64', { signal: options.signal });
 
       // 缓存结果
       this.setCached(cacheKey, result.result, 300000); // 5分钟缓存
@@ -169,6 +198,7 @@ export class FileManager extends BaseManager<FileManagerOptions> {
   async blobToBase64(blob: Blob): Promise<FileConversionResult<string>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureFileReader('blobToBase64');
 
     // 输入验证
     if (!isBlob(blob)) {
@@ -433,6 +463,7 @@ export class FileManager extends BaseManager<FileManagerOptions> {
   async readFile(file: File, options?: FileReadOptions): Promise<FileReadResult> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureFileReader('readFile');
 
     // 输入验证
     if (!isFile(file)) {
@@ -443,7 +474,7 @@ export class FileManager extends BaseManager<FileManagerOptions> {
     const startTime = Date.now();
 
     try {
-      const result = await this.safeExecute(() => {
+      const result = await this.safeExecute((signal) => {
         return new Promise<any>((resolve, reject) => {
           const reader = new FileReader();
           
@@ -457,6 +488,11 @@ export class FileManager extends BaseManager<FileManagerOptions> {
             };
           }
           
+          // 取消时中止读取
+          const onAbort = () => reader.abort();
+          signal.addEventListener('abort', onAbort, { once: true });
+          reader.onloadend = () => signal.removeEventListener('abort', onAbort);
+          
           reader.onload = () => resolve(reader.result);
           reader.onerror = () => reject(new Error(`Failed to read file as ${opts.readAs}`));
           
@@ -478,7 +514,7 @@ export class FileManager extends BaseManager<FileManagerOptions> {
               reader.readAsDataURL(file);
           }
         });
-      }, 'readFile');
+      }, 'readFile', { signal: opts.signal });
 
       return {
         result,
@@ -497,6 +533,30 @@ export class FileManager extends BaseManager<FileManagerOptions> {
     }
   }
 
+  /**
+   * 以可跟踪操作的方式读取文件，进度通过 operationProgress 事件通知
+   * @param file 文件对象
+   * @param options 读取选项
+   * @returns 操作ID，可通过 getOperationManager() 查询状态、获取结果或取消
+   */
+  startReadFile(file: File, options: Omit<FileReadOptions, 'enableProgress'> = {}): string {
+    return this.startOperation('readFile', async ({ signal, reportProgress }) => {
+      const result = await this.readFile(file, {
+        ...options,
+        enableProgress: true,
+        onProgress: (progress) => {
+          reportProgress(progress);
+          options.onProgress?.(progress);
+        },
+        signal
+      });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result;
+    }, { signal: options.signal });
+  }
+
   /**
    * 检查文件类型
    * @param file 文件对象或文件名
@@ -553,11 +613,10 @@ export class FileManager extends BaseManager<FileManagerOptions> {
   }
 
   /**
-   * 检查浏览器支持
+   * 检查浏览器支持（Node.js 同样提供这些 API，FileReader 只在读取文件时检查）
    */
   private checkBrowserSupport(): void {
     const requiredAPIs = [
-      { name: 'FileReader', api: typeof FileReader !== 'undefined' },
       { name: 'Blob', api: typeof Blob !== 'undefined' },
       { name: 'File', api: typeof File !== 'undefined' },
       { name: 'atob', api: typeof atob !== 'undefined' },
@@ -571,6 +630,16 @@ export class FileManager extends BaseManager<FileManagerOptions> {
     }
   }
 
+  /**
+   * 确保 FileReader 可用，服务端环境下抛出明确的错误
+   * @param method 方法名称
+   */
+  private ensureFileReader(method: string): void {
+    if (typeof FileReader === 'undefined') {
+      throw Environment.createServerError('FileReader', 'FileManager', method);
+    }
+  }
+
   /**
    * 检查文件类型是否允许
    */
@@ -609,75 +678,87 @@ export class FileManager extends BaseManager<FileManagerOptions> {
   }
 }
 
-// 创建默认实例
-const defaultFileManager = new FileManager();
+/**
+ * 获取默认文件管理器实例，便捷函数均使用该实例
+ * 可通过 ManagerRegistry.provide('FileManager', manager) 替换为自定义实例
+ */
+export function getFileManager(): FileManager {
+  return ManagerRegistry.resolve('FileManager', () => new FileManager());
+}
 
 // 导出便捷函数（保持向后兼容）
-export async function urlToBase64(url: string): Promise<string> {
-  if (!defaultFileManager.getStatus().initialized) {
-    await defaultFileManager.initialize();
+export async function urlToBase64(url: string, options?: CancelableOptions): Promise<string> {
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultFileManager.urlToBase64(url);
+  const result = await manager.urlToBase64(url, options);
   return result.result;
 }
 
 export async function blobToBase64(blob: Blob): Promise<string> {
-  if (!defaultFileManager.getStatus().initialized) {
-    await defaultFileManager.initialize();
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultFileManager.blobToBase64(blob);
+  const result = await manager.blobToBase64(blob);
   return result.result;
 }
 
 export async function fileToBase64(file: File): Promise<string> {
-  if (!defaultFileManager.getStatus().initialized) {
-    await defaultFileManager.initialize();
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultFileManager.fileToBase64(file);
+  const result = await manager.fileToBase64(file);
   return result.result;
 }
 
 export function base64ToBlob(base64: string): Blob {
-  if (!defaultFileManager.getStatus().initialized) {
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
     // 同步初始化（仅用于向后兼容）
-    defaultFileManager.initialize().catch(() => {
+    manager.initialize().catch(() => {
       // 忽略初始化错误，让具体方法处理
     });
   }
-  const result = defaultFileManager.base64ToBlob(base64);
+  const result = manager.base64ToBlob(base64);
   return result.result;
 }
 
 export function base64ToFile(base64: string, filename?: string): File {
-  if (!defaultFileManager.getStatus().initialized) {
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
     // 同步初始化（仅用于向后兼容）
-    defaultFileManager.initialize().catch(() => {
+    manager.initialize().catch(() => {
       // 忽略初始化错误，让具体方法处理
     });
   }
-  const result = defaultFileManager.base64ToFile(base64, filename);
+  const result = manager.base64ToFile(base64, filename);
   return result.result;
 }
 
 export function fileToBlob(file: File): Blob {
-  if (!defaultFileManager.getStatus().initialized) {
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
     // 同步初始化（仅用于向后兼容）
-    defaultFileManager.initialize().catch(() => {
+    manager.initialize().catch(() => {
       // 忽略初始化错误，让具体方法处理
     });
   }
-  const result = defaultFileManager.fileToBlob(file);
+  const result = manager.fileToBlob(file);
   return result.result;
 }
 
 export function blobToFile(blob: Blob, filename?: string): File {
-  if (!defaultFileManager.getStatus().initialized) {
+  const manager = getFileManager();
+  if (!manager.getStatus().initialized) {
     // 同步初始化（仅用于向后兼容）
-    defaultFileManager.initialize().catch(() => {
+    manager.initialize().catch(() => {
       // 忽略初始化错误，让具体方法处理
     });
   }
-  const result = defaultFileManager.blobToFile(blob, filename);
+  const result = manager.blobToFile(blob, filename);
   return result.result;
 }
 
@@ -51,7 +51,23 @@ export interface BatchTimeoutEvent {
   timeout: number;
 }
 
-export class FontEventSystem extends EventEmitter {
+/**
+ * Event map of FontEventSystem, per-font events are emitted as `<event>:<fontName>`
+ */
+export interface FontEventSystemEvents {
+  fontProgress: [event: FontProgressEvent];
+  fontCompleted: [event: FontCompletionEvent];
+  fontError: [event: FontErrorEvent];
+  fontTimeout: [event: FontTimeoutEvent];
+  batchCompleted: [event: BatchCompletionEvent];
+  batchTimeout: [event: BatchTimeoutEvent];
+  [event: `fontProgress:${string}`]: [event: FontProgressEvent];
+  [event: `fontCompleted:${string}`]: [event: FontCompletionEvent];
+  [event: `fontError:${string}`]: [event: FontErrorEvent];
+  [event: `fontTimeout:${string}`]: [event: FontTimeoutEvent];
+}
+
+export class FontEventSystem extends EventEmitter<FontEventSystemEvents> {
   private batchOperations: Map<string, {
     startTime: number;
     totalFonts: number;
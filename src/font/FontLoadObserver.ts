@@ -14,11 +14,21 @@ export interface ObserverOptions {
   pollInterval?: number;
 }
 
-export class FontLoadObserver extends EventEmitter {
+/**
+ * Event map of FontLoadObserver
+ */
+export interface FontLoadObserverEvents {
+  observationStarted: [event: { fontName: string; options: Required<ObserverOptions> }];
+  observationStopped: [event: { fontName: string }];
+}
+
+export class FontLoadObserver extends EventEmitter<FontLoadObserverEvents> {
   private timingController: TimingController;
   private observedFonts: Map<string, AbortController> = new Map();
   private defaultOptions: Required<ObserverOptions>;
   private eventSystem: FontEventSystem;
+  private paused = false;
+  private pausedChecks: Set<() => void> = new Set();
 
   constructor(timingController?: TimingController, eventSystem?: FontEventSystem) {
     super();
@@ -130,6 +140,32 @@ export class FontLoadObserver extends EventEmitter {
     this.observedFonts.clear();
   }
 
+  /**
+   * Pause detection polling (e.g. while the page is hidden).
+   * Paused time does not count towards the observation timeout.
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resume detection polling paused by pause()
+   */
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    Array.from(this.pausedChecks).forEach(check => check());
+  }
+
+  /**
+   * Check if detection polling is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
   /**
    * Perform font observation using the specified method
    */
@@ -344,7 +380,7 @@ export class FontLoadObserver extends EventEmitter {
     signal: AbortSignal
   ): Promise<Partial<FontLoadingState>> {
     return new Promise((resolve, reject) => {
-      const startTime = Date.now();
+      let startTime = Date.now();
       let lastProgress = 50;
       
       const checkFont = () => {
@@ -352,6 +388,20 @@ export class FontLoadObserver extends EventEmitter {
           reject(new Error('Observation aborted'));
           return;
         }
+
+        if (this.paused) {
+          // Continue on resume (or reject right away when aborted while paused)
+          const pausedAt = Date.now();
+          const continueCheck = () => {
+            this.pausedChecks.delete(continueCheck);
+            signal.removeEventListener('abort', continueCheck);
+            startTime += Date.now() - pausedAt;
+            checkFont();
+          };
+          this.pausedChecks.add(continueCheck);
+          signal.addEventListener('abort', continueCheck, { once: true });
+          return;
+        }
         
         const elapsed = Date.now() - startTime;
         const progress = Math.min(50 + (elapsed / options.timeout) * 40, 90);
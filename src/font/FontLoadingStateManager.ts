@@ -26,7 +26,23 @@ export interface FontLoadProgress {
   fonts: Map<string, FontLoadingState>;
 }
 
-export class FontLoadingStateManager extends EventEmitter {
+export interface FontStateChangeEvent {
+  fontName: string;
+  state: FontLoadingState;
+  previousState: FontLoadingState;
+}
+
+/**
+ * Event map of FontLoadingStateManager
+ */
+export interface FontLoadingStateEvents {
+  fontTracked: [event: { fontName: string; state: FontLoadingState }];
+  fontStateChanged: [event: FontStateChangeEvent];
+  fontUntracked: [event: { fontName: string }];
+  statesCleared: [];
+}
+
+export class FontLoadingStateManager extends EventEmitter<FontLoadingStateEvents> {
   private fontStates: Map<string, FontLoadingState> = new Map();
   private trackedFonts: Set<string> = new Set();
   private eventSystem: FontEventSystem;
@@ -108,7 +124,7 @@ export class FontLoadingStateManager extends EventEmitter {
         }
       }, timeout);
 
-      const onStateChange = (event: { fontName: string; state: FontLoadingState }) => {
+      const onStateChange = (event: FontStateChangeEvent) => {
         if (event.fontName === fontName) {
           if (event.state.status === 'loaded' || event.state.status === 'error') {
             clearTimeout(timeoutId);
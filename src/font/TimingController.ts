@@ -2,6 +2,8 @@
  * TimingController - Manages timing operations for font loading
  */
 
+import { ErrorRetrier } from '../core/ErrorRetrier';
+
 export interface TimingOptions {
   timeout?: number;
   retryDelay?: number;
@@ -12,11 +14,18 @@ export class TimingController {
   private defaultTimeout: number;
   private defaultRetryDelay: number;
   private defaultMaxRetries: number;
+  private retrier: ErrorRetrier;
 
   constructor(options: TimingOptions = {}) {
     this.defaultTimeout = options.timeout || 5000;
     this.defaultRetryDelay = options.retryDelay || 1000;
     this.defaultMaxRetries = options.maxRetries || 3;
+    this.retrier = new ErrorRetrier({
+      maxRetries: this.defaultMaxRetries,
+      delay: this.defaultRetryDelay,
+      backoffMultiplier: 2,
+      maxDelay: 10000
+    });
   }
 
   /**
@@ -82,27 +91,23 @@ export class TimingController {
     maxRetries?: number,
     retryDelay?: number
   ): Promise<T> {
-    const maxAttempts = (maxRetries ?? this.defaultMaxRetries) + 1;
-    const delay = retryDelay ?? this.defaultRetryDelay;
-    
-    let lastError: Error;
-    
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error as Error;
-        
-        if (attempt === maxAttempts) {
-          throw lastError;
-        }
-        
-        // Wait before retry with exponential backoff
-        await this.delay(this.calculateRetryDelay(attempt, delay));
-      }
+    const result = await this.retrier.retry(operation, {
+      maxRetries: maxRetries ?? this.defaultMaxRetries,
+      delay: retryDelay ?? this.defaultRetryDelay
+    });
+
+    if (!result.success) {
+      throw result.error;
     }
-    
-    throw lastError!;
+
+    return result.result as T;
+  }
+
+  /**
+   * Get retry statistics
+   */
+  getRetryStats(): ReturnType<ErrorRetrier['getRetryStats']> {
+    return this.retrier.getRetryStats();
   }
 
   /**
@@ -120,8 +125,7 @@ export class TimingController {
    * Calculate retry delay with exponential backoff
    */
   private calculateRetryDelay(attempt: number, baseDelay?: number): number {
-    const base = baseDelay ?? this.defaultRetryDelay;
-    return Math.min(base * Math.pow(2, attempt - 1), 10000); // Cap at 10 seconds
+    return this.retrier.calculateDelay(attempt, { delay: baseDelay ?? this.defaultRetryDelay });
   }
 
   /**
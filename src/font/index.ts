@@ -4,10 +4,12 @@
  */
 
 import { BaseManager } from '../core/BaseManager';
-import { BaseOptions } from '../types/core';
+import { Environment } from '../core/Environment';
+import { BaseOptions, CancelableOptions, ValidationRule } from '../types/core';
 import { ErrorType } from '../types/errors';
 import { TimingController } from './TimingController';
 import { FontLoadingStateManager, FontLoadingState } from './FontLoadingStateManager';
+import { FontLoadObserver, ObserverOptions } from './FontLoadObserver';
 
 export interface FontCheckResult {
   name: string;
@@ -61,6 +63,39 @@ export interface FontLoadState {
   retryCount: number;
 }
 
+export interface AddFontsOptions extends CancelableOptions {
+  /** 每批完成后的进度回调，progress 为 0-100 */
+  onProgress?: (progress: number, completed: number, total: number) => void;
+}
+
+/**
+ * 字体管理器事件映射
+ */
+export interface FontManagerEvents {
+  /** 检测选项已更新 */
+  detectionOptionsUpdated: [event: { options: FontDetectionOptions }];
+  /** 加载可能跨域的字体 */
+  crossOriginWarning: [event: { fontName: string; url: string }];
+  /** 通过 URL 添加了字体 */
+  fontAdded: [event: { fontName: string; url: string; fontFace: FontFace }];
+  /** 字体加载完成 */
+  fontLoaded: [event: { fontName: string; url: string; loadTime: number }];
+  /** 字体加载失败（重试次数用完） */
+  fontLoadError: [event: { fontName: string; url: string; error: Error; type: 'cors' | 'unknown'; suggestion?: string }];
+  /** 字体加载被取消 */
+  fontLoadCancelled: [event: { fontName: string; url: string }];
+  /** 添加了 FontFace 对象 */
+  fontFaceAdded: [event: { fontFace: FontFace }];
+  /** 按名称或 FontFace 对象删除了字体 */
+  fontDeleted: [event: { fontName: string; count: number } | { fontFace: FontFace }];
+  /** 清除了所有添加的字体 */
+  fontsCleared: [event: { count: number }];
+  /** 批量添加字体完成 */
+  batchFontsAdded: [event: { results: Array<{ name: string; success: boolean; error?: string }>; total: number }];
+  /** 预加载字体完成 */
+  fontsPreloaded: [event: { total: number; available: number; unavailable: number; cached: number }];
+}
+
 // 扩展 FontFaceSet 接口以匹配最新的 Web API
 interface ExtendedFontFaceSet {
   add: (font: FontFace) => void;
@@ -72,7 +107,7 @@ interface ExtendedFontFaceSet {
   forEach: (callbackfn: (value: FontFace) => void) => void;
 }
 
-class FontManager extends BaseManager<FontOptions> {
+class FontManager extends BaseManager<FontOptions, FontManagerEvents> {
   private addedFonts: Set<FontFace> = new Set();
   private loadingStates: Map<string, FontLoadState> = new Map();
   private systemFonts: Set<string> = new Set([
@@ -82,6 +117,7 @@ class FontManager extends BaseManager<FontOptions> {
   ]);
   private timingController: TimingController;
   private stateManager: FontLoadingStateManager;
+  private loadObserver: FontLoadObserver;
   private detectionOptions: FontDetectionOptions;
 
   constructor(options: FontOptions = {}) {
@@ -91,6 +127,7 @@ class FontManager extends BaseManager<FontOptions> {
       maxRetries: options.retries
     });
     this.stateManager = new FontLoadingStateManager();
+    this.loadObserver = new FontLoadObserver(this.timingController, this.stateManager.getEventSystem());
     
     // Initialize detection options with defaults
     this.detectionOptions = {
@@ -136,6 +173,8 @@ class FontManager extends BaseManager<FontOptions> {
       retries: 2,
       cache: true,
       cacheTTL: 300000, // 5分钟
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 10000 },
+      hooks: {},
       concurrency: 5,
       detectionThreshold: 2,
       detection: {
@@ -148,6 +187,28 @@ class FontManager extends BaseManager<FontOptions> {
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'concurrency', type: 'number', min: 1 },
+      { field: 'detectionThreshold', type: 'number', min: 0, max: 100 },
+      {
+        field: 'detection',
+        type: 'object',
+        rules: [
+          { field: 'waitForLoad', type: 'boolean' },
+          { field: 'timeout', type: 'number', min: 0 },
+          { field: 'retries', type: 'number', min: 0 },
+          { field: 'immediate', type: 'boolean' },
+          { field: 'strategy', enum: ['comprehensive', 'fast', 'system-only'] }
+        ]
+      }
+    ];
+  }
+
   /**
    * 初始化字体管理器
    */
@@ -158,21 +219,16 @@ class FontManager extends BaseManager<FontOptions> {
 
     try {
       // 检查浏览器支持
-      if (typeof document === 'undefined') {
-        throw this.errorHandler.createError(
-          ErrorType.SYSTEM_ERROR,
-          'FontManager requires browser environment',
-          { context: { method: 'initialize' } }
-        );
-      }
+      Environment.requireBrowser('FontManager', 'FontManager', 'initialize');
+      const fonts = this.getFontFaceSet();
 
-      if (!document.fonts) {
+      if (!fonts) {
         this.logger.warn('CSS Font Loading API not supported, falling back to basic detection');
       }
 
       // 等待现有字体加载完成
-      if (document.fonts && document.fonts.ready) {
-        await document.fonts.ready;
+      if (fonts && fonts.ready) {
+        await fonts.ready;
       }
 
       this.initialized = true;
@@ -185,40 +241,53 @@ class FontManager extends BaseManager<FontOptions> {
   }
 
   /**
-   * 销毁字体管理器
+   * 销毁字体管理器时清理已添加的字体和加载状态
    */
-  destroy(): void {
-    if (this.destroyed) {
-      return;
-    }
+  protected onDestroy(): void {
+    // 停止字体加载观察
+    this.loadObserver.stopAll();
 
-    try {
-      // 清理所有添加的字体
-      this.clearFonts();
-      
-      // 清理加载状态
-      this.loadingStates.clear();
-      
-      // 调用基类销毁方法
-      this.baseDestroy();
-      
-      this.logger.info('FontManager destroyed successfully');
-    } catch (error) {
-      this.handleError(error as Error, 'destroy');
-    }
+    // 清理所有添加的字体
+    this.clearFonts();
+    
+    // 清理加载状态
+    this.loadingStates.clear();
+  }
+
+  /**
+   * 暂停时暂停字体加载观察的检测轮询（如页面隐藏时）
+   */
+  protected onPause(): void {
+    this.loadObserver.pause();
+  }
+
+  /**
+   * 恢复字体加载观察的检测轮询
+   */
+  protected onResume(): void {
+    this.loadObserver.resume();
+  }
+
+  /**
+   * 从暂停状态停止时恢复被暂停的检测轮询，避免观察一直挂起
+   */
+  protected onStop(): void {
+    this.loadObserver.resume();
   }
 
   /**
    * 动态添加字体
    * @param fontName 字体名称
    * @param url 字体文件URL地址
-   * @param options 可选的FontFace配置选项
-   * @returns 布尔值，表示是否添加成功
+   * @param options 可选的FontFace配置选项，可传入 signal 取消添加及后续加载重试
+   * @returns 布尔值，表示是否添加成功；取消时抛出 CANCELLED_ERROR
    */
-  async addFont(fontName: string, url: string, options?: FontFaceDescriptors): Promise<boolean> {
+  async addFont(fontName: string, url: string, options?: FontFaceDescriptors & CancelableOptions): Promise<boolean> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
 
+    const { signal, ...descriptors } = options || {};
+
     return this.safeExecute(async () => {
       // 验证输入参数
       if (!this.validateInput(fontName, { type: 'string', required: true })) {
@@ -238,7 +307,8 @@ class FontManager extends BaseManager<FontOptions> {
       }
 
       // 检查浏览器支持
-      if (!document.fonts) {
+      const fonts = this.getFontFaceSet();
+      if (!fonts) {
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
           'CSS Font Loading API not supported in current environment',
@@ -266,7 +336,7 @@ class FontManager extends BaseManager<FontOptions> {
       }
       
       // 创建FontFace对象
-      const fontFace = new FontFace(fontName, `url(${url})`, options);
+      const fontFace = new FontFace(fontName, `url(${url})`, options && descriptors);
       
       // 初始化加载状态
       const loadState: FontLoadState = {
@@ -278,34 +348,64 @@ class FontManager extends BaseManager<FontOptions> {
       this.loadingStates.set(fontName, loadState);
       
       // 添加到document.fonts
-      (document.fonts as unknown as ExtendedFontFaceSet).add(fontFace);
+      fonts.add(fontFace);
       this.addedFonts.add(fontFace);
       
       // 触发字体添加事件
       this.emit('fontAdded', { fontName, url, fontFace });
       
+      // 取消时移除尚未加载完成的字体
+      signal?.addEventListener('abort', () => this.cancelFontLoad(fontFace, fontName, url), { once: true });
+      
       // 异步加载字体并处理结果
-      this.loadFontWithRetry(fontFace, fontName, url);
+      this.loadFontWithRetry(fontFace, fontName, url, signal);
       
       return true;
-    }, 'addFont').catch((error) => {
+    }, 'addFont', { signal }).catch((error) => {
+      if (error.type === ErrorType.CANCELLED_ERROR) {
+        throw error;
+      }
       this.logger.error(`Failed to add font ${fontName}`, { error: error.message, url });
       return false;
     });
   }
 
+  /**
+   * 取消字体加载，移除仍在加载中的字体
+   * @param fontFace FontFace对象
+   * @param fontName 字体名称
+   * @param url 字体URL
+   */
+  private cancelFontLoad(fontFace: FontFace, fontName: string, url: string): void {
+    const loadState = this.loadingStates.get(fontName);
+    if (!loadState || loadState.status !== 'loading' || !this.addedFonts.has(fontFace)) {
+      return;
+    }
+
+    this.getFontFaceSet()?.delete(fontFace);
+    this.addedFonts.delete(fontFace);
+    this.loadingStates.delete(fontName);
+
+    this.logger.debug(`Font ${fontName} loading cancelled`);
+    this.emit('fontLoadCancelled', { fontName, url });
+  }
+
   /**
    * 带重试机制的字体加载
    * @param fontFace FontFace对象
    * @param fontName 字体名称
    * @param url 字体URL
+   * @param signal 取消信号
    */
-  private async loadFontWithRetry(fontFace: FontFace, fontName: string, url: string): Promise<void> {
+  private async loadFontWithRetry(fontFace: FontFace, fontName: string, url: string, signal?: AbortSignal): Promise<void> {
     const loadState = this.loadingStates.get(fontName);
-    if (!loadState) return;
+    if (!loadState || signal?.aborted) return;
 
     try {
       await fontFace.load();
+
+      // 加载期间已取消
+      if (signal?.aborted) return;
       
       // 更新加载状态
       loadState.status = 'loaded';
@@ -317,6 +417,8 @@ class FontManager extends BaseManager<FontOptions> {
       
       this.emit('fontLoaded', { fontName, url, loadTime: loadState.endTime - loadState.startTime });
     } catch (error) {
+      if (signal?.aborted) return;
+
       loadState.error = error as Error;
       
       // 检查是否需要重试
@@ -328,10 +430,12 @@ class FontManager extends BaseManager<FontOptions> {
           error: (error as Error).message
         });
         
-        // 延迟重试
-        setTimeout(() => {
-          this.loadFontWithRetry(fontFace, fontName, url);
-        }, 1000 * loadState.retryCount);
+        // 按重试策略延迟重试，取消后不再重试
+        const retryDelay = this.retrier.calculateDelay(loadState.retryCount, this.getRetryPolicy());
+        this.delay(retryDelay, signal, 'addFont').then(
+          () => this.loadFontWithRetry(fontFace, fontName, url, signal),
+          () => undefined
+        );
         
         return;
       }
@@ -478,8 +582,9 @@ class FontManager extends BaseManager<FontOptions> {
     return fontNames.sort((a, b) => {
       const aIsSystem = this.systemFonts.has(a.toLowerCase());
       const bIsSystem = this.systemFonts.has(b.toLowerCase());
-      const aCached = this.getCached(`font_check_${a}`) !== undefined;
-      const bCached = this.getCached(`font_check_${b}`) !== undefined;
+      // 只查询是否存在，不计入缓存命中率
+      const aCached = !!this.cache?.has(`font_check_${a}`);
+      const bCached = !!this.cache?.has(`font_check_${b}`);
       
       // 已缓存的优先
       if (aCached && !bCached) return -1;
@@ -504,9 +609,10 @@ class FontManager extends BaseManager<FontOptions> {
     
     // 检查缓存
     const cacheKey = `font_check_${fontName}`;
-    const cached = this.getCached<FontCheckResult>(cacheKey);
+    const cached = await this.getCachedAsync<FontCheckResult>(cacheKey);
     if (cached) {
       this.logger.debug(`Font check cache hit for ${fontName}`);
+      this.performanceMonitor.recordTiming('checkFont', Date.now() - startTime);
       return cached;
     }
 
@@ -561,15 +667,18 @@ class FontManager extends BaseManager<FontOptions> {
         this.setCached(cacheKey, result, 30000); // 缓存30秒
       }
 
+      this.performanceMonitor.recordTiming('checkFont', result.loadTime, result.status === 'error');
       return result;
     } catch (error) {
       const processedError = this.handleError(error as Error, 'checkSingleFont');
+      const loadTime = Date.now() - startTime;
+      this.performanceMonitor.recordTiming('checkFont', loadTime, true);
       return {
         name: fontName,
         loaded: false,
         status: 'error',
         error: processedError.message,
-        loadTime: Date.now() - startTime
+        loadTime
       };
     }
   }
@@ -589,15 +698,16 @@ class FontManager extends BaseManager<FontOptions> {
       this.stateManager.trackFont(fontName, isSystemFont ? 'system' : 'web');
       
       // 使用 document.fonts.check 进行初步检测
-      const basicCheck = document.fonts && document.fonts.check(`12px '${fontName}'`);
+      const fonts = this.getFontFaceSet();
+      const basicCheck = fonts && fonts.check(`12px '${fontName}'`);
       
       if (basicCheck) {
         // 对于非系统字体，进行额外验证以避免误报
         if (!isSystemFont) {
           // 检查是否在字体列表中
           let fontFound = false;
-          if (document.fonts) {
-            document.fonts.forEach(font => {
+          if (fonts) {
+            fonts.forEach(font => {
               if (font.family.replace(/['"]/g, '').toLowerCase() === fontName.replace(/['"]/g, '').toLowerCase()) {
                 fontFound = true;
               }
@@ -679,6 +789,7 @@ class FontManager extends BaseManager<FontOptions> {
    * @returns 字体检查结果
    */
   private async checkWithFontFaceAPI(fontName: string, isSystemFont: boolean): Promise<FontCheckResult> {
+    const fonts = this.getFontFaceSet();
     try {
       const fontFace = new FontFace(fontName, `local(${fontName})`);
       
@@ -726,7 +837,7 @@ class FontManager extends BaseManager<FontOptions> {
       }
 
       // 如果 FontFace 加载失败，但基础检测通过且是系统字体，则认为已加载
-      if (document.fonts && document.fonts.check(`12px '${fontName}'`) && isSystemFont) {
+      if (fonts && fonts.check(`12px '${fontName}'`) && isSystemFont) {
         this.stateManager.updateFontState(fontName, { 
           status: 'loaded', 
           endTime: Date.now() 
@@ -759,7 +870,7 @@ class FontManager extends BaseManager<FontOptions> {
       });
       
       // 回退到基础检测
-      const isLoaded = document.fonts && document.fonts.check(`12px '${fontName}'`);
+      const isLoaded = fonts && fonts.check(`12px '${fontName}'`);
       
       if (isLoaded && !isSystemFont) {
         const isTrulyLoaded = await this.performFontDetectionTest(fontName);
@@ -785,20 +896,21 @@ class FontManager extends BaseManager<FontOptions> {
    */
   private async performFontDetectionTest(fontName: string): Promise<boolean> {
     // 检查是否在浏览器环境中
-    if (typeof document === 'undefined' || typeof window === 'undefined') {
+    const doc = Environment.getDocument();
+    if (!doc) {
       return false;
     }
     
     try {
       // 检查缓存
       const cacheKey = `font_detection_${fontName}`;
-      const cached = this.getCached<boolean>(cacheKey);
+      const cached = await this.getCachedAsync<boolean>(cacheKey);
       if (cached !== undefined) {
         return cached;
       }
 
       // 创建测试元素
-      const testElement = document.createElement('div');
+      const testElement = doc.createElement('div');
       testElement.style.position = 'absolute';
       testElement.style.left = '-9999px';
       testElement.style.top = '-9999px';
@@ -815,7 +927,7 @@ class FontManager extends BaseManager<FontOptions> {
         '1234567890'
       ];
       
-      document.body.appendChild(testElement);
+      doc.body.appendChild(testElement);
       
       let detectionResults: boolean[] = [];
       
@@ -839,7 +951,7 @@ class FontManager extends BaseManager<FontOptions> {
       }
       
       // 清理测试元素
-      document.body.removeChild(testElement);
+      doc.body.removeChild(testElement);
       
       // 如果大部分测试都表明字体已加载，则认为字体确实已加载
       const positiveResults = detectionResults.filter(result => result).length;
@@ -870,17 +982,18 @@ class FontManager extends BaseManager<FontOptions> {
    */
   private async checkAllFonts(): Promise<FontCheckResult[]> {
     try {
+      const fonts = this.getFontFaceSet();
       // 确保字体已加载
-      if (document.fonts && document.fonts.ready) {
-        await document.fonts.ready;
+      if (fonts && fonts.ready) {
+        await fonts.ready;
       }
       
       const fontList: FontCheckResult[] = [];
       const fontSet = new Set<string>();
       
       // 收集所有字体
-      if (document.fonts) {
-        document.fonts.forEach(font => {
+      if (fonts) {
+        fonts.forEach(font => {
           const fontFamily = font.family.replace(/['"]*/g, '');
           if (!fontSet.has(fontFamily)) {
             fontSet.add(fontFamily);
@@ -915,7 +1028,8 @@ class FontManager extends BaseManager<FontOptions> {
     this.ensureNotDestroyed();
 
     try {
-      if (!document.fonts) {
+      const fonts = this.getFontFaceSet();
+      if (!fonts) {
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
           'CSS Font Loading API not supported',
@@ -923,7 +1037,7 @@ class FontManager extends BaseManager<FontOptions> {
         );
       }
       
-      (document.fonts as unknown as ExtendedFontFaceSet).add(font);
+      fonts.add(font);
       this.addedFonts.add(font);
       
       this.emit('fontFaceAdded', { fontFace: font });
@@ -946,7 +1060,8 @@ class FontManager extends BaseManager<FontOptions> {
     this.ensureNotDestroyed();
 
     try {
-      if (!document.fonts) {
+      const fonts = this.getFontFaceSet();
+      if (!fonts) {
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
           'CSS Font Loading API not supported',
@@ -965,7 +1080,7 @@ class FontManager extends BaseManager<FontOptions> {
         
         if (fontsToDelete.length > 0) {
           fontsToDelete.forEach(f => {
-            (document.fonts as unknown as ExtendedFontFaceSet).delete(f);
+            fonts.delete(f);
             this.addedFonts.delete(f);
           });
           
@@ -983,7 +1098,7 @@ class FontManager extends BaseManager<FontOptions> {
       }
       
       // 如果传入的是FontFace对象
-      const deleted = (document.fonts as unknown as ExtendedFontFaceSet).delete(font);
+      const deleted = fonts.delete(font);
       if (deleted) {
         this.addedFonts.delete(font);
         this.loadingStates.delete(font.family);
@@ -1007,7 +1122,8 @@ class FontManager extends BaseManager<FontOptions> {
     this.ensureNotDestroyed();
 
     try {
-      if (!document.fonts) {
+      const fonts = this.getFontFaceSet();
+      if (!fonts) {
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
           'CSS Font Loading API not supported',
@@ -1019,7 +1135,7 @@ class FontManager extends BaseManager<FontOptions> {
       
       // 删除所有通过 addFont 添加的字体
       this.addedFonts.forEach(font => {
-        (document.fonts as unknown as ExtendedFontFaceSet).delete(font);
+        fonts.delete(font);
       });
       
       this.addedFonts.clear();
@@ -1052,29 +1168,45 @@ class FontManager extends BaseManager<FontOptions> {
     return new Map(this.loadingStates);
   }
 
+  /**
+   * 观察字体加载过程，管理器暂停时检测轮询随之暂停
+   * @param fontName 字体名称
+   * @param options 观察选项，默认使用检测选项中的超时时间
+   * @returns 字体加载状态
+   */
+  async observeFont(fontName: string, options: ObserverOptions = {}): Promise<FontLoadingState> {
+    await this.ensureInitialized();
+    this.ensureNotDestroyed();
+
+    return this.loadObserver.observeFont(fontName, { timeout: this.detectionOptions.timeout, ...options });
+  }
+
   /**
    * 批量添加字体
    * @param fonts 字体配置数组
+   * @param options 批量选项，可传入 signal 取消剩余批次，onProgress 接收每批完成后的进度（0-100）
    * @returns 添加结果数组
    */
   async addFonts(fonts: Array<{
     name: string;
     url: string;
     options?: FontFaceDescriptors;
-  }>): Promise<Array<{ name: string; success: boolean; error?: string }>> {
+  }>, options: AddFontsOptions = {}): Promise<Array<{ name: string; success: boolean; error?: string }>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
 
+    const { signal, onProgress } = options;
     const results: Array<{ name: string; success: boolean; error?: string }> = [];
     const concurrency = Math.min(this.options.concurrency, fonts.length);
     
     // 分批处理以控制并发数
     for (let i = 0; i < fonts.length; i += concurrency) {
+      this.throwIfAborted(signal, 'addFonts');
       const batch = fonts.slice(i, i + concurrency);
       
       const batchPromises = batch.map(async (font) => {
         try {
-          const success = await Promise.resolve(this.addFont(font.name, font.url, font.options));
+          const success = await Promise.resolve(this.addFont(font.name, font.url, { ...font.options, signal }));
           return { name: font.name, success };
         } catch (error) {
           return { 
@@ -1095,10 +1227,11 @@ class FontManager extends BaseManager<FontOptions> {
       );
       
       results.push(...processedResults);
+      onProgress?.((results.length / fonts.length) * 100, results.length, fonts.length);
       
       // 添加小延迟以避免过度占用资源
       if (i + concurrency < fonts.length) {
-        await new Promise(resolve => setTimeout(resolve, 50));
+        await this.delay(50, signal, 'addFonts');
       }
     }
     
@@ -1106,6 +1239,28 @@ class FontManager extends BaseManager<FontOptions> {
     return results;
   }
 
+  /**
+   * 以可跟踪操作的方式批量添加字体，进度通过 operationProgress 事件通知
+   * @param fonts 字体配置数组
+   * @param options 批量选项
+   * @returns 操作ID，可通过 getOperationManager() 查询状态、获取结果或取消
+   */
+  startAddFonts(fonts: Array<{
+    name: string;
+    url: string;
+    options?: FontFaceDescriptors;
+  }>, options: AddFontsOptions = {}): string {
+    return this.startOperation('addFonts', ({ signal, reportProgress }) => {
+      return this.addFonts(fonts, {
+        signal,
+        onProgress: (progress, completed, total) => {
+          reportProgress(progress);
+          options.onProgress?.(progress, completed, total);
+        }
+      });
+    }, { signal: options.signal });
+  }
+
   /**
    * 预加载字体（不添加到文档，仅检测可用性）
    * @param fontNames 字体名称数组
@@ -1126,7 +1281,7 @@ class FontManager extends BaseManager<FontOptions> {
     // 首先检查缓存
     for (const fontName of fontNames) {
       const cacheKey = `font_check_${fontName}`;
-      const cachedResult = this.getCached<FontCheckResult>(cacheKey);
+      const cachedResult = await this.getCachedAsync<FontCheckResult>(cacheKey);
       
       if (cachedResult) {
         cached.push(fontName);
@@ -1182,7 +1337,7 @@ class FontManager extends BaseManager<FontOptions> {
   }
 
   /**
-   * 获取性能统计信息
+   * 获取性能统计信息，检测次数、耗时和缓存命中率取自 getMetrics() 中的 checkFont 操作
    * @returns 性能统计
    */
   getPerformanceStats(): {
@@ -1197,29 +1352,27 @@ class FontManager extends BaseManager<FontOptions> {
     const loadingFonts = states.filter(s => s.status === 'loading').length;
     const loadedFonts = states.filter(s => s.status === 'loaded').length;
     const failedFonts = states.filter(s => s.status === 'error').length;
-    
-    const completedStates = states.filter(s => s.endTime);
-    const totalCheckTime = completedStates.reduce((sum, state) => 
-      sum + (state.endTime! - state.startTime), 0
-    );
-    const averageCheckTime = completedStates.length > 0 ? 
-      totalCheckTime / completedStates.length : 0;
-    
-    // 估算缓存命中率（基于缓存大小和检测次数的比例）
-    const cacheSize = this.cache?.size() || 0;
-    const totalChecks = states.length;
-    const cacheHitRate = totalChecks > 0 ? Math.min(cacheSize / totalChecks, 1) : 0;
+    const metrics = this.performanceMonitor.getMetrics();
+    const checks = metrics.operations.checkFont;
     
     return {
-      totalFontsChecked: totalChecks,
-      cacheHitRate: Math.round(cacheHitRate * 100) / 100,
-      averageCheckTime: Math.round(averageCheckTime),
+      totalFontsChecked: checks?.count ?? 0,
+      cacheHitRate: Math.round(metrics.cacheHitRate * 100) / 100,
+      averageCheckTime: Math.round(checks?.average ?? 0),
       loadingFonts,
       loadedFonts,
       failedFonts
     };
   }
 
+  /**
+   * 获取当前环境的字体集合
+   * @returns document.fonts，服务端或不支持 CSS Font Loading API 时为 undefined
+   */
+  private getFontFaceSet(): ExtendedFontFaceSet | undefined {
+    return Environment.getDocument()?.fonts as unknown as ExtendedFontFaceSet | undefined;
+  }
+
   /**
    * 检查URL是否可能存在跨域问题
    * @param url 要检查的URL
@@ -1237,7 +1390,10 @@ class FontManager extends BaseManager<FontOptions> {
       // 如果是绝对路径，检查域名是否不同
       if (url.startsWith('http://') || url.startsWith('https://') || url.startsWith('//')) {
         const urlObj = new URL(url.startsWith('//') ? `https:${url}` : url);
-        const currentLocation = window.location;
+        const currentLocation = Environment.getLocation();
+        if (!currentLocation) {
+          return false;
+        }
         
         // 比较域名和端口
         return urlObj.hostname !== currentLocation.hostname || 
@@ -1,4 +1,7 @@
 import FontManager from './index';
+import { ManagerRegistry } from '../core/ManagerRegistry';
+import { Environment } from '../core/Environment';
+import { CancelableOptions } from '../types/core';
 
 // 重新定义这些类型以避免循环依赖
 export interface FontOptions {
@@ -24,22 +27,19 @@ export interface FontLoadResult {
   totalLoadTime?: number;
 }
 
-// 全局字体管理器实例
-let globalFontManager: FontManager | null = null;
-
 /**
- * 获取或创建全局字体管理器实例
+ * 获取或创建全局字体管理器实例，可通过 ManagerRegistry.provide('FontManager', manager) 替换
  */
 async function getGlobalFontManager(options?: FontOptions): Promise<FontManager> {
-  if (!globalFontManager) {
-    globalFontManager = new FontManager(options);
-    // 自动初始化已在构造函数中处理，但我们等待它完成
-    await globalFontManager.ready();
-  } else if (options) {
+  const existing = ManagerRegistry.getDefault<FontManager>('FontManager');
+  if (existing && options) {
     // 如果已有实例但传入了新的选项，则更新实例的选项
-    globalFontManager.updateOptions(options);
+    existing.updateOptions(options);
   }
-  return globalFontManager;
+  const manager = existing || ManagerRegistry.resolve('FontManager', () => new FontManager(options));
+  // 自动初始化已在构造函数中处理，但我们等待它完成
+  await manager.ready();
+  return manager;
 }
 
 /**
@@ -84,7 +84,7 @@ export async function checkFonts(fontNames: string[], options?: FontOptions): Pr
  * @param options 可选的FontFace配置选项
  * @returns 布尔值，表示是否添加成功
  */
-export async function addFont(fontName: string, url: string, options?: FontFaceDescriptors, checkerOptions?: FontOptions): Promise<boolean> {
+export async function addFont(fontName: string, url: string, options?: FontFaceDescriptors & CancelableOptions, checkerOptions?: FontOptions): Promise<boolean> {
   const manager = await getGlobalFontManager(checkerOptions);
   return manager.addFont(fontName, url, options);
 }
@@ -122,10 +122,11 @@ export async function clearFonts(options?: FontOptions): Promise<boolean> {
  * 检查字体是否已加载（同步方法）
  */
 export function isFontLoaded(fontName: string): boolean {
-  if (!document.fonts) {
+  const doc = Environment.getDocument();
+  if (!doc || !doc.fonts) {
     return false;
   }
-  return document.fonts.check(`12px '${fontName}'`);
+  return doc.fonts.check(`12px '${fontName}'`);
 }
 
 /**
@@ -7,7 +7,12 @@
  */
 
 import { BaseManager } from '../core/BaseManager';
+import { ManagerRegistry } from '../core/ManagerRegistry';
+import { Environment } from '../core/Environment';
 import { BaseOptions, ErrorType } from '../core/types';
+import { ValidationRule } from '../types/core';
+import { ProcessedError } from '../types/errors';
+import { CustomError } from '../core/ErrorHandler';
 import { BrowserAdapter } from '../utils/browser';
 import { isElement } from '../utils/dom';
 
@@ -17,7 +22,7 @@ import { isElement } from '../utils/dom';
 export interface FullscreenOptions extends BaseOptions {
   /** 导航UI显示模式 */
   navigationUI?: 'auto' | 'hide' | 'show';
-  /** 是否启用性能监控 */
+  /** 是否为全屏操作输出 performance.mark/measure 条目（性能指标始终由 getMetrics() 记录） */
   enablePerformanceMonitoring?: boolean;
   /** 全屏请求超时时间（毫秒） */
   requestTimeout?: number;
@@ -45,7 +50,53 @@ export interface FullscreenState {
 }
 
 /**
- * 性能监控数据
+ * 全屏请求事件
+ */
+export interface FullscreenRequestEvent {
+  /** 请求全屏的元素 */
+  element: Element;
+  /** 全屏请求选项 */
+  options?: { navigationUI?: 'auto' | 'hide' | 'show' };
+}
+
+/**
+ * 全屏变化事件
+ */
+export interface FullscreenChangeEvent {
+  /** 是否处于全屏状态 */
+  isFullscreen: boolean;
+  /** 当前全屏元素 */
+  element: Element | null;
+  /** 原始事件 */
+  event: Event;
+}
+
+/**
+ * 浏览器全屏错误事件
+ */
+export interface FullscreenErrorEvent {
+  /** 错误对象 */
+  error: CustomError;
+  /** 原始事件 */
+  event: Event;
+}
+
+/**
+ * 全屏管理器事件映射
+ */
+export interface FullscreenEvents {
+  /** 全屏状态变化 */
+  change: [event: FullscreenChangeEvent];
+  /** 浏览器全屏错误事件或管理器内部错误 */
+  error: [error: FullscreenErrorEvent | ProcessedError];
+  /** 即将请求全屏 */
+  request: [event: FullscreenRequestEvent];
+  /** 即将退出全屏 */
+  exit: [event: { element: Element | null }];
+}
+
+/**
+ * 性能监控数据，由管理器的 PerformanceMonitor 指标换算而来
  */
 export interface FullscreenPerformanceMetrics {
   /** 进入全屏耗时 */
@@ -64,19 +115,17 @@ export interface FullscreenPerformanceMetrics {
  * 全屏管理器类
  * 继承BaseManager，提供统一的全屏管理功能
  */
-export class FullscreenManager extends BaseManager<FullscreenOptions> {
+export class FullscreenManager extends BaseManager<FullscreenOptions, FullscreenEvents> {
   private browserAdapter: BrowserAdapter;
   private removeChangeListener?: () => void;
   private removeErrorListener?: () => void;
   private currentState: FullscreenState;
-  private performanceMetrics: FullscreenPerformanceMetrics;
-  private requestStartTime: number = 0;
 
   constructor(options?: FullscreenOptions) {
     super(options, 'FullscreenManager');
     
     this.browserAdapter = new BrowserAdapter({
-      enableCache: this.options.cache,
+      enableCache: !!this.options.cache,
       debug: this.options.debug
     });
 
@@ -87,13 +136,9 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
       duration: undefined
     };
 
-    this.performanceMetrics = {
-      enterTime: 0,
-      exitTime: 0,
-      duration: 0,
-      errorCount: 0,
-      successCount: 0
-    };
+    if (this.options.enablePerformanceMonitoring) {
+      this.performanceMonitor.setMarksEnabled(true);
+    }
   }
 
   /**
@@ -105,6 +150,8 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
       timeout: 5000,
       retries: 2,
       cache: true,
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000 },
+      hooks: {},
       navigationUI: 'auto',
       enablePerformanceMonitoring: false,
       requestTimeout: 3000,
@@ -112,6 +159,19 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'navigationUI', enum: ['auto', 'hide', 'show'] },
+      { field: 'enablePerformanceMonitoring', type: 'boolean' },
+      { field: 'requestTimeout', type: 'number', min: 0 },
+      { field: 'allowKeyboardInput', type: 'boolean' }
+    ];
+  }
+
   /**
    * 初始化全屏管理器
    */
@@ -141,35 +201,21 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
   }
 
   /**
-   * 销毁全屏管理器
+   * 销毁全屏管理器时退出全屏并释放监听器和浏览器适配器
    */
-  destroy(): void {
-    if (this.destroyed) {
-      return;
+  protected onDestroy(): void {
+    // 如果当前处于全屏状态，先退出
+    if (this.currentState.isFullscreen) {
+      this.exit().catch(() => {
+        // 忽略退出错误，因为正在销毁
+      });
     }
 
-    try {
-      // 如果当前处于全屏状态，先退出
-      if (this.currentState.isFullscreen) {
-        this.exit().catch(() => {
-          // 忽略退出错误，因为正在销毁
-        });
-      }
-
-      // 移除事件监听器
-      this.removeEventListeners();
-
-      // 销毁浏览器适配器
-      this.browserAdapter.destroy();
-
-      // 调用基类销毁方法
-      this.baseDestroy();
+    // 移除事件监听器
+    this.removeEventListeners();
 
-      this.logger.info('FullscreenManager destroyed successfully');
-
-    } catch (error) {
-      this.handleError(error as Error, 'destroy');
-    }
+    // 销毁浏览器适配器
+    this.browserAdapter.destroy();
   }
 
   // ============================================================================
@@ -188,13 +234,14 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
 
     // 检查各种浏览器的全屏支持
     let supported = false;
-    if (typeof document !== 'undefined' && document.documentElement) {
-      const docElement = document.documentElement as any;
+    const doc = Environment.getDocument();
+    if (doc && doc.documentElement) {
+      const docElement = doc.documentElement as any;
       supported = !!(
-        'fullscreenEnabled' in document ||
-        'webkitFullscreenEnabled' in document ||
-        'mozFullScreenEnabled' in document ||
-        'msFullscreenEnabled' in document ||
+        'fullscreenEnabled' in doc ||
+        'webkitFullscreenEnabled' in doc ||
+        'mozFullScreenEnabled' in doc ||
+        'msFullscreenEnabled' in doc ||
         'requestFullscreen' in docElement ||
         'webkitRequestFullscreen' in docElement ||
         'mozRequestFullScreen' in docElement ||
@@ -202,7 +249,8 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
       );
     }
 
-    this.setCached(cacheKey, supported, 60000); // 缓存1分钟
+    // 检测结果只在同步路径中读取，不写入持久化存储
+    this.setCached(cacheKey, supported, { ttl: 60000, persist: false }); // 缓存1分钟
     return supported;
   }
 
@@ -216,15 +264,16 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
       return cached;
     }
 
-    // 检查各种浏览器的全屏启用属性
-    const enabled = !!(
-      (document as any).fullscreenEnabled ||
-      (document as any).webkitFullscreenEnabled ||
-      (document as any).mozFullScreenEnabled ||
-      (document as any).msFullscreenEnabled
+    // 检查各种浏览器的全屏启用属性（服务端环境为 false）
+    const doc = Environment.getDocument() as any;
+    const enabled = !!doc && !!(
+      doc.fullscreenEnabled ||
+      doc.webkitFullscreenEnabled ||
+      doc.mozFullScreenEnabled ||
+      doc.msFullscreenEnabled
     );
 
-    this.setCached(cacheKey, enabled, 60000); // 缓存1分钟
+    this.setCached(cacheKey, enabled, { ttl: 60000, persist: false }); // 缓存1分钟
     return enabled;
   }
 
@@ -247,15 +296,28 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
   /**
    * 获取全屏状态信息
    */
-  get state(): FullscreenState {
+  get fullscreenState(): FullscreenState {
     return { ...this.currentState };
   }
 
   /**
-   * 获取性能监控数据
+   * 获取性能监控数据（getMetrics() 中 request/exit 操作的视图）
    */
   get performanceData(): FullscreenPerformanceMetrics {
-    return { ...this.performanceMetrics };
+    const metrics = this.performanceMonitor.getMetrics();
+    const enter = metrics.operations.request;
+    const exit = metrics.operations.exit;
+
+    return {
+      enterTime: enter?.last ?? 0,
+      exitTime: exit?.last ?? 0,
+      duration: this.currentState.duration ?? 0,
+      errorCount: metrics.totalErrors,
+      successCount: [enter, exit].reduce(
+        (total, operation) => total + (operation ? operation.count - operation.errors : 0),
+        0
+      )
+    };
   }
 
   // ============================================================================
@@ -272,8 +334,13 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
     this.ensureNotDestroyed();
 
     return this.safeExecute(async () => {
+      const doc = Environment.getDocument();
+      if (!doc) {
+        throw Environment.createServerError('Fullscreen API', 'FullscreenManager', 'request');
+      }
+
       // 验证输入参数
-      const targetElement = element || document.documentElement;
+      const targetElement = element || doc.documentElement;
       if (!this.validateInput(targetElement, { type: 'object', required: true })) {
         throw this.errorHandler.createError(
           ErrorType.USER_ERROR,
@@ -313,9 +380,6 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
         return;
       }
 
-      // 开始性能监控
-      this.requestStartTime = this.options.enablePerformanceMonitoring ? performance.now() : 0;
-
       // 触发请求前事件
       this.emit('request', { element: targetElement, options: requestOptions });
 
@@ -342,20 +406,9 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
           await (targetElement as any)[methodName](fullOptions);
         }
 
-        // 更新性能指标
-        if (this.options.enablePerformanceMonitoring && this.requestStartTime > 0) {
-          this.performanceMetrics.enterTime = performance.now() - this.requestStartTime;
-          this.performanceMetrics.successCount++;
-        }
-
         this.logger.info('Fullscreen request successful', { element: targetElement.tagName });
 
       } catch (error) {
-        // 更新错误指标
-        if (this.options.enablePerformanceMonitoring) {
-          this.performanceMetrics.errorCount++;
-        }
-
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
           `Failed to enter fullscreen: ${(error as Error).message}`,
@@ -382,35 +435,22 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
         return;
       }
 
-      // 开始性能监控
-      const exitStartTime = this.options.enablePerformanceMonitoring ? performance.now() : 0;
-
       // 触发退出前事件
       this.emit('exit', { element: this.currentState.element });
 
       try {
         const methodName = this.getExitMethodName();
+        const doc = Environment.getDocument() as any;
         
-        if (!methodName || !(methodName in document)) {
+        if (!methodName || !doc || !(methodName in doc)) {
           throw new Error('Fullscreen exit method not supported');
         }
         
-        await (document as any)[methodName]();
-
-        // 更新性能指标
-        if (this.options.enablePerformanceMonitoring && exitStartTime > 0) {
-          this.performanceMetrics.exitTime = performance.now() - exitStartTime;
-          this.performanceMetrics.successCount++;
-        }
+        await doc[methodName]();
 
         this.logger.info('Fullscreen exit successful');
 
       } catch (error) {
-        // 更新错误指标
-        if (this.options.enablePerformanceMonitoring) {
-          this.performanceMetrics.errorCount++;
-        }
-
         throw this.errorHandler.createError(
           ErrorType.SYSTEM_ERROR,
           `Failed to exit fullscreen: ${(error as Error).message}`,
@@ -447,6 +487,12 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
    * 初始化事件监听器
    */
   private initEventListeners(): void {
+    const doc = Environment.getDocument();
+    if (!doc) {
+      // 服务端环境没有全屏事件，保持非全屏状态
+      return;
+    }
+
     try {
       // 使用 BrowserAdapter 检测支持的事件名
       const changeEventName = this.detectChangeEventName();
@@ -454,7 +500,7 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
 
       if (changeEventName) {
         this.removeChangeListener = this.browserAdapter.addEventListenerCompat(
-          document,
+          doc,
           changeEventName,
           this.handleFullscreenChange.bind(this)
         );
@@ -463,7 +509,7 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
 
       if (errorEventName) {
         this.removeErrorListener = this.browserAdapter.addEventListenerCompat(
-          document,
+          doc,
           errorEventName,
           this.handleFullscreenError.bind(this)
         );
@@ -509,10 +555,6 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
       if (wasFullscreen && !this.currentState.isFullscreen && this.currentState.startTime) {
         const duration = Date.now() - this.currentState.startTime;
         this.currentState.duration = duration;
-        
-        if (this.options.enablePerformanceMonitoring) {
-          this.performanceMetrics.duration = duration;
-        }
       }
 
       this.logger.debug('Fullscreen state changed', {
@@ -537,16 +579,12 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
    */
   private handleFullscreenError(event: Event): void {
     try {
-      // 更新错误指标
-      if (this.options.enablePerformanceMonitoring) {
-        this.performanceMetrics.errorCount++;
-      }
-
       const error = this.errorHandler.createError(
         ErrorType.SYSTEM_ERROR,
         'Fullscreen operation failed',
         { context: { method: 'handleFullscreenError' } }
       );
+      this.performanceMonitor.recordError(error);
 
       this.logger.error('Fullscreen error occurred', { event });
 
@@ -564,11 +602,13 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
   private updateCurrentState(): void {
     try {
       // 检查各种浏览器的全屏元素属性
-      const currentElement = (document as any).fullscreenElement ||
-                            (document as any).webkitFullscreenElement ||
-                            (document as any).mozFullScreenElement ||
-                            (document as any).msFullscreenElement ||
-                            null;
+      const doc = Environment.getDocument() as any;
+      const currentElement = (doc && (
+                              doc.fullscreenElement ||
+                              doc.webkitFullscreenElement ||
+                              doc.mozFullScreenElement ||
+                              doc.msFullscreenElement
+                            )) || null;
       
       const isCurrentlyFullscreen = !!currentElement;
 
@@ -625,7 +665,7 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
     for (const eventName of eventNames) {
       const result = this.browserAdapter.detectFeature(`on${eventName}`, 'property', document);
       if (result.supported) {
-        this.setCached(cacheKey, eventName, 300000); // 缓存5分钟
+        this.setCached(cacheKey, eventName, { ttl: 300000, persist: false }); // 缓存5分钟
         return eventName;
       }
     }
@@ -653,7 +693,7 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
     for (const eventName of eventNames) {
       const result = this.browserAdapter.detectFeature(`on${eventName}`, 'property', document);
       if (result.supported) {
-        this.setCached(cacheKey, eventName, 300000); // 缓存5分钟
+        this.setCached(cacheKey, eventName, { ttl: 300000, persist: false }); // 缓存5分钟
         return eventName;
       }
     }
@@ -683,14 +723,14 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
         const result = this.browserAdapter.detectFeature(methodName, 'method', document.documentElement);
         if (result.supported) {
           const actualMethodName = result.prefixedName || methodName;
-          this.setCached(cacheKey, actualMethodName, 300000); // 缓存5分钟
+          this.setCached(cacheKey, actualMethodName, { ttl: 300000, persist: false }); // 缓存5分钟
           return actualMethodName;
         }
       }
     }
 
     // 如果没有找到支持的方法，返回标准方法名
-    this.setCached(cacheKey, 'requestFullscreen', 300000);
+    this.setCached(cacheKey, 'requestFullscreen', { ttl: 300000, persist: false });
     return 'requestFullscreen';
   }
 
@@ -715,13 +755,13 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
       const result = this.browserAdapter.detectFeature(methodName, 'method', document);
       if (result.supported) {
         const actualMethodName = result.prefixedName || methodName;
-        this.setCached(cacheKey, actualMethodName, 300000); // 缓存5分钟
+        this.setCached(cacheKey, actualMethodName, { ttl: 300000, persist: false }); // 缓存5分钟
         return actualMethodName;
       }
     }
 
     // 如果没有找到支持的方法，返回标准方法名
-    this.setCached(cacheKey, 'exitFullscreen', 300000);
+    this.setCached(cacheKey, 'exitFullscreen', { ttl: 300000, persist: false });
     return 'exitFullscreen';
   }
 }
@@ -730,34 +770,30 @@ export class FullscreenManager extends BaseManager<FullscreenOptions> {
 // 导出和单例实例
 // ============================================================================
 
-// 创建单例实例
-let defaultFullscreenManager: FullscreenManager | null = null;
-
 /**
- * 获取默认全屏管理器实例
- * @param options 配置选项
+ * 获取默认全屏管理器实例，便捷函数均使用该实例
+ * 可通过 ManagerRegistry.provide('FullscreenManager', manager) 替换为自定义实例
+ * @param options 配置选项（仅在创建实例时生效）
  * @returns 全屏管理器实例
  */
 export function getFullscreenManager(options?: FullscreenOptions): FullscreenManager {
-  if (!defaultFullscreenManager) {
-    defaultFullscreenManager = new FullscreenManager(options);
-    // 自动初始化已在构造函数中处理
-  }
-  return defaultFullscreenManager;
+  // 自动初始化已在构造函数中处理
+  return ManagerRegistry.resolve('FullscreenManager', () => new FullscreenManager(options));
 }
 
 /**
  * 重置默认全屏管理器实例
  */
 export function resetFullscreenManager(): void {
-  if (defaultFullscreenManager) {
-    defaultFullscreenManager.destroy();
-    defaultFullscreenManager = null;
+  const manager = ManagerRegistry.getDefault<FullscreenManager>('FullscreenManager');
+  if (manager) {
+    ManagerRegistry.provide('FullscreenManager', null);
+    manager.destroy();
   }
 }
 
-// 创建默认实例并导出
-const fullscreen = getFullscreenManager();
+// 默认实例的延迟代理，首次使用时才创建，保证服务端导入安全
+const fullscreen = ManagerRegistry.lazy(() => getFullscreenManager());
 
 export default fullscreen;
 
@@ -769,70 +805,72 @@ export default fullscreen;
  * 请求进入全屏（便捷函数）
  */
 export async function requestFullscreen(element?: Element, options?: { navigationUI?: 'auto' | 'hide' | 'show' }): Promise<void> {
-  return fullscreen.request(element, options);
+  return getFullscreenManager().request(element, options);
 }
 
 /**
  * 退出全屏（便捷函数）
  */
 export async function exitFullscreen(): Promise<void> {
-  return fullscreen.exit();
+  return getFullscreenManager().exit();
 }
 
 /**
  * 切换全屏状态（便捷函数）
  */
 export async function toggleFullscreen(element?: Element, options?: { navigationUI?: 'auto' | 'hide' | 'show' }): Promise<void> {
-  return fullscreen.toggle(element, options);
+  return getFullscreenManager().toggle(element, options);
 }
 
 /**
  * 检查是否支持全屏（便捷函数）
  */
 export function isFullscreenSupported(): boolean {
-  return fullscreen.isSupported;
+  return getFullscreenManager().isSupported;
 }
 
 /**
  * 检查是否启用全屏（便捷函数）
  */
 export function isFullscreenEnabled(): boolean {
-  return fullscreen.isEnabled;
+  return getFullscreenManager().isEnabled;
 }
 
 /**
  * 检查是否处于全屏状态（便捷函数）
  */
 export function isFullscreen(): boolean {
-  return fullscreen.isFullscreen;
+  return getFullscreenManager().isFullscreen;
 }
 
 /**
  * 获取当前全屏元素（便捷函数）
  */
 export function getFullscreenElement(): Element | null {
-  return fullscreen.element;
+  return getFullscreenManager().element;
 }
 
 /**
  * 获取全屏状态信息（便捷函数）
  */
 export function getFullscreenState(): FullscreenState {
-  return fullscreen.state;
+  return getFullscreenManager().fullscreenState;
 }
 
 /**
  * 添加全屏事件监听器（便捷函数）
  */
 export function onFullscreenChange(listener: (data: any) => void): () => void {
-  fullscreen.on('change', listener);
-  return () => fullscreen.off('change', listener);
+  const manager = getFullscreenManager();
+  manager.on('change', listener);
+  return () => manager.off('change', listener);
 }
 
 /**
  * 添加全屏错误事件监听器（便捷函数）
  */
 export function onFullscreenError(listener: (data: any) => void): () => void {
-  fullscreen.on('error', listener);
-  return () => fullscreen.off('error', listener);
+  const manager = getFullscreenManager();
+  manager.on('error', listener);
+  return () => manager.off('error', listener);
 } 
\ No newline at end of file
@@ -7,7 +7,9 @@
  */
 
 import { BaseManager } from '../core/BaseManager';
-import { BaseOptions } from '../types/core';
+import { ManagerRegistry } from '../core/ManagerRegistry';
+import { Environment } from '../core/Environment';
+import { BaseOptions, ValidationRule } from '../types/core';
 import { 
   ImageCompressOptions, 
   ImageConvertOptions, 
@@ -23,6 +25,11 @@ import {
   isFile
 } from '../file/utils';
 
+/**
+ * 可用的图像格式
+ */
+const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'gif', 'webp', 'bmp', 'svg', 'ico'];
+
 /**
  * 图像管理器配置选项
  */
@@ -59,6 +66,36 @@ export interface ImageProcessResult<T = any> {
   compressionRatio?: number;
 }
 
+/**
+ * 批量压缩中单个文件的结果
+ */
+export interface ImageBatchCompressResult {
+  /** 原始文件 */
+  file: File;
+  /** 是否成功 */
+  success: boolean;
+  /** 压缩结果 */
+  result?: ImageProcessResult<File>;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 批量压缩选项
+ */
+export interface ImageBatchCompressOptions extends ImageCompressOptions {
+  /** 进度回调，progress 为 0-100 */
+  onProgress?: (progress: number, completed: number, total: number) => void;
+}
+
+/**
+ * 图像管理器事件映射
+ */
+export interface ImageManagerEvents {
+  /** 批量压缩完成 */
+  batchCompressed: [event: { results: ImageBatchCompressResult[]; total: number }];
+}
+
 /**
  * 图像信息
  */
@@ -76,10 +113,18 @@ export interface ImageInfo extends FileInfo {
  * 
  * @description 提供统一的图像处理功能，包括压缩、转换、尺寸调整等
  */
-export class ImageManager extends BaseManager<ImageManagerOptions> {
+export class ImageManager extends BaseManager<ImageManagerOptions, ImageManagerEvents> {
   private canvas?: HTMLCanvasElement;
   private context?: CanvasRenderingContext2D;
 
+  /**
+   * 构造函数
+   * @param options 配置选项
+   */
+  constructor(options?: ImageManagerOptions) {
+    super(options, 'ImageManager');
+  }
+
   /**
    * 获取默认配置
    */
@@ -90,6 +135,8 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
       retries: 1,
       cache: true,
       cacheTTL: 300000, // 5分钟
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000 },
+      hooks: {},
       maxImageSize: 4096,
       defaultQuality: 0.8,
       defaultFormat: 'jpeg',
@@ -103,6 +150,21 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'maxImageSize', type: 'number', min: 1 },
+      { field: 'defaultQuality', type: 'number', min: 0, max: 1 },
+      { field: 'defaultFormat', enum: IMAGE_FORMATS },
+      { field: 'enableSizeValidation', type: 'boolean' },
+      { field: 'supportedFormats', type: 'array', items: { enum: IMAGE_FORMATS } },
+      { field: 'canvasContextOptions', type: 'object' }
+    ];
+  }
+
   /**
    * 初始化图像管理器
    */
@@ -112,11 +174,16 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
     }
 
     try {
-      // 检查浏览器支持
-      this.checkBrowserSupport();
-      
-      // 初始化Canvas
-      this.initializeCanvas();
+      if (Environment.isBrowser()) {
+        // 检查浏览器支持
+        this.checkBrowserSupport();
+        
+        // 初始化Canvas
+        this.initializeCanvas();
+      } else {
+        // 服务端环境：DataURL/Blob 转换可用，依赖 Canvas 的方法会抛出服务端环境错误
+        this.logger.debug('Server environment detected, canvas based image processing is disabled');
+      }
       
       this.initialized = true;
       this.emit('initialized');
@@ -131,7 +198,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   /**
    * 销毁图像管理器
    */
-  destroy(): void {
+  protected onDestroy(): void {
     // 清理Canvas资源
     if (this.canvas) {
       this.canvas.width = 0;
@@ -139,9 +206,6 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
       this.canvas = undefined;
       this.context = undefined;
     }
-    
-    this.baseDestroy();
-    this.logger.info('ImageManager destroyed');
   }
 
   /**
@@ -152,6 +216,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   async blobToDataURL(blob: Blob): Promise<ImageProcessResult<string>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('blobToDataURL', 'FileReader');
 
     // 输入验证
     if (!blob || typeof blob.size !== 'number') {
@@ -252,6 +317,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   async dataURLToImage(dataURL: string): Promise<ImageProcessResult<HTMLImageElement>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('dataURLToImage');
 
     // 输入验证
     if (!this.validateInput(dataURL, { type: 'string', required: true })) {
@@ -267,7 +333,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
 
     try {
       // 尝试从缓存获取
-      const cached = this.getCached<HTMLImageElement>(cacheKey);
+      const cached = await this.getCachedAsync<HTMLImageElement>(cacheKey);
       if (cached) {
         return {
           result: cached,
@@ -299,7 +365,8 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
       }, 'dataURLToImage');
 
       // 缓存结果
-      this.setCached(cacheKey, result, 300000); // 5分钟缓存
+      // 图像元素无法序列化，只保留在内存中
+      this.setCached(cacheKey, result, { ttl: 300000, persist: false }); // 5分钟缓存
 
       return {
         result,
@@ -423,6 +490,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   ): Promise<ImageProcessResult<File>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('imgConvert');
 
     // 输入验证
     if (!isFile(imageFile)) {
@@ -445,7 +513,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
 
     try {
       // 尝试从缓存获取
-      const cached = this.getCached<File>(cacheKey);
+      const cached = await this.getCachedAsync<File>(cacheKey);
       if (cached) {
         return {
           result: cached,
@@ -507,7 +575,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
       }, 'imgConvert');
 
       // 缓存结果
-      this.setCached(cacheKey, result.file, 600000); // 10分钟缓存
+      this.setCached(cacheKey, result.file, { ttl: 600000, tags: [`file:${imageFile.name}`] }); // 10分钟缓存
 
       return {
         result: result.file,
@@ -533,6 +601,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   ): Promise<ImageProcessResult<File>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('imgCompress');
 
     // 输入验证
     if (!isFile(imageFile)) {
@@ -549,15 +618,18 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
       maxHeight,
       format,
       maintainAspectRatio = true,
-      backgroundColor = '#FFFFFF'
+      backgroundColor = '#FFFFFF',
+      signal
     } = options;
 
     const startTime = Date.now();
     const cacheKey = `img_compress_${imageFile.name}_${imageFile.size}_${quality}_${maxWidth}_${maxHeight}_${format}`;
 
     try {
+      this.throwIfAborted(signal, 'imgCompress');
+
       // 尝试从缓存获取
-      const cached = this.getCached<File>(cacheKey);
+      const cached = await this.getCachedAsync<File>(cacheKey);
       if (cached) {
         return {
           result: cached,
@@ -567,7 +639,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
         };
       }
 
-      const result = await this.safeExecute(async () => {
+      const result = await this.safeExecute(async (attemptSignal) => {
         // 确定输出MIME类型
         let outputMimeType = imageFile.type;
         if (format) {
@@ -576,6 +648,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
         
         // 创建图片元素
         const img = await this.createImageFromFile(imageFile);
+        this.throwIfAborted(attemptSignal, 'imgCompress');
         
         // 获取原始图像信息
         const originalInfo = this.extractImageInfo(img, imageFile);
@@ -619,6 +692,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
         }
         
         ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        this.throwIfAborted(attemptSignal, 'imgCompress');
         
         // 转换为DataURL
         const dataURL = canvas.toDataURL(outputMimeType, quality);
@@ -641,10 +715,10 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
           originalInfo,
           processedInfo: this.extractImageInfo(img, compressedFile)
         };
-      }, 'imgCompress');
+      }, 'imgCompress', { signal });
 
       // 缓存结果
-      this.setCached(cacheKey, result.file, 600000); // 10分钟缓存
+      this.setCached(cacheKey, result.file, { ttl: 600000, tags: [`file:${imageFile.name}`] }); // 10分钟缓存
 
       const compressionRatio = result.file.size / imageFile.size;
 
@@ -661,6 +735,60 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
     }
   }
 
+  /**
+   * 批量压缩图片，逐个处理，单个文件失败不会中断整个批次
+   * @param imageFiles 图片文件数组
+   * @param options 压缩选项
+   * @returns 每个文件的压缩结果
+   */
+  async imgCompressBatch(
+    imageFiles: File[],
+    options: ImageBatchCompressOptions = {}
+  ): Promise<ImageBatchCompressResult[]> {
+    await this.ensureInitialized();
+    this.ensureNotDestroyed();
+
+    const { onProgress, ...compressOptions } = options;
+    const results: ImageBatchCompressResult[] = [];
+
+    for (const file of imageFiles) {
+      this.throwIfAborted(compressOptions.signal, 'imgCompressBatch');
+
+      try {
+        results.push({ file, success: true, result: await this.imgCompress(file, compressOptions) });
+      } catch (error) {
+        if (this.errorHandler.isCancellationError(error as Error)) {
+          throw error;
+        }
+        results.push({ file, success: false, error: (error as Error).message });
+      }
+
+      onProgress?.((results.length / imageFiles.length) * 100, results.length, imageFiles.length);
+    }
+
+    this.emit('batchCompressed', { results, total: imageFiles.length });
+    return results;
+  }
+
+  /**
+   * 以可跟踪操作的方式批量压缩图片，进度通过 operationProgress 事件通知
+   * @param imageFiles 图片文件数组
+   * @param options 压缩选项
+   * @returns 操作ID，可通过 getOperationManager() 查询状态、获取结果或取消
+   */
+  startImgCompressBatch(imageFiles: File[], options: ImageBatchCompressOptions = {}): string {
+    return this.startOperation('imgCompressBatch', ({ signal, reportProgress }) => {
+      return this.imgCompressBatch(imageFiles, {
+        ...options,
+        signal,
+        onProgress: (progress, completed, total) => {
+          reportProgress(progress);
+          options.onProgress?.(progress, completed, total);
+        }
+      });
+    }, { signal: options.signal });
+  }
+
   /**
    * 获取图像尺寸
    * @param imageFile 图片文件
@@ -669,6 +797,7 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   async getImageDimensions(imageFile: File): Promise<ImageDimensions> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
+    this.ensureBrowser('getImageDimensions');
 
     if (!isFile(imageFile) || !imageFile.type.startsWith('image/')) {
       throw this.handleError(new Error('Parameter must be an image file'), 'getImageDimensions');
@@ -687,6 +816,24 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
     }
   }
 
+  /**
+   * 清除指定文件的转换和压缩缓存
+   * @param fileName 文件名
+   * @returns 清除的缓存项数量
+   */
+  invalidateFileCache(fileName: string): number {
+    return this.invalidateCacheTag(`file:${fileName}`);
+  }
+
+  /**
+   * 确保当前为浏览器环境，服务端环境下抛出明确的错误
+   * @param method 方法名称
+   * @param feature 依赖的浏览器功能
+   */
+  private ensureBrowser(method: string, feature: string = 'Canvas image processing'): void {
+    Environment.requireBrowser(feature, 'ImageManager', method);
+  }
+
   /**
    * 检查浏览器支持
    */
@@ -709,8 +856,9 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
    * 初始化Canvas
    */
   private initializeCanvas(): void {
-    if (typeof document !== 'undefined') {
-      this.canvas = document.createElement('canvas');
+    const doc = Environment.getDocument();
+    if (doc) {
+      this.canvas = doc.createElement('canvas');
       this.context = this.canvas.getContext('2d', this.options.canvasContextOptions) || undefined;
       
       if (!this.context) {
@@ -763,15 +911,21 @@ export class ImageManager extends BaseManager<ImageManagerOptions> {
   }
 }
 
-// 创建默认实例
-const defaultImageManager = new ImageManager();
+/**
+ * 获取默认图像管理器实例，便捷函数均使用该实例
+ * 可通过 ManagerRegistry.provide('ImageManager', manager) 替换为自定义实例
+ */
+export function getImageManager(): ImageManager {
+  return ManagerRegistry.resolve('ImageManager', () => new ImageManager());
+}
 
 // 导出便捷函数（保持向后兼容）
 export async function blobToDataURL(blob: Blob): Promise<string> {
-  if (!defaultImageManager.getStatus().initialized) {
-    await defaultImageManager.initialize();
+  const manager = getImageManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultImageManager.blobToDataURL(blob);
+  const result = await manager.blobToDataURL(blob);
   return result.result;
 }
 
@@ -799,10 +953,11 @@ export function imageToDataURL(
 }
 
 export async function dataURLToImage(dataURL: string): Promise<HTMLImageElement> {
-  if (!defaultImageManager.getStatus().initialized) {
-    await defaultImageManager.initialize();
+  const manager = getImageManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultImageManager.dataURLToImage(dataURL);
+  const result = await manager.dataURLToImage(dataURL);
   return result.result;
 }
 
@@ -857,10 +1012,11 @@ export async function imgConvert(
   imageFile: File,
   options: ImageConvertOptions
 ): Promise<File> {
-  if (!defaultImageManager.getStatus().initialized) {
-    await defaultImageManager.initialize();
+  const manager = getImageManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultImageManager.imgConvert(imageFile, options);
+  const result = await manager.imgConvert(imageFile, options);
   return result.result;
 }
 
@@ -868,10 +1024,11 @@ export async function imgCompress(
   imageFile: File,
   options: ImageCompressOptions = {}
 ): Promise<File> {
-  if (!defaultImageManager.getStatus().initialized) {
-    await defaultImageManager.initialize();
+  const manager = getImageManager();
+  if (!manager.getStatus().initialized) {
+    await manager.initialize();
   }
-  const result = await defaultImageManager.imgCompress(imageFile, options);
+  const result = await manager.imgCompress(imageFile, options);
   return result.result;
 }
 
@@ -6,6 +6,9 @@
  * @date 2024-07-20
  */
 
+import type { CacheConfig as CoreCacheConfig, EventMap } from '../core/types';
+import { ProcessedError, RetryPolicy } from './errors';
+
 /**
  * 基础配置接口
  * 所有模块配置的基础接口
@@ -17,10 +20,39 @@ export interface BaseOptions {
   timeout?: number;
   /** 失败重试次数 */
   retries?: number;
-  /** 是否启用缓存 */
-  cache?: boolean;
+  /** 是否启用缓存，传入配置对象时可指定持久化存储等选项 */
+  cache?: boolean | CoreCacheConfig;
   /** 缓存过期时间（毫秒） */
   cacheTTL?: number;
+  /** 重试策略（退避、抖动、重试条件等） */
+  retryPolicy?: RetryPolicy;
+  /** 生命周期钩子 */
+  hooks?: LifecycleHooks;
+}
+
+/**
+ * 管理器默认配置类型
+ * retryPolicy 与 hooks 没有统一的默认值，子类的 getDefaultOptions 可以省略，由 BaseManager 补为空对象
+ */
+export type ManagerDefaultOptions<T extends BaseOptions> =
+  Omit<Required<T>, 'retryPolicy' | 'hooks'> & Partial<Pick<T, 'retryPolicy' | 'hooks'>>;
+
+/**
+ * 可取消操作的选项
+ */
+export interface CancelableOptions {
+  /** 用于取消操作的信号 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 安全执行选项
+ */
+export interface SafeExecuteOptions extends CancelableOptions {
+  /** 失败重试次数，默认使用管理器配置 */
+  retries?: number;
+  /** 单次执行超时时间（毫秒），默认使用管理器配置 */
+  timeout?: number;
 }
 
 /**
@@ -64,6 +96,75 @@ export interface LifecycleHooks {
   onError?: (error: Error) => void | Promise<void>;
 }
 
+/**
+ * 管理器事件映射：在基础事件上合并模块事件，同名事件以模块定义为准
+ */
+export type ManagerEvents<E extends EventMap> = Omit<BaseManagerEvents, keyof E> & E;
+
+/**
+ * 状态变更事件
+ */
+export interface StateChangeEvent {
+  /** 变更前状态 */
+  from: ModuleState;
+  /** 变更后状态 */
+  to: ModuleState;
+}
+
+/**
+ * 插件事件
+ */
+export interface PluginEvent {
+  /** 插件对象 */
+  plugin: IPlugin<any>;
+}
+
+/**
+ * 所有管理器共有的事件
+ */
+export interface BaseManagerEvents {
+  /** 初始化完成 */
+  initialized: [];
+  /** 发生错误 */
+  error: [error: ProcessedError];
+  /** 操作被主动取消 */
+  cancelled: [error: ProcessedError];
+  /** 配置已更新 */
+  optionsUpdated: [options: BaseOptions];
+  /** 生命周期状态变更 */
+  stateChange: [event: StateChangeEvent];
+  /** 已启动 */
+  started: [];
+  /** 已停止 */
+  stopped: [];
+  /** 已暂停 */
+  paused: [];
+  /** 已恢复 */
+  resumed: [];
+  /** 即将销毁 */
+  beforeDestroy: [];
+  /** 已销毁 */
+  destroyed: [];
+  /** 异步操作开始 */
+  operationStarted: [result: AsyncOperationResult];
+  /** 异步操作进度 */
+  operationProgress: [result: AsyncOperationResult];
+  /** 异步操作完成 */
+  operationCompleted: [result: AsyncOperationResult];
+  /** 异步操作失败 */
+  operationFailed: [result: AsyncOperationResult];
+  /** 异步操作取消 */
+  operationCancelled: [result: AsyncOperationResult];
+  /** 插件已注册 */
+  pluginRegistered: [event: PluginEvent];
+  /** 插件已注销 */
+  pluginUnregistered: [event: PluginEvent];
+  /** 插件已启用 */
+  pluginEnabled: [event: PluginEvent];
+  /** 插件已禁用 */
+  pluginDisabled: [event: PluginEvent];
+}
+
 /**
  * 基础管理器接口
  */
@@ -294,7 +395,7 @@ export interface ICache<T = any> {
 /**
  * 插件接口
  */
-export interface IPlugin {
+export interface IPlugin<M = IBaseManager> {
   /** 插件名称 */
   readonly name: string;
   /** 插件版本 */
@@ -303,13 +404,13 @@ export interface IPlugin {
   readonly description?: string;
   /** 插件作者 */
   readonly author?: string;
-  /** 依赖的插件 */
+  /** 依赖的插件，支持 `name` 或 `name@range`（如 `logger@^1.2.0`） */
   readonly dependencies?: string[];
   
   /** 安装插件 */
-  install(manager: IBaseManager): void | Promise<void>;
+  install(manager: M): void | Promise<void>;
   /** 卸载插件 */
-  uninstall(manager: IBaseManager): void | Promise<void>;
+  uninstall(manager: M): void | Promise<void>;
   /** 插件是否已安装 */
   isInstalled(): boolean;
 }
@@ -317,15 +418,15 @@ export interface IPlugin {
 /**
  * 插件管理器接口
  */
-export interface IPluginManager {
+export interface IPluginManager<M = IBaseManager> {
   /** 注册插件 */
-  register(plugin: IPlugin): void;
+  register(plugin: IPlugin<M>): void;
   /** 卸载插件 */
   unregister(name: string): void;
   /** 获取插件 */
-  get(name: string): IPlugin | undefined;
+  get(name: string): IPlugin<M> | undefined;
   /** 获取所有插件 */
-  getAll(): IPlugin[];
+  getAll(): IPlugin<M>[];
   /** 检查插件是否存在 */
   has(name: string): boolean;
   /** 启用插件 */
@@ -334,22 +435,58 @@ export interface IPluginManager {
   disable(name: string): Promise<void>;
 }
 
+/**
+ * 单个操作的耗时统计（毫秒）
+ */
+export interface OperationMetrics {
+  /** 执行次数 */
+  count: number;
+  /** 失败次数 */
+  errors: number;
+  /** 平均耗时 */
+  average: number;
+  /** 最短耗时 */
+  min: number;
+  /** 最长耗时 */
+  max: number;
+  /** 最近一次耗时 */
+  last: number;
+  /** 中位数 */
+  p50: number;
+  /** 90 分位 */
+  p90: number;
+  /** 95 分位 */
+  p95: number;
+  /** 99 分位 */
+  p99: number;
+}
+
 /**
  * 性能监控指标
  */
 export interface PerformanceMetrics {
   /** 初始化时间（毫秒） */
   initTime: number;
-  /** API调用时间（毫秒） */
+  /** API调用时间（毫秒，所有操作的平均耗时） */
   apiCallTime: number;
   /** 内存使用量（字节） */
   memoryUsage: number;
   /** 缓存命中率 */
   cacheHitRate: number;
-  /** 错误率 */
+  /** 错误率（失败操作数 / 操作总数） */
   errorRate: number;
   /** 吞吐量（操作/秒） */
   throughput: number;
+  /** 操作总数 */
+  totalOperations: number;
+  /** 失败操作数 */
+  totalErrors: number;
+  /** 缓存命中次数 */
+  cacheHits: number;
+  /** 缓存未命中次数 */
+  cacheMisses: number;
+  /** 按操作名称统计的耗时 */
+  operations: Record<string, OperationMetrics>;
 }
 
 /**
@@ -386,10 +523,30 @@ export interface ValidationRule {
   max?: number;
   /** 正则表达式 */
   pattern?: RegExp;
-  /** 自定义验证函数 */
-  validator?: (value: any) => boolean | string;
+  /** 允许的取值 */
+  enum?: readonly any[];
+  /** 嵌套对象的字段规则（type 为 object 时生效） */
+  rules?: ValidationRule[];
+  /** 数组元素规则（type 为 array 时生效） */
+  items?: Omit<ValidationRule, 'field'>;
+  /** 自定义验证函数，返回 false 或错误信息表示验证失败 */
+  validator?: (value: any, config: any) => boolean | string;
   /** 默认值 */
   default?: any;
+  /** 验证失败时的错误信息，覆盖默认信息 */
+  message?: string;
+}
+
+/**
+ * 单个验证错误
+ */
+export interface ValidationIssue {
+  /** 字段路径，如 `retryPolicy.delay`、`items[0]` */
+  path: string;
+  /** 错误信息 */
+  message: string;
+  /** 实际值 */
+  value?: any;
 }
 
 /**
@@ -398,9 +555,11 @@ export interface ValidationRule {
 export interface ValidationResult {
   /** 是否有效 */
   valid: boolean;
-  /** 错误信息 */
+  /** 错误信息（`路径: 信息`） */
   errors: string[];
-  /** 验证后的配置 */
+  /** 带路径的错误详情 */
+  issues: ValidationIssue[];
+  /** 验证后的配置（已填充默认值） */
   config: any;
 }
 
@@ -477,20 +636,51 @@ export interface AsyncOperationResult<T = any> {
   endTime?: number;
   /** 进度百分比 */
   progress?: number;
+  /** 操作名称 */
+  name?: string;
+}
+
+/**
+ * 异步操作执行上下文
+ */
+export interface AsyncOperationContext {
+  /** 操作ID */
+  id: string;
+  /** 取消信号，调用 cancel(id) 或外部信号取消时触发 */
+  signal: AbortSignal;
+  /** 报告进度（0-100） */
+  reportProgress(progress: number): void;
+}
+
+/**
+ * 异步操作选项
+ */
+export interface AsyncOperationOptions extends CancelableOptions {
+  /** 操作ID，默认自动生成 */
+  id?: string;
+  /** 操作名称，用于区分操作类型 */
+  name?: string;
 }
 
 /**
  * 异步操作管理器接口
  */
 export interface IAsyncOperationManager {
-  /** 执行异步操作 */
-  execute<T>(operation: () => Promise<T>, id?: string): Promise<AsyncOperationResult<T>>;
+  /** 启动异步操作并立即返回操作ID */
+  start<T>(operation: (context: AsyncOperationContext) => Promise<T>, options?: AsyncOperationOptions): string;
+  /** 执行异步操作并等待结果 */
+  execute<T>(
+    operation: (context: AsyncOperationContext) => Promise<T>,
+    idOrOptions?: string | AsyncOperationOptions
+  ): Promise<AsyncOperationResult<T>>;
+  /** 等待操作结束 */
+  wait<T>(id: string): Promise<AsyncOperationResult<T>>;
   /** 取消操作 */
-  cancel(id: string): boolean;
+  cancel(id: string, reason?: any): boolean;
   /** 获取操作状态 */
   getStatus(id: string): AsyncOperationStatus | undefined;
   /** 获取操作结果 */
   getResult<T>(id: string): AsyncOperationResult<T> | undefined;
-  /** 清理已完成的操作 */
-  cleanup(): void;
+  /** 清理已结束的操作 */
+  cleanup(maxAge?: number): void;
 }
\ No newline at end of file
@@ -30,6 +30,8 @@ export enum ErrorType {
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   /** 外部错误 - 第三方服务错误 */
   EXTERNAL_ERROR = 'EXTERNAL_ERROR',
+  /** 取消错误 - 操作被调用方主动取消（AbortSignal） */
+  CANCELLED_ERROR = 'CANCELLED_ERROR',
   /** 未知错误 - 无法分类的错误 */
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
@@ -360,12 +362,29 @@ export interface RetryConfig {
   backoffMultiplier?: number;
   /** 最大延迟时间 */
   maxDelay?: number;
+  /** 延迟抖动策略 */
+  jitter?: RetryJitter;
   /** 重试条件函数 */
   shouldRetry?: (error: Error, attempt: number) => boolean;
-  /** 重试前的钩子 */
-  onRetry?: (error: Error, attempt: number) => void;
+  /** 重试前的钩子，delay 为本次等待时间（毫秒） */
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+  /** 取消信号，取消后停止等待与重试 */
+  signal?: AbortSignal;
 }
 
+/**
+ * 重试延迟抖动策略
+ * - none: 不抖动，严格指数退避
+ * - full: 在 [0, 退避延迟] 内随机
+ * - decorrelated: 在 [delay, 上次延迟 * 3] 内随机
+ */
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
+/**
+ * 管理器重试策略，重试次数由管理器的 retries 选项决定
+ */
+export type RetryPolicy = Partial<Omit<RetryConfig, 'maxRetries' | 'signal'>>;
+
 /**
  * 错误重试结果
  */
@@ -388,7 +407,7 @@ export interface RetryResult<T> {
 export interface IErrorRetrier {
   /** 执行带重试的操作 */
   retry<T>(
-    operation: () => Promise<T>,
+    operation: (attempt: number) => Promise<T>,
     config?: Partial<RetryConfig>
   ): Promise<RetryResult<T>>;
   
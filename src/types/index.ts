@@ -148,6 +148,8 @@ export interface ImageCompressOptions {
   maintainAspectRatio?: boolean;
   /** 背景颜色（用于透明图片转换） */
   backgroundColor?: string;
+  /** 用于取消压缩的信号 */
+  signal?: AbortSignal;
 }
 
 /**
@@ -228,6 +230,8 @@ export interface FileReadOptions {
   enableProgress?: boolean;
   /** 进度回调函数 */
   onProgress?: (progress: number) => void;
+  /** 用于取消读取的信号 */
+  signal?: AbortSignal;
 }
 
 /**
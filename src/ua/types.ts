@@ -2,7 +2,7 @@
  * UA 相关类型定义
  */
 
-import { BaseOptions } from '../types/core';
+import { BaseOptions, IPlugin } from '../types/core';
 
 /**
  * 浏览器信息
@@ -106,6 +106,11 @@ export interface VersionRange {
   version: string;
 }
 
+/**
+ * 请求头，支持 Node.js 的 IncomingHttpHeaders、Fetch API 的 Headers 和普通对象
+ */
+export type UARequestHeaders = Headers | Record<string, string | string[] | undefined>;
+
 /**
  * UA 管理器选项
  */
@@ -113,4 +118,26 @@ export interface UAManagerOptions extends BaseOptions {
   enablePlugins?: boolean;
   maxCacheSize?: number;
   parseTimeout?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * UA 管理器事件映射
+ */
+export interface UAManagerEvents {
+  /** 解析命中缓存 */
+  cacheHit: [event: { ua: string }];
+  /** 解析完成 */
+  parsed: [event: { ua: string; result: ParsedUA }];
+  /** 解析失败 */
+  parseError: [event: { ua: string; error: unknown }];
+  /** 生成了 UA 字符串 */
+  generated: [event: { spec: UAGenerateSpec; result: string }];
+  /** 注册了插件（解析插件或通用插件） */
+  pluginRegistered: [event: { plugin: UAParserPlugin | IPlugin<any> }];
+  /** 移除了解析插件 */
+  pluginRemoved: [event: { plugin: UAParserPlugin }];
+  /** 插件解析命中 */
+  pluginHit: [event: { plugin: UAParserPlugin; ua: string }];
+  /** 统计信息已重置 */
+  statsReset: [];
+}
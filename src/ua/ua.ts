@@ -3,26 +3,22 @@
  * 继承 BaseManager，统一架构模式
  */
 
-import type { ParsedUA, UAParserPlugin, ModernBrowserOptions, UAGenerateSpec, UAManagerOptions } from './types';
+import type { ParsedUA, UAParserPlugin, ModernBrowserOptions, UAGenerateSpec, UAManagerOptions, UAManagerEvents, UARequestHeaders } from './types';
 import { parseUA } from './parser';
 import { generateUA } from './generator';
 import { satisfies, isModern } from './comparator';
 import { BaseManager } from '../core/BaseManager';
-import { BaseOptions } from '../types/core';
+import { ManagerRegistry } from '../core/ManagerRegistry';
+import { Environment } from '../core/Environment';
+import { BaseOptions, CancelableOptions, IPlugin, ValidationRule } from '../types/core';
 
 
 
 /**
  * UA 管理器类 - 继承 BaseManager
  */
-export class UAManager extends BaseManager<UAManagerOptions> {
+export class UAManager extends BaseManager<UAManagerOptions, UAManagerEvents> {
   private plugins: UAParserPlugin[] = [];
-  private parseStats = {
-    totalParses: 0,
-    cacheHits: 0,
-    pluginHits: 0,
-    errors: 0
-  };
 
   /**
    * 构造函数
@@ -42,12 +38,26 @@ export class UAManager extends BaseManager<UAManagerOptions> {
       retries: 1,
       cache: true,
       cacheTTL: 300000, // 5 minutes
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000 },
+      hooks: {},
       enablePlugins: true,
       maxCacheSize: 1000,
       parseTimeout: 1000
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'enablePlugins', type: 'boolean' },
+      { field: 'maxCacheSize', type: 'number', min: 0 },
+      { field: 'parseTimeout', type: 'number', min: 0 }
+    ];
+  }
+
   /**
    * 初始化管理器
    */
@@ -76,59 +86,45 @@ export class UAManager extends BaseManager<UAManagerOptions> {
   }
 
   /**
-   * 销毁管理器
+   * 销毁管理器时清理插件和统计信息
    */
-  destroy(): void {
-    if (this.destroyed) {
-      return;
-    }
-
+  protected onDestroy(): void {
     this.logger.info('Destroying UA Manager');
 
     // 清理插件
     this.plugins = [];
-
-    // 重置统计信息
-    this.parseStats = {
-      totalParses: 0,
-      cacheHits: 0,
-      pluginHits: 0,
-      errors: 0
-    };
-
-    // 调用基类销毁方法
-    this.baseDestroy();
-
-    this.logger.info('UA Manager destroyed');
   }
 
   /**
    * 解析 UA 字符串，支持缓存和插件
    * @param ua UA 字符串，默认使用当前环境的 UA
+   * @param options 选项，可传入 signal 取消解析
    * @returns 只读的解析结果
    */
-  async parse(ua?: string): Promise<Readonly<ParsedUA>> {
+  async parse(ua?: string, options: CancelableOptions = {}): Promise<Readonly<ParsedUA>> {
     await this.ensureInitialized();
     this.ensureNotDestroyed();
 
     const userAgent = ua || this.getCurrentUA();
-    this.parseStats.totalParses++;
 
     try {
+      this.throwIfAborted(options.signal, 'parse');
+
       // 检查缓存
       if (this.options.cache && this.cache) {
-        const cached = this.getCached<ParsedUA>(`parse:${userAgent}`);
+        const cached = await this.getCachedAsync<ParsedUA>(`parse:${userAgent}`);
         if (cached) {
-          this.parseStats.cacheHits++;
           this.emit('cacheHit', { ua: userAgent });
-          return cached;
+          // 从持久化存储回填的结果未冻结
+          return Object.isFrozen(cached) ? cached : this.freezeParseResult(cached);
         }
       }
 
       // 使用安全执行包装解析逻辑
       const result = await this.safeExecute(
         () => this.performParse(userAgent),
-        'parse'
+        'parse',
+        { signal: options.signal }
       );
 
       // 冻结对象确保不可变
@@ -143,7 +139,6 @@ export class UAManager extends BaseManager<UAManagerOptions> {
       return frozenResult;
 
     } catch (error) {
-      this.parseStats.errors++;
       this.emit('parseError', { ua: userAgent, error });
       throw error;
     }
@@ -159,14 +154,13 @@ export class UAManager extends BaseManager<UAManagerOptions> {
     this.ensureNotDestroyed();
 
     const userAgent = ua || this.getCurrentUA();
-    this.parseStats.totalParses++;
+    const startTime = Date.now();
 
     try {
       // 检查缓存
       if (this.options.cache && this.cache) {
         const cached = this.getCached<ParsedUA>(`parse:${userAgent}`);
         if (cached) {
-          this.parseStats.cacheHits++;
           return cached;
         }
       }
@@ -179,14 +173,24 @@ export class UAManager extends BaseManager<UAManagerOptions> {
         this.setCached(`parse:${userAgent}`, frozenResult, 5 * 60 * 1000);
       }
 
+      this.performanceMonitor.recordTiming('parseSync', Date.now() - startTime);
       return frozenResult;
 
     } catch (error) {
-      this.parseStats.errors++;
+      this.performanceMonitor.recordTiming('parseSync', Date.now() - startTime, true);
       throw this.handleError(error as Error, 'parseSync');
     }
   }
 
+  /**
+   * 从请求头解析 UA，用于服务端渲染
+   * @param headers 请求头
+   * @returns 只读的解析结果
+   */
+  parseHeaders(headers: UARequestHeaders): Readonly<ParsedUA> {
+    return this.parseSync(getUserAgentFromHeaders(headers));
+  }
+
   /**
    * 生成 UA 字符串
    * @param spec 生成规格
@@ -263,10 +267,16 @@ export class UAManager extends BaseManager<UAManagerOptions> {
   }
 
   /**
-   * 注册解析插件
+   * 注册解析插件，传入通用插件（IPlugin）时交由插件管理器处理
    * @param plugin 插件对象
    */
-  use(plugin: UAParserPlugin): void {
+  use(plugin: UAParserPlugin): void;
+  use(plugin: IPlugin<this>): Promise<this>;
+  use(plugin: UAParserPlugin | IPlugin<this>): void | Promise<this> {
+    if (plugin && typeof (plugin as IPlugin<this>).install === 'function') {
+      return super.use(plugin as IPlugin<this>);
+    }
+
     this.ensureInitializedSync();
     this.ensureNotDestroyed();
 
@@ -285,7 +295,7 @@ export class UAManager extends BaseManager<UAManagerOptions> {
         }
       });
 
-      this.plugins.push(plugin);
+      this.plugins.push(plugin as UAParserPlugin);
       this.emit('pluginRegistered', { plugin });
       this.logger.info(`Plugin registered: ${plugin.constructor.name || 'Anonymous'}`);
 
@@ -312,7 +322,7 @@ export class UAManager extends BaseManager<UAManagerOptions> {
   }
 
   /**
-   * 获取统计信息
+   * 获取统计信息：未命中缓存的解析取自 getMetrics() 中的 parse/parseSync 操作，命中缓存的解析取自缓存命中次数
    */
   getStats(): {
     totalParses: number;
@@ -323,40 +333,35 @@ export class UAManager extends BaseManager<UAManagerOptions> {
     pluginCount: number;
     cacheSize?: number;
   } {
-    const cacheHitRate = this.parseStats.totalParses > 0 
-      ? this.parseStats.cacheHits / this.parseStats.totalParses 
-      : 0;
+    const metrics = this.performanceMonitor.getMetrics();
+    const { parse, parseSync, pluginParse } = metrics.operations;
+    const totalParses = (parse?.count ?? 0) + (parseSync?.count ?? 0) + metrics.cacheHits;
 
     return {
-      ...this.parseStats,
-      cacheHitRate,
+      totalParses,
+      cacheHits: metrics.cacheHits,
+      pluginHits: pluginParse?.count ?? 0,
+      errors: (parse?.errors ?? 0) + (parseSync?.errors ?? 0),
+      cacheHitRate: totalParses > 0 ? metrics.cacheHits / totalParses : 0,
       pluginCount: this.plugins.length,
       cacheSize: this.cache?.size()
     };
   }
 
   /**
-   * 重置统计信息
+   * 重置统计信息（同时重置 getMetrics() 的性能指标）
    */
   resetStats(): void {
-    this.parseStats = {
-      totalParses: 0,
-      cacheHits: 0,
-      pluginHits: 0,
-      errors: 0
-    };
+    this.performanceMonitor.resetMetrics();
     this.emit('statsReset');
   }
 
   /**
-   * 获取当前环境的 UA 字符串
+   * 获取当前环境的 UA 字符串，服务端环境返回空字符串（请使用 parseHeaders 解析请求头）
    * @returns UA 字符串
    */
   getCurrentUA(): string {
-    if (typeof navigator !== 'undefined' && navigator.userAgent) {
-      return navigator.userAgent;
-    }
-    return '';
+    return Environment.getUserAgent();
   }
 
   /**
@@ -392,9 +397,10 @@ export class UAManager extends BaseManager<UAManagerOptions> {
       for (const plugin of this.plugins) {
         try {
           if (plugin.test(userAgent)) {
+            const pluginStart = Date.now();
             const pluginResult = plugin.parse(userAgent);
             if (pluginResult) {
-              this.parseStats.pluginHits++;
+              this.performanceMonitor.recordTiming('pluginParse', Date.now() - pluginStart);
               // 合并插件结果和默认解析结果
               const defaultResult = parseUA(userAgent);
               this.emit('pluginHit', { plugin, ua: userAgent });
@@ -445,27 +451,22 @@ export class UAManager extends BaseManager<UAManagerOptions> {
   }
 }
 
-/**
- * 全局 UA 管理器实例
- */
-let globalUAManager: UAManager | null = null;
-
 /**
  * UA 工具类 - 保持向后兼容的静态接口
  */
 export class UA {
   /**
-   * 获取全局管理器实例
+   * 获取全局管理器实例，可通过 ManagerRegistry.provide('UAManager', manager) 替换
    */
   private static getManager(): UAManager {
-    if (!globalUAManager) {
-      globalUAManager = new UAManager();
+    return ManagerRegistry.resolve('UAManager', () => {
+      const manager = new UAManager();
       // 自动初始化
-      globalUAManager.initialize().catch(error => {
+      manager.initialize().catch(error => {
         console.error('Failed to initialize global UA manager:', error);
       });
-    }
-    return globalUAManager;
+      return manager;
+    });
   }
 
   /**
@@ -480,10 +481,20 @@ export class UA {
   /**
    * 异步解析 UA 字符串
    * @param ua UA 字符串，默认使用当前环境的 UA
+   * @param options 选项，可传入 signal 取消解析
+   * @returns 只读的解析结果
+   */
+  static async parseAsync(ua?: string, options?: CancelableOptions): Promise<Readonly<ParsedUA>> {
+    return UA.getManager().parse(ua, options);
+  }
+
+  /**
+   * 从请求头解析 UA，用于服务端渲染
+   * @param headers 请求头
    * @returns 只读的解析结果
    */
-  static async parseAsync(ua?: string): Promise<Readonly<ParsedUA>> {
-    return UA.getManager().parse(ua);
+  static parseHeaders(headers: UARequestHeaders): Readonly<ParsedUA> {
+    return UA.getManager().parseHeaders(headers);
   }
 
   /**
@@ -565,9 +576,10 @@ export class UA {
    * 重置全局管理器（主要用于测试）
    */
   static resetManager(): void {
-    if (globalUAManager) {
-      globalUAManager.destroy();
-      globalUAManager = null;
+    const manager = ManagerRegistry.getDefault<UAManager>('UAManager');
+    if (manager) {
+      ManagerRegistry.provide('UAManager', null);
+      manager.destroy();
     }
   }
 }
@@ -589,6 +601,30 @@ export function parseUserAgent(ua: string): Readonly<ParsedUA> {
   return UA.parse(ua);
 }
 
+/**
+ * 便捷函数：从请求头解析 UA
+ * @param headers 请求头
+ * @returns 解析结果
+ */
+export function parseUserAgentFromHeaders(headers: UARequestHeaders): Readonly<ParsedUA> {
+  return UA.parseHeaders(headers);
+}
+
+/**
+ * 从请求头中读取 User-Agent（请求头名称不区分大小写）
+ * @param headers 请求头
+ * @returns UA 字符串，不存在时返回空字符串
+ */
+export function getUserAgentFromHeaders(headers: UARequestHeaders): string {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    return headers.get('user-agent') || '';
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find(name => name.toLowerCase() === 'user-agent');
+  const value = key ? record[key] : undefined;
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
+
 /**
  * 便捷函数：检查版本兼容性
  * @param range 版本范围
@@ -604,5 +640,6 @@ export default {
   UA,
   getCurrentUA,
   parseUserAgent,
+  parseUserAgentFromHeaders,
   isCompatible
 };
\ No newline at end of file
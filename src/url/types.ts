@@ -83,4 +83,22 @@ export interface UrlManagerOptions extends BaseOptions {
   allowedProtocols?: string[];
   /** 最大 URL 长度 */
   maxUrlLength?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * URL 管理器事件映射
+ */
+export interface UrlManagerEvents {
+  /** 查询参数被整体替换 */
+  queryChanged: [params: QueryParams];
+  /** 添加了查询参数 */
+  queryAdded: [params: QueryParams];
+  /** 移除了查询参数 */
+  queryRemoved: [keys: string | string[]];
+  /** 哈希值已更新 */
+  hashChanged: [hash: string];
+  /** 路径名已更新 */
+  pathnameChanged: [pathname: string];
+  /** URL 已重置 */
+  urlReset: [url: string];
+}
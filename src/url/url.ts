@@ -2,17 +2,19 @@
  * URL 主要功能类
  */
 
-import type { UrlInfo, QueryParams, UrlBuildOptions, UrlValidateOptions, UrlManagerOptions } from './types';
+import type { UrlInfo, QueryParams, UrlBuildOptions, UrlValidateOptions, UrlManagerOptions, UrlManagerEvents } from './types';
 import { parseQuery, stringifyQuery } from './parser';
 import { normalizeUrl, addQuery, removeQuery, isValidUrl } from './utils';
 import { BaseManager } from '../core/BaseManager';
+import { Environment } from '../core/Environment';
 import { ErrorType } from '../core/types';
+import { ValidationRule } from '../types/core';
 
 /**
  * URL 管理类
  * 继承 BaseManager，提供统一的架构和错误处理
  */
-export class UrlManager extends BaseManager<UrlManagerOptions> {
+export class UrlManager extends BaseManager<UrlManagerOptions, UrlManagerEvents> {
   private _url: string;
   private _urlObj: URL;
 
@@ -24,7 +26,7 @@ export class UrlManager extends BaseManager<UrlManagerOptions> {
       
     super(normalizedOptions, 'UrlManager');
     
-    this._url = normalizedOptions?.url || (typeof window !== 'undefined' ? window.location.href : 'http://localhost');
+    this._url = normalizedOptions?.url || Environment.getLocation()?.href || 'http://localhost';
     
     try {
       this._urlObj = new URL(this._url);
@@ -49,13 +51,28 @@ export class UrlManager extends BaseManager<UrlManagerOptions> {
       timeout: 5000,
       retries: 1,
       cache: true,
-      url: typeof window !== 'undefined' ? window.location.href : 'http://localhost',
+      retryPolicy: { delay: 1000, backoffMultiplier: 2, maxDelay: 5000 },
+      hooks: {},
+      url: Environment.getLocation()?.href || 'http://localhost',
       validateUrls: true,
       allowedProtocols: ['http:', 'https:'],
       maxUrlLength: 2048
     };
   }
 
+  /**
+   * 获取选项验证规则
+   */
+  protected getOptionsSchema(): ValidationRule[] {
+    return [
+      ...super.getOptionsSchema(),
+      { field: 'url', type: 'string' },
+      { field: 'validateUrls', type: 'boolean' },
+      { field: 'allowedProtocols', type: 'array', items: { type: 'string', pattern: /^[a-z][a-z0-9+.-]*:$/i } },
+      { field: 'maxUrlLength', type: 'number', min: 1 }
+    ];
+  }
+
   /**
    * 初始化管理器
    */
@@ -85,9 +102,8 @@ export class UrlManager extends BaseManager<UrlManagerOptions> {
   /**
    * 销毁管理器
    */
-  destroy(): void {
-    this.baseDestroy();
-    this.logger.info('UrlManager destroyed');
+  protected onDestroy(): void {
+    this.logger.info('Destroying UrlManager');
   }
 
   /**
@@ -111,7 +127,8 @@ export class UrlManager extends BaseManager<UrlManagerOptions> {
           hash: this._urlObj.hash,
           host: this._urlObj.host
         };
-        this.setCached(cacheKey, info, 60000); // 缓存1分钟
+        // 解析结果只在同步路径中读取，不写入持久化存储
+        this.setCached(cacheKey, info, { ttl: 60000, persist: false }); // 缓存1分钟
         return info;
       })();
     } catch (error) {
@@ -130,7 +147,7 @@ export class UrlManager extends BaseManager<UrlManagerOptions> {
       const cacheKey = `query:${this._urlObj.search}`;
       return this.getCached(cacheKey) || (() => {
         const params = parseQuery(this._urlObj.search);
-        this.setCached(cacheKey, params, 30000); // 缓存30秒
+        this.setCached(cacheKey, params, { ttl: 30000, persist: false }); // 缓存30秒
         return params;
       })();
     } catch (error) {
@@ -369,7 +386,12 @@ export class UrlManager extends BaseManager<UrlManagerOptions> {
  */
 export function getUrl(url?: string): UrlInfo {
   const manager = new UrlManager(url);
-  return manager.getUrlInfo();
+  try {
+    return manager.getUrlInfo();
+  } finally {
+    // 临时实例用完即销毁，避免在管理器注册表和性能指标汇总中堆积
+    void manager.destroy();
+  }
 }
 
 /**
@@ -408,8 +430,9 @@ export function buildUrl(options: UrlBuildOptions): string {
  * @returns 查询参数对象
  */
 export function getQuery(): QueryParams {
-  if (typeof window === 'undefined') return {};
-  return parseQuery(window.location.search);
+  const location = Environment.getLocation();
+  if (!location) return {};
+  return parseQuery(location.search);
 }
 
 /**
@@ -417,8 +440,9 @@ export function getQuery(): QueryParams {
  * @returns 哈希值 (不包含 #)
  */
 export function getHash(): string {
-  if (typeof window === 'undefined') return '';
-  return window.location.hash.slice(1);
+  const location = Environment.getLocation();
+  if (!location) return '';
+  return location.hash.slice(1);
 }
 
 // 默认导出
@@ -1,5 +1,7 @@
 import clipboard, { ClipboardManager } from '../src/clipboard';
 import * as domUtils from '../src/utils/dom';
+import { ManagerRegistry, MemoryCacheStorage } from '../src/core';
+import { dataURLtoImgBlob } from '../src/image';
 
 // Mock navigator.clipboard
 const mockClipboard = {
@@ -166,6 +168,29 @@ describe('ClipboardManager', () => {
       expect(result).toBe(true);
       expect(mockDocumentMethods.execCommand).toHaveBeenCalledWith('copy');
     });
+
+    it('should sanitize HTML with the allowlist before copying', async () => {
+      mockClipboard.write.mockResolvedValue(undefined);
+      const callback = jest.fn();
+      manager.onCopy(callback);
+
+      await manager.copyHTML('<p onclick="steal()">safe<script>steal()</script><svg><animate onbegin="steal()"></svg></p>');
+      await manager.copyHTML('<h1>Title</h1><p><b>bold</b></p>', { sanitizer: 'plain' });
+
+      expect(callback.mock.calls.map(([data]) => data.data)).toEqual(['<p>safe</p>', 'Title<p>bold</p>']);
+    });
+
+    it('should use the updated htmlSanitizer option after updateOptions', async () => {
+      mockClipboard.write.mockResolvedValue(undefined);
+      const callback = jest.fn();
+      manager.onCopy(callback);
+
+      await manager.copyHTML('<h1>a</h1>');
+      manager.updateOptions({ htmlSanitizer: 'plain' });
+      await manager.copyHTML('<h1>b</h1>');
+
+      expect(callback.mock.calls.map(([data]) => data.data)).toEqual(['<h1>a</h1>', 'b']);
+    });
   });
 
   describe('copyElement', () => {
@@ -257,6 +282,18 @@ describe('ClipboardManager', () => {
       expect(mockClipboard.read).toHaveBeenCalled();
     });
 
+    it('should sanitize HTML read from clipboard', async () => {
+      const html = '<p>text<img src=x onerror="steal()"><a href="java&#x09;script:steal()">link</a></p>';
+      mockClipboard.read.mockResolvedValue([{
+        types: ['text/html'],
+        getType: jest.fn().mockResolvedValue({ text: jest.fn().mockResolvedValue(html) })
+      }]);
+
+      expect(await manager.readHTML()).toBe('<p>text<img src="x"><a>link</a></p>');
+      expect(await manager.readHTML({ sanitizer: 'plain' })).toBe('<p>textlink</p>');
+      expect(await manager.readHTML({ sanitizeHtml: false })).toBe(html);
+    });
+
     it('should handle missing HTML content gracefully', async () => {
       const mockItem = {
         types: ['text/plain']
@@ -311,6 +348,793 @@ describe('ClipboardManager', () => {
     });
   });
 
+  describe('readFiles', () => {
+    it('should reject with a cancellation error when aborted', async () => {
+      mockClipboard.read.mockReturnValue(new Promise(() => {}));
+      const cancelled = jest.fn();
+      const errored = jest.fn();
+      manager.on('cancelled', cancelled);
+      manager.on('error', errored);
+
+      const controller = new AbortController();
+      const promise = manager.readFiles({ signal: controller.signal });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ type: 'CANCELLED_ERROR' });
+      expect(cancelled).toHaveBeenCalled();
+      expect(errored).not.toHaveBeenCalled();
+    });
+
+    it('should not retry after cancellation', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(manager.readFiles({ signal: controller.signal }))
+        .rejects.toMatchObject({ type: 'CANCELLED_ERROR' });
+      expect(mockClipboard.read).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('write', () => {
+    // 模拟 execCommand('copy') 触发 copy 事件，返回事件中写入的数据
+    const simulateCopyEvent = () => {
+      const setData = jest.fn();
+      mockDocumentMethods.execCommand.mockImplementation(() => {
+        const [, listener] = mockDocumentMethods.addEventListener.mock.calls.filter(([type]) => type === 'copy').pop()!;
+        listener({ clipboardData: { setData }, preventDefault: jest.fn() });
+        return true;
+      });
+      return setData;
+    };
+
+    beforeEach(() => {
+      // HtmlToTextConverter 需要真实的 DOM 元素
+      mockDocumentMethods.createElement.mockImplementation((tag: string) => Document.prototype.createElement.call(document, tag));
+    });
+
+    afterEach(() => {
+      delete (global.ClipboardItem as any).supports;
+      mockDocumentMethods.createElement.mockReset();
+      mockDocumentMethods.execCommand.mockReset();
+    });
+
+    it('should write all representations in one ClipboardItem and derive missing ones', async () => {
+      (global.ClipboardItem as any).supports = jest.fn().mockReturnValue(true);
+      mockClipboard.write.mockResolvedValue(undefined);
+      const callback = jest.fn();
+      manager.onCopy(callback);
+
+      await expect(manager.write({
+        html: '<p onclick="x()">Hello <b>world</b></p>',
+        custom: { 'application/x-editor': '{"doc":1}' }
+      })).resolves.toBe(true);
+
+      expect(mockClipboard.write).toHaveBeenCalledTimes(1);
+      const [[[item]]] = mockClipboard.write.mock.calls;
+      expect(Object.keys(item.data).sort()).toEqual(['text/html', 'text/plain', 'text/rtf', 'web application/x-editor']);
+
+      const data = callback.mock.calls[0][0];
+      expect(data).toMatchObject({ type: 'html', data: '<p>Hello <b>world</b></p>', mimeType: 'text/html' });
+      expect(data.representations['text/plain']).toBe('Hello world');
+      expect(data.representations['text/rtf']).toContain('Hello world');
+    });
+
+    it('should only derive the requested representations', async () => {
+      (global.ClipboardItem as any).supports = jest.fn().mockReturnValue(true);
+      mockClipboard.write.mockResolvedValue(undefined);
+
+      await manager.write({ text: 'plain' }, { derive: ['html'] });
+      await manager.write({ text: 'plain' }, { derive: false });
+
+      expect(mockClipboard.write.mock.calls.map(([[item]]) => Object.keys(item.data).sort()))
+        .toEqual([['text/html', 'text/plain'], ['text/plain']]);
+    });
+
+    it('should mirror the full set through a copy event when ClipboardItem rejects a type', async () => {
+      const setData = simulateCopyEvent();
+
+      await expect(manager.write({ text: 'a\tb', rtf: '{\\rtf1 a}', custom: { 'web text/x-cell': 'A1' } })).resolves.toBe(true);
+
+      expect(mockClipboard.write).not.toHaveBeenCalled();
+      expect(setData.mock.calls.map(([type]) => type).sort()).toEqual(['text/html', 'text/plain', 'text/rtf', 'text/x-cell']);
+      expect(setData).toHaveBeenCalledWith('text/plain', 'a\tb');
+      expect(mockDocumentMethods.removeEventListener).toHaveBeenCalledWith('copy', expect.any(Function), true);
+    });
+
+    it('should skip derived representations the browser does not support instead of falling back', async () => {
+      mockClipboard.write.mockResolvedValue(undefined);
+
+      await expect(manager.write({ text: 'plain' })).resolves.toBe(true);
+
+      expect(mockDocumentMethods.execCommand).not.toHaveBeenCalled();
+      const [[[item]]] = mockClipboard.write.mock.calls;
+      expect(Object.keys(item.data).sort()).toEqual(['text/html', 'text/plain']);
+    });
+
+    it('should write text and image together through the modern API', async () => {
+      mockClipboard.write.mockResolvedValue(undefined);
+      const image = new Blob(['png'], { type: 'image/png' });
+      const callback = jest.fn();
+      manager.onCopy(callback);
+
+      await expect(manager.write({ text: 'caption', image })).resolves.toBe(true);
+
+      expect(mockDocumentMethods.execCommand).not.toHaveBeenCalled();
+      const [[[item]]] = mockClipboard.write.mock.calls;
+      expect(item.data['image/png']).toBe(image);
+      expect(Object.keys(item.data).sort()).toEqual(['image/png', 'text/html', 'text/plain']);
+      expect(callback.mock.calls[0][0].representations['image/png']).toBe(image);
+    });
+
+    it('should not report success when a provided representation would be dropped', async () => {
+      const setData = simulateCopyEvent();
+      const image = new Blob(['png'], { type: 'image/png' });
+
+      await expect(manager.write({ rtf: '{\\rtf1 a}', image }))
+        .rejects.toMatchObject({ message: expect.stringContaining('text/rtf') });
+      expect(mockClipboard.write).not.toHaveBeenCalled();
+      expect(setData).not.toHaveBeenCalled();
+
+      mockClipboard.write.mockRejectedValue(new Error('NotAllowedError'));
+      await expect(manager.write({ text: 'caption', image })).rejects.toMatchObject({ message: 'NotAllowedError' });
+      expect(setData).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the copy event when the modern API fails', async () => {
+      (global.ClipboardItem as any).supports = jest.fn().mockReturnValue(true);
+      mockClipboard.write.mockRejectedValue(new Error('NotAllowedError'));
+      const setData = simulateCopyEvent();
+
+      await expect(manager.write({ html: '<p>x</p>' })).resolves.toBe(true);
+      expect(setData).toHaveBeenCalledWith('text/html', '<p>x</p>');
+
+      await expect(manager.write({ html: '<p>x</p>' }, { fallback: false }))
+        .rejects.toMatchObject({ message: 'NotAllowedError' });
+    });
+
+    it('should reject when no representation is provided', async () => {
+      await expect(manager.write({})).rejects.toMatchObject({ message: expect.stringContaining('No clipboard representations') });
+    });
+  });
+
+  describe('copyImage', () => {
+    const pngDataURL = 'data:image/png;base64,iVBORw0KGgo=';
+    let imageManager: Record<string, jest.Mock | string>;
+
+    beforeEach(() => {
+      // jsdom 没有 canvas 实现，用替身替换默认的 ImageManager
+      imageManager = {
+        state: 'initialized',
+        destroy: jest.fn(),
+        ready: jest.fn().mockResolvedValue(undefined),
+        dataURLtoImgBlob: jest.fn((dataURL: string) => ({ result: dataURLtoImgBlob(dataURL) })),
+        imageToDataURL: jest.fn().mockReturnValue({ result: pngDataURL }),
+        blobToDataURL: jest.fn().mockResolvedValue({ result: pngDataURL }),
+        imgConvert: jest.fn(async (file: File) => ({ result: new File([file], 'converted.png', { type: 'image/png' }) })),
+        imgCompress: jest.fn(async (file: File) => ({ result: new File(['small'], file.name, { type: file.type }) }))
+      };
+      ManagerRegistry.provide('ImageManager', imageManager as any);
+      mockClipboard.write.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      ManagerRegistry.provide('ImageManager', null);
+      delete (global.ClipboardItem as any).supports;
+    });
+
+    it('should write PNG images as-is', async () => {
+      const callback = jest.fn();
+      manager.onCopy(callback);
+      const png = new Blob(['png'], { type: 'image/png' });
+
+      await expect(manager.copyImage(png)).resolves.toBe(true);
+
+      expect(mockClipboard.write).toHaveBeenCalledWith([{ data: { 'image/png': png } }]);
+      expect(imageManager.imgConvert).not.toHaveBeenCalled();
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'image', data: png, mimeType: 'image/png' }));
+    });
+
+    it('should transcode to PNG when the browser only accepts PNG', async () => {
+      await manager.copyImage(new Blob(['jpeg'], { type: 'image/jpeg' }));
+
+      expect(imageManager.imgConvert).toHaveBeenCalledWith(expect.any(File), { format: 'png' });
+      const [[[item]]] = mockClipboard.write.mock.calls;
+      expect(Object.keys(item.data)).toEqual(['image/png']);
+    });
+
+    it('should keep the original type when ClipboardItem.supports accepts it', async () => {
+      (global.ClipboardItem as any).supports = jest.fn().mockReturnValue(true);
+
+      await manager.copyImage(new Blob(['webp'], { type: 'image/webp' }));
+
+      expect(imageManager.imgConvert).not.toHaveBeenCalled();
+      expect(Object.keys(mockClipboard.write.mock.calls[0][0][0].data)).toEqual(['image/webp']);
+    });
+
+    it('should accept data URLs, canvas and img sources', async () => {
+      const canvas = { nodeType: 1, tagName: 'CANVAS', toDataURL: jest.fn().mockReturnValue(pngDataURL) };
+      const img = { nodeType: 1, tagName: 'IMG', src: 'https://example.com/a.png' };
+
+      await manager.copyImage(pngDataURL);
+      await manager.copyImage(canvas as any);
+      await manager.copyImage(img as any);
+
+      expect(canvas.toDataURL).toHaveBeenCalledWith('image/png');
+      expect(imageManager.imageToDataURL).toHaveBeenCalledWith(img, 'png');
+      const types = mockClipboard.write.mock.calls.map(([[item]]) => (Object.values(item.data)[0] as Blob).type);
+      expect(types).toEqual(['image/png', 'image/png', 'image/png']);
+    });
+
+    it('should compress through ImageManager before writing', async () => {
+      await manager.copyImage(new Blob(['large png'], { type: 'image/png' }), { compress: { quality: 0.5 } });
+
+      expect(imageManager.imgCompress).toHaveBeenCalledWith(expect.any(File), { quality: 0.5 });
+      expect((mockClipboard.write.mock.calls[0][0][0].data['image/png'] as Blob).size).toBe(5);
+    });
+
+    it('should fall back to copying <img> HTML when image writes are unsupported', async () => {
+      (global.ClipboardItem as any).supports = jest.fn((type: string) => !type.startsWith('image/'));
+      const callback = jest.fn();
+      manager.onCopy(callback);
+
+      await expect(manager.copyImage(new Blob(['png'], { type: 'image/png' }))).resolves.toBe(true);
+
+      expect(Object.keys(mockClipboard.write.mock.calls[0][0][0].data)).toEqual(['text/html']);
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'html', data: `<img src="${pngDataURL}">` }));
+    });
+
+    it('should reject when image writes fail and htmlFallback is disabled', async () => {
+      mockClipboard.write.mockRejectedValue(new Error('NotAllowedError'));
+
+      await expect(manager.copyImage(new Blob(['png'], { type: 'image/png' }), { htmlFallback: false }))
+        .rejects.toMatchObject({ message: 'NotAllowedError' });
+    });
+
+    it('should reject invalid image sources', async () => {
+      await expect(manager.copyImage('https://example.com/a.png'))
+        .rejects.toMatchObject({ message: expect.stringContaining('Invalid image source') });
+    });
+  });
+
+  describe('readImage', () => {
+    const item = (types: string[]) => ({
+      types,
+      getType: jest.fn(async (type: string) => new Blob([type], { type }))
+    });
+
+    it('should return the first preferred image type available', async () => {
+      mockClipboard.read.mockResolvedValue([item(['text/html', 'image/png', 'image/jpeg'])]);
+
+      const image = await manager.readImage({ preferredTypes: ['image/webp', 'image/jpeg'] });
+
+      expect(image.type).toBe('image/jpeg');
+    });
+
+    it('should fall back to the first image and honour acceptedTypes', async () => {
+      mockClipboard.read.mockResolvedValue([item(['text/plain']), item(['image/gif', 'image/png'])]);
+
+      expect((await manager.readImage()).type).toBe('image/gif');
+      expect((await manager.readImage({ acceptedTypes: ['image/png'] })).type).toBe('image/png');
+    });
+
+    it('should reject when the clipboard holds no image', async () => {
+      mockClipboard.read.mockResolvedValue([item(['text/plain'])]);
+
+      await expect(manager.readImage()).rejects.toMatchObject({ message: 'No image content found in clipboard' });
+    });
+
+    it('should be available through read({ format: "image" })', async () => {
+      mockClipboard.read.mockResolvedValue([item(['image/png'])]);
+
+      const result = await manager.read({ format: 'image', fallback: false });
+
+      expect(result).toEqual(expect.objectContaining({ type: 'image', mimeType: 'image/png', size: 9 }));
+    });
+  });
+
+  describe('history', () => {
+    const systemListener = (type: string) =>
+      mockDocumentMethods.addEventListener.mock.calls.filter(([eventType]) => eventType === type).pop()![1];
+
+    it('should be disabled by default', () => {
+      expect(manager.history).toBeUndefined();
+    });
+
+    it('should record library copies and system clipboard events', async () => {
+      const historyManager = new ClipboardManager({ history: { sources: ['copy', 'read', 'systemCopy', 'systemPaste'] } });
+      await historyManager.ready();
+      mockClipboard.writeText.mockResolvedValue(undefined);
+      mockClipboard.readText.mockResolvedValue('read text');
+
+      await historyManager.copyText('copied text');
+      await historyManager.readText();
+      systemListener('copy')({
+        target: { tagName: 'INPUT', type: 'password', value: 'hunter2', selectionStart: 0, selectionEnd: 7 },
+        clipboardData: { getData: jest.fn().mockReturnValue('') }
+      });
+      systemListener('paste')({
+        target: null,
+        clipboardData: { files: [new File(['x'], 'pasted.png', { type: 'image/png' })], getData: jest.fn() }
+      });
+
+      expect(historyManager.history!.getEntries()).toEqual([
+        expect.objectContaining({ type: 'files', source: 'systemPaste' }),
+        expect.objectContaining({ type: 'text', data: '[REDACTED]', redacted: true, source: 'systemCopy' }),
+        expect.objectContaining({ type: 'text', data: 'read text', source: 'read' }),
+        expect.objectContaining({ type: 'text', data: 'copied text', source: 'copy' })
+      ]);
+      await historyManager.destroy();
+    });
+
+    it('should not record copy events fired by its own execCommand fallback twice', async () => {
+      const historyManager = new ClipboardManager({ history: true });
+      await historyManager.ready();
+      const copyListener = systemListener('copy');
+      mockClipboard.writeText.mockRejectedValue(new Error('Permission denied'));
+      mockDocumentMethods.createElement.mockReturnValue({ value: '', style: {}, focus: jest.fn(), select: jest.fn(), setSelectionRange: jest.fn() });
+      mockDocumentMethods.execCommand.mockImplementation(() => {
+        copyListener({ target: null, clipboardData: { getData: jest.fn().mockReturnValue('fallback text') } });
+        return true;
+      });
+
+      await historyManager.copyText('fallback text');
+
+      expect(historyManager.history!.getEntries()).toEqual([
+        expect.objectContaining({ data: 'fallback text', source: 'copy', count: 1 })
+      ]);
+      mockDocumentMethods.execCommand.mockReset();
+      await historyManager.destroy();
+    });
+
+    it('should restore history from storage when initialized', async () => {
+      const storage = new MemoryCacheStorage();
+      const first = new ClipboardManager({ history: { storage } });
+      await first.ready();
+      mockClipboard.writeText.mockResolvedValue(undefined);
+      await first.copyText('survives reload');
+      await first.history!.flush();
+      await first.destroy();
+
+      const second = new ClipboardManager({ history: { storage } });
+      await second.ready();
+
+      expect(second.history!.search('reload')).toEqual([expect.objectContaining({ data: 'survives reload' })]);
+      await second.destroy();
+    });
+
+    it('should remove system listeners when destroyed', async () => {
+      const historyManager = new ClipboardManager();
+      await historyManager.ready();
+      const copyListener = systemListener('copy');
+
+      await historyManager.destroy();
+
+      expect(mockDocumentMethods.removeEventListener).toHaveBeenCalledWith('copy', copyListener);
+    });
+  });
+
+  describe('attachPasteTarget', () => {
+    let target: HTMLElement;
+
+    const transfer = (data: Record<string, string>, files: File[] = []) => ({
+      types: [...Object.keys(data), ...(files.length > 0 ? ['Files'] : [])],
+      files,
+      getData: (type: string) => data[type] || '',
+      dropEffect: 'none'
+    });
+
+    const dispatch = (type: string, dataTransfer: ReturnType<typeof transfer>) => {
+      const event = new Event(type, { cancelable: true });
+      Object.defineProperty(event, type === 'paste' ? 'clipboardData' : 'dataTransfer', { value: dataTransfer });
+      target.dispatchEvent(event);
+      return event;
+    };
+
+    beforeEach(() => {
+      // copyElement 的测试会替换 getElement
+      jest.restoreAllMocks();
+      target = Document.prototype.createElement.call(document, 'div');
+    });
+
+    it('should normalize pasted content and dispatch it by kind', () => {
+      const handlers = {
+        onPaste: jest.fn(),
+        onText: jest.fn(),
+        onHtml: jest.fn(),
+        onImages: jest.fn(),
+        onFiles: jest.fn(),
+        onUris: jest.fn(),
+        onCustom: jest.fn()
+      };
+      const image = new File(['png'], 'shot.png', { type: 'image/png' });
+      const doc = new File(['# notes'], 'notes.md', { type: 'text/markdown' });
+      manager.attachPasteTarget(target, handlers);
+
+      const event = dispatch('paste', transfer({
+        'text/plain': 'hello',
+        'text/html': '<p onclick="x()">hello</p><script>alert(1)</script>',
+        'text/uri-list': '# comment\r\nhttps://a.example\r\nhttps://b.example',
+        'application/x-app': '{"id":1}'
+      }, [image, doc]));
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(handlers.onPaste.mock.calls[0][0].map((item: any) => item.kind))
+        .toEqual(['image', 'file', 'text', 'html', 'uri-list', 'custom']);
+      expect(handlers.onText).toHaveBeenCalledWith('hello', event);
+      expect(handlers.onHtml.mock.calls[0][0]).not.toMatch(/script|onclick/);
+      expect(handlers.onImages).toHaveBeenCalledWith([image], event);
+      expect(handlers.onFiles).toHaveBeenCalledWith([doc], event);
+      expect(handlers.onUris).toHaveBeenCalledWith(['https://a.example', 'https://b.example'], event);
+      expect(handlers.onCustom).toHaveBeenCalledWith([expect.objectContaining({ mimeType: 'application/x-app', data: '{"id":1}' })], event);
+    });
+
+    it('should reject items by accepted types, size and validation rules', () => {
+      const onPaste = jest.fn();
+      const onRejected = jest.fn();
+      manager.attachPasteTarget(target, { onPaste, onRejected }, {
+        acceptedTypes: ['text/plain', 'image/*', '.csv'],
+        maxSize: 10,
+        validationRules: [{ name: 'no-secret', validate: data => typeof data !== 'string' || !data.includes('secret') }]
+      });
+
+      dispatch('paste', transfer({ 'text/plain': 'secret', 'text/html': '<b>x</b>' }, [
+        new File(['a,b'], 'table.csv', { type: 'text/csv' }),
+        new File(['0123456789ab'], 'big.png', { type: 'image/png' })
+      ]));
+
+      expect(onPaste.mock.calls[0][0]).toEqual([expect.objectContaining({ kind: 'file', mimeType: 'text/csv' })]);
+      expect(onRejected.mock.calls[0][0].map(({ item, reason }: any) => [item.mimeType, reason])).toEqual([
+        ['image/png', 'Item exceeds maximum size limit (10 bytes)'],
+        ['text/plain', 'Validation failed for rule: no-secret'],
+        ['text/html', 'Type text/html is not accepted']
+      ]);
+    });
+
+    it('should isolate throwing validation rules and keep string results of optional rules as warnings', () => {
+      const onPaste = jest.fn();
+      const onRejected = jest.fn();
+      manager.attachPasteTarget(target, { onPaste, onRejected }, {
+        validationRules: [
+          {
+            name: 'json-only',
+            validate: data => {
+              if (typeof data === 'string' && data.startsWith('{')) {
+                JSON.parse(data);
+              }
+              return true;
+            }
+          },
+          { name: 'short', validate: data => typeof data === 'string' && data.length > 3 ? 'Text is long' : true }
+        ]
+      });
+
+      dispatch('paste', transfer({ 'text/plain': 'hello', 'application/x-app': '{broken' }));
+
+      expect(onPaste.mock.calls[0][0]).toEqual([expect.objectContaining({ kind: 'text', data: 'hello' })]);
+      expect(onRejected.mock.calls[0][0]).toEqual([{
+        item: expect.objectContaining({ mimeType: 'application/x-app' }),
+        reason: expect.stringMatching(/^Validation rule 'json-only' threw an error/)
+      }]);
+    });
+
+    it('should control preventDefault', () => {
+      const onText = jest.fn();
+      manager.attachPasteTarget(target, { onText }, { acceptedTypes: ['text/html'] });
+      expect(dispatch('paste', transfer({ 'text/plain': 'plain' })).defaultPrevented).toBe(false);
+
+      const other = Document.prototype.createElement.call(document, 'div');
+      const decide = jest.fn().mockReturnValue(false);
+      manager.attachPasteTarget(other, { onText }, { preventDefault: decide });
+      target = other;
+      expect(dispatch('paste', transfer({ 'text/plain': 'plain' })).defaultPrevented).toBe(false);
+      expect(decide).toHaveBeenCalledWith([expect.objectContaining({ kind: 'text' })], expect.any(Event));
+      expect(onText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle dropped content the same way as pasted content', () => {
+      const onImages = jest.fn();
+      manager.attachPasteTarget(target, { onImages });
+      const image = new File(['png'], 'drop.png', { type: 'image/png' });
+
+      const over = transfer({});
+      expect(dispatch('dragover', over).defaultPrevented).toBe(true);
+      expect(over.dropEffect).toBe('copy');
+      expect(dispatch('drop', transfer({}, [image])).defaultPrevented).toBe(true);
+      expect(onImages).toHaveBeenCalledWith([image], expect.any(Event));
+
+      const noDrop = Document.prototype.createElement.call(document, 'div');
+      manager.attachPasteTarget(noDrop, { onImages }, { drop: false });
+      target = noDrop;
+      dispatch('drop', transfer({}, [image]));
+      expect(onImages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prevent the browser from opening rejected dropped files', () => {
+      const onImages = jest.fn();
+      const onRejected = jest.fn();
+      manager.attachPasteTarget(target, { onImages, onRejected }, { acceptedTypes: ['image/*'] });
+      const archive = new File(['zip'], 'data.zip', { type: 'application/zip' });
+
+      expect(dispatch('drop', transfer({}, [archive])).defaultPrevented).toBe(true);
+      expect(onRejected).toHaveBeenCalledWith([expect.objectContaining({ reason: expect.any(String) })], expect.any(Event));
+      expect(onImages).not.toHaveBeenCalled();
+      expect(dispatch('paste', transfer({}, [archive])).defaultPrevented).toBe(false);
+    });
+
+    it('should stop listening after dispose or destroy', async () => {
+      const onText = jest.fn();
+      const dispose = manager.attachPasteTarget(target, { onText });
+      dispose();
+      dispatch('paste', transfer({ 'text/plain': 'after dispose' }));
+
+      manager.attachPasteTarget(target, { onText });
+      await manager.destroy();
+      dispatch('paste', transfer({ 'text/plain': 'after destroy' }));
+
+      expect(onText).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an invalid element', () => {
+      expect(() => manager.attachPasteTarget('#missing', {})).toThrow();
+    });
+  });
+
+  describe('bindCopy', () => {
+    let container: HTMLElement;
+    let createElement: ReturnType<typeof mockDocumentMethods.createElement.getMockImplementation>;
+
+    const create = (tag: string, attributes: Record<string, string> = {}, text = '') => {
+      const element = Document.prototype.createElement.call(document, tag) as HTMLElement;
+      Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+      element.textContent = text;
+      return element;
+    };
+
+    const click = (trigger: Element, eventName: string) => {
+      const result = new Promise<CustomEvent>(resolve => {
+        trigger.addEventListener(eventName, event => resolve(event as CustomEvent), { once: true });
+      });
+      trigger.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+      return result;
+    };
+
+    const liveRegion = () => mockBody.appendChild.mock.calls
+      .map(([node]) => node as HTMLElement)
+      .find(node => node.getAttribute?.('role') === 'status');
+
+    beforeEach(() => {
+      // copyElement 的测试会替换 getElement
+      jest.restoreAllMocks();
+      createElement = mockDocumentMethods.createElement.getMockImplementation();
+      mockDocumentMethods.createElement.mockImplementation((tag: string) => Document.prototype.createElement.call(document, tag));
+      mockClipboard.writeText.mockResolvedValue(undefined);
+      mockClipboard.write.mockResolvedValue(undefined);
+      container = create('div');
+      document.documentElement.appendChild(container);
+    });
+
+    afterEach(() => {
+      container.remove();
+      mockDocumentMethods.createElement.mockImplementation(createElement);
+    });
+
+    it('should copy the attribute value, mark the trigger and announce success', async () => {
+      const button = create('button', { 'data-copy': 'npm install js-use-core' });
+      container.appendChild(button);
+      manager.bindCopy(container);
+
+      const event = await click(button, 'copy-success');
+
+      expect(mockClipboard.writeText).toHaveBeenCalledWith('npm install js-use-core');
+      expect(event.bubbles).toBe(true);
+      expect(event.detail).toEqual({ trigger: button, format: 'text', data: 'npm install js-use-core' });
+      expect(button.getAttribute('data-copy-state')).toBe('copied');
+      expect(liveRegion()).toMatchObject({ textContent: 'Copied to clipboard' });
+      expect(liveRegion()!.getAttribute('aria-live')).toBe('polite');
+    });
+
+    it('should write again when the same trigger is clicked after other content was copied', async () => {
+      const button = create('button', { 'data-copy': 'npm install js-use-core' });
+      container.appendChild(button);
+      manager.bindCopy(container);
+      const onCopy = jest.fn();
+      manager.onCopy(onCopy);
+
+      await click(button, 'copy-success');
+      await manager.copyText('something else');
+      await click(button, 'copy-success');
+
+      expect(mockClipboard.writeText.mock.calls.map(([text]) => text))
+        .toEqual(['npm install js-use-core', 'something else', 'npm install js-use-core']);
+      expect(onCopy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should copy referenced targets as text, input value or HTML', async () => {
+      const code = create('pre', { id: 'snippet' });
+      code.innerHTML = '<b>const</b> a = 1;';
+      const input = create('input', { id: 'token' }) as HTMLInputElement;
+      input.value = 'secret-value';
+      const textButton = create('button', { 'data-copy-target': '#snippet' });
+      const inputButton = create('button', { 'data-copy-target': '#token' });
+      const htmlButton = create('button', { 'data-copy-target': '#snippet', 'data-copy-format': 'html' });
+      container.append(code, input, textButton, inputButton, htmlButton);
+      manager.bindCopy(container, { selector: '[data-copy-target]' });
+
+      await click(textButton, 'copy-success');
+      expect(mockClipboard.writeText).toHaveBeenLastCalledWith('const a = 1;');
+
+      await click(inputButton, 'copy-success');
+      expect(mockClipboard.writeText).toHaveBeenLastCalledWith('secret-value');
+
+      const event = await click(htmlButton, 'copy-success');
+      expect(event.detail).toMatchObject({ format: 'html', data: '<b>const</b> a = 1;' });
+      expect(mockClipboard.write).toHaveBeenCalled();
+    });
+
+    it('should use a function source and report failures with custom messages', async () => {
+      const source = jest.fn().mockResolvedValue('from function');
+      const button = create('a', { class: 'copy', href: '#' });
+      const missing = create('button', { 'data-copy': '', 'data-copy-target': '#missing', 'data-copy-error': 'Nothing found' });
+      container.append(button, missing);
+      manager.bindCopy(container, { selector: '.copy', source, successMessage: 'Done' });
+      manager.bindCopy(container, { announce: false });
+
+      const clickEvent = new MouseEvent('click', { bubbles: true, cancelable: true });
+      const copied = new Promise(resolve => button.addEventListener('copy-success', resolve, { once: true }));
+      button.dispatchEvent(clickEvent);
+      await copied;
+      expect(clickEvent.defaultPrevented).toBe(true);
+      expect(source).toHaveBeenCalledWith(button, clickEvent);
+      expect(mockClipboard.writeText).toHaveBeenCalledWith('from function');
+      expect(liveRegion()!.textContent).toBe('Done');
+
+      const failed = await click(missing, 'copy-error');
+      expect(failed.detail.error).toEqual(new Error('Nothing to copy for trigger'));
+      expect(missing.getAttribute('data-copy-state')).toBe('error');
+
+      mockClipboard.writeText.mockRejectedValue(new Error('denied'));
+      source.mockResolvedValue('will fail');
+      const error = await click(button, 'copy-error');
+      expect(error.detail).toMatchObject({ data: 'will fail' });
+      expect(liveRegion()!.textContent).toBe('Copy failed');
+    });
+
+    it('should reset the state after the feedback duration', async () => {
+      const button = create('button', { 'data-copy': 'temporary' });
+      container.appendChild(button);
+      manager.bindCopy(container, { feedbackDuration: 10, announce: false });
+
+      await click(button, 'copy-success');
+      expect(button.getAttribute('data-copy-state')).toBe('copied');
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(button.hasAttribute('data-copy-state')).toBe(false);
+      expect(liveRegion()).toBeUndefined();
+    });
+
+    it('should clean up after dispose or destroy', async () => {
+      const button = create('button', { 'data-copy': 'value' });
+      container.appendChild(button);
+      const dispose = manager.bindCopy(container);
+
+      await click(button, 'copy-success');
+      const region = liveRegion()!;
+      const remove = jest.spyOn(region, 'remove');
+      dispose();
+      expect(button.hasAttribute('data-copy-state')).toBe(false);
+      expect(remove).toHaveBeenCalled();
+
+      manager.bindCopy(container);
+      await manager.destroy();
+      button.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(mockClipboard.writeText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw for an invalid container', () => {
+      expect(() => manager.bindCopy('#missing')).toThrow('Invalid container provided for copy binding');
+    });
+  });
+
+  describe('convertDataFormat', () => {
+    it('should convert between HTML, Markdown and RTF', async () => {
+      const markdown = await manager.convertDataFormat('<h2>Notes</h2><ul><li><strong>Done</strong></li></ul>', 'html', 'markdown');
+      expect(markdown).toBe('## Notes\n\n- **Done**');
+      expect(await manager.convertDataFormat(markdown, 'markdown', 'html'))
+        .toBe('<h2>Notes</h2><ul><li><strong>Done</strong></li></ul>');
+      expect(await manager.convertDataFormat('{\\rtf1\\ansi \\i Hi\\i0\\par}', 'rtf', 'html')).toBe('<p><em>Hi</em></p>');
+    });
+
+    it('should clean up Office HTML as an html to html conversion', async () => {
+      const html = '<p class="MsoNormal" style="mso-margin-top-alt:auto"><span lang="EN-US">Pasted</span><o:p></o:p></p>';
+      expect(await manager.convertDataFormat(html, 'html', 'html')).toBe('<p>Pasted</p>');
+      expect(await manager.convertDataFormat('plain', 'text', 'text')).toBe('plain');
+    });
+
+    it('should chain converters through intermediate formats and report the route', async () => {
+      const result = await manager.convertDataWithRoute('{\\rtf1\\ansi \\b Bold\\b0\\par}', 'rtf', 'markdown');
+
+      expect(result).toEqual({
+        data: '**Bold**',
+        from: 'rtf',
+        to: 'markdown',
+        converted: true,
+        chain: ['RtfToHtmlConverter', 'HtmlToMarkdownConverter'],
+        path: ['rtf', 'html', 'markdown'],
+        cost: 2,
+        fromCache: false
+      });
+      expect(await manager.convertDataWithRoute('x', 'files', 'text')).toMatchObject({ converted: false, chain: [] });
+    });
+
+    it('should route through custom MIME type converters', async () => {
+      manager.addDataConverter({
+        fromType: 'application/x-todo+json',
+        toType: 'markdown',
+        name: 'TodoToMarkdown',
+        canConvert: (from, to) => from === 'application/x-todo+json' && to === 'markdown',
+        convert: async (data: { title: string }[]) => data.map(item => `- ${item.title}`).join('\n')
+      });
+
+      const result = await manager.convertDataWithRoute([{ title: 'Ship' }], 'application/x-todo+json', 'html');
+      expect(result).toMatchObject({ data: '<ul><li>Ship</li></ul>', chain: ['TodoToMarkdown', 'MarkdownToHtmlConverter'] });
+      expect(manager.findConversionRoute('application/x-todo+json', 'text')!.path)
+        .toEqual(['application/x-todo+json', 'markdown', 'html', 'text']);
+
+      expect(manager.removeDataConverter('TodoToMarkdown')).toBe(true);
+      expect(manager.findConversionRoute('application/x-todo+json', 'html')).toBeNull();
+    });
+
+    it('should prefer cheaper converters and reject invalid costs', async () => {
+      manager.addDataConverter({
+        fromType: 'rtf',
+        toType: 'html',
+        name: 'ExpensiveRtf',
+        cost: 5,
+        canConvert: () => true,
+        convert: async () => 'expensive'
+      });
+      expect(await manager.convertDataFormat('{\\rtf1 a}', 'rtf', 'html')).toBe('<p>a</p>');
+
+      manager.addDataConverter({
+        fromType: 'rtf',
+        toType: 'html',
+        name: 'PreferredRtf',
+        priority: 10,
+        canConvert: () => true,
+        convert: async () => 'preferred'
+      });
+      expect(await manager.convertDataFormat('{\\rtf1 a}', 'rtf', 'html')).toBe('preferred');
+
+      expect(() => manager.addDataConverter({
+        fromType: 'text', toType: 'html', name: 'Negative', cost: -1, canConvert: () => true, convert: async data => data
+      })).toThrow('cost must be a non-negative number');
+    });
+
+    it('should report the failing step', async () => {
+      await expect(manager.convertDataFormat('not a data url', 'html', 'image')).rejects.toMatchObject({
+        message: expect.stringContaining('Failed to convert data from html to image'),
+        context: expect.objectContaining({
+          extra: expect.objectContaining({ chain: ['HtmlToTextConverter', 'Base64ToImageConverter'], failedStep: 'Base64ToImageConverter' })
+        })
+      });
+    });
+
+    it('should report conversion stats from the unified metrics', async () => {
+      await manager.convertDataFormat('**a**', 'markdown', 'html');
+      await manager.convertDataFormat('**a**', 'markdown', 'html');
+      await expect(manager.convertDataFormat('not a data url', 'html', 'image')).rejects.toThrow();
+
+      const conversions = manager.getMetrics().operations.convert;
+      expect(manager.getProcessingStats()).toMatchObject({
+        conversions: 2,
+        conversionErrors: 1,
+        averageConversionTime: conversions.average
+      });
+    });
+  });
+
   describe('event listeners', () => {
     it('should add copy event listener', async () => {
       const callback = jest.fn();
@@ -348,6 +1172,27 @@ describe('ClipboardManager', () => {
       // The callback should be called when paste event is triggered
       // Note: This might not work in test environment due to event handling differences
     });
+
+    it('should sanitize pasted HTML with the configured profile', async () => {
+      const emailManager = new ClipboardManager({ htmlSanitizer: 'email' });
+      await emailManager.ready();
+      const callback = jest.fn();
+      emailManager.onPaste(callback);
+      const listener = mockDocumentMethods.addEventListener.mock.calls.filter(([type]) => type === 'paste').pop()![1];
+
+      listener({
+        clipboardData: {
+          types: ['text/html'],
+          getData: jest.fn().mockReturnValue('<font color="red" onmouseover="steal()">hi</font><img src="cid:logo">')
+        }
+      });
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'html',
+        data: '<font color="red">hi</font><img src="cid:logo">'
+      }));
+      await emailManager.destroy();
+    });
   });
 });
 
@@ -0,0 +1,85 @@
+/**
+ * 数据转换器图测试
+ */
+
+import { DataConverter } from '../../src/clipboard';
+import { DataConverterGraph } from '../../src/clipboard/converters';
+
+const converter = (fromType: string, toType: string, extra: Partial<DataConverter> = {}): DataConverter => ({
+  fromType,
+  toType,
+  name: `${fromType}->${toType}`,
+  canConvert: (from, to) => from === fromType && to === toType,
+  convert: async data => `${data}>${toType}`,
+  ...extra
+});
+
+describe('DataConverterGraph', () => {
+  it('应该查找多步路径，源和目标相同时返回空路径', () => {
+    const graph = new DataConverterGraph();
+    graph.register(converter('rtf', 'text'));
+    graph.register(converter('text', 'html'));
+    graph.register(converter('html', 'markdown'));
+
+    expect(graph.findRoute('rtf', 'markdown')).toEqual({
+      converters: [expect.objectContaining({ name: 'rtf->text' }), expect.objectContaining({ name: 'text->html' }), expect.objectContaining({ name: 'html->markdown' })],
+      path: ['rtf', 'text', 'html', 'markdown'],
+      cost: 3
+    });
+    expect(graph.findRoute('markdown', 'rtf')).toBeNull();
+    expect(graph.findRoute('text', 'text')).toEqual({ converters: [], path: ['text'], cost: 0 });
+    expect(graph.size).toBe(3);
+  });
+
+  it('应该选择总代价最小的路径，代价相同时选择步数少、优先级高、后注册的转换器', () => {
+    const graph = new DataConverterGraph();
+    graph.register(converter('a', 'c', { cost: 5 }));
+    graph.register(converter('a', 'b', { cost: 1 }));
+    graph.register(converter('b', 'c', { cost: 1 }));
+    expect(graph.findRoute('a', 'c')!.path).toEqual(['a', 'b', 'c']);
+
+    graph.register(converter('a', 'c', { cost: 2, name: 'direct' }));
+    expect(graph.findRoute('a', 'c')!.converters.map(item => item.name)).toEqual(['direct']);
+
+    graph.register(converter('a', 'c', { cost: 2, name: 'preferred', priority: 1 }));
+    graph.register(converter('a', 'c', { cost: 2, name: 'latest' }));
+    expect(graph.findRoute('a', 'c')!.converters.map(item => item.name)).toEqual(['preferred']);
+
+    graph.register(converter('a', 'c', { cost: 2, name: 'newest', priority: 1 }));
+    expect(graph.findRoute('a', 'c')!.converters.map(item => item.name)).toEqual(['newest']);
+  });
+
+  it('应该缓存路径，并在注册或移除转换器后重新计算', () => {
+    const graph = new DataConverterGraph();
+    const first = converter('x', 'y');
+    const canConvert = jest.spyOn(first, 'canConvert');
+    graph.register(first);
+
+    expect(graph.findRoute('x', 'y')!.cost).toBe(1);
+    graph.findRoute('x', 'y');
+    expect(canConvert).toHaveBeenCalledTimes(1);
+
+    graph.register(converter('x', 'y', { name: 'cheap', cost: 0.5 }));
+    expect(graph.findRoute('x', 'y')!.cost).toBe(0.5);
+
+    expect(graph.unregister('cheap')).toBe(true);
+    expect(graph.unregister('cheap')).toBe(false);
+    expect(graph.findRoute('x', 'y')!.cost).toBe(1);
+  });
+
+  it('同格式转换只使用直接转换器，同名转换器会被替换', () => {
+    const graph = new DataConverterGraph();
+    graph.register(converter('html', 'text'));
+    graph.register(converter('text', 'html'));
+    expect(graph.findRoute('html', 'html')!.converters).toEqual([]);
+
+    graph.register(converter('html', 'html', { name: 'cleanup' }));
+    graph.register(converter('html', 'html', { name: 'cleanup', cost: 3 }));
+    expect(graph.findRoute('html', 'html')).toEqual({
+      converters: [expect.objectContaining({ name: 'cleanup', cost: 3 })],
+      path: ['html', 'html'],
+      cost: 3
+    });
+    expect(graph.size).toBe(3);
+  });
+});
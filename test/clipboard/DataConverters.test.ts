@@ -0,0 +1,211 @@
+/**
+ * Markdown、RTF 和 Office HTML 数据转换器测试
+ */
+
+import {
+  HtmlToMarkdownConverter,
+  MarkdownToHtmlConverter,
+  OfficeHtmlCleanupConverter,
+  RtfToHtmlConverter
+} from '../../src/clipboard/converters';
+
+describe('HtmlToMarkdownConverter', () => {
+  const toMarkdown = (html: string) => new HtmlToMarkdownConverter().convert(html);
+
+  it('应该转换标题、段落、强调、链接和图像', async () => {
+    const html = '<h1>Title</h1><p>Some <strong>bold</strong>, <em>italic </em>and <s>gone</s> text.<br>Next line</p>'
+      + '<p><a href="https://example.com/a b" title="Home">link</a> <img src="/logo.png" alt="Logo"> <a href="javascript:alert(1)">bad</a></p>';
+
+    expect(await toMarkdown(html)).toBe([
+      '# Title',
+      '',
+      'Some **bold**, *italic* and ~~gone~~ text.  ',
+      'Next line',
+      '',
+      '[link](https://example.com/a%20b "Home") ![Logo](/logo.png) bad'
+    ].join('\n'));
+  });
+
+  it('应该转换嵌套列表、引用和代码', async () => {
+    const html = '<ul><li>One<ul><li>Nested</li></ul></li><li><p>Two</p></li></ul>'
+      + '<ol start="3"><li>Three</li><li>Four</li></ol>'
+      + '<blockquote><p>Quote</p><p>More</p></blockquote>'
+      + '<p>Use <code>a`b</code></p>'
+      + '<pre><code class="language-ts">const a = 1;\n```\n</code></pre>';
+
+    expect(await toMarkdown(html)).toBe([
+      '- One',
+      '  - Nested',
+      '- Two',
+      '',
+      '3. Three',
+      '4. Four',
+      '',
+      '> Quote',
+      '>',
+      '> More',
+      '',
+      'Use ``a`b``',
+      '',
+      '````ts',
+      'const a = 1;',
+      '```',
+      '````'
+    ].join('\n'));
+  });
+
+  it('应该转换表格并转义 Markdown 字符', async () => {
+    const html = '<table><thead><tr><th>Name</th><th align="right">Price</th></tr></thead>'
+      + '<tbody><tr><td>a|b</td><td>*1*</td></tr><tr><td>c</td></tr></tbody></table>'
+      + '<p>1. not a list # [x]</p>';
+
+    expect(await toMarkdown(html)).toBe([
+      '| Name | Price |',
+      '| --- | ---: |',
+      '| a\\|b | \\*1\\* |',
+      '| c |  |',
+      '',
+      '1\\. not a list # \\[x\\]'
+    ].join('\n'));
+  });
+
+  it('应该在转换前清理 Word 的列表段落', async () => {
+    const html = '<p class="MsoListParagraphCxSpFirst" style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">1.<span>&nbsp;&nbsp;</span></span>First</p>'
+      + '<p class="MsoListParagraphCxSpLast" style="mso-list:l0 level2 lfo1"><span style="mso-list:Ignore">a.<span>&nbsp;</span></span>Sub</p>';
+
+    expect(await toMarkdown(html)).toBe('1. First\n   1. Sub');
+  });
+});
+
+describe('MarkdownToHtmlConverter', () => {
+  const toHtml = (markdown: string) => new MarkdownToHtmlConverter().convert(markdown);
+
+  it('应该转换标题、段落和行内语法', async () => {
+    expect(await toHtml('# Title #\n\nSome **bold**, *em*, __strong__ and ~~del~~  \nwith `a < b` and \\*literal\\*.'))
+      .toBe('<h1>Title</h1><p>Some <strong>bold</strong>, <em>em</em>, <strong>strong</strong> and <del>del</del><br>with <code>a &lt; b</code> and *literal*.</p>');
+    expect(await toHtml('Setext\n===')).toBe('<h1>Setext</h1>');
+    expect(await toHtml('snake_case_name')).toBe('<p>snake_case_name</p>');
+  });
+
+  it('应该转换链接、图像并拒绝危险地址和原始 HTML', async () => {
+    expect(await toHtml('[site](https://example.com/a_b_c "Title") ![alt](/i.png) <https://auto.link> [x](javascript:alert(1)) <b>raw</b>'))
+      .toBe('<p><a href="https://example.com/a_b_c" title="Title">site</a> <img src="/i.png" alt="alt"> '
+        + '<a href="https://auto.link">https://auto.link</a> x &lt;b&gt;raw&lt;/b&gt;</p>');
+  });
+
+  it('应该转换列表、引用、代码块和分隔线', async () => {
+    const markdown = [
+      '- one',
+      '  - nested',
+      '- two',
+      '',
+      '3. three',
+      '4. four',
+      '',
+      '> quoted',
+      '',
+      '```js',
+      'if (a < b) {}',
+      '```',
+      '',
+      '---'
+    ].join('\n');
+
+    expect(await toHtml(markdown)).toBe(
+      '<ul><li>one<ul><li>nested</li></ul></li><li>two</li></ul>'
+      + '<ol start="3"><li>three</li><li>four</li></ol>'
+      + '<blockquote><p>quoted</p></blockquote>'
+      + '<pre><code class="language-js">if (a &lt; b) {}</code></pre>'
+      + '<hr>'
+    );
+    expect(await toHtml('- a\n\n- b')).toBe('<ul><li><p>a</p></li><li><p>b</p></li></ul>');
+  });
+
+  it('应该转换 GFM 表格', async () => {
+    expect(await toHtml('| Name | Price |\n|:-----|------:|\n| a\\|b | **1** |'))
+      .toBe('<table><thead><tr><th style="text-align: left">Name</th><th style="text-align: right">Price</th></tr></thead>'
+        + '<tbody><tr><td style="text-align: left">a|b</td><td style="text-align: right"><strong>1</strong></td></tr></tbody></table>');
+  });
+
+  it('HTML 转 Markdown 再转回 HTML 应该保留结构', async () => {
+    const html = '<h2>Report</h2><ul><li>Item <strong>one</strong></li><li><a href="https://example.com">two</a></li></ul>';
+    const markdown = await new HtmlToMarkdownConverter().convert(html);
+    expect(await toHtml(markdown)).toBe(html);
+  });
+});
+
+describe('RtfToHtmlConverter', () => {
+  const toHtml = (rtf: string) => new RtfToHtmlConverter().convert(rtf);
+
+  it('应该保留粗体、斜体、下划线、颜色和段落', async () => {
+    const rtf = '{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Calibri;}}{\\colortbl;\\red255\\green0\\blue0;\\red0\\green0\\blue255;}'
+      + '{\\*\\generator Word;}\\pard Plain \\b bold\\b0  \\i italic\\i0  \\ul under\\ulnone  \\strike gone\\strike0\\par'
+      + '\\cf1 red \\highlight2 on blue\\plain  reset\\line next\\par}';
+
+    expect(await toHtml(rtf)).toBe(
+      '<p>Plain <strong>bold</strong> <em>italic</em> <u>under</u> <s>gone</s></p>'
+      + '<p><span style="color: #ff0000">red </span><span style="color: #ff0000; background-color: #0000ff">on blue</span> reset<br>next</p>'
+    );
+  });
+
+  it('应该解码转义字符、Unicode 和 Windows-1252 字符', async () => {
+    expect(await toHtml('{\\rtf1\\ansi\\uc1 caf\\\'e9 \\u8364? \\\'93q\\\'94 a\\~b \\{x\\} <tag>\\par}'))
+      .toBe('<p>café € “q” a b {x} &lt;tag&gt;</p>');
+  });
+
+  it('应该转换表格', async () => {
+    const rtf = '{\\rtf1\\ansi\\pard Before\\par'
+      + '\\trowd\\cellx1000\\cellx2000\\pard\\intbl \\b A\\b0\\cell\\pard\\intbl B\\cell\\row'
+      + '\\trowd\\cellx1000\\cellx2000\\pard\\intbl C\\cell\\pard\\intbl D\\par E\\cell\\row'
+      + '\\pard After\\par}';
+
+    expect(await toHtml(rtf)).toBe(
+      '<p>Before</p>'
+      + '<table><tr><td><strong>A</strong></td><td>B</td></tr><tr><td>C</td><td>D<br>E</td></tr></table>'
+      + '<p>After</p>'
+    );
+  });
+});
+
+describe('OfficeHtmlCleanupConverter', () => {
+  const cleanup = (html: string) => new OfficeHtmlCleanupConverter().convert(html);
+
+  it('应该移除 Word 的 mso 样式、类名、命名空间标签和空段落', async () => {
+    const html = '<style>p.MsoNormal { margin: 0 }</style>'
+      + '<p class="MsoNormal" style="margin:0cm;mso-line-height-alt:12pt"><span lang="EN-US" style="mso-bidi-font-family:Arial">Hello</span><o:p></o:p></p>'
+      + '<p class="MsoNormal"><o:p>&nbsp;</o:p></p>'
+      + '<p class="MsoNormal"><span style="color:red;mso-themecolor:accent1">World</span><span></span></p>';
+
+    expect(await cleanup(html)).toBe('<p style="margin:0cm">Hello</p><p><span style="color:red">World</span></p>');
+  });
+
+  it('应该把 Word 列表段落还原为嵌套列表', async () => {
+    const html = '<p class="MsoListParagraphCxSpFirst" style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">·<span>&nbsp;</span></span>One</p>\n'
+      + '<p class="MsoListParagraphCxSpMiddle" style="mso-list:l0 level2 lfo1"><span style="mso-list:Ignore">o<span>&nbsp;</span></span>Nested</p>\n'
+      + '<p class="MsoListParagraphCxSpLast" style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">·<span>&nbsp;</span></span>Two</p>'
+      + '<p class="MsoNormal">After</p>';
+
+    expect(await cleanup(html)).toBe('<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><p>After</p>');
+  });
+
+  it('应该移除粘贴内容中的事件处理属性、嵌入内容和不安全的地址', async () => {
+    const html = '<p class="MsoNormal" onclick="evil()">Hi<img src=x onerror="evil()"></p>'
+      + '<iframe src="https://evil.example"></iframe><object data="x.swf"></object><svg><script>evil()</script></svg>'
+      + '<p><a href="javascript:evil()" onmouseover="evil()">link</a><img src="data:image/png;base64,AAAA"></p>'
+      + '<p style="color:red;background:url(javascript:evil())">styled</p>';
+
+    expect(await cleanup(html)).toBe('<p>Hi<img src="x"></p>'
+      + '<p><a>link</a><img src="data:image/png;base64,AAAA"></p>'
+      + '<p style="color:red">styled</p>');
+  });
+
+  it('应该把 Google Docs 的样式 span 还原为语义标签', async () => {
+    const html = '<b style="font-weight:normal;" id="docs-internal-guid-1234"><p dir="ltr" style="line-height:1.38;margin-top:0pt;">'
+      + '<span style="font-size:11pt;font-weight:700;font-style:normal;vertical-align:baseline;white-space:pre-wrap;">Bold</span>'
+      + '<span style="font-weight:400;font-style:italic;text-decoration:none;">Italic</span>'
+      + '<span style="font-weight:400;font-style:normal;">plain</span></p></b>';
+
+    expect(await cleanup(html)).toBe('<p dir="ltr" style="line-height:1.38; margin-top:0pt">'
+      + '<span style="font-size:11pt"><strong>Bold</strong></span><em>Italic</em>plain</p>');
+  });
+});
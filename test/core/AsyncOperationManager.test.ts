@@ -0,0 +1,100 @@
+/**
+ * 异步操作管理器测试
+ */
+
+import { AsyncOperationManager, AsyncOperationStatus, ErrorType } from '../../src/core';
+
+describe('AsyncOperationManager', () => {
+  let manager: AsyncOperationManager;
+
+  beforeEach(() => {
+    manager = new AsyncOperationManager();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  it('应该立即返回操作ID并跟踪状态和结果', async () => {
+    const id = manager.start(async () => 'done', { name: 'demo' });
+
+    expect(manager.getStatus(id)).toBe(AsyncOperationStatus.PENDING);
+    const result = await manager.wait<string>(id);
+
+    expect(result).toMatchObject({ id, name: 'demo', status: AsyncOperationStatus.COMPLETED, result: 'done', progress: 100 });
+    expect(result.endTime).toBeGreaterThanOrEqual(result.startTime);
+    expect(manager.getResult(id)).toEqual(result);
+  });
+
+  it('execute 应该通过结果返回失败而不是抛出', async () => {
+    const result = await manager.execute(() => Promise.reject(new Error('boom')), 'custom-id');
+
+    expect(result).toMatchObject({ id: 'custom-id', status: AsyncOperationStatus.FAILED });
+    expect(result.error?.message).toBe('boom');
+  });
+
+  it('应该发出进度事件并忽略重复和越界的进度', async () => {
+    const progress = jest.fn();
+    manager.on('progress', progress);
+
+    await manager.execute(async ({ reportProgress }) => {
+      reportProgress(50);
+      reportProgress(50);
+      reportProgress(150);
+    });
+
+    expect(progress.mock.calls.map(([result]) => result.progress)).toEqual([50, 100]);
+  });
+
+  it('cancel 应该中止信号并将操作标记为已取消', async () => {
+    const cancelled = jest.fn();
+    manager.on('cancelled', cancelled);
+    let signal!: AbortSignal;
+    const id = manager.start((context) => {
+      signal = context.signal;
+      return new Promise(() => undefined);
+    });
+    await Promise.resolve();
+
+    expect(manager.getStatus(id)).toBe(AsyncOperationStatus.RUNNING);
+    expect(manager.cancel(id)).toBe(true);
+    expect(manager.cancel(id)).toBe(false);
+    expect(signal.aborted).toBe(true);
+
+    const result = await manager.wait(id);
+    expect(result.status).toBe(AsyncOperationStatus.CANCELLED);
+    expect(result.error).toMatchObject({ type: ErrorType.CANCELLED_ERROR });
+    expect(cancelled).toHaveBeenCalledTimes(1);
+  });
+
+  it('外部信号取消时应该取消操作，未开始的操作不会执行', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockResolvedValue('never');
+    const id = manager.start(operation, { signal: controller.signal });
+
+    controller.abort();
+
+    expect((await manager.wait(id)).status).toBe(AsyncOperationStatus.CANCELLED);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('不应该允许重复启动执行中的同一ID', async () => {
+    manager.start(() => new Promise(() => undefined), { id: 'same' });
+
+    expect(() => manager.start(async () => 1, { id: 'same' })).toThrow('Operation "same" is already running');
+    await expect(manager.wait('missing')).rejects.toThrow('Operation "missing" not found');
+  });
+
+  it('cleanup 应该只清理已结束的操作', async () => {
+    const running = manager.start(() => new Promise(() => undefined));
+    const finished = manager.start(async () => 1);
+    await manager.wait(finished);
+
+    manager.cleanup(60000);
+    expect(manager.getResult(finished)).toBeDefined();
+
+    manager.cleanup();
+    expect(manager.getResult(finished)).toBeUndefined();
+    expect(manager.getOperations().map(result => result.id)).toEqual([running]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * 缓存存储适配器测试
+ */
+
+import {
+  Cache,
+  MemoryCacheStorage,
+  WebStorageCacheStorage,
+  defaultCacheSerializer,
+  isQuotaExceededError
+} from '../../src/core';
+
+describe('Cache 持久化存储', () => {
+  const caches: Cache[] = [];
+
+  const createCache = (config: ConstructorParameters<typeof Cache>[0]) => {
+    const cache = new Cache(config);
+    caches.push(cache);
+    return cache;
+  };
+
+  afterEach(() => {
+    caches.splice(0).forEach(cache => cache.destroy());
+    localStorage.clear();
+  });
+
+  it('同步 API 只操作内存，写入会在后台同步到存储', async () => {
+    const storage = new MemoryCacheStorage();
+    const cache = createCache({ storage, namespace: 'demo' });
+
+    cache.set('a', { value: 1 });
+    expect(cache.get('a')).toEqual({ value: 1 });
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(await storage.keys('js-use-core:demo:')).toEqual(['js-use-core:demo:a']);
+
+    cache.delete('a');
+    await Promise.resolve();
+    expect(await storage.keys('js-use-core:demo:')).toEqual([]);
+  });
+
+  it('getAsync 应该从存储读取并回填内存', async () => {
+    const storage = new MemoryCacheStorage();
+    await createCache({ storage, namespace: 'demo' }).setAsync('user', { name: 'a' });
+
+    const reloaded = createCache({ storage, namespace: 'demo' });
+    expect(reloaded.get('user')).toBeUndefined();
+    expect(await reloaded.getAsync('user')).toEqual({ name: 'a' });
+    expect(reloaded.get('user')).toEqual({ name: 'a' });
+  });
+
+  it('persist 为 false 的条目只保存在内存中', async () => {
+    const storage = new MemoryCacheStorage();
+    const cache = createCache({ storage, namespace: 'demo' });
+
+    cache.set('element', { value: 1 }, { ttl: 1000, persist: false });
+    expect(await cache.setAsync('other', { value: 2 }, { persist: false })).toBe(false);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(cache.get('element')).toEqual({ value: 1 });
+    expect(await storage.keys('js-use-core:demo:')).toEqual([]);
+  });
+
+  it('不同命名空间的缓存应该互不影响', async () => {
+    const storage = new MemoryCacheStorage();
+    const url = createCache({ storage, namespace: 'UrlManager' });
+    const ua = createCache({ storage, namespace: 'UAManager' });
+
+    await url.setAsync('key', 'url');
+    await ua.setAsync('key', 'ua');
+    await ua.clearAsync();
+
+    expect(await createCache({ storage, namespace: 'UrlManager' }).getAsync('key')).toBe('url');
+    expect(await createCache({ storage, namespace: 'UAManager' }).getAsync('key')).toBeUndefined();
+  });
+
+  it('存储中的过期项不应该被读取，pruneStorage 应该清理过期项', async () => {
+    const storage = new MemoryCacheStorage();
+    const cache = createCache({ storage });
+    await cache.setAsync('short', 1, 10);
+    await cache.setAsync('long', 2, 60000);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 100);
+    try {
+      expect(await cache.pruneStorage()).toBe(1);
+      expect(await createCache({ storage }).getAsync('short')).toBeUndefined();
+      expect(await createCache({ storage }).getAsync('long')).toBe(2);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('空间不足时应该淘汰最早写入的条目，仍然不足时返回 false', async () => {
+    const storage = new MemoryCacheStorage({ quota: 220 });
+    const cache = createCache({ storage, namespace: 'q' });
+    const nowSpy = jest.spyOn(Date, 'now');
+
+    try {
+      nowSpy.mockReturnValue(1000);
+      expect(await cache.setAsync('first', 'x'.repeat(40))).toBe(true);
+      nowSpy.mockReturnValue(2000);
+      expect(await cache.setAsync('second', 'y'.repeat(40))).toBe(true);
+      nowSpy.mockReturnValue(3000);
+      expect(await cache.setAsync('third', 'z'.repeat(40))).toBe(true);
+
+      const keys = await storage.keys('js-use-core:q:');
+      expect(keys).not.toContain('js-use-core:q:first');
+      expect(keys).toContain('js-use-core:q:third');
+
+      expect(await cache.setAsync('huge', 'h'.repeat(500))).toBe(false);
+      expect(cache.get('huge')).toBe('h'.repeat(500));
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('后台写入失败时应该调用 onStorageError', async () => {
+    const onStorageError = jest.fn();
+    const storage = new MemoryCacheStorage();
+    jest.spyOn(storage, 'setItem').mockRejectedValue(new Error('disk error'));
+    const cache = createCache({ storage, onStorageError });
+
+    cache.set('a', 1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(onStorageError).toHaveBeenCalledWith(expect.objectContaining({ message: 'disk error' }), 'a');
+    expect(cache.get('a')).toBe(1);
+  });
+
+  it('WebStorageCacheStorage 应该读写 localStorage', async () => {
+    expect(WebStorageCacheStorage.isSupported()).toBe(true);
+    const storage = new WebStorageCacheStorage('local');
+    await createCache({ storage, namespace: 'web' }).setAsync('a', [1, 2]);
+
+    expect(localStorage.getItem('js-use-core:web:a')).toContain('[1,2]');
+    expect(await createCache({ storage, namespace: 'web' }).getAsync('a')).toEqual([1, 2]);
+
+    localStorage.setItem('js-use-core:web:broken', '{');
+    expect(await storage.getItem('js-use-core:web:broken')).toBeUndefined();
+  });
+
+  it('默认序列化钩子应该还原 Blob 和 File', async () => {
+    const file = new File(['hello'], 'a.txt', { type: 'text/plain', lastModified: 1 });
+    const serialized = await defaultCacheSerializer.serialize({ files: [file], blob: new Blob(['hi']), n: 1 });
+    const restored = await defaultCacheSerializer.deserialize(JSON.parse(JSON.stringify(serialized)));
+
+    expect(restored.n).toBe(1);
+    expect(restored.files[0]).toBeInstanceOf(File);
+    expect(restored.files[0]).toMatchObject({ name: 'a.txt', type: 'text/plain', size: 5 });
+    expect(restored.blob).toBeInstanceOf(Blob);
+    expect(restored.blob.size).toBe(2);
+  });
+
+  it('isQuotaExceededError 应该识别不同浏览器的错误', () => {
+    expect(isQuotaExceededError(new DOMException('full', 'QuotaExceededError'))).toBe(true);
+    expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+    expect(isQuotaExceededError({ code: 22 })).toBe(true);
+    expect(isQuotaExceededError(new Error('other'))).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 配置验证器测试
+ */
+
+import { ConfigValidator } from '../../src/core';
+
+describe('ConfigValidator', () => {
+  it('应该检查类型、范围、正则和枚举', () => {
+    const validator = new ConfigValidator([
+      { field: 'name', type: 'string', required: true, pattern: /^[a-z]+$/, max: 5 },
+      { field: 'count', type: 'number', min: 1, max: 10 },
+      { field: 'mode', enum: ['fast', 'slow'] },
+      { field: 'tags', type: 'array', min: 1 }
+    ]);
+
+    expect(validator.validate({ name: 'abc', count: 3, mode: 'fast', tags: ['a'] }).valid).toBe(true);
+
+    const result = validator.validate({ name: 'ABCDEFG', count: 0, mode: 'medium', tags: [] });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'name: Length must be <= 5',
+      'name: Value does not match /^[a-z]+$/',
+      'count: Value must be >= 1',
+      'mode: Expected one of "fast", "slow"',
+      'tags: Length must be >= 1'
+    ]);
+  });
+
+  it('应该汇总所有错误而不是在第一个错误处中断', () => {
+    const validator = new ConfigValidator([
+      { field: 'a', type: 'string', required: true },
+      { field: 'b', type: 'number' },
+      { field: 'c', type: 'array' }
+    ]);
+
+    const result = validator.validate({ b: NaN, c: {} });
+
+    expect(result.issues.map(issue => issue.path)).toEqual(['a', 'b', 'c']);
+    expect(result.errors).toEqual([
+      'a: Required value is missing',
+      'b: Expected number, got NaN',
+      'c: Expected array, got object'
+    ]);
+  });
+
+  it('应该验证嵌套对象和数组元素并报告完整路径', () => {
+    const validator = new ConfigValidator([
+      {
+        field: 'retry',
+        type: 'object',
+        rules: [{ field: 'delay', type: 'number', min: 0 }]
+      },
+      { field: 'hosts', type: 'array', items: { type: 'string', pattern: /^https?:/ } }
+    ]);
+
+    const result = validator.validate({ retry: { delay: -5 }, hosts: ['http://a', 'ftp://b', 3] });
+
+    expect(result.errors).toEqual([
+      'retry.delay: Value must be >= 0',
+      'hosts[1]: Value does not match /^https?:/',
+      'hosts[2]: Expected string, got number'
+    ]);
+  });
+
+  it('应该支持自定义验证器和自定义消息', () => {
+    const validator = new ConfigValidator([
+      { field: 'min', type: 'number' },
+      { field: 'max', type: 'number', validator: (value, config) => value >= config.min || 'max must be >= min' },
+      { field: 'even', type: 'number', validator: value => value % 2 === 0 },
+      { field: 'id', type: 'string', pattern: /^\d+$/, message: 'id must be numeric' }
+    ]);
+
+    expect(validator.validate({ min: 5, max: 1, even: 3, id: 'x' }).errors).toEqual([
+      'max: max must be >= min',
+      'even: Value is invalid',
+      'id: id must be numeric'
+    ]);
+  });
+
+  it('应该为缺失字段填充默认值且不共享默认对象', () => {
+    const validator = new ConfigValidator([
+      { field: 'timeout', type: 'number', default: 1000 },
+      { field: 'list', type: 'array', default: ['a'] },
+      { field: 'nested', type: 'object', rules: [{ field: 'flag', type: 'boolean', default: true }] }
+    ]);
+
+    const first = validator.validate({ nested: {} }).config;
+    const second = validator.validate({}).config;
+    first.list.push('b');
+
+    expect(first).toEqual({ timeout: 1000, list: ['a', 'b'], nested: { flag: true } });
+    expect(second.list).toEqual(['a']);
+    expect(validator.getDefaults()).toEqual({ timeout: 1000, list: ['a'], nested: { flag: true } });
+  });
+
+  it('addRule 应该替换同名字段的规则', () => {
+    const validator = new ConfigValidator([{ field: 'size', type: 'string' }]);
+    validator.addRule({ field: 'size', type: 'number' });
+
+    expect(validator.getRules()).toHaveLength(1);
+    expect(validator.validate({ size: 1 }).valid).toBe(true);
+  });
+
+  it('validateValue 应该验证单个值', () => {
+    const validator = new ConfigValidator();
+
+    expect(validator.validateValue('text', { type: 'string', min: 1 }).valid).toBe(true);
+    expect(validator.validateValue(5, { type: 'string' }, 'input').errors).toEqual(['input: Expected string, got number']);
+    expect(validator.validateValue(undefined, { default: 'x' }).config).toBe('x');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 服务端（Node.js）环境测试
+ */
+
+import {
+  Environment,
+  ManagerRegistry,
+  SERVER_ENVIRONMENT_ERROR,
+  destroyAll,
+  fullscreen,
+  clipboard,
+  isFontLoaded,
+  parseUserAgentFromHeaders,
+  UrlManager,
+  getFileManager,
+  getImageManager,
+  getDeviceInfo,
+  getDevicePerformanceInfo
+} from '../../index';
+import { getQuery } from '../../src/url';
+import { getDeviceCapabilities, getViewportSize, isMobile, isOnline, onNetworkChange, supportsWebP } from '../../src/device';
+
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+describe('服务端环境', () => {
+  afterEach(async () => {
+    Environment.reset();
+    await destroyAll();
+  });
+
+  it('导入时不应该创建任何管理器', () => {
+    expect(ManagerRegistry.list()).toEqual([]);
+  });
+
+  it('Environment 应该识别服务端环境并支持注入全局对象', () => {
+    expect(Environment.isServer()).toBe(true);
+    expect(Environment.getWindow()).toBeUndefined();
+    expect(Environment.getLocation()).toBeUndefined();
+    expect(Environment.getUserAgent()).toBe('');
+
+    Environment.configure({ navigator: { userAgent: CHROME_UA } as Navigator });
+    expect(Environment.getUserAgent()).toBe(CHROME_UA);
+
+    const error = Environment.createServerError('Clipboard API', 'ClipboardManager', 'copyText');
+    expect(error).toMatchObject({ code: SERVER_ENVIRONMENT_ERROR, context: { module: 'ClipboardManager', method: 'copyText' } });
+    expect(error.message).toBe('Clipboard API is not available in server environment');
+  });
+
+  it('应该从请求头解析 UA', () => {
+    expect(parseUserAgentFromHeaders({ 'User-Agent': CHROME_UA }).browser.name).toBe('Chrome');
+    expect(parseUserAgentFromHeaders({ 'user-agent': [CHROME_UA] }).browser.major).toBe(120);
+    expect(parseUserAgentFromHeaders(new Headers({ 'user-agent': CHROME_UA })).os.name).toBe('Windows');
+  });
+
+  it('URL 工具应该基于字符串工作', () => {
+    const manager = new UrlManager('https://example.com/path?a=1');
+    expect(manager.getQuery()).toEqual({ a: '1' });
+    expect(getQuery()).toEqual({});
+  });
+
+  it('全屏和剪贴板应该可以初始化，操作时抛出明确的错误', async () => {
+    expect(fullscreen.isSupported).toBe(false);
+    expect(fullscreen.isFullscreen).toBe(false);
+    await expect(fullscreen.request()).rejects.toMatchObject({ message: 'Fullscreen API is not available in server environment' });
+    await fullscreen.exit();
+
+    await expect(clipboard.copyText('text')).rejects.toMatchObject({ code: SERVER_ENVIRONMENT_ERROR });
+    await expect(clipboard.readText()).rejects.toMatchObject({ message: 'Clipboard API is not available in server environment' });
+  });
+
+  it('字体、文件和图像模块应该有确定的服务端行为', async () => {
+    expect(isFontLoaded('Arial')).toBe(false);
+
+    const fileManager = getFileManager();
+    await fileManager.ready();
+    await expect(fileManager.readFile(new File(['a'], 'a.txt'))).rejects.toMatchObject({ code: SERVER_ENVIRONMENT_ERROR });
+
+    const imageManager = getImageManager();
+    await imageManager.ready();
+    expect(imageManager.dataURLtoBlob('data:text/plain;base64,aGk=').result.size).toBe(2);
+    await expect(imageManager.imgCompress(new File(['a'], 'a.png', { type: 'image/png' })))
+      .rejects.toMatchObject({ code: SERVER_ENVIRONMENT_ERROR });
+  });
+
+  it('设备检测应该返回桌面/未知的默认结果，并支持通过请求头传入 UA', async () => {
+    const info = await getDeviceInfo();
+    expect(info).toMatchObject({
+      type: 'desktop',
+      os: 'unknown',
+      browser: 'unknown',
+      isTouchDevice: false,
+      userAgent: '',
+      screen: { width: 0, height: 0, pixelRatio: 1 }
+    });
+    expect(getViewportSize()).toEqual({ width: 0, height: 0 });
+    expect(getDevicePerformanceInfo().level).toBe('unknown');
+    expect(getDeviceCapabilities().touch).toBe(false);
+    expect(onNetworkChange(() => {})).toEqual(expect.any(Function));
+    await expect(supportsWebP()).resolves.toBe(false);
+
+    const iphone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148';
+    const fromHeaders = await getDeviceInfo({ ua: { headers: { 'user-agent': iphone } } });
+    expect(fromHeaders).toMatchObject({ type: 'mobile', os: 'ios', userAgent: iphone });
+
+    Environment.configure({ navigator: { userAgent: iphone, onLine: false } as Navigator });
+    expect(isMobile()).toBe(true);
+    expect(isOnline()).toBe(false);
+  });
+});
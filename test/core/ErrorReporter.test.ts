@@ -0,0 +1,223 @@
+/**
+ * 错误上报器测试
+ */
+
+import { BaseManager, ErrorHandler, ErrorReporter, ErrorType } from '../../src/core';
+import { ProcessedError } from '../../src/types/errors';
+
+const handler = new ErrorHandler();
+
+// 与各模块的公共方法相同：safeExecute 失败后在 catch 中再次调用 handleError
+class FailingManager extends BaseManager {
+  protected getDefaultOptions() {
+    return { debug: false, timeout: 0, retries: 0, cache: false, cacheTTL: 0, retryPolicy: {}, hooks: {} };
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  async load(): Promise<void> {
+    try {
+      await this.safeExecute(async () => { throw new Error('load failed'); }, 'load');
+    } catch (error) {
+      throw this.handleError(error as Error, 'load');
+    }
+  }
+}
+
+function createProcessedError(message = 'boom', type = ErrorType.NETWORK_ERROR): ProcessedError {
+  return handler.handleError(handler.createError(type, message), {
+    userId: 'u1',
+    userAgent: 'jest',
+    stackTrace: 'Error: boom\n    at test'
+  });
+}
+
+describe('ErrorReporter', () => {
+  let reporter: ErrorReporter;
+
+  afterEach(() => {
+    reporter?.destroy();
+    ErrorHandler.setGlobalReporter(undefined);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('达到 batchSize 时应该批量发送', async () => {
+    const transport = jest.fn();
+    reporter = new ErrorReporter({ transport, batchSize: 2 });
+
+    reporter.report(createProcessedError('a'));
+    expect(transport).not.toHaveBeenCalled();
+    reporter.report(createProcessedError('b'));
+    await Promise.resolve();
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    const [reports, context] = transport.mock.calls[0];
+    expect(reports.map((report: any) => report.message)).toEqual(['a', 'b']);
+    expect(context).toEqual({ endpoint: undefined, apiKey: undefined, unloading: false });
+    expect(reporter.getStats()).toMatchObject({ received: 2, sent: 2, queued: 0 });
+  });
+
+  it('未达到 batchSize 时应该在 reportInterval 后发送', async () => {
+    jest.useFakeTimers();
+    const transport = jest.fn();
+    reporter = new ErrorReporter({ transport, reportInterval: 1000 });
+
+    reporter.report(createProcessedError());
+    jest.advanceTimersByTime(999);
+    expect(transport).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    await Promise.resolve();
+
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该按 sampleRate 采样', () => {
+    reporter = new ErrorReporter({ transport: jest.fn(), sampleRate: 0.5 });
+    const [dropped, kept] = [createProcessedError(), createProcessedError()];
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValueOnce(0.7);
+    expect(reporter.report(dropped)).toBe(false);
+    random.mockReturnValueOnce(0.2);
+    expect(reporter.report(kept)).toBe(true);
+
+    expect(reporter.getStats()).toMatchObject({ sampled: 1, queued: 1 });
+  });
+
+  it('应该支持 filter 和 transform，并忽略取消错误', async () => {
+    const transport = jest.fn();
+    reporter = new ErrorReporter({
+      transport,
+      filter: error => error.type !== ErrorType.USER_ERROR,
+      transform: error => ({ msg: error.message })
+    });
+
+    reporter.report(createProcessedError('user', ErrorType.USER_ERROR));
+    reporter.report(createProcessedError('cancelled', ErrorType.CANCELLED_ERROR));
+    reporter.report(createProcessedError('network'));
+    await reporter.flush();
+
+    expect(transport.mock.calls[0][0]).toEqual([{ msg: 'network' }]);
+    expect(reporter.getStats().filtered).toBe(2);
+  });
+
+  it('filter 或 transform 抛出时应该记录失败，不影响其他错误', async () => {
+    const transport = jest.fn();
+    reporter = new ErrorReporter({
+      transport,
+      batchSize: 2,
+      filter: error => {
+        if (error.message === 'bad filter') {
+          throw new Error('filter bug');
+        }
+        return true;
+      },
+      transform: error => {
+        if (error.message === 'bad transform') {
+          throw new Error('transform bug');
+        }
+        return { msg: error.message };
+      }
+    });
+
+    expect(reporter.report(createProcessedError('bad filter'))).toBe(false);
+    reporter.report(createProcessedError('bad transform'));
+    reporter.report(createProcessedError('network'));
+    await expect(reporter.flush()).resolves.toBeUndefined();
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[0][0]).toEqual([{ msg: 'network' }]);
+    expect(reporter.getStats()).toMatchObject({ sent: 1, failed: 2, queued: 0 });
+  });
+
+  it('每个上报周期内应该限制上报数量', () => {
+    reporter = new ErrorReporter({ transport: jest.fn(), maxReports: 2, batchSize: 10 });
+
+    const results = [1, 2, 3].map(() => reporter.report(createProcessedError()));
+
+    expect(results).toEqual([true, true, false]);
+    expect(reporter.getStats().rateLimited).toBe(1);
+  });
+
+  it('应该按配置移除堆栈和用户信息', async () => {
+    const transport = jest.fn();
+    reporter = new ErrorReporter({ transport, includeStackTrace: false });
+
+    reporter.report(createProcessedError());
+    await reporter.flush();
+
+    const [report] = transport.mock.calls[0][0];
+    expect(report.stack).toBeUndefined();
+    expect(report.context.stackTrace).toBeUndefined();
+    expect(report.context.userId).toBeUndefined();
+    expect(report.context.userAgent).toBeUndefined();
+  });
+
+  it('传输失败时应该记录失败数量', async () => {
+    reporter = new ErrorReporter({ transport: jest.fn().mockRejectedValue(new Error('offline')) });
+
+    reporter.report(createProcessedError());
+    await reporter.flush();
+
+    expect(reporter.getStats()).toMatchObject({ sent: 0, failed: 1 });
+  });
+
+  it('fetch 传输应该携带 apiKey 并以 JSON 发送', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true });
+    (global as any).fetch = fetchMock;
+    reporter = new ErrorReporter({ endpoint: 'https://errors.example.com', apiKey: 'key' });
+
+    reporter.report(createProcessedError());
+    await reporter.flush();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://errors.example.com');
+    expect(init).toMatchObject({ method: 'POST', keepalive: false, headers: { 'X-API-Key': 'key' } });
+    expect(JSON.parse(init.body).reports).toHaveLength(1);
+    delete (global as any).fetch;
+  });
+
+  it('页面隐藏时应该通过 sendBeacon 发送剩余错误', () => {
+    const sendBeacon = jest.fn().mockReturnValue(true);
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+    reporter = new ErrorReporter({ endpoint: '/errors' });
+
+    reporter.report(createProcessedError());
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeacon).toHaveBeenCalledWith('/errors', expect.any(Blob));
+    delete (navigator as any).sendBeacon;
+  });
+
+  it('ErrorHandler 应该把处理后的错误交给全局上报器', async () => {
+    const transport = jest.fn();
+    reporter = new ErrorReporter({ transport });
+    ErrorHandler.setGlobalReporter(reporter);
+
+    new ErrorHandler().handleError(new Error('from manager'), { module: 'file' });
+    await reporter.flush();
+
+    expect(transport.mock.calls[0][0][0]).toMatchObject({
+      message: 'from manager',
+      context: { module: 'file' }
+    });
+  });
+
+  it('一次失败的公共方法调用只应该上报一次', async () => {
+    const transport = jest.fn();
+    reporter = new ErrorReporter({ transport });
+    ErrorHandler.setGlobalReporter(reporter);
+    const manager = new FailingManager();
+    await manager.ready();
+
+    await expect(manager.load()).rejects.toMatchObject({ message: 'load failed' });
+    await reporter.flush();
+
+    expect(reporter.getStats()).toMatchObject({ received: 1, sent: 1 });
+    expect(transport.mock.calls[0][0]).toHaveLength(1);
+    await manager.destroy();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * 错误重试器测试
+ */
+
+import { ErrorRetrier } from '../../src/core';
+
+describe('ErrorRetrier', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('应该在成功前重试并返回结果', async () => {
+    const retrier = new ErrorRetrier({ delay: 0 });
+    let calls = 0;
+
+    const result = await retrier.retry(async () => {
+      calls++;
+      if (calls < 3) {
+        throw new Error('flaky');
+      }
+      return 'ok';
+    }, { maxRetries: 3 });
+
+    expect(result).toMatchObject({ success: true, result: 'ok', attempts: 3 });
+    expect(result.totalTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('重试次数用完后应该返回最终错误而不是抛出', async () => {
+    const retrier = new ErrorRetrier({ delay: 0 });
+    const error = new Error('always');
+
+    const result = await retrier.retry(() => Promise.reject(error), { maxRetries: 2 });
+
+    expect(result).toMatchObject({ success: false, error, attempts: 3 });
+  });
+
+  it('shouldRetry 返回 false 时应该立即停止', async () => {
+    const retrier = new ErrorRetrier({ delay: 0 });
+    const operation = jest.fn().mockRejectedValue(new Error('fatal'));
+    const shouldRetry = jest.fn().mockReturnValue(false);
+
+    const result = await retrier.retry(operation, { maxRetries: 5, shouldRetry });
+
+    expect(result.attempts).toBe(1);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it('应该在每次重试前调用 onRetry 并传入延迟', async () => {
+    const retrier = new ErrorRetrier({ delay: 1, backoffMultiplier: 2, maxDelay: 3 });
+    const onRetry = jest.fn();
+
+    await retrier.retry(() => Promise.reject(new Error('x')), { maxRetries: 3, onRetry });
+
+    expect(onRetry.mock.calls.map(call => [call[1], call[2]])).toEqual([[1, 1], [2, 2], [3, 3]]);
+  });
+
+  it('应该按倍数退避并受最大延迟限制', () => {
+    const retrier = new ErrorRetrier();
+    const config = { delay: 100, backoffMultiplier: 3, maxDelay: 1000, jitter: 'none' as const };
+
+    expect(retrier.calculateDelay(1, config)).toBe(100);
+    expect(retrier.calculateDelay(2, config)).toBe(300);
+    expect(retrier.calculateDelay(3, config)).toBe(900);
+    expect(retrier.calculateDelay(4, config)).toBe(1000);
+  });
+
+  it('应该支持 full 和 decorrelated 抖动', () => {
+    const retrier = new ErrorRetrier();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(retrier.calculateDelay(3, { delay: 100, backoffMultiplier: 2, jitter: 'full' })).toBe(200);
+    expect(retrier.calculateDelay(2, { delay: 100, maxDelay: 10000, jitter: 'decorrelated' }, 400)).toBe(650);
+    expect(retrier.calculateDelay(2, { delay: 100, maxDelay: 300, jitter: 'decorrelated' }, 400)).toBe(300);
+  });
+
+  it('取消信号应该中断等待并停止重试', async () => {
+    const retrier = new ErrorRetrier({ delay: 10000 });
+    const controller = new AbortController();
+    const operation = jest.fn().mockRejectedValue(new Error('retry me'));
+
+    const promise = retrier.retry(operation, { maxRetries: 3, signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+    const result = await promise;
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('AbortError');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该统计重试情况', async () => {
+    const retrier = new ErrorRetrier({ delay: 0 });
+    let calls = 0;
+
+    await retrier.retry(() => Promise.resolve('first'));
+    await retrier.retry(async () => {
+      if (++calls < 2) {
+        throw new Error('once');
+      }
+      return 'second';
+    });
+    await retrier.retry(() => Promise.reject(new Error('never')), { maxRetries: 1 });
+
+    expect(retrier.getRetryStats()).toEqual({
+      totalRetries: 2,
+      successfulRetries: 1,
+      failedRetries: 1,
+      averageAttempts: 5 / 3
+    });
+
+    retrier.resetStats();
+    expect(retrier.getRetryStats().totalRetries).toBe(0);
+  });
+
+  it('setDefaultConfig 应该更新默认配置', () => {
+    const retrier = new ErrorRetrier();
+    retrier.setDefaultConfig({ delay: 250, backoffMultiplier: 1 });
+
+    expect(retrier.getDefaultConfig()).toMatchObject({ delay: 250, backoffMultiplier: 1 });
+    expect(retrier.calculateDelay(5)).toBe(250);
+  });
+});
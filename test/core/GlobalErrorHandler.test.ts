@@ -0,0 +1,139 @@
+/**
+ * 全局错误处理器测试
+ */
+
+import {
+  ErrorHandler,
+  GlobalErrorHandler,
+  installGlobalErrorHandler,
+  uninstallGlobalErrorHandler
+} from '../../src/core';
+import { FileManager } from '../../src/file';
+import { UrlManager } from '../../src/url';
+
+function dispatchRejection(reason: unknown): void {
+  const event = new Event('unhandledrejection') as any;
+  event.reason = reason;
+  window.dispatchEvent(event);
+}
+
+describe('GlobalErrorHandler', () => {
+  let errorHandler: ErrorHandler;
+
+  beforeEach(() => {
+    errorHandler = new ErrorHandler();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    uninstallGlobalErrorHandler();
+    jest.restoreAllMocks();
+  });
+
+  it('应该捕获全局错误并交给 ErrorHandler', () => {
+    const handleError = jest.spyOn(errorHandler, 'handleError');
+    installGlobalErrorHandler({}, errorHandler);
+
+    const error = new Error('uncaught');
+    window.dispatchEvent(new ErrorEvent('error', { error, message: 'uncaught', filename: 'app.js', lineno: 3 }));
+
+    expect(handleError).toHaveBeenCalledWith(error, expect.objectContaining({
+      module: 'Global',
+      method: 'onerror',
+      extra: expect.objectContaining({ filename: 'app.js', lineno: 3 })
+    }));
+  });
+
+  it('应该捕获未处理的 Promise 拒绝，并包装非 Error 原因', () => {
+    const customLogger = jest.fn();
+    installGlobalErrorHandler({ customLogger }, errorHandler);
+
+    dispatchRejection({ code: 42 });
+
+    expect(customLogger).toHaveBeenCalledTimes(1);
+    const processed = customLogger.mock.calls[0][0];
+    expect(processed.message).toBe('Unhandled rejection: {"code":42}');
+    expect(processed.context.method).toBe('unhandledrejection');
+  });
+
+  it('存在多个管理器时，一次未处理的拒绝只由全局错误处理器记录一次', async () => {
+    const customLogger = jest.fn();
+    installGlobalErrorHandler({ customLogger }, errorHandler);
+    const urlManager = new UrlManager('https://example.com');
+    const fileManager = new FileManager();
+    const managerErrors = jest.fn();
+    urlManager.on('error', managerErrors);
+    fileManager.on('error', managerErrors);
+
+    const reason = new Error('request failed');
+    dispatchRejection(reason);
+
+    expect(customLogger).toHaveBeenCalledTimes(1);
+    expect(errorHandler.getErrorHistory()).toHaveLength(1);
+    expect(errorHandler.getErrorHistory()[0].originalError).toBe(reason);
+    expect(managerErrors).not.toHaveBeenCalled();
+    await Promise.all([urlManager.destroy(), fileManager.destroy()]);
+  });
+
+  it('堆栈来自管理器时应该标记模块', () => {
+    const customLogger = jest.fn();
+    const handler = new GlobalErrorHandler({ customLogger }, errorHandler);
+    const error = new Error('copy failed');
+    error.stack = 'Error: copy failed\n    at ClipboardManager.copyText (clipboard.js:10:5)\n    at app.js:1:1';
+
+    handler.capture(error);
+
+    expect(customLogger.mock.calls[0][0].context.module).toBe('ClipboardManager');
+  });
+
+  it('模块已处理的错误被拒绝时应该保留原有上下文且不重复记录', () => {
+    const customLogger = jest.fn();
+    const handleError = jest.spyOn(errorHandler, 'handleError');
+    installGlobalErrorHandler({ customLogger }, errorHandler);
+    const processed = new ErrorHandler().handleError(new Error('copy failed'), {
+      module: 'ClipboardManager',
+      method: 'copyText'
+    });
+
+    dispatchRejection(processed);
+
+    expect(handleError).not.toHaveBeenCalled();
+    expect(customLogger).toHaveBeenCalledWith(processed);
+    expect(processed.message).toBe('copy failed');
+    expect(processed.context.module).toBe('ClipboardManager');
+  });
+
+  it('应该优先使用错误自身上下文中的模块，而不是堆栈中的类名', () => {
+    const customLogger = jest.fn();
+    const handler = new GlobalErrorHandler({ customLogger }, errorHandler);
+    const error = Object.assign(new Error('load failed'), { context: { module: 'FontManager' } });
+    error.stack = 'Error: load failed\n    at t.n (index.min.js:1:2048)\n    at ClipboardManager.copyText (clipboard.js:10:5)';
+
+    handler.capture(error);
+
+    expect(customLogger.mock.calls[0][0].context.module).toBe('FontManager');
+  });
+
+  it('应该遵守 catchGlobalErrors 和 catchUnhandledRejections 配置', () => {
+    const handleError = jest.spyOn(errorHandler, 'handleError');
+    installGlobalErrorHandler({ catchUnhandledRejections: false }, errorHandler);
+
+    dispatchRejection('ignored');
+    window.dispatchEvent(new ErrorEvent('error', { error: new Error('captured'), message: 'captured' }));
+
+    expect(handleError).toHaveBeenCalledTimes(1);
+    expect(handleError.mock.calls[0][0].message).toBe('captured');
+  });
+
+  it('卸载后不应再捕获错误', () => {
+    const handleError = jest.spyOn(errorHandler, 'handleError');
+    const handler = installGlobalErrorHandler({}, errorHandler);
+    expect(handler.isInstalled()).toBe(true);
+
+    uninstallGlobalErrorHandler();
+    dispatchRejection('late');
+
+    expect(handler.isInstalled()).toBe(false);
+    expect(handleError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * 日志传输测试
+ */
+
+import {
+  ConsoleTransport,
+  MemoryTransport,
+  StorageTransport,
+  RemoteTransport,
+  jsonFormatter,
+  prettyFormatter,
+  LogEntry,
+  LogLevel
+} from '../../src/core';
+
+function createEntry(message: string, level = LogLevel.INFO, data?: any): LogEntry {
+  return { level, message, timestamp: Date.UTC(2024, 6, 20), module: 'Test', data };
+}
+
+describe('LogTransports', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('应该提供可读和 JSON 格式化', () => {
+    const entry = createEntry('hello', LogLevel.WARN, { id: 1 });
+
+    expect(prettyFormatter(entry)).toBe('[2024-07-20T00:00:00.000Z] [WARN] [Test] hello');
+    expect(JSON.parse(jsonFormatter(entry))).toEqual({
+      timestamp: '2024-07-20T00:00:00.000Z',
+      level: 'WARN',
+      module: 'Test',
+      message: 'hello',
+      data: { id: 1 }
+    });
+  });
+
+  it('控制台传输应该按级别输出并支持自定义格式化', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    new ConsoleTransport().write(createEntry('plain', LogLevel.WARN, { id: 1 }));
+    new ConsoleTransport({ formatter: jsonFormatter }).write(createEntry('json', LogLevel.ERROR));
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[WARN] [Test] plain'), { id: 1 });
+    expect(JSON.parse(error.mock.calls[0][0] as string).message).toBe('json');
+  });
+
+  it('内存传输应该作为环形缓冲保留最新日志', () => {
+    const transport = new MemoryTransport({ capacity: 3 });
+
+    ['a', 'b', 'c', 'd', 'e'].forEach(message => transport.write(createEntry(message)));
+
+    expect(transport.getEntries().map(entry => entry.message)).toEqual(['c', 'd', 'e']);
+    transport.clear();
+    expect(transport.getEntries()).toEqual([]);
+  });
+
+  it('存储传输应该持久化到 localStorage 并限制数量', () => {
+    const transport = new StorageTransport({ key: 'test-logs', maxEntries: 2 });
+
+    ['a', 'b', 'c'].forEach(message => transport.write(createEntry(message)));
+    transport.flush();
+
+    expect(new StorageTransport({ key: 'test-logs' }).getEntries().map(entry => entry.message)).toEqual(['b', 'c']);
+    transport.clear();
+    expect(localStorage.getItem('test-logs')).toBeNull();
+  });
+
+  it('存储传输应该缓冲日志并批量写入', () => {
+    jest.useFakeTimers();
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+    const transport = new StorageTransport({ key: 'test-logs', batchSize: 3, flushInterval: 500 });
+
+    transport.write(createEntry('a'));
+    transport.write(createEntry('b'));
+    expect(setItem).not.toHaveBeenCalled();
+    expect(transport.getEntries().map(entry => entry.message)).toEqual(['a', 'b']);
+
+    transport.write(createEntry('c'));
+    expect(setItem).toHaveBeenCalledTimes(1);
+
+    transport.write(createEntry('d'));
+    jest.advanceTimersByTime(500);
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(localStorage.getItem('test-logs')!).map((entry: LogEntry) => entry.message))
+      .toEqual(['a', 'b', 'c', 'd']);
+
+    transport.write(createEntry('e'));
+    transport.destroy();
+    expect(setItem).toHaveBeenCalledTimes(3);
+  });
+
+  it('远程传输应该批量发送，失败后重新入队', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(undefined);
+    const transport = new RemoteTransport({ send, batchSize: 2 });
+
+    transport.write(createEntry('a', LogLevel.ERROR));
+    await expect(transport.flush()).rejects.toThrow('offline');
+    transport.write(createEntry('b', LogLevel.ERROR));
+    await transport.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].map((entry: LogEntry) => entry.message)).toEqual(['a', 'b']);
+    expect(transport.level).toBe(LogLevel.WARN);
+  });
+
+  it('远程传输发送失败后应该按指数退避冷却', async () => {
+    jest.useFakeTimers();
+    const send = jest.fn().mockRejectedValue(new Error('offline'));
+    const transport = new RemoteTransport({ send, batchSize: 1, retryDelay: 1000 });
+
+    transport.write(createEntry('a', LogLevel.ERROR));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // 冷却期间达到 batchSize 也不发送
+    transport.write(createEntry('b', LogLevel.ERROR));
+    await Promise.resolve();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].map((entry: LogEntry) => entry.message)).toEqual(['a', 'b']);
+
+    // 第二次失败后冷却时间翻倍
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(send).toHaveBeenCalledTimes(2);
+    send.mockResolvedValue(undefined);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    transport.write(createEntry('c', LogLevel.ERROR));
+    await Promise.resolve();
+    expect(send).toHaveBeenCalledTimes(4);
+    transport.destroy();
+  });
+
+  it('远程传输应该按间隔通过 fetch 发送', async () => {
+    jest.useFakeTimers();
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true });
+    (global as any).fetch = fetchMock;
+    const transport = new RemoteTransport({ endpoint: '/logs', flushInterval: 1000, headers: { 'X-App': 'demo' } });
+
+    transport.write(createEntry('queued', LogLevel.ERROR));
+    expect(fetchMock).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+
+    expect(fetchMock).toHaveBeenCalledWith('/logs', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-App': 'demo' }
+    }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).logs[0].message).toBe('queued');
+    transport.destroy();
+    delete (global as any).fetch;
+  });
+});
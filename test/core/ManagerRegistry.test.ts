@@ -0,0 +1,175 @@
+/**
+ * 管理器注册表测试
+ */
+
+import { BaseManager, BaseOptions, Logger, ManagerRegistry, MemoryTransport, ModuleState, configure, destroyAll } from '../../src/core';
+import { FileManager, getFileManager } from '../../src/file';
+import { getUrl } from '../../src/url';
+import { getDeviceInfo } from '../../src/device';
+
+interface RegistryTestOptions extends BaseOptions {
+  label?: string;
+}
+
+class RegistryTestManager extends BaseManager<RegistryTestOptions> {
+  constructor(options?: RegistryTestOptions) {
+    super(options, 'RegistryTestManager');
+  }
+
+  protected getDefaultOptions(): Required<RegistryTestOptions> {
+    return {
+      debug: false,
+      timeout: 5000,
+      retries: 3,
+      cache: false,
+      retryPolicy: {},
+      hooks: {},
+      label: 'default'
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  getOption<K extends keyof RegistryTestOptions>(key: K): RegistryTestOptions[K] {
+    return this.options[key];
+  }
+}
+
+describe('ManagerRegistry', () => {
+  afterEach(async () => {
+    ManagerRegistry.resetConfig();
+    await destroyAll();
+  });
+
+  it('全局配置应该合并到管理器默认值和构造参数之间', () => {
+    configure({
+      defaults: { timeout: 1000, debug: true },
+      modules: { RegistryTestManager: { label: 'module', timeout: 2000 } }
+    });
+
+    const configured = new RegistryTestManager();
+    expect(configured.getOption('timeout')).toBe(2000);
+    expect(configured.getOption('debug')).toBe(true);
+    expect(configured.getOption('label')).toBe('module');
+    expect(configured.getOption('retries')).toBe(3);
+
+    expect(new RegistryTestManager({ timeout: 10 }).getOption('timeout')).toBe(10);
+
+    ManagerRegistry.resetConfig();
+    expect(new RegistryTestManager().getOption('timeout')).toBe(5000);
+  });
+
+  it('全局配置中的无效值应该回退为管理器默认值', () => {
+    configure({ defaults: { timeout: -1 } });
+    expect(new RegistryTestManager().getOption('timeout')).toBe(5000);
+  });
+
+  it('logger 配置应该转发给 Logger.configure', () => {
+    const transport = new MemoryTransport();
+    configure({ logger: { transports: [transport] } });
+
+    expect(Logger.getGlobalConfig().transports).toEqual([transport]);
+    expect(ManagerRegistry.getGlobalConfig().logger?.transports).toEqual([transport]);
+  });
+
+  it('应该列出存活的管理器并在销毁后移除', async () => {
+    const first = new RegistryTestManager();
+    const second = new RegistryTestManager();
+    await first.ready();
+
+    const infos = ManagerRegistry.list('RegistryTestManager');
+    expect(infos.map(info => info.manager)).toEqual([first, second]);
+    expect(infos[0]).toMatchObject({ name: 'RegistryTestManager', state: ModuleState.INITIALIZED, isDefault: false });
+
+    await first.destroy();
+    expect(ManagerRegistry.list('RegistryTestManager').map(info => info.manager)).toEqual([second]);
+  });
+
+  it('destroyAll 应该销毁所有管理器，默认实例会在下次获取时重新创建', async () => {
+    const manager = new RegistryTestManager();
+    const defaultFileManager = getFileManager();
+
+    expect(getFileManager()).toBe(defaultFileManager);
+    expect(ManagerRegistry.list('FileManager')[0].isDefault).toBe(true);
+
+    await destroyAll();
+
+    expect(manager.state).toBe(ModuleState.DESTROYED);
+    expect(defaultFileManager.state).toBe(ModuleState.DESTROYED);
+    expect(ManagerRegistry.list()).toEqual([]);
+    expect(getFileManager()).not.toBe(defaultFileManager);
+  });
+
+  it('应该允许替换模块的默认实例', async () => {
+    const custom = new FileManager({ timeout: 100 });
+    ManagerRegistry.provide('FileManager', custom);
+
+    expect(getFileManager()).toBe(custom);
+    expect(ManagerRegistry.getDefault('FileManager')).toBe(custom);
+
+    ManagerRegistry.provide('FileManager', null);
+    expect(getFileManager()).not.toBe(custom);
+  });
+
+  it('lazy 代理应该在首次访问时创建默认实例，并转发给替换后的实例', async () => {
+    const lazyFileManager = ManagerRegistry.lazy(getFileManager);
+    expect(ManagerRegistry.getDefault('FileManager')).toBeUndefined();
+
+    expect(lazyFileManager.state).toBe(ModuleState.INITIALIZED);
+    expect(lazyFileManager).toBeInstanceOf(FileManager);
+    expect(ManagerRegistry.getDefault('FileManager')).toBe(getFileManager());
+
+    const custom = new FileManager();
+    ManagerRegistry.provide('FileManager', custom);
+    await lazyFileManager.destroy();
+    expect(custom.state).toBe(ModuleState.DESTROYED);
+  });
+
+  it('lazy 代理应该缓存绑定后的方法，默认实例替换后重新绑定', () => {
+    const lazyFileManager = ManagerRegistry.lazy(getFileManager);
+    const validateFile = lazyFileManager.validateFile;
+    expect(lazyFileManager.validateFile).toBe(validateFile);
+
+    ManagerRegistry.provide('FileManager', new FileManager());
+    expect(lazyFileManager.validateFile).not.toBe(validateFile);
+  });
+
+  it('注册表应该通过弱引用持有管理器，已被回收的管理器不再列出', async () => {
+    const OriginalWeakRef = (globalThis as any).WeakRef;
+    const refs: { target?: object }[] = [];
+    (globalThis as any).WeakRef = class {
+      target?: object;
+      constructor(target: object) {
+        this.target = target;
+        refs.push(this);
+      }
+      deref() {
+        return this.target;
+      }
+    };
+
+    try {
+      const manager = new RegistryTestManager();
+      expect(ManagerRegistry.list('RegistryTestManager').map(info => info.manager)).toEqual([manager]);
+
+      // 模拟垃圾回收
+      refs.forEach(ref => { ref.target = undefined; });
+      expect(ManagerRegistry.list('RegistryTestManager')).toEqual([]);
+      await manager.destroy();
+    } finally {
+      (globalThis as any).WeakRef = OriginalWeakRef;
+    }
+  });
+
+  it('便捷函数创建的临时实例不应该留在注册表中', async () => {
+    for (let i = 0; i < 5; i++) {
+      getUrl('https://example.com/path');
+      await getDeviceInfo();
+    }
+
+    expect(ManagerRegistry.list('UrlManager')).toEqual([]);
+    expect(ManagerRegistry.list('DeviceDetector')).toEqual([]);
+  });
+});
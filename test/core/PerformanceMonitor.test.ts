@@ -0,0 +1,103 @@
+/**
+ * 性能监控器测试
+ */
+
+import { PerformanceMonitor } from '../../src/core';
+
+describe('PerformanceMonitor', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    PerformanceMonitor.configure({ marks: false });
+  });
+
+  it('应该通过 startTiming/endTiming 记录耗时', () => {
+    const monitor = new PerformanceMonitor();
+    const now = jest.spyOn(performance, 'now');
+
+    now.mockReturnValueOnce(100).mockReturnValueOnce(150);
+    monitor.startTiming('parse');
+    expect(monitor.endTiming('parse')).toBe(50);
+    expect(monitor.endTiming('missing')).toBe(0);
+
+    expect(monitor.getMetrics().operations.parse).toMatchObject({ count: 1, average: 50, min: 50, max: 50 });
+  });
+
+  it('应该计算分位延迟', () => {
+    const monitor = new PerformanceMonitor();
+    for (let duration = 1; duration <= 100; duration++) {
+      monitor.recordTiming('op', duration);
+    }
+
+    expect(monitor.getMetrics().operations.op).toMatchObject({
+      count: 100,
+      average: 50.5,
+      last: 100,
+      p50: 50,
+      p90: 90,
+      p95: 95,
+      p99: 99
+    });
+  });
+
+  it('应该只保留 maxSamples 个样本计算分位数', () => {
+    const monitor = new PerformanceMonitor({ maxSamples: 2 });
+    [100, 1, 2].forEach(duration => monitor.recordTiming('op', duration));
+
+    const metrics = monitor.getMetrics().operations.op;
+    expect(metrics.p99).toBe(2);
+    expect(metrics.max).toBe(100);
+  });
+
+  it('应该计算缓存命中率和错误率', async () => {
+    const monitor = new PerformanceMonitor();
+
+    monitor.recordCacheHit();
+    monitor.recordCacheHit();
+    monitor.recordCacheMiss();
+    await monitor.timeAsync('ok', async () => 'done');
+    await expect(monitor.timeAsync('fail', () => Promise.reject(new Error('x')))).rejects.toThrow('x');
+    await expect(monitor.timeAsync('cancel', () => Promise.reject(new Error('abort')), () => false)).rejects.toThrow();
+
+    const metrics = monitor.getMetrics();
+    expect(metrics.cacheHitRate).toBeCloseTo(2 / 3);
+    expect(metrics.totalOperations).toBe(3);
+    expect(metrics.totalErrors).toBe(1);
+    expect(metrics.errorRate).toBeCloseTo(1 / 3);
+    expect(metrics.operations.fail.errors).toBe(1);
+
+    monitor.resetMetrics();
+    expect(monitor.getMetrics()).toMatchObject({ totalOperations: 0, cacheHitRate: 0, operations: {} });
+  });
+
+  it('启用 marks 时应该输出 performance.mark/measure', async () => {
+    const mark = jest.fn();
+    const measure = jest.fn();
+    Object.defineProperty(performance, 'mark', { value: mark, configurable: true });
+    Object.defineProperty(performance, 'measure', { value: measure, configurable: true });
+    PerformanceMonitor.configure({ marks: true });
+
+    await new PerformanceMonitor({ name: 'Demo' }).timeAsync('load', async () => undefined);
+    delete (performance as any).mark;
+    delete (performance as any).measure;
+
+    expect(mark).toHaveBeenCalledWith('js-use-core:Demo:load:start');
+    expect(mark).toHaveBeenCalledWith('js-use-core:Demo:load:end');
+    expect(measure).toHaveBeenCalledWith('js-use-core:Demo:load', 'js-use-core:Demo:load:start', 'js-use-core:Demo:load:end');
+  });
+
+  it('应该汇总已注册监控器的指标', () => {
+    const first = new PerformanceMonitor({ name: 'Same' });
+    const second = new PerformanceMonitor({ name: 'Same' });
+    PerformanceMonitor.register(first);
+    PerformanceMonitor.register(second);
+    second.recordTiming('op', 5);
+
+    const all = PerformanceMonitor.getAllMetrics();
+    expect(all.Same.totalOperations).toBe(0);
+    expect(all['Same#2'].totalOperations).toBe(1);
+
+    PerformanceMonitor.unregister(first);
+    PerformanceMonitor.unregister(second);
+    expect(PerformanceMonitor.getAllMetrics().Same).toBeUndefined();
+  });
+});
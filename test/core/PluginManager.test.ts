@@ -0,0 +1,197 @@
+/**
+ * 插件管理器测试
+ */
+
+import { BaseManager, PluginManager, IPlugin } from '../../src/core';
+
+class TestManager extends BaseManager {
+  protected getDefaultOptions() {
+    return {
+      debug: false,
+      timeout: 5000,
+      retries: 0,
+      cache: false,
+      cacheTTL: 0,
+      retryPolicy: {},
+      hooks: {}
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+}
+
+function createPlugin(
+  name: string,
+  version = '1.0.0',
+  dependencies?: string[],
+  log: string[] = []
+): IPlugin<any> & { install: jest.Mock; uninstall: jest.Mock } {
+  let installed = false;
+  return {
+    name,
+    version,
+    dependencies,
+    install: jest.fn(() => {
+      installed = true;
+      log.push(`install:${name}`);
+    }),
+    uninstall: jest.fn(() => {
+      installed = false;
+      log.push(`uninstall:${name}`);
+    }),
+    isInstalled: () => installed
+  };
+}
+
+describe('PluginManager', () => {
+  let manager: TestManager;
+
+  beforeEach(() => {
+    manager = new TestManager();
+  });
+
+  afterEach(() => {
+    if (!manager.getStatus().destroyed) {
+      manager.destroy();
+    }
+  });
+
+  it('应该通过 use 注册并启用插件', async () => {
+    const plugin = createPlugin('a');
+    const listener = jest.fn();
+    manager.on('pluginEnabled', listener);
+
+    const result = await manager.use(plugin);
+
+    expect(result).toBe(manager);
+    expect(plugin.install).toHaveBeenCalledWith(manager);
+    expect(plugin.isInstalled()).toBe(true);
+    expect(manager.getPluginManager().isEnabled('a')).toBe(true);
+    expect(listener).toHaveBeenCalledWith({ plugin });
+  });
+
+  it('应该按依赖顺序启用插件', async () => {
+    const log: string[] = [];
+    const plugins = manager.getPluginManager();
+    plugins.register(createPlugin('c', '1.0.0', ['b'], log));
+    plugins.register(createPlugin('b', '1.0.0', ['a'], log));
+    plugins.register(createPlugin('a', '1.0.0', [], log));
+
+    await plugins.enable('c');
+
+    expect(log).toEqual(['install:a', 'install:b', 'install:c']);
+    expect(plugins.getEnabled().map(plugin => plugin.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('禁用插件时应该先禁用依赖它的插件', async () => {
+    const log: string[] = [];
+    const plugins = manager.getPluginManager();
+    plugins.register(createPlugin('a', '1.0.0', [], log));
+    plugins.register(createPlugin('b', '1.0.0', ['a'], log));
+    await plugins.enable('b');
+    log.length = 0;
+
+    await plugins.disable('a');
+
+    expect(log).toEqual(['uninstall:b', 'uninstall:a']);
+    expect(plugins.isEnabled('a')).toBe(false);
+    expect(plugins.isEnabled('b')).toBe(false);
+    expect(plugins.has('a')).toBe(true);
+
+    await plugins.enable('a');
+    expect(plugins.isEnabled('a')).toBe(true);
+  });
+
+  it('应该校验依赖版本', async () => {
+    const plugins = manager.getPluginManager();
+    plugins.register(createPlugin('core', '1.4.2'));
+    plugins.register(createPlugin('ok', '1.0.0', ['core@^1.2.0']));
+    plugins.register(createPlugin('tilde', '1.0.0', ['core@~1.3.0']));
+    plugins.register(createPlugin('range', '1.0.0', ['core@>=1.0.0 <2.0.0']));
+
+    await expect(plugins.enable('ok')).resolves.toBeUndefined();
+    await expect(plugins.enable('range')).resolves.toBeUndefined();
+    await expect(plugins.enable('tilde')).rejects.toThrow('requires core@~1.3.0');
+    expect(plugins.isEnabled('tilde')).toBe(false);
+  });
+
+  it('缺少依赖或存在循环依赖时应该拒绝启用', async () => {
+    const plugins = manager.getPluginManager();
+    plugins.register(createPlugin('lonely', '1.0.0', ['missing']));
+    plugins.register(createPlugin('x', '1.0.0', ['y']));
+    plugins.register(createPlugin('y', '1.0.0', ['x']));
+
+    await expect(plugins.enable('lonely')).rejects.toThrow('"missing", which is not registered');
+    await expect(plugins.enable('x')).rejects.toThrow('Circular plugin dependency: x -> y -> x');
+  });
+
+  it('应该拒绝无效或重复的插件', async () => {
+    const plugins = manager.getPluginManager();
+
+    expect(() => plugins.register(createPlugin('bad', 'latest'))).toThrow('invalid version');
+    expect(() => plugins.register({ name: 'nope', version: '1.0.0' } as any)).toThrow('install()');
+
+    plugins.register(createPlugin('dup'));
+    expect(() => plugins.register(createPlugin('dup'))).toThrow('already registered');
+    await expect(manager.use(createPlugin('dup'))).rejects.toMatchObject({
+      context: { method: 'use' }
+    });
+  });
+
+  it('重复启用同一插件只应安装一次', async () => {
+    const plugin = createPlugin('once');
+    await Promise.all([manager.use(plugin), manager.use(plugin)]);
+
+    expect(plugin.install).toHaveBeenCalledTimes(1);
+  });
+
+  it('unregister 应该先卸载再移除插件', async () => {
+    const plugin = createPlugin('temp');
+    await manager.use(plugin);
+
+    await manager.getPluginManager().unregister('temp');
+
+    expect(plugin.uninstall).toHaveBeenCalledTimes(1);
+    expect(manager.getPluginManager().has('temp')).toBe(false);
+  });
+
+  it('管理器销毁时应该按逆序卸载插件', async () => {
+    const log: string[] = [];
+    await manager.use(createPlugin('a', '1.0.0', [], log));
+    await manager.use(createPlugin('b', '1.0.0', ['a'], log));
+    log.length = 0;
+
+    manager.destroy();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(log).toEqual(['uninstall:b', 'uninstall:a']);
+  });
+
+  it('destroy() 应该等待异步卸载完成', async () => {
+    const plugin = createPlugin('slow');
+    let uninstalled = false;
+    plugin.uninstall.mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      uninstalled = true;
+    });
+    await manager.use(plugin);
+
+    await manager.destroy();
+
+    expect(uninstalled).toBe(true);
+  });
+
+  it('可以单独使用', async () => {
+    const host = { emit: jest.fn(() => true) };
+    const plugins = new PluginManager(host);
+    const plugin = createPlugin('standalone');
+
+    plugins.register(plugin);
+    await plugins.enable('standalone');
+
+    expect(plugin.install).toHaveBeenCalledWith(host);
+    expect(host.emit).toHaveBeenCalledWith('pluginEnabled', { plugin });
+  });
+});
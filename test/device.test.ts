@@ -11,7 +11,8 @@ import {
   detectBrowser,
   DeviceType,
   OSType,
-  BrowserType
+  BrowserType,
+  DeviceDetector
 } from '../src/device';
 
 describe('设备检测模块测试', () => {
@@ -94,4 +95,31 @@ describe('设备检测模块测试', () => {
     });
   });
 
-});
\ No newline at end of file
+  describe('DeviceDetector 生命周期', () => {
+    test('运行时应该监听设备变化，暂停期间停止监听', async () => {
+      const detector = new DeviceDetector({ cache: false });
+      const refresh = jest.spyOn(detector, 'refresh');
+
+      await detector.start();
+      window.dispatchEvent(new Event('resize'));
+      expect(refresh).toHaveBeenCalledTimes(1);
+
+      await detector.pause();
+      window.dispatchEvent(new Event('resize'));
+      window.dispatchEvent(new Event('online'));
+      expect(refresh).toHaveBeenCalledTimes(1);
+
+      // 恢复时刷新暂停期间可能变化的设备信息
+      await detector.resume();
+      expect(refresh).toHaveBeenCalledTimes(2);
+      window.dispatchEvent(new Event('offline'));
+      expect(refresh).toHaveBeenCalledTimes(3);
+
+      await detector.stop();
+      window.dispatchEvent(new Event('resize'));
+      expect(refresh).toHaveBeenCalledTimes(3);
+      await detector.destroy();
+    });
+  });
+
+});
@@ -164,6 +164,37 @@ describe('文件操作函数测试', () => {
   test('urlToBase64 应该将URL转换为Base64字符串', async () => {
     const result = await urlToBase64('https://example.com/image.jpg');
     expect(result).toBe(testBase64);
-    expect(global.fetch).toHaveBeenCalledWith('https://example.com/image.jpg');
+    expect(global.fetch).toHaveBeenCalledWith('https://example.com/image.jpg', {
+      signal: expect.any(AbortSignal)
+    });
+  });
+
+  test('urlToBase64 应该支持通过 AbortSignal 取消请求', async () => {
+    let fetchSignal: AbortSignal | undefined;
+    (global.fetch as jest.Mock).mockImplementationOnce((_url, init) => {
+      fetchSignal = init.signal;
+      return new Promise((_, reject) => {
+        init.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    });
+
+    const controller = new AbortController();
+    const promise = urlToBase64('https://example.com/slow.jpg', { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ type: 'CANCELLED_ERROR' });
+    expect(fetchSignal?.aborted).toBe(true);
+  });
+
+  test('urlToBase64 在信号已取消时不应发起请求', async () => {
+    (global.fetch as jest.Mock).mockClear();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      urlToBase64('https://example.com/never.jpg', { signal: controller.signal })
+    ).rejects.toMatchObject({ type: 'CANCELLED_ERROR' });
+    expect(global.fetch).not.toHaveBeenCalled();
   });
 });
\ No newline at end of file
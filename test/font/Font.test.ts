@@ -155,6 +155,30 @@ describe('fontUtils', () => {
       const result = await addFont('TestFont', '/test.woff2');
       expect(result).toBe(false);
     });
+
+    it('信号已取消时应该拒绝并且不添加字体', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(addFont('TestFont', '/test.woff2', { signal: controller.signal }))
+        .rejects.toMatchObject({ type: 'CANCELLED_ERROR' });
+      expect(mockFonts.add).not.toHaveBeenCalled();
+    });
+
+    it('加载过程中取消应该移除字体', async () => {
+      (global as any).FontFace.mockImplementationOnce((family: string, source: string) => ({
+        family,
+        source,
+        load: jest.fn(() => new Promise(() => {}))
+      }));
+      const controller = new AbortController();
+
+      const result = await addFont('PendingFont', '/pending.woff2', { signal: controller.signal });
+      expect(result).toBe(true);
+
+      controller.abort();
+      expect(mockFonts.delete).toHaveBeenCalledWith(expect.objectContaining({ family: 'PendingFont' }));
+    });
   });
 
   describe('addFontFace', () => {
@@ -285,6 +309,42 @@ describe('fontUtils', () => {
       expect(results.every(r => typeof r.success === 'boolean')).toBe(true);
     });
 
+    it('应该以可跟踪操作的方式批量添加字体并报告进度', async () => {
+      const { FontManager } = await import('../../src/font');
+      const manager = new FontManager({ concurrency: 1 });
+      await manager.ready();
+      const progress = jest.fn();
+      manager.on('operationProgress', progress);
+
+      const id = manager.startAddFonts([
+        { name: 'Tracked1', url: '/tracked1.woff2' },
+        { name: 'Tracked2', url: '/tracked2.woff2' }
+      ]);
+      const result = await manager.getOperationManager().wait<Array<{ name: string }>>(id);
+
+      expect(result.status).toBe('completed');
+      expect(result.result!.map(item => item.name)).toEqual(['Tracked1', 'Tracked2']);
+      expect(progress.mock.calls.map(([operation]) => operation.progress)).toEqual([50, 100]);
+      manager.destroy();
+    });
+
+    it('暂停管理器时应该暂停字体加载观察的检测轮询', async () => {
+      const { FontManager } = await import('../../src/font');
+      const manager = new FontManager();
+      await manager.ready();
+      const observer = (manager as any).loadObserver;
+
+      await manager.pause();
+      expect(observer.isPaused()).toBe(true);
+      await manager.resume();
+      expect(observer.isPaused()).toBe(false);
+
+      await manager.pause();
+      await manager.stop();
+      expect(observer.isPaused()).toBe(false);
+      await manager.destroy();
+    });
+
     it('应该支持字体预加载', async () => {
       const { preloadFonts } = await import('../../src/font/utils');
       
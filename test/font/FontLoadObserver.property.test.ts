@@ -475,4 +475,35 @@ describe('FontLoadObserver Property Tests', () => {
       { numRuns: 10 } // Reduced due to timing complexity
     );
   });
-});
\ No newline at end of file
+
+  test('pause() should defer detection polling until resume()', async () => {
+    // A dedicated instance: the async properties above may still be using the shared one
+    const paused = new FontLoadObserver(timingController);
+    const detect = jest.spyOn(paused as any, 'performFontDetectionTest').mockReturnValue(false);
+    const observing = paused.observeFont('Paused Font', { method: 'detection', timeout: 1000, pollInterval: 5 });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    paused.pause();
+    expect(paused.isPaused()).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const callsWhilePaused = detect.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(detect).toHaveBeenCalledTimes(callsWhilePaused);
+
+    detect.mockReturnValue(true);
+    paused.resume();
+    await expect(observing).resolves.toMatchObject({ status: 'loaded', loadMethod: 'detection' });
+  });
+
+  test('stopObserving() should settle an observation paused mid-polling', async () => {
+    const stopped = new FontLoadObserver(timingController);
+    jest.spyOn(stopped as any, 'performFontDetectionTest').mockReturnValue(false);
+    const observing = stopped.observeFont('Stopped Font', { method: 'detection', timeout: 1000, pollInterval: 5 });
+
+    stopped.pause();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    stopped.stopObserving('Stopped Font');
+
+    await expect(observing).resolves.toMatchObject({ status: 'error' });
+  });
+});
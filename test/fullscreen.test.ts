@@ -111,34 +111,36 @@ describe('FullscreenManager', () => {
 
     it('should support event system', () => {
       const listener = jest.fn();
+      const payload = { element: null };
       
       // Test adding listener
-      manager.on('test', listener);
-      expect(manager.listenerCount('test')).toBe(1);
+      manager.on('exit', listener);
+      expect(manager.listenerCount('exit')).toBe(1);
       
       // Test emitting event
-      manager.emit('test', 'data');
-      expect(listener).toHaveBeenCalledWith('data');
+      manager.emit('exit', payload);
+      expect(listener).toHaveBeenCalledWith(payload);
       
       // Test removing listener
-      manager.off('test', listener);
-      expect(manager.listenerCount('test')).toBe(0);
+      manager.off('exit', listener);
+      expect(manager.listenerCount('exit')).toBe(0);
     });
 
     it('should support once listeners', () => {
       const listener = jest.fn();
+      const first = { element: null };
       
-      manager.once('test', listener);
-      expect(manager.listenerCount('test')).toBe(1);
+      manager.once('exit', listener);
+      expect(manager.listenerCount('exit')).toBe(1);
       
       // Emit twice
-      manager.emit('test', 'data1');
-      manager.emit('test', 'data2');
+      manager.emit('exit', first);
+      manager.emit('exit', { element: null });
       
       // Should only be called once
       expect(listener).toHaveBeenCalledTimes(1);
-      expect(listener).toHaveBeenCalledWith('data1');
-      expect(manager.listenerCount('test')).toBe(0);
+      expect(listener).toHaveBeenCalledWith(first);
+      expect(manager.listenerCount('exit')).toBe(0);
     });
   });
 
@@ -184,7 +186,7 @@ describe('FullscreenManager', () => {
       expect(typeof manager.isEnabled).toBe('boolean');
       expect(typeof manager.isFullscreen).toBe('boolean');
       expect(manager.element === null || typeof manager.element === 'object').toBe(true);
-      expect(typeof manager.state).toBe('object');
+      expect(typeof manager.fullscreenState).toBe('object');
       expect(typeof manager.performanceData).toBe('object');
     });
 
@@ -209,8 +211,23 @@ describe('FullscreenManager', () => {
       expect(typeof performanceData.successCount).toBe('number');
     });
 
+    it('should derive performance data from the unified metrics', async () => {
+      const monitored = new FullscreenManager({ retries: 0 });
+      await expect(monitored.request(mockElement as any)).rejects.toMatchObject({ message: expect.any(String) });
+      (monitored as any).handleFullscreenError(new Event('fullscreenerror'));
+
+      const metrics = monitored.getMetrics();
+      expect(monitored.performanceData).toMatchObject({
+        enterTime: metrics.operations.request.last,
+        successCount: 0,
+        errorCount: 2
+      });
+      expect(metrics.totalErrors).toBe(2);
+      monitored.destroy();
+    });
+
     it('should handle state updates', () => {
-      const state = manager.state;
+      const state = manager.fullscreenState;
       expect(state).toHaveProperty('isFullscreen');
       expect(state).toHaveProperty('element');
       expect(typeof state.isFullscreen).toBe('boolean');
@@ -10,8 +10,10 @@ import {
   parseUA,
   generateUA,
   satisfies,
-  isModern
+  isModern,
+  UAManager
 } from '../src/ua';
+import { MemoryCacheStorage } from '../src/core';
 
 describe('User Agent 解析模块测试', () => {
   
@@ -248,13 +250,50 @@ describe('User Agent 解析模块测试', () => {
       }).toThrow();
     });
 
+    test('异步解析应该读取持久化存储中的结果', async () => {
+      const storage = new MemoryCacheStorage();
+      const ua = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36';
+      const first = new UAManager({ cache: { storage } });
+      const parsed = await first.parse(ua);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await first.destroy();
+
+      const reloaded = new UAManager({ cache: { storage } });
+      const onCacheHit = jest.fn();
+      reloaded.on('cacheHit', onCacheHit);
+
+      const result = await reloaded.parse(ua);
+      expect(result).toEqual(parsed);
+      expect(onCacheHit).toHaveBeenCalledTimes(1);
+      expect(Object.isFrozen(result.browser)).toBe(true);
+      await reloaded.destroy();
+    });
+
     test('应该正确清除缓存', () => {
       UA.parse('Chrome/120.0.0.0');
       expect(UA.getCacheSize()).toBe(1);
-      
+
       UA.clearCache();
       expect(UA.getCacheSize()).toBe(0);
     });
+
+    test('统计信息应该与 getMetrics() 的指标一致', async () => {
+      const manager = new UAManager();
+      const ua = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36';
+      manager.parseSync(ua);
+      manager.parseSync(ua);
+      await manager.parse('Firefox/121.0');
+
+      const metrics = manager.getMetrics();
+      expect(manager.getStats()).toMatchObject({ totalParses: 3, cacheHits: 1, errors: 0, cacheHitRate: 1 / 3 });
+      expect(metrics.operations.parseSync.count).toBe(1);
+      expect(metrics.operations.parse.count).toBe(1);
+
+      manager.resetStats();
+      expect(manager.getStats()).toMatchObject({ totalParses: 0, cacheHits: 0 });
+      expect(manager.getMetrics().totalOperations).toBe(0);
+      await manager.destroy();
+    });
   });
 
   describe('插件系统', () => {
@@ -290,6 +329,23 @@ describe('User Agent 解析模块测试', () => {
     });
   });
 
+  describe('取消解析', () => {
+    test('parseAsync 在信号已取消时应该拒绝', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(UA.parseAsync('Chrome/120.0.0.0', { signal: controller.signal }))
+        .rejects.toMatchObject({ type: 'CANCELLED_ERROR' });
+    });
+
+    test('未取消时 parseAsync 应该正常解析', async () => {
+      const controller = new AbortController();
+      const result = await UA.parseAsync('Chrome/120.0.0.0', { signal: controller.signal });
+
+      expect(result.browser.name).toBe('Chrome');
+    });
+  });
+
   describe('便捷函数', () => {
     test('getCurrentUA 应该返回当前环境 UA', () => {
       const current = getCurrentUA();
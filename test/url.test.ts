@@ -13,8 +13,10 @@ import {
   getFileExtensionFromUrl, 
   getFileNameFromUrl,
   UrlManager,
-  buildUrl
+  buildUrl,
+  getUrl
 } from '../src/url';
+import { PerformanceMonitor } from '../src/core';
 
 describe('URL 模块测试', () => {
   
@@ -195,6 +197,25 @@ describe('URL 模块测试', () => {
       expect(query.existing).toBe('value');
       expect(query.new).toBe('param');
     });
+
+    test('getUrl 不应该留下临时实例的性能监控器', () => {
+      const before = Object.keys(PerformanceMonitor.getAllMetrics()).length;
+      for (let i = 0; i < 20; i++) {
+        expect(getUrl('https://a.com/x').hostname).toBe('a.com');
+      }
+
+      expect(Object.keys(PerformanceMonitor.getAllMetrics())).toHaveLength(before);
+    });
+
+    test('自动初始化完成后应该保持已初始化状态', async () => {
+      const manager = new UrlManager('https://a.com/x?id=1');
+
+      await expect(manager.ready()).resolves.toBeUndefined();
+      expect(manager.state).toBe('initialized');
+      expect(manager.isInitialized).toBe(true);
+      expect(manager.getQuery()).toEqual({ id: '1' });
+      await manager.destroy();
+    });
   });
 
 });
\ No newline at end of file